@@ -27,7 +27,12 @@ import MinhaContaPage from "./pages/MinhaContaPage";
 import HistoricoTransacoesPage from "./pages/HistoricoTransacoesPage";
 import ContatoPage from "./pages/ContatoPage";
 import CalculoContratoBancario from "./pages/CalculoContratoBancario";
+import AtualizacaoDebitoJudicial from "./pages/AtualizacaoDebitoJudicial";
 import CalculoPensaoAlimenticia from "./pages/CalculoPensaoAlimenticia";
+import SimuladorRevisionalPensao from "./pages/SimuladorRevisionalPensao";
+import CalculoVerbasRescisorias from "./pages/CalculoVerbasRescisorias";
+import CalculoPrescricao from "./pages/CalculoPrescricao";
+import CalculoCustas from "./pages/CalculoCustas";
 import CalculoPena from "./pages/CalculoPena";
 import ComprarCreditosPage from "./pages/ComprarCreditosPage";
 import PaymentSuccessPage from "./pages/PaymentSuccessPage";
@@ -58,7 +63,12 @@ function AppContent() {
       <Route path="/privacidade" element={<PageWrapper><Privacidade /></PageWrapper>} />
       <Route path="/contato" element={<PageWrapper><ContatoPage /></PageWrapper>} />
       <Route path="/calculo-contrato-bancario" element={<PageWrapper><ProtectedRoute gate="premium"><CalculoContratoBancario /></ProtectedRoute></PageWrapper>} />
+      <Route path="/atualizacao-debito-judicial" element={<PageWrapper><ProtectedRoute gate="premium"><AtualizacaoDebitoJudicial /></ProtectedRoute></PageWrapper>} />
       <Route path="/calculo-pensao-alimenticia" element={<PageWrapper><ProtectedRoute gate="premium"><CalculoPensaoAlimenticia /></ProtectedRoute></PageWrapper>} />
+      <Route path="/simulador-revisional-pensao" element={<PageWrapper><ProtectedRoute gate="premium"><SimuladorRevisionalPensao /></ProtectedRoute></PageWrapper>} />
+      <Route path="/calculo-verbas-rescisorias" element={<PageWrapper><ProtectedRoute gate="premium"><CalculoVerbasRescisorias /></ProtectedRoute></PageWrapper>} />
+      <Route path="/calculo-prescricao" element={<PageWrapper><ProtectedRoute gate="premium"><CalculoPrescricao /></ProtectedRoute></PageWrapper>} />
+      <Route path="/calculo-custas" element={<PageWrapper><ProtectedRoute gate="premium"><CalculoCustas /></ProtectedRoute></PageWrapper>} />
       <Route path="/calculo-pena" element={<PageWrapper><ProtectedRoute gate="premium"><CalculoPena /></ProtectedRoute></PageWrapper>} />
       <Route path="/dashboard" element={<PageWrapper><ProtectedRoute gate="dashboard"><Dashboard /></ProtectedRoute></PageWrapper>} />
       <Route path="/chat" element={<PageWrapper><Chat /></PageWrapper>} />
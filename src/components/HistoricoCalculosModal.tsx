@@ -11,6 +11,7 @@ import { useUserTimezone } from "@/hooks/useUserTimezone";
 import { useExportDocument } from "@/hooks/useExportDocument";
 import { FileText, Calendar, DollarSign, TrendingUp, X, Trash2 } from "lucide-react";
 import { toast } from "sonner";
+import type { ResultadoEstruturado } from "@/types/calculoContrato";
 
 interface CalculoHistorico {
   id: string;
@@ -30,6 +31,22 @@ interface CalculoHistorico {
   valor_corrigido: number;
   diferenca: number;
   detalhamento: string;
+  sistema_amortizacao: string | null;
+  numero_parcelas: number | null;
+  parcelas_pagas: number | null;
+  modalidade_credito: string | null;
+  taxa_media_bacen: number | null;
+  repeticao_dobro: boolean;
+  valor_parcela: number | null;
+  taxa_anual_declarada: number | null;
+  pagamentos: { data: string; valor: string; observacao: string }[] | null;
+  modo_calculo: string;
+  tipo_rotativo: string | null;
+  dia_fechamento: number | null;
+  dia_vencimento: number | null;
+  extrato_texto: string | null;
+  taxas_ciclos: { competencia: string; taxaCobrada: string; taxaMedia: string }[] | null;
+  resultado_estruturado: ResultadoEstruturado | null;
   created_at: string;
 }
 
@@ -49,7 +66,7 @@ const HistoricoCalculosModal: React.FC<HistoricoCalculosModalProps> = ({
   const [selectedCalculation, setSelectedCalculation] = useState<CalculoHistorico | null>(null);
   const { user } = useAuth();
   const { formatDateInUserTimezone } = useUserTimezone();
-  const { copyCalculoContrato, loading: exportLoading } = useExportDocument();
+  const { copyCalculoContrato, exportCalculoContratoPlanilha, loading: exportLoading } = useExportDocument();
 
   useEffect(() => {
     if (isOpen && user) {
@@ -68,7 +85,7 @@ const HistoricoCalculosModal: React.FC<HistoricoCalculosModalProps> = ({
         .limit(50);
 
       if (error) throw error;
-      setHistorico(data || []);
+      setHistorico((data as unknown as CalculoHistorico[]) || []);
     } catch (error) {
       console.error('Erro ao buscar histórico:', error);
       toast.error('Erro ao carregar histórico');
@@ -156,7 +173,9 @@ const HistoricoCalculosModal: React.FC<HistoricoCalculosModalProps> = ({
                               {formatDateInUserTimezone(calculo.created_at, 'dd/MM/yyyy HH:mm')}
                             </CardTitle>
                             <CardDescription className="text-xs text-slate-400 mt-1">
-                              Contrato: {formatCurrency(calculo.valor_contrato)}
+                              {calculo.modo_calculo === 'rotativo'
+                                ? `${calculo.tipo_rotativo === 'cartao' ? 'Cartão' : 'Cheque especial'}: ${formatCurrency(calculo.valor_contrato)} em débitos`
+                                : `Contrato: ${formatCurrency(calculo.valor_contrato)}`}
                             </CardDescription>
                           </div>
                           <Button
@@ -373,8 +392,8 @@ const HistoricoCalculosModal: React.FC<HistoricoCalculosModalProps> = ({
                     {/* Detalhamento completo */}
                     <Card className="bg-slate-800/30 border-slate-600">
                       <CardHeader className="pb-3">
-                        <div className="flex items-center justify-between">
-                          <CardTitle className="text-sm text-white flex items-center gap-2">
+                        <div className="flex items-center gap-2">
+                          <CardTitle className="text-sm text-white flex items-center gap-2 mr-auto">
                             <FileText className="w-4 h-4 text-primary" />
                             Relatório Detalhado
                           </CardTitle>
@@ -420,6 +439,16 @@ const HistoricoCalculosModal: React.FC<HistoricoCalculosModalProps> = ({
                               </div>
                             )}
                           </Button>
+                          {selectedCalculation.resultado_estruturado && (
+                            <Button
+                              onClick={() => exportCalculoContratoPlanilha(selectedCalculation.resultado_estruturado!, 'xlsx')}
+                              disabled={exportLoading}
+                              size="sm"
+                              className="bg-primary/10 border border-primary/30 text-primary hover:bg-primary/20"
+                            >
+                              XLSX
+                            </Button>
+                          )}
                         </div>
                       </CardHeader>
                       <CardContent>
@@ -0,0 +1,69 @@
+import React from 'react';
+import { Badge } from "@/components/ui/badge";
+import { useExportDocument } from "@/hooks/useExportDocument";
+import { Gavel } from "lucide-react";
+import HistoricoResultadosModal from "@/components/HistoricoResultadosModal";
+import type { CalculoDebitoJudicial, ParcelaDebito } from "@/types/debitoJudicial";
+
+export interface DebitoJudicialHistorico {
+  id: string;
+  processo: string | null;
+  exequente: string | null;
+  executado: string | null;
+  tribunal: string;
+  indice_correcao: string;
+  data_citacao: string;
+  data_calculo: string;
+  inicio_selic: string | null;
+  juros_mensais: number;
+  honorarios_sucumbencia: number;
+  multa_523: boolean;
+  honorarios_523: boolean;
+  parcelas: ParcelaDebito[];
+  observacoes: string | null;
+  valor_original: number;
+  subtotal: number;
+  valor_total: number;
+  detalhamento: string;
+  calculo: CalculoDebitoJudicial;
+  created_at: string;
+}
+
+interface HistoricoDebitoJudicialModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelectCalculation?: (calculo: DebitoJudicialHistorico) => void;
+}
+
+const HistoricoDebitoJudicialModal: React.FC<HistoricoDebitoJudicialModalProps> = (props) => {
+  const { exportDebitoJudicialPlanilha, loading: exportLoading } = useExportDocument();
+
+  return (
+    <HistoricoResultadosModal<DebitoJudicialHistorico>
+      {...props}
+      tabela="calculo_debito_judicial_historico"
+      icone={Gavel}
+      titulo="Histórico de Atualizações de Débito"
+      descricao="Seus cálculos anteriores de cumprimento de sentença"
+      resumo={(calculo) => calculo.processo || 'Sem número de processo'}
+      valorBase={{ rotulo: 'Valor original', valor: (calculo) => calculo.valor_original }}
+      rotuloTotal="Total do débito"
+      etiquetas={(calculo) => (
+        <>
+          <Badge variant="outline" className="text-xs border-slate-600 text-slate-300">
+            {calculo.tribunal.toUpperCase()}
+          </Badge>
+          {(calculo.multa_523 || calculo.honorarios_523) && (
+            <Badge variant="outline" className="text-xs border-orange-600 text-orange-300">
+              Art. 523
+            </Badge>
+          )}
+        </>
+      )}
+      exportarPlanilha={(calculo) => exportDebitoJudicialPlanilha(calculo.calculo, 'xlsx')}
+      exportando={exportLoading}
+    />
+  );
+};
+
+export default HistoricoDebitoJudicialModal;
@@ -11,6 +11,7 @@ import { useUserTimezone } from "@/hooks/useUserTimezone";
 import { useExportDocument } from "@/hooks/useExportDocument";
 import { FileText, Calendar, Heart, TrendingUp, X, Trash2, Users } from "lucide-react";
 import { toast } from "sonner";
+import type { PagamentoPensao, RendaMensal } from "@/types/pensao";
 
 interface CalculoPensaoHistorico {
   id: string;
@@ -32,6 +33,14 @@ interface CalculoPensaoHistorico {
   valor_corrigido: number;
   detalhamento: string;
   created_at: string;
+  tribunal?: string | null;
+  indice_correcao?: string | null;
+  juros_mensais?: number | null;
+  aplicar_multa?: boolean;
+  correcao_monetaria?: number;
+  pagamentos?: PagamentoPensao[];
+  historico_renda?: RendaMensal[];
+  data_ajuizamento?: string | null;
 }
 
 interface HistoricoPensaoModalProps {
@@ -65,6 +74,7 @@ const HistoricoPensaoModal: React.FC<HistoricoPensaoModalProps> = ({
         .from('calculo_pensao_historico')
         .select('*')
         .eq('user_id', user?.id)
+        .neq('tipo_calculo', 'simulacao_revisional') // simulações ficam no simulador
         .order('created_at', { ascending: false })
         .limit(50);
 
@@ -363,9 +373,9 @@ const HistoricoPensaoModal: React.FC<HistoricoPensaoModalProps> = ({
                                 </div>
                               </div>
                               <div>
-                                <span className="text-slate-400">Multa + Juros:</span>
+                                <span className="text-slate-400">Correção + Encargos:</span>
                                 <div className="text-orange-400 font-medium">
-                                  {formatCurrency(selectedCalculation.multa + selectedCalculation.juros)}
+                                  {formatCurrency((selectedCalculation.correcao_monetaria || 0) + selectedCalculation.multa + selectedCalculation.juros)}
                                 </div>
                               </div>
                             </div>
@@ -402,13 +412,19 @@ const HistoricoPensaoModal: React.FC<HistoricoPensaoModalProps> = ({
                         </div>
                         
                         {selectedCalculation.valor_total_atrasado > 0 && (
-                          <div className="grid grid-cols-3 gap-3 pt-2 border-t border-slate-700">
+                          <div className="grid grid-cols-4 gap-3 pt-2 border-t border-slate-700">
                             <div className="bg-red-600/10 border border-red-600/30 rounded-lg p-3">
                               <span className="text-red-300 text-xs">Em Atraso</span>
                               <div className="text-red-400 font-semibold">
                                 {formatCurrency(selectedCalculation.valor_total_atrasado)}
                               </div>
                             </div>
+                            <div className="bg-blue-600/10 border border-blue-600/30 rounded-lg p-3">
+                              <span className="text-blue-300 text-xs">Correção</span>
+                              <div className="text-blue-400 font-semibold">
+                                {formatCurrency(selectedCalculation.correcao_monetaria || 0)}
+                              </div>
+                            </div>
                             <div className="bg-yellow-600/10 border border-yellow-600/30 rounded-lg p-3">
                               <span className="text-yellow-300 text-xs">Multa</span>
                               <div className="text-yellow-400 font-semibold">
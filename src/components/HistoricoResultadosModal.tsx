@@ -0,0 +1,276 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useUserTimezone } from "@/hooks/useUserTimezone";
+import { Calendar, Download, FileText, Trash2, X, type LucideIcon } from "lucide-react";
+import { toast } from "sonner";
+
+// Linha mínima das tabelas de histórico que gravam o resultado completo (débito judicial, trabalhista)
+export interface ResultadoHistorico {
+  id: string;
+  valor_total: number;
+  detalhamento: string;
+  created_at: string;
+}
+
+export interface HistoricoResultadosModalProps<T extends ResultadoHistorico> {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelectCalculation?: (calculo: T) => void;
+  tabela: 'calculo_debito_judicial_historico' | 'calculo_trabalhista_historico';
+  icone: LucideIcon;
+  titulo: string;
+  descricao: string;
+  resumo: (calculo: T) => React.ReactNode;
+  valorBase: { rotulo: string; valor: (calculo: T) => number };
+  rotuloTotal: string;
+  etiquetas: (calculo: T) => React.ReactNode;
+  exportarPlanilha: (calculo: T) => void;
+  exportando: boolean;
+}
+
+const formatCurrency = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL', minimumFractionDigits: 2 });
+
+// Lista, detalhe, exclusão e reabertura dos cálculos salvos; cada calculadora informa a tabela e o resumo do card
+const HistoricoResultadosModal = <T extends ResultadoHistorico>({
+  isOpen,
+  onClose,
+  onSelectCalculation,
+  tabela,
+  icone: Icone,
+  titulo,
+  descricao,
+  resumo,
+  valorBase,
+  rotuloTotal,
+  etiquetas,
+  exportarPlanilha,
+  exportando
+}: HistoricoResultadosModalProps<T>) => {
+  const [historico, setHistorico] = useState<T[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedCalculation, setSelectedCalculation] = useState<T | null>(null);
+  const { user } = useAuth();
+  const { formatDateInUserTimezone } = useUserTimezone();
+
+  const fetchHistorico = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from(tabela)
+        .select('*')
+        .eq('user_id', user?.id)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      setHistorico((data as unknown as T[]) || []);
+    } catch (error) {
+      console.error('Erro ao buscar histórico:', error);
+      toast.error('Erro ao carregar histórico');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, tabela]);
+
+  useEffect(() => {
+    if (isOpen && user) {
+      fetchHistorico();
+    }
+  }, [isOpen, user, fetchHistorico]);
+
+  const deleteCalculation = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from(tabela)
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setHistorico(prev => prev.filter(item => item.id !== id));
+      if (selectedCalculation?.id === id) {
+        setSelectedCalculation(null);
+      }
+      toast.success('Cálculo removido do histórico');
+    } catch (error) {
+      console.error('Erro ao deletar cálculo:', error);
+      toast.error('Erro ao remover cálculo');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-6xl h-[80vh] bg-slate-900 border-slate-700">
+        <DialogHeader>
+          <DialogTitle className="text-white flex items-center gap-2">
+            <Icone className="w-5 h-5 text-primary" />
+            {titulo}
+          </DialogTitle>
+          <DialogDescription className="text-slate-400">
+            {descricao}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-1 gap-4 min-h-0">
+          {/* Lista do histórico */}
+          <div className="w-1/2 flex flex-col">
+            <div className="flex items-center justify-between mb-4">
+              <span className="text-sm text-slate-300">
+                {historico.length} cálculo(s) encontrado(s)
+              </span>
+            </div>
+
+            <ScrollArea className="flex-1">
+              {loading ? (
+                <div className="flex items-center justify-center py-8">
+                  <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                </div>
+              ) : historico.length === 0 ? (
+                <div className="text-center py-8 text-slate-400">
+                  <Icone className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p>Nenhum cálculo encontrado</p>
+                  <p className="text-sm">Seus cálculos aparecerão aqui</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {historico.map((calculo) => (
+                    <Card
+                      key={calculo.id}
+                      className={`cursor-pointer transition-all bg-slate-800/50 border-slate-700 hover:bg-slate-700/50 ${
+                        selectedCalculation?.id === calculo.id ? 'ring-2 ring-primary' : ''
+                      }`}
+                      onClick={() => setSelectedCalculation(calculo)}
+                    >
+                      <CardHeader className="pb-3">
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1">
+                            <CardTitle className="text-sm text-white flex items-center gap-2">
+                              <Calendar className="w-4 h-4 text-blue-400" />
+                              {formatDateInUserTimezone(calculo.created_at, 'dd/MM/yyyy HH:mm')}
+                            </CardTitle>
+                            <CardDescription className="text-xs text-slate-400 mt-1">
+                              {resumo(calculo)}
+                            </CardDescription>
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              deleteCalculation(calculo.id);
+                            }}
+                            className="h-8 w-8 p-0 text-red-400 hover:text-red-300 hover:bg-red-500/20"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </CardHeader>
+                      <CardContent className="pt-0">
+                        <div className="grid grid-cols-2 gap-2 text-xs">
+                          <div>
+                            <span className="text-slate-400">{valorBase.rotulo}:</span>
+                            <div className="font-semibold text-blue-400">
+                              {formatCurrency(valorBase.valor(calculo))}
+                            </div>
+                          </div>
+                          <div>
+                            <span className="text-slate-400">{rotuloTotal}:</span>
+                            <div className="font-semibold text-green-400">
+                              {formatCurrency(calculo.valor_total)}
+                            </div>
+                          </div>
+                        </div>
+                        <div className="mt-2 flex gap-1">
+                          {etiquetas(calculo)}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+
+          <Separator orientation="vertical" className="bg-slate-700" />
+
+          {/* Detalhes do cálculo selecionado */}
+          <div className="w-1/2 flex flex-col">
+            {selectedCalculation ? (
+              <>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-white">Detalhes do Cálculo</h3>
+                  <div className="flex gap-2">
+                    {onSelectCalculation && (
+                      <Button
+                        size="sm"
+                        onClick={() => {
+                          onSelectCalculation(selectedCalculation);
+                          onClose();
+                        }}
+                        className="bg-primary hover:bg-primary/90"
+                      >
+                        Usar Dados
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setSelectedCalculation(null)}
+                      className="text-slate-400 hover:text-white"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <ScrollArea className="flex-1">
+                  <Card className="bg-slate-800/30 border-slate-600">
+                    <CardHeader className="pb-3">
+                      <div className="flex items-center gap-2">
+                        <CardTitle className="text-sm text-white flex items-center gap-2 mr-auto">
+                          <FileText className="w-4 h-4 text-primary" />
+                          Relatório Detalhado
+                        </CardTitle>
+                        <Button
+                          onClick={() => exportarPlanilha(selectedCalculation)}
+                          disabled={exportando}
+                          size="sm"
+                          className="bg-primary/10 border border-primary/30 text-primary hover:bg-primary/20"
+                        >
+                          <Download className="w-3 h-3 mr-1" />
+                          XLSX
+                        </Button>
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="bg-slate-900/50 rounded-lg p-4">
+                        <pre className="text-xs whitespace-pre-wrap break-words text-slate-200 leading-relaxed font-mono">
+                          {selectedCalculation.detalhamento}
+                        </pre>
+                      </div>
+                    </CardContent>
+                  </Card>
+                </ScrollArea>
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-slate-400">
+                <div className="text-center">
+                  <Icone className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p>Selecione um cálculo para ver os detalhes</p>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HistoricoResultadosModal;
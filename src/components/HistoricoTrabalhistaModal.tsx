@@ -0,0 +1,70 @@
+import React from 'react';
+import { Badge } from "@/components/ui/badge";
+import { useExportDocument } from "@/hooks/useExportDocument";
+import { Briefcase } from "lucide-react";
+import HistoricoResultadosModal from "@/components/HistoricoResultadosModal";
+import type { CalculoTrabalhista, FaixaSalarial, HoraExtraInformada } from "@/types/calculoTrabalhista";
+
+export interface TrabalhistaHistorico {
+  id: string;
+  tipo_rescisao: string;
+  aviso_previo: string | null;
+  data_admissao: string;
+  data_demissao: string;
+  data_ajuizamento: string | null;
+  data_calculo: string;
+  historico_salarial: FaixaSalarial[];
+  horas_extras: HoraExtraInformada[];
+  divisor_horas: number;
+  ferias_vencidas: number;
+  saldo_fgts: number | null;
+  fgts_pendente: boolean;
+  multa_477: boolean;
+  multa_467: boolean;
+  observacoes: string | null;
+  remuneracao: number;
+  valor_nominal: number;
+  valor_total: number;
+  detalhamento: string;
+  calculo: CalculoTrabalhista;
+  created_at: string;
+}
+
+interface HistoricoTrabalhistaModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelectCalculation?: (calculo: TrabalhistaHistorico) => void;
+}
+
+const HistoricoTrabalhistaModal: React.FC<HistoricoTrabalhistaModalProps> = (props) => {
+  const { exportCalculoTrabalhistaPlanilha, loading: exportLoading } = useExportDocument();
+
+  return (
+    <HistoricoResultadosModal<TrabalhistaHistorico>
+      {...props}
+      tabela="calculo_trabalhista_historico"
+      icone={Briefcase}
+      titulo="Histórico de Cálculos Trabalhistas"
+      descricao="Seus cálculos anteriores de verbas rescisórias"
+      resumo={(calculo) => calculo.calculo.descricaoRescisao}
+      valorBase={{ rotulo: 'Valor nominal', valor: (calculo) => calculo.valor_nominal }}
+      rotuloTotal="Total atualizado"
+      etiquetas={(calculo) => (
+        <>
+          <Badge variant="outline" className="text-xs border-slate-600 text-slate-300">
+            {calculo.data_admissao.split('-').reverse().join('/')} a {calculo.data_demissao.split('-').reverse().join('/')}
+          </Badge>
+          {calculo.data_ajuizamento && (
+            <Badge variant="outline" className="text-xs border-teal-600 text-teal-300">
+              SELIC
+            </Badge>
+          )}
+        </>
+      )}
+      exportarPlanilha={(calculo) => exportCalculoTrabalhistaPlanilha(calculo.calculo, 'xlsx')}
+      exportando={exportLoading}
+    />
+  );
+};
+
+export default HistoricoTrabalhistaModal;
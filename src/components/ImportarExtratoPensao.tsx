@@ -0,0 +1,263 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileUp, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { identificarTransferencias, lerExtrato, proporPagamentos } from "@/lib/extratoBancario";
+import type { IdentificacaoRecebedor, LancamentoExtrato, PagamentoPensao } from "@/types/pensao";
+
+interface ImportarExtratoPensaoProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirmar: (pagamentos: PagamentoPensao[]) => void;
+  pagamentosAtuais: PagamentoPensao[];
+}
+
+const formatarCompetencia = (competencia: string) => `${competencia.slice(5, 7)}/${competencia.slice(0, 4)}`;
+const formatarDataCivil = (data: string) => `${data.slice(8, 10)}/${data.slice(5, 7)}/${data.slice(0, 4)}`;
+const formatarValor = (valor: string | number) =>
+  (typeof valor === 'number' ? valor : parseFloat(valor) || 0).toLocaleString('pt-BR', { minimumFractionDigits: 2 });
+
+// Lê o texto do extrato; o PDF passa pela função de extração de texto e segue para o leitor de texto
+const lerArquivo = async (file: File): Promise<string> => {
+  if (file.type !== 'application/pdf' && !file.name.toLowerCase().endsWith('.pdf')) {
+    return await file.text();
+  }
+
+  const formData = new FormData();
+  formData.append('file', file);
+  const { data, error } = await supabase.functions.invoke('extract-text-from-pdf', {
+    body: formData,
+  });
+
+  if (error) {
+    throw new Error('Erro ao extrair texto do PDF: ' + error.message);
+  }
+  if (!data.success) {
+    throw new Error('Erro ao extrair texto do PDF: ' + (data.error || 'Falha na extração'));
+  }
+  return data.text || '';
+};
+
+// Importa um extrato (OFX, CSV, PDF ou texto), identifica as transferências ao recebedor e propõe
+// um pagamento por mês, que só entra no cálculo depois de confirmado. O pagamento proposto
+// substitui os já lançados no mesmo mês, listados antes da confirmação
+const ImportarExtratoPensao = ({ isOpen, onClose, onConfirmar, pagamentosAtuais }: ImportarExtratoPensaoProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [recebedor, setRecebedor] = useState<IdentificacaoRecebedor>({ nome: '', cpf: '', chavePix: '' });
+  const [lancamentos, setLancamentos] = useState<LancamentoExtrato[]>([]);
+  const [arquivos, setArquivos] = useState<string[]>([]);
+  const [excluidas, setExcluidas] = useState<string[]>([]);
+  const [lendo, setLendo] = useState(false);
+
+  const propostas = useMemo(
+    () => proporPagamentos(identificarTransferencias(lancamentos, recebedor)),
+    [lancamentos, recebedor]
+  );
+  const selecionadas = propostas.filter(proposta => !excluidas.includes(proposta.competencia));
+  const substituidosNoMes = (competencia: string) =>
+    pagamentosAtuais.filter(pagamento => pagamento.valor && pagamento.data.slice(0, 7) === competencia);
+  const totalSubstituidos = selecionadas.reduce((total, proposta) => total + substituidosNoMes(proposta.competencia).length, 0);
+  const recebedorInformado = Boolean(recebedor.nome.trim() || recebedor.cpf.trim() || recebedor.chavePix.trim());
+
+  const handleArquivos = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    setLendo(true);
+    try {
+      const lidos: LancamentoExtrato[] = [];
+      for (const file of Array.from(files)) {
+        const texto = await lerArquivo(file);
+        lidos.push(...lerExtrato(texto, file.name));
+      }
+      if (lidos.length === 0) {
+        toast.error('Nenhum lançamento reconhecido no extrato');
+        return;
+      }
+      setLancamentos(prev => [...prev, ...lidos]);
+      setArquivos(prev => [...prev, ...Array.from(files).map(file => file.name)]);
+      toast.success(`${lidos.length} lançamento(s) lido(s) do extrato`);
+    } catch (error) {
+      console.error('Erro ao ler extrato:', error);
+      toast.error(error instanceof Error ? error.message : 'Erro ao ler o extrato');
+    } finally {
+      setLendo(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const limpar = () => {
+    setLancamentos([]);
+    setArquivos([]);
+    setExcluidas([]);
+  };
+
+  const handleConfirmar = () => {
+    onConfirmar(selecionadas.map(proposta => proposta.pagamento));
+    limpar();
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto bg-slate-900 border-slate-700">
+        <DialogHeader>
+          <DialogTitle className="text-white flex items-center gap-2">
+            <FileUp className="w-5 h-5 text-primary" />
+            Importar Extrato Bancário
+          </DialogTitle>
+          <DialogDescription className="text-slate-400">
+            OFX, CSV ou PDF do extrato do alimentante. As transferências ao recebedor viram um pagamento por mês.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="recebedorNome" className="text-xs text-slate-300">Nome do Recebedor</Label>
+              <Input
+                id="recebedorNome"
+                value={recebedor.nome}
+                onChange={(e) => setRecebedor(prev => ({ ...prev, nome: e.target.value }))}
+                className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="recebedorCpf" className="text-xs text-slate-300">CPF</Label>
+              <Input
+                id="recebedorCpf"
+                placeholder="000.000.000-00"
+                value={recebedor.cpf}
+                onChange={(e) => setRecebedor(prev => ({ ...prev, cpf: e.target.value }))}
+                className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="recebedorChave" className="text-xs text-slate-300">Chave Pix</Label>
+              <Input
+                id="recebedorChave"
+                value={recebedor.chavePix}
+                onChange={(e) => setRecebedor(prev => ({ ...prev, chavePix: e.target.value }))}
+                className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-slate-400">
+              {arquivos.length > 0 ? `${arquivos.join(', ')} · ${lancamentos.length} lançamento(s)` : 'Nenhum extrato carregado'}
+            </p>
+            <div className="flex gap-2">
+              {arquivos.length > 0 && (
+                <Button type="button" variant="ghost" size="sm" onClick={limpar} className="text-slate-300 hover:bg-slate-700">
+                  Limpar
+                </Button>
+              )}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={lendo}
+                onClick={() => fileInputRef.current?.click()}
+                className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600"
+              >
+                {lendo ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <FileUp className="w-4 h-4 mr-1" />}
+                Carregar Extrato
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".ofx,.csv,.txt,.pdf,application/pdf,text/csv"
+                multiple
+                className="hidden"
+                onChange={(e) => handleArquivos(e.target.files)}
+              />
+            </div>
+          </div>
+
+          {lancamentos.length > 0 && !recebedorInformado && (
+            <p className="text-xs text-amber-300">Informe o nome, o CPF ou a chave Pix do recebedor para identificar as transferências.</p>
+          )}
+
+          {lancamentos.length > 0 && recebedorInformado && propostas.length === 0 && (
+            <p className="text-xs text-amber-300">Nenhuma transferência ao recebedor encontrada no extrato.</p>
+          )}
+
+          {propostas.length > 0 && (
+            <div className="max-h-80 overflow-auto rounded border border-slate-600">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead className="text-slate-300">Mês</TableHead>
+                    <TableHead className="text-slate-300">Transferências</TableHead>
+                    <TableHead className="text-slate-300">Substitui</TableHead>
+                    <TableHead className="text-slate-300 text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {propostas.map(proposta => (
+                    <TableRow key={proposta.competencia} className="text-slate-200 align-top">
+                      <TableCell>
+                        <Checkbox
+                          checked={!excluidas.includes(proposta.competencia)}
+                          onCheckedChange={(checked) => setExcluidas(prev => checked === true
+                            ? prev.filter(competencia => competencia !== proposta.competencia)
+                            : [...prev, proposta.competencia])}
+                        />
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{formatarCompetencia(proposta.competencia)}</TableCell>
+                      <TableCell className="space-y-1">
+                        {proposta.transferencias.map((transferencia, index) => (
+                          <p key={index} className="text-xs text-slate-300">
+                            {formatarDataCivil(transferencia.data)} · {transferencia.descricao || 'Sem descrição'} · R$ {formatarValor(transferencia.valor)}
+                            <Badge variant="outline" className="ml-2 text-[10px] border-slate-500 text-slate-300">{transferencia.criterio}</Badge>
+                          </p>
+                        ))}
+                      </TableCell>
+                      <TableCell className="space-y-1">
+                        {substituidosNoMes(proposta.competencia).length === 0 ? (
+                          <p className="text-xs text-slate-500">—</p>
+                        ) : substituidosNoMes(proposta.competencia).map((pagamento, index) => (
+                          <p key={index} className="text-xs text-amber-300 whitespace-nowrap">
+                            {formatarDataCivil(pagamento.data)} · R$ {formatarValor(pagamento.valor)}
+                          </p>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        R$ {formatarValor(proposta.pagamento.valor)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {totalSubstituidos > 0 && (
+            <p className="text-xs text-amber-300">
+              {totalSubstituidos} pagamento(s) já lançado(s) nos meses marcados será(ão) substituído(s) pelo valor do extrato.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onClose} className="text-slate-300 hover:bg-slate-700">
+            Cancelar
+          </Button>
+          <Button onClick={handleConfirmar} disabled={selecionadas.length === 0}>
+            Confirmar {selecionadas.length} pagamento(s) e recalcular
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportarExtratoPensao;
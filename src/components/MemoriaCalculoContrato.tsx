@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Download } from "lucide-react";
+import { useExportDocument } from "@/hooks/useExportDocument";
+import type { ResultadoEstruturado } from "@/types/calculoContrato";
+
+interface MemoriaCalculoContratoProps {
+  estrutura: ResultadoEstruturado;
+}
+
+const formatarMoeda = (valor: number) => `R$ ${valor.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatarDataCivil = (data: string) => `${data.slice(8, 10)}/${data.slice(5, 7)}/${data.slice(0, 4)}`;
+
+const chartConfig = {
+  valor: { label: "Valor do período", color: "hsl(var(--primary))" },
+  saldo: { label: "Saldo", color: "#4ade80" }
+} satisfies ChartConfig;
+
+const MemoriaCalculoContrato: React.FC<MemoriaCalculoContratoProps> = ({ estrutura }) => {
+  const secoes = Object.entries(estrutura.secoes);
+  const [secao, setSecao] = useState(secoes[0]?.[0] ?? '');
+  const { exportCalculoContratoPlanilha, loading } = useExportDocument();
+
+  // Ao trocar de cálculo, a seção escolhida pode não existir no novo resultado
+  const secaoAtual = estrutura.secoes[secao] ? secao : secoes[0]?.[0] ?? '';
+  const periodos = estrutura.periodos.filter(periodo => periodo.secao === secaoAtual);
+  const temSaldo = periodos.some(periodo => periodo.saldo !== null);
+  const dadosGrafico = periodos.map(periodo => ({
+    rotulo: periodo.rotulo,
+    valor: Number(periodo.valor.toFixed(2)),
+    saldo: periodo.saldo === null ? null : Number(periodo.saldo.toFixed(2))
+  }));
+
+  return (
+    <div className="space-y-4 p-4 bg-slate-700/30 rounded-lg border border-slate-600">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="text-sm font-semibold text-white">Memória de Cálculo</h4>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={loading}
+            onClick={() => exportCalculoContratoPlanilha(estrutura, 'xlsx')}
+            className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600"
+          >
+            <Download className="w-4 h-4 mr-1" />
+            XLSX
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={loading}
+            onClick={() => exportCalculoContratoPlanilha(estrutura, 'csv')}
+            className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600"
+          >
+            <Download className="w-4 h-4 mr-1" />
+            CSV
+          </Button>
+        </div>
+      </div>
+
+      <div className="rounded border border-slate-600">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-slate-300">Item</TableHead>
+              <TableHead className="text-slate-300 text-right">Valor</TableHead>
+              <TableHead className="text-slate-300">Fórmula</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {estrutura.itens.map((item, index) => (
+              <TableRow key={index} className="text-slate-200">
+                <TableCell className="font-medium">{item.rotulo}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">{formatarMoeda(item.valor)}</TableCell>
+                <TableCell className="text-xs text-slate-400">{item.formula}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {secoes.length > 0 && (
+        <div className="space-y-3">
+          <Select value={secaoAtual} onValueChange={setSecao}>
+            <SelectTrigger className="bg-slate-700 border-slate-600 focus:border-primary text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {secoes.map(([chave, titulo]) => (
+                <SelectItem key={chave} value={chave}>{titulo}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {periodos.length > 1 && (
+            <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+              <ComposedChart data={dadosGrafico} margin={{ left: 8, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="rotulo" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis tickLine={false} axisLine={false} width={70} tickFormatter={(valor: number) => valor.toLocaleString('pt-BR')} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="valor" fill="var(--color-valor)" radius={2} />
+                {temSaldo && <Line dataKey="saldo" type="monotone" stroke="var(--color-saldo)" strokeWidth={2} dot={false} />}
+              </ComposedChart>
+            </ChartContainer>
+          )}
+
+          <div className="max-h-64 overflow-y-auto rounded border border-slate-600">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-slate-300">Período</TableHead>
+                  <TableHead className="text-slate-300 text-right">Base</TableHead>
+                  <TableHead className="text-slate-300 text-right">Valor</TableHead>
+                  {temSaldo && <TableHead className="text-slate-300 text-right">Saldo</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {periodos.map((periodo, index) => (
+                  <TableRow key={index} className="text-slate-200">
+                    <TableCell>
+                      {periodo.rotulo}
+                      <p className="text-xs text-slate-400">
+                        {periodo.inicio ? `${formatarDataCivil(periodo.inicio)} a ` : ''}{formatarDataCivil(periodo.fim)}
+                        {periodo.dias !== null ? ` · ${periodo.dias} dia(s)` : ''}
+                      </p>
+                      <p className="text-xs text-slate-500">{periodo.formula}</p>
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">{periodo.base !== null ? formatarMoeda(periodo.base) : '—'}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">{formatarMoeda(periodo.valor)}</TableCell>
+                    {temSaldo && (
+                      <TableCell className="text-right whitespace-nowrap">{periodo.saldo !== null ? formatarMoeda(periodo.saldo) : '—'}</TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MemoriaCalculoContrato;
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Landmark } from "lucide-react";
+import {
+  ROTULOS_RECURSO,
+  calcularPreparo,
+  formatarNotaPreparo,
+  listarTribunais,
+  recursosDoTribunal
+} from "@/lib/custas";
+import type { TipoRecurso } from "@/types/custas";
+
+interface PreparoRecursalNotaProps {
+  dataReferencia: string;
+  onAnexar: (nota: string) => void;
+}
+
+// Calcula o preparo dentro do diálogo de prazo recursal e devolve a nota para a descrição
+const PreparoRecursalNota = ({ dataReferencia, onAnexar }: PreparoRecursalNotaProps) => {
+  const [tribunal, setTribunal] = useState('tjsp');
+  const [recurso, setRecurso] = useState<TipoRecurso>('apelacao');
+  const [valorBase, setValorBase] = useState('');
+
+  const recursos = recursosDoTribunal(tribunal, dataReferencia);
+
+  const handleTribunal = (value: string) => {
+    const disponiveis = recursosDoTribunal(value, dataReferencia);
+    setTribunal(value);
+    if (!disponiveis.includes(recurso)) setRecurso(disponiveis[0]);
+  };
+
+  const resultado = (() => {
+    const valor = parseFloat(valorBase) || 0;
+    if (valor <= 0 && recurso !== 'agravo_instrumento') return null;
+    try {
+      return calcularPreparo({ tribunal, recurso, valorBase: valor, dataReferencia, volumes: 0 });
+    } catch {
+      return null;
+    }
+  })();
+
+  return (
+    <div className="grid gap-3 rounded-lg border p-3">
+      <Label className="flex items-center gap-2">
+        <Landmark className="h-4 w-4" />
+        Preparo do recurso
+      </Label>
+      <div className="grid grid-cols-2 gap-2">
+        <Select value={tribunal} onValueChange={handleTribunal}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {listarTribunais().map(item => (
+              <SelectItem key={item.tribunal} value={item.tribunal}>{item.nomeTribunal}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={recurso} onValueChange={(value: TipoRecurso) => setRecurso(value)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {recursos.map(item => (
+              <SelectItem key={item} value={item}>{ROTULOS_RECURSO[item]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Input
+        type="number"
+        step="0.01"
+        value={valorBase}
+        onChange={(e) => setValorBase(e.target.value)}
+        placeholder={tribunal === 'jt' ? 'Valor da condenação' : 'Valor da causa'}
+      />
+      {resultado && (
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <span>
+            Total: {resultado.total.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+          </span>
+          <Button type="button" variant="outline" size="sm" onClick={() => onAnexar(formatarNotaPreparo(resultado))}>
+            Anexar à descrição
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PreparoRecursalNota;
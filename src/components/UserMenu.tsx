@@ -1,5 +1,5 @@
 import { useEffect, useState } from "react";
-import { User, LogOut, Settings, MessageSquare, CreditCard, Calculator, Heart, Shield, History, Calendar, BookOpen, Scale } from "lucide-react";
+import { User, LogOut, Settings, MessageSquare, CreditCard, Calculator, Heart, Shield, History, Calendar, BookOpen, Scale, Gavel, Briefcase, Hourglass, Landmark, SlidersHorizontal } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
@@ -65,7 +65,12 @@ export default function UserMenu({ hideOptions = [] }: UserMenuProps) {
     '/chat': 'chat',
     '/agenda-juridica': 'agenda',
     '/calculo-contrato-bancario': 'calc-contrato',
+    '/atualizacao-debito-judicial': 'calc-debito',
     '/calculo-pensao-alimenticia': 'calc-pensao',
+    '/simulador-revisional-pensao': 'calc-revisional',
+    '/calculo-verbas-rescisorias': 'calc-trabalhista',
+    '/calculo-prescricao': 'calc-prescricao',
+    '/calculo-custas': 'calc-custas',
     '/calculo-pena': 'calc-pena',
     '/historico-transacoes': 'historico',
     '/minha-conta': 'account',
@@ -110,6 +115,13 @@ export default function UserMenu({ hideOptions = [] }: UserMenuProps) {
       onClick: () => navigate("/calculo-contrato-bancario"),
       show: !hideOptions.includes("calc-contrato") && currentPageKey !== "calc-contrato",
     },
+    {
+      key: "calc-debito",
+      label: "Atualização de Débito Judicial",
+      icon: Gavel,
+      onClick: () => navigate("/atualizacao-debito-judicial"),
+      show: !hideOptions.includes("calc-debito") && currentPageKey !== "calc-debito",
+    },
     {
       key: "calc-pensao",
       label: "Calc. Pensão Alimentícia",
@@ -117,6 +129,34 @@ export default function UserMenu({ hideOptions = [] }: UserMenuProps) {
       onClick: () => navigate("/calculo-pensao-alimenticia"),
       show: !hideOptions.includes("calc-pensao") && currentPageKey !== "calc-pensao",
     },
+    {
+      key: "calc-revisional",
+      label: "Simulador Revisional",
+      icon: SlidersHorizontal,
+      onClick: () => navigate("/simulador-revisional-pensao"),
+      show: !hideOptions.includes("calc-revisional") && currentPageKey !== "calc-revisional",
+    },
+    {
+      key: "calc-trabalhista",
+      label: "Calc. Verbas Rescisórias",
+      icon: Briefcase,
+      onClick: () => navigate("/calculo-verbas-rescisorias"),
+      show: !hideOptions.includes("calc-trabalhista") && currentPageKey !== "calc-trabalhista",
+    },
+    {
+      key: "calc-prescricao",
+      label: "Calc. Prescrição",
+      icon: Hourglass,
+      onClick: () => navigate("/calculo-prescricao"),
+      show: !hideOptions.includes("calc-prescricao") && currentPageKey !== "calc-prescricao",
+    },
+    {
+      key: "calc-custas",
+      label: "Calc. Custas",
+      icon: Landmark,
+      onClick: () => navigate("/calculo-custas"),
+      show: !hideOptions.includes("calc-custas") && currentPageKey !== "calc-custas",
+    },
     {
       key: "calc-pena",
       label: "Calc. de Pena",
@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { LineChart } from "lucide-react";
+import { toast } from "sonner";
+import { SerieImportavel, SERIES_IMPORTAVEIS, lerExportacaoSGS } from "@/lib/indicesEconomicos";
+
+const INDICES = Object.keys(SERIES_IMPORTAVEIS) as SerieImportavel[];
+
+// O PostgREST limita o tamanho da requisição; séries longas são gravadas em lotes
+const TAMANHO_LOTE = 500;
+
+const formatarCompetencia = (competencia: string) => `${competencia.slice(5, 7)}/${competencia.slice(0, 4)}`;
+
+export default function IndicesManager() {
+  const [indice, setIndice] = useState<SerieImportavel>("ipca");
+  const [importing, setImporting] = useState(false);
+
+  // Cobertura de cada série já carregada
+  const { data: cobertura, refetch } = useQuery({
+    queryKey: ["indices-economicos-cobertura"],
+    queryFn: async () => {
+      return Promise.all(INDICES.map(async (chave) => {
+        const { data, count, error } = await supabase
+          .from("indices_economicos")
+          .select("competencia", { count: "exact" })
+          .eq("indice", chave)
+          .order("competencia", { ascending: false })
+          .limit(1);
+
+        if (error) throw error;
+        return { indice: chave, meses: count ?? 0, ultima: data?.[0]?.competencia ?? null };
+      }));
+    }
+  });
+
+  const handleFile = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    setImporting(true);
+    try {
+      const variacoes = lerExportacaoSGS(await file.text());
+      if (variacoes.length === 0) {
+        throw new Error("Nenhum valor mensal encontrado no arquivo");
+      }
+
+      const registros = variacoes.map(({ competencia, variacao }) => ({
+        indice,
+        competencia,
+        variacao,
+        serie_sgs: SERIES_IMPORTAVEIS[indice].serie
+      }));
+
+      for (let inicio = 0; inicio < registros.length; inicio += TAMANHO_LOTE) {
+        const { error } = await supabase
+          .from("indices_economicos")
+          .upsert(registros.slice(inicio, inicio + TAMANHO_LOTE), { onConflict: "indice,competencia" });
+        if (error) throw error;
+      }
+
+      toast.success(
+        `${SERIES_IMPORTAVEIS[indice].nome}: ${variacoes.length} meses importados ` +
+        `(${formatarCompetencia(variacoes[0].competencia)} a ${formatarCompetencia(variacoes[variacoes.length - 1].competencia)})`
+      );
+      refetch();
+    } catch (e) {
+      console.error(e);
+      toast.error(e instanceof Error ? e.message : "Falha ao importar a série");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <LineChart className="h-5 w-5" />
+            Índices Econômicos
+          </CardTitle>
+          <CardDescription>
+            Importe as séries mensais exportadas do SGS do Banco Central (CSV ou JSON). Os meses já cadastrados são atualizados.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <Label>Índice</Label>
+              <Select value={indice} onValueChange={(value) => setIndice(value as SerieImportavel)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INDICES.map(chave => (
+                    <SelectItem key={chave} value={chave}>
+                      {SERIES_IMPORTAVEIS[chave].nome} (série {SERIES_IMPORTAVEIS[chave].serie})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <input
+                type="file"
+                accept=".csv,.json,.txt"
+                className="hidden"
+                id="indices-upload"
+                onChange={e => {
+                  handleFile(e.target.files);
+                  e.target.value = "";
+                }}
+              />
+              <Button asChild disabled={importing}>
+                <label htmlFor="indices-upload" className="cursor-pointer">
+                  {importing ? "Importando..." : "Selecionar arquivo"}
+                </label>
+              </Button>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Exportação da API: api.bcb.gov.br/dados/serie/bcdata.sgs.{SERIES_IMPORTAVEIS[indice].serie}/dados?formato=csv (ou formato=json)
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Séries Cadastradas</CardTitle>
+          <CardDescription>
+            Meses sem índice cadastrado entram no cálculo sem correção e são apontados no detalhamento
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Índice</TableHead>
+                <TableHead>Série SGS</TableHead>
+                <TableHead>Fonte</TableHead>
+                <TableHead>Meses</TableHead>
+                <TableHead>Última competência</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {cobertura?.map(item => (
+                <TableRow key={item.indice}>
+                  <TableCell>{SERIES_IMPORTAVEIS[item.indice].nome}</TableCell>
+                  <TableCell>{SERIES_IMPORTAVEIS[item.indice].serie}</TableCell>
+                  <TableCell>{SERIES_IMPORTAVEIS[item.indice].fonte}</TableCell>
+                  <TableCell>{item.meses}</TableCell>
+                  <TableCell>{item.ultima ? formatarCompetencia(item.ultima) : "—"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
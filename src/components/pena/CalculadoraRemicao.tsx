@@ -0,0 +1,244 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AlertTriangle, Calculator, Plus, Trash2 } from 'lucide-react';
+import { RegistroEstudo, RegistroLeitura, RegistroTrabalho, Remissao } from '@/types/pena';
+import { calcularRemicaoEstudo, calcularRemicaoLeitura, calcularRemicaoTrabalho } from '@/lib/remicao';
+import dayjs from 'dayjs';
+
+interface CalculadoraRemicaoProps {
+  onGerar: (remissoes: Remissao[]) => void;
+  remissoesLancadas: Remissao[]; // limites anuais e saldos seguem das remições já lançadas
+}
+
+const SEM_CONCLUSAO = 'nenhuma';
+
+const formatarReferencia = (referencia: string) => dayjs(`${referencia}-01`).format('MM/YYYY');
+
+export default function CalculadoraRemicao({ onGerar, remissoesLancadas }: CalculadoraRemicaoProps) {
+  const [trabalho, setTrabalho] = useState<RegistroTrabalho[]>([]);
+  const [estudo, setEstudo] = useState<RegistroEstudo[]>([]);
+  const [leitura, setLeitura] = useState<RegistroLeitura[]>([]);
+
+  const [novoTrabalho, setNovoTrabalho] = useState<Partial<RegistroTrabalho>>({});
+  const [novoEstudo, setNovoEstudo] = useState<Partial<RegistroEstudo>>({});
+  const [novaLeitura, setNovaLeitura] = useState<Partial<RegistroLeitura>>({});
+
+  const calculadas = [
+    ...calcularRemicaoTrabalho(trabalho, remissoesLancadas),
+    ...calcularRemicaoEstudo(estudo, remissoesLancadas),
+    ...calcularRemicaoLeitura(leitura, remissoesLancadas)
+  ];
+  // Meses sem dia remido entram quando deixam saldo, para o próximo lançamento continuar dele
+  const lancaveis = calculadas.map(item => item.remissao).filter(remissao => remissao.dias > 0 || remissao.saldo);
+  const totalDias = lancaveis.reduce((total, remissao) => total + remissao.dias, 0);
+
+  const adicionarTrabalho = () => {
+    if (!novoTrabalho.referencia || !novoTrabalho.diasTrabalhados) return;
+    setTrabalho([...trabalho, {
+      id: crypto.randomUUID(),
+      referencia: novoTrabalho.referencia,
+      diasTrabalhados: novoTrabalho.diasTrabalhados
+    }]);
+    setNovoTrabalho({});
+  };
+
+  const adicionarEstudo = () => {
+    if (!novoEstudo.referencia || !novoEstudo.horas) return;
+    setEstudo([...estudo, {
+      id: crypto.randomUUID(),
+      referencia: novoEstudo.referencia,
+      horas: novoEstudo.horas,
+      conclusao: novoEstudo.conclusao
+    }]);
+    setNovoEstudo({});
+  };
+
+  const adicionarLeitura = () => {
+    if (!novaLeitura.titulo || !novaLeitura.dataAprovacao) return;
+    setLeitura([...leitura, {
+      id: crypto.randomUUID(),
+      titulo: novaLeitura.titulo,
+      dataAprovacao: novaLeitura.dataAprovacao
+    }]);
+    setNovaLeitura({});
+  };
+
+  const gerar = () => {
+    onGerar(lancaveis);
+    setTrabalho([]);
+    setEstudo([]);
+    setLeitura([]);
+  };
+
+  const renderRegistro = (chave: string, texto: string, onExcluir: () => void) => (
+    <div key={chave} className="flex items-center justify-between text-sm text-slate-300 px-2 py-1 bg-slate-700/50 rounded">
+      <span>{texto}</span>
+      <Button variant="ghost" size="sm" onClick={onExcluir} className="h-6 w-6 p-0 text-red-400 hover:text-red-300">
+        <Trash2 className="w-3 h-3" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="p-4 bg-slate-700/30 rounded-lg space-y-4">
+      <div className="flex items-center gap-2 text-slate-200 font-medium">
+        <Calculator className="w-4 h-4" />
+        Calcular remição (art. 126 LEP)
+      </div>
+
+      <Tabs defaultValue="trabalho">
+        <TabsList className="bg-slate-700">
+          <TabsTrigger value="trabalho">Trabalho</TabsTrigger>
+          <TabsTrigger value="estudo">Estudo</TabsTrigger>
+          <TabsTrigger value="leitura">Leitura</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="trabalho" className="space-y-2">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2 items-end">
+            <div>
+              <Label className="text-slate-200">Mês</Label>
+              <Input
+                type="month"
+                value={novoTrabalho.referencia || ''}
+                onChange={(e) => setNovoTrabalho({ ...novoTrabalho, referencia: e.target.value })}
+                className="bg-slate-700 border-slate-600 text-white"
+              />
+            </div>
+            <div>
+              <Label className="text-slate-200">Dias Trabalhados</Label>
+              <Input
+                type="number"
+                min="0"
+                value={novoTrabalho.diasTrabalhados || ''}
+                onChange={(e) => setNovoTrabalho({ ...novoTrabalho, diasTrabalhados: parseInt(e.target.value) || 0 })}
+                className="bg-slate-700 border-slate-600 text-white"
+              />
+            </div>
+            <Button onClick={adicionarTrabalho} variant="outline" className="border-slate-600">
+              <Plus className="w-4 h-4 mr-2" />
+              Adicionar
+            </Button>
+          </div>
+          <p className="text-xs text-slate-500">1 dia remido a cada 3 dias de trabalho; o saldo passa para o mês seguinte</p>
+          {trabalho.map(registro => renderRegistro(
+            registro.id,
+            `${formatarReferencia(registro.referencia)}: ${registro.diasTrabalhados} dias trabalhados`,
+            () => setTrabalho(trabalho.filter(r => r.id !== registro.id))
+          ))}
+        </TabsContent>
+
+        <TabsContent value="estudo" className="space-y-2">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+            <div>
+              <Label className="text-slate-200">Mês</Label>
+              <Input
+                type="month"
+                value={novoEstudo.referencia || ''}
+                onChange={(e) => setNovoEstudo({ ...novoEstudo, referencia: e.target.value })}
+                className="bg-slate-700 border-slate-600 text-white"
+              />
+            </div>
+            <div>
+              <Label className="text-slate-200">Horas de Estudo</Label>
+              <Input
+                type="number"
+                min="0"
+                value={novoEstudo.horas || ''}
+                onChange={(e) => setNovoEstudo({ ...novoEstudo, horas: parseInt(e.target.value) || 0 })}
+                className="bg-slate-700 border-slate-600 text-white"
+              />
+            </div>
+            <div>
+              <Label className="text-slate-200">Conclusão de Curso</Label>
+              <Select
+                value={novoEstudo.conclusao || SEM_CONCLUSAO}
+                onValueChange={(value) => setNovoEstudo({
+                  ...novoEstudo,
+                  conclusao: value === SEM_CONCLUSAO ? undefined : value as RegistroEstudo['conclusao']
+                })}
+              >
+                <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  <SelectItem value={SEM_CONCLUSAO}>Nenhuma</SelectItem>
+                  <SelectItem value="Fundamental">Ensino fundamental</SelectItem>
+                  <SelectItem value="Medio">Ensino médio</SelectItem>
+                  <SelectItem value="Superior">Ensino superior</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={adicionarEstudo} variant="outline" className="border-slate-600">
+              <Plus className="w-4 h-4 mr-2" />
+              Adicionar
+            </Button>
+          </div>
+          <p className="text-xs text-slate-500">1 dia remido a cada 12 horas, até 4 horas por dia; acréscimo de 1/3 na conclusão do curso</p>
+          {estudo.map(registro => renderRegistro(
+            registro.id,
+            `${formatarReferencia(registro.referencia)}: ${registro.horas} horas${registro.conclusao ? ' (conclusão de curso)' : ''}`,
+            () => setEstudo(estudo.filter(r => r.id !== registro.id))
+          ))}
+        </TabsContent>
+
+        <TabsContent value="leitura" className="space-y-2">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2 items-end">
+            <div>
+              <Label className="text-slate-200">Obra</Label>
+              <Input
+                value={novaLeitura.titulo || ''}
+                onChange={(e) => setNovaLeitura({ ...novaLeitura, titulo: e.target.value })}
+                className="bg-slate-700 border-slate-600 text-white"
+              />
+            </div>
+            <div>
+              <Label className="text-slate-200">Aprovação do Relatório</Label>
+              <Input
+                type="date"
+                value={novaLeitura.dataAprovacao || ''}
+                onChange={(e) => setNovaLeitura({ ...novaLeitura, dataAprovacao: e.target.value })}
+                className="bg-slate-700 border-slate-600 text-white"
+              />
+            </div>
+            <Button onClick={adicionarLeitura} variant="outline" className="border-slate-600">
+              <Plus className="w-4 h-4 mr-2" />
+              Adicionar
+            </Button>
+          </div>
+          <p className="text-xs text-slate-500">4 dias por obra lida, até 12 obras por ano (Res. CNJ 391/2021)</p>
+          {leitura.map(registro => renderRegistro(
+            registro.id,
+            `${dayjs(registro.dataAprovacao).format('DD/MM/YYYY')}: ${registro.titulo}`,
+            () => setLeitura(leitura.filter(r => r.id !== registro.id))
+          ))}
+        </TabsContent>
+      </Tabs>
+
+      {calculadas.length > 0 && (
+        <div className="space-y-2">
+          {calculadas.map(({ remissao, alertas }) => (
+            <div key={remissao.id} className="text-sm p-2 bg-slate-800/60 rounded">
+              <div className="flex justify-between">
+                <span className="text-slate-300">{remissao.observacao}</span>
+                <span className="text-white font-medium whitespace-nowrap ml-2">{remissao.dias} dia(s)</span>
+              </div>
+              {alertas.map(alerta => (
+                <div key={alerta} className="flex items-center gap-1 text-xs text-amber-400 mt-1">
+                  <AlertTriangle className="w-3 h-3" />
+                  {alerta}
+                </div>
+              ))}
+            </div>
+          ))}
+          <Button onClick={gerar} disabled={lancaveis.length === 0} className="w-full">
+            Lançar {totalDias} dia(s) de remição
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
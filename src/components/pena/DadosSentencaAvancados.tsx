@@ -7,7 +7,15 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Textarea } from "@/components/ui/textarea";
 import { Plus, Trash2, Calculator, FileText, Scale } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
-import type { Crime, DadosSentenca } from "@/types/pena";
+import type { Crime, DadosSentenca, NaturezaCrime, Reincidencia, ClassificacaoCrime } from "@/types/pena";
+import {
+  calcularRequisitosCrimes,
+  classificarCrime,
+  contarDiasPeriodo,
+  converterParaDias,
+  formatarPenaPeriodo,
+  somarPenas
+} from "@/lib/pena";
 import { toast } from "sonner";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { CalendarIcon } from "lucide-react";
@@ -16,6 +24,24 @@ import { cn } from "@/lib/utils";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 
+const NATUREZAS: { valor: NaturezaCrime; rotulo: string }[] = [
+  { valor: 'comum', rotulo: 'Sem violência ou grave ameaça' },
+  { valor: 'violento', rotulo: 'Com violência ou grave ameaça' },
+  { valor: 'hediondo', rotulo: 'Hediondo ou equiparado' },
+  { valor: 'hediondo_morte', rotulo: 'Hediondo com resultado morte' },
+  { valor: 'feminicidio', rotulo: 'Feminicídio (art. 121-A CP)' },
+  { valor: 'comando_organizacao', rotulo: 'Comando de organização criminosa' },
+  { valor: 'milicia', rotulo: 'Milícia privada (art. 288-A CP)' }
+];
+
+const REINCIDENCIAS: { valor: Reincidencia; rotulo: string }[] = [
+  { valor: 'primario', rotulo: 'Primário' },
+  { valor: 'reincidente', rotulo: 'Reincidente (genérico)' },
+  { valor: 'reincidente_especifico', rotulo: 'Reincidente específico' }
+];
+
+const formatarFracao = (fracao: number) => `${Math.round(fracao * 100)}%`;
+
 interface DadosSentencaAvancadosProps {
   onCalcular: (dadosSentenca: DadosSentenca) => void;
 }
@@ -27,6 +53,7 @@ export default function DadosSentencaAvancados({ onCalcular }: DadosSentencaAvan
     vara: '',
     juiz: '',
     dataTransito: undefined as Date | undefined,
+    dataInicio: undefined as Date | undefined,
     regimeInicial: '' as 'Fechado' | 'Semiaberto' | 'Aberto' | '',
     observacoes: ''
   });
@@ -37,11 +64,13 @@ export default function DadosSentencaAvancados({ onCalcular }: DadosSentencaAvan
     penaAnos: 0,
     penaMeses: 0,
     penaDias: 0,
-    tipoPercentual: 'primario',
+    natureza: 'comum',
+    reincidencia: 'primario',
     observacoes: ''
   });
 
   const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const [isInicioCalendarOpen, setIsInicioCalendarOpen] = useState(false);
 
   const adicionarCrime = () => {
     if (!novoCrime.descricao.trim() || !novoCrime.artigo.trim()) {
@@ -66,7 +95,8 @@ export default function DadosSentencaAvancados({ onCalcular }: DadosSentencaAvan
       penaAnos: 0,
       penaMeses: 0,
       penaDias: 0,
-      tipoPercentual: 'primario',
+      natureza: 'comum',
+      reincidencia: 'primario',
       observacoes: ''
     });
 
@@ -78,51 +108,32 @@ export default function DadosSentencaAvancados({ onCalcular }: DadosSentencaAvan
     toast.success('Crime removido');
   };
 
-  const calcularPenaTotal = () => {
-    return crimes.reduce((total, crime) => {
-      const dias = (crime.penaAnos * 365) + (crime.penaMeses * 30) + crime.penaDias;
-      return total + dias;
-    }, 0);
-  };
+  const obterPenaSomada = () => somarPenas(crimes.map(crime => ({
+    anos: crime.penaAnos,
+    meses: crime.penaMeses,
+    dias: crime.penaDias
+  })));
 
-  const obterMaiorFracaoProgressao = () => {
-    let maiorFracao = 1/6; // padrão primário
-    
-    crimes.forEach(crime => {
-      switch (crime.tipoPercentual) {
-        case 'reincidente':
-          maiorFracao = Math.max(maiorFracao, 1/4);
-          break;
-        case 'hediondo_primario':
-          maiorFracao = Math.max(maiorFracao, 2/5);
-          break;
-        case 'hediondo_reincidente':
-          maiorFracao = Math.max(maiorFracao, 3/5);
-          break;
-      }
-    });
+  const dataInicioISO = dadosProcessuais.dataInicio
+    ? format(dadosProcessuais.dataInicio, 'yyyy-MM-dd')
+    : undefined;
 
-    return maiorFracao;
+  // Com a data de início, a pena é contada pelo calendário (anos bissextos e meses reais)
+  const calcularPenaTotal = () => {
+    const pena = obterPenaSomada();
+    return dataInicioISO ? contarDiasPeriodo(dataInicioISO, pena) : converterParaDias(pena);
   };
 
-  const obterMaiorFracaoLivramento = () => {
-    let maiorFracao = 1/3; // padrão primário
-    
-    crimes.forEach(crime => {
-      switch (crime.tipoPercentual) {
-        case 'reincidente':
-          maiorFracao = Math.max(maiorFracao, 1/2);
-          break;
-        case 'hediondo_primario':
-          maiorFracao = Math.max(maiorFracao, 3/5);
-          break;
-        case 'hediondo_reincidente':
-          maiorFracao = Math.max(maiorFracao, 4/5);
-          break;
-      }
-    });
+  // Parcela de cada crime no requisito, na ordem de execução (art. 76 CP)
+  const requisitos = calcularRequisitosCrimes(crimes, dataInicioISO);
+  const requisitoProgressao = requisitos.length > 0 ? requisitos[requisitos.length - 1].acumuladoProgressao : 0;
+  const requisitoLivramento = requisitos.length > 0 ? requisitos[requisitos.length - 1].acumuladoLivramento : 0;
+  const livramentoVedado = requisitos.length > 0 && requisitos.every(r => r.classificacao.fracaoLivramento === undefined);
 
-    return maiorFracao;
+  // Fração equivalente sobre a pena total, para exibição e para o histórico de custódia
+  const obterFracaoEfetiva = (dias: number) => {
+    const total = calcularPenaTotal();
+    return total > 0 ? dias / total : 0;
   };
 
   const calcularSentenca = () => {
@@ -137,12 +148,14 @@ export default function DadosSentencaAvancados({ onCalcular }: DadosSentencaAvan
     }
 
     const totalDias = calcularPenaTotal();
-    const fracaoProgressao = obterMaiorFracaoProgressao();
-    const fracaoLivramento = obterMaiorFracaoLivramento();
+    const fracaoProgressao = obterFracaoEfetiva(requisitoProgressao);
+    const fracaoLivramento = livramentoVedado ? undefined : obterFracaoEfetiva(requisitoLivramento);
 
     const dadosSentenca: DadosSentenca = {
       crimes,
       totalDias,
+      pena: obterPenaSomada(),
+      dataInicioTeorica: dataInicioISO,
       regimeInicial: dadosProcessuais.regimeInicial,
       fracaoProgressao,
       fracaoLivramento,
@@ -156,14 +169,11 @@ export default function DadosSentencaAvancados({ onCalcular }: DadosSentencaAvan
     onCalcular(dadosSentenca);
   };
 
-  const getTipoPercentualLabel = (tipo: string) => {
-    switch (tipo) {
-      case 'primario': return 'Réu Primário (1/6 e 1/3)';
-      case 'reincidente': return 'Reincidente (1/4 e 1/2)';
-      case 'hediondo_primario': return 'Hediondo - Primário (2/5 e 3/5)';
-      case 'hediondo_reincidente': return 'Hediondo - Reincidente (3/5 e 4/5)';
-      default: return tipo;
-    }
+  const getClassificacaoLabel = (classificacao: ClassificacaoCrime) => {
+    const livramento = classificacao.fracaoLivramento
+      ? `livramento ${Math.round(classificacao.fracaoLivramento * 100)}%`
+      : 'livramento vedado';
+    return `${classificacao.fundamentoProgressao} (${formatarFracao(classificacao.fracaoProgressao)}) · ${livramento}`;
   };
 
   return (
@@ -236,6 +246,35 @@ export default function DadosSentencaAvancados({ onCalcular }: DadosSentencaAvan
                 </PopoverContent>
               </Popover>
             </div>
+            <div className="space-y-2">
+              <Label className="text-slate-200">Início do Cumprimento</Label>
+              <Popover open={isInicioCalendarOpen} onOpenChange={setIsInicioCalendarOpen}>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className={cn(
+                      "w-full justify-start text-left font-normal bg-slate-700 border-slate-600 text-white hover:bg-slate-600",
+                      !dadosProcessuais.dataInicio && "text-slate-400"
+                    )}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {dadosProcessuais.dataInicio ? format(dadosProcessuais.dataInicio, "PPP", { locale: ptBR }) : "Selecione a data"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0 bg-slate-800 border-slate-700" align="start">
+                  <CalendarComponent
+                    mode="single"
+                    selected={dadosProcessuais.dataInicio}
+                    onSelect={(date) => {
+                      setDadosProcessuais({...dadosProcessuais, dataInicio: date});
+                      setIsInicioCalendarOpen(false);
+                    }}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+              <p className="text-xs text-slate-400">Permite contar a pena pelo calendário (art. 10 CP)</p>
+            </div>
           </div>
 
           <div className="space-y-2">
@@ -341,25 +380,43 @@ export default function DadosSentencaAvancados({ onCalcular }: DadosSentencaAvan
             </div>
           </div>
 
-          <div className="space-y-2">
-            <Label className="text-slate-200">Tipo de Crime/Réu *</Label>
-            <Select 
-              value={novoCrime.tipoPercentual} 
-              onValueChange={(value: 'primario' | 'reincidente' | 'hediondo_primario' | 'hediondo_reincidente') => 
-                setNovoCrime({...novoCrime, tipoPercentual: value})
-              }
-            >
-              <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent className="bg-slate-800 border-slate-700">
-                <SelectItem value="primario">Réu Primário (1/6 e 1/3)</SelectItem>
-                <SelectItem value="reincidente">Reincidente (1/4 e 1/2)</SelectItem>
-                <SelectItem value="hediondo_primario">Hediondo - Primário (2/5 e 3/5)</SelectItem>
-                <SelectItem value="hediondo_reincidente">Hediondo - Reincidente (3/5 e 4/5)</SelectItem>
-              </SelectContent>
-            </Select>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className="text-slate-200">Natureza do Crime *</Label>
+              <Select
+                value={novoCrime.natureza}
+                onValueChange={(value: NaturezaCrime) => setNovoCrime({...novoCrime, natureza: value})}
+              >
+                <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {NATUREZAS.map(({ valor, rotulo }) => (
+                    <SelectItem key={valor} value={valor}>{rotulo}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-slate-200">Reincidência *</Label>
+              <Select
+                value={novoCrime.reincidencia}
+                onValueChange={(value: Reincidencia) => setNovoCrime({...novoCrime, reincidencia: value})}
+              >
+                <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {REINCIDENCIAS.map(({ valor, rotulo }) => (
+                    <SelectItem key={valor} value={valor}>{rotulo}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
+          <p className="text-xs text-slate-400">
+            {getClassificacaoLabel(classificarCrime(novoCrime))}
+          </p>
 
           <div className="space-y-2">
             <Label className="text-slate-200">Observações</Label>
@@ -388,11 +445,13 @@ export default function DadosSentencaAvancados({ onCalcular }: DadosSentencaAvan
               Crimes Adicionados ({crimes.length})
             </CardTitle>
             <CardDescription className="text-slate-400">
-              Pena total: {Math.floor(calcularPenaTotal() / 365)} anos, {Math.floor((calcularPenaTotal() % 365) / 30)} meses e {calcularPenaTotal() % 30} dias
+              Pena total: {obterPenaSomada().anos} anos, {obterPenaSomada().meses} meses e {obterPenaSomada().dias} dias ({calcularPenaTotal()} dias{dataInicioISO ? ' pelo calendário' : ' aproximados'})
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            {crimes.map((crime, index) => (
+            {requisitos.map((requisito, index) => {
+              const crime = crimes.find(c => c.id === requisito.crimeId)!;
+              return (
               <div key={crime.id} className="bg-slate-700/50 rounded-lg p-4 space-y-2">
                 <div className="flex items-start justify-between">
                   <div className="flex-1">
@@ -402,7 +461,11 @@ export default function DadosSentencaAvancados({ onCalcular }: DadosSentencaAvan
                       Pena: {crime.penaAnos}a {crime.penaMeses}m {crime.penaDias}d
                     </p>
                     <p className="text-slate-400 text-xs">
-                      {getTipoPercentualLabel(crime.tipoPercentual)}
+                      {getClassificacaoLabel(requisito.classificacao)}
+                    </p>
+                    <p className="text-emerald-400 text-xs">
+                      {index + 1}º a cumprir: {requisito.diasProgressao} de {requisito.diasPena} dias para progressão
+                      {' '}(acumulado {requisito.acumuladoProgressao})
                     </p>
                     {crime.observacoes && (
                       <p className="text-slate-400 text-xs mt-1">{crime.observacoes}</p>
@@ -419,28 +482,31 @@ export default function DadosSentencaAvancados({ onCalcular }: DadosSentencaAvan
                 </div>
                 {index < crimes.length - 1 && <Separator className="bg-slate-600" />}
               </div>
-            ))}
+              );
+            })}
 
             <Separator className="bg-slate-600" />
 
             <div className="flex flex-col sm:flex-row gap-4 pt-4">
               <div className="flex-1 text-center p-4 bg-primary/10 rounded-lg border border-primary/30">
                 <p className="text-primary font-bold text-lg">
-                  {Math.floor(calcularPenaTotal() / 365)}a {Math.floor((calcularPenaTotal() % 365) / 30)}m {calcularPenaTotal() % 30}d
+                  {formatarPenaPeriodo(obterPenaSomada())}
                 </p>
                 <p className="text-primary text-sm">Pena Total</p>
               </div>
               <div className="flex-1 text-center p-4 bg-emerald-600/10 rounded-lg border border-emerald-600/30">
                 <p className="text-emerald-400 font-bold text-lg">
-                  {Math.round(obterMaiorFracaoProgressao() * 100)}%
+                  {requisitoProgressao} dias
                 </p>
-                <p className="text-emerald-400 text-sm">Progressão</p>
+                <p className="text-emerald-400 text-sm">Progressão ({formatarFracao(obterFracaoEfetiva(requisitoProgressao))})</p>
               </div>
               <div className="flex-1 text-center p-4 bg-blue-600/10 rounded-lg border border-blue-600/30">
                 <p className="text-blue-400 font-bold text-lg">
-                  {Math.round(obterMaiorFracaoLivramento() * 100)}%
+                  {livramentoVedado ? 'Vedado' : `${requisitoLivramento} dias`}
+                </p>
+                <p className="text-blue-400 text-sm">
+                  Livramento{!livramentoVedado && ` (${formatarFracao(obterFracaoEfetiva(requisitoLivramento))})`}
                 </p>
-                <p className="text-blue-400 text-sm">Livramento</p>
               </div>
             </div>
 
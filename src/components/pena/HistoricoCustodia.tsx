@@ -5,7 +5,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Calendar as CalendarComponent } from '@/components/ui/calendar';
-import { CalendarIcon, Plus, Trash2, Copy, Download, ToggleLeft, ToggleRight } from 'lucide-react';
+import { CalendarIcon, Plus, Trash2, Copy, Download, ToggleLeft, ToggleRight, Save, FolderOpen } from 'lucide-react';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -13,10 +13,38 @@ import { cn } from '@/lib/utils';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { useToast } from '@/hooks/use-toast';
-import { EpisodioCustodia, Remissao, EventoProcessual, DadosSentenca, ResultadoCalculoV2 } from '@/types/pena';
-import { calcularDatasChave, converterParaDias, obterStatusAtual } from '@/lib/pena';
+import { EpisodioCustodia, Remissao, EventoProcessual, DadosSentenca, ResultadoCalculoV2, PenaPeriodo, RegimePrisional, CasoExecucao, VersaoCasoExecucao, ProcessoExecucao, NaturezaCrime } from '@/types/pena';
+import { calcularDatasChave, converterParaDias, formatarPenaPeriodo, obterStatusAtual, obterHojeISO, unificarProcessos } from '@/lib/pena';
+import { avaliarIndulto } from '@/lib/indulto';
+import { imprimirAtestadoPena, ROTULOS_NATUREZA } from '@/lib/atestadoPena';
 import dayjs from 'dayjs';
 import TimelineExecucao from './TimelineExecucao';
+import HistoricoExecucaoModal from './HistoricoExecucaoModal';
+import CalculadoraRemicao from './CalculadoraRemicao';
+import { useCasosExecucao } from '@/hooks/useCasosExecucao';
+
+const ROTULOS_MARCO = {
+  progressao: 'Progressão',
+  livramento: 'Livramento',
+  termino: 'Término'
+};
+
+const ROTULOS_BENEFICIO = {
+  indulto: 'Indulto',
+  comutacao: 'Comutação',
+  nenhum: 'Não preenche',
+  nao_avaliado: 'Não avaliado'
+};
+
+const ESTILOS_BENEFICIO = {
+  indulto: 'bg-green-600/20 text-green-400',
+  comutacao: 'bg-emerald-600/20 text-emerald-400',
+  nenhum: 'bg-slate-600/30 text-slate-400',
+  nao_avaliado: 'bg-amber-600/20 text-amber-400'
+};
+
+const formatarDataISO = (dataISO?: string) =>
+  dataISO ? dayjs(dataISO).format('DD/MM/YYYY') : '-';
 
 export default function HistoricoCustodia() {
   const { toast } = useToast();
@@ -48,21 +76,76 @@ export default function HistoricoCustodia() {
   const [novoEvento, setNovoEvento] = useState<Partial<EventoProcessual>>({
     tipo: 'Condenacao'
   });
+  const [novoProcesso, setNovoProcesso] = useState<Partial<ProcessoExecucao>>({});
+  
+  // Caso salvo em edição
+  const { salvarVersao } = useCasosExecucao();
+  const [casoAtual, setCasoAtual] = useState<CasoExecucao | null>(null);
+  const [clienteNome, setClienteNome] = useState('');
+  const [salvando, setSalvando] = useState(false);
+  const [showHistorico, setShowHistorico] = useState(false);
   
   // Recalcular sempre que os dados mudarem
   useEffect(() => {
     if (dadosSentenca.totalDias > 0) {
-      const hoje = dayjs().format('YYYY-MM-DD');
+      const hoje = obterHojeISO();
       const novoResultado = calcularDatasChave(
         dadosSentenca,
         episodios,
         remissoes,
         hoje,
-        incluirDiaSoltura
+        incluirDiaSoltura,
+        eventos
       );
       setResultado(novoResultado);
     }
-  }, [dadosSentenca, episodios, remissoes, incluirDiaSoltura]);
+  }, [dadosSentenca, episodios, remissoes, eventos, incluirDiaSoltura]);
+  
+  const atualizarPena = (campo: keyof PenaPeriodo, valor: number) => {
+    const pena = { anos: 0, meses: 0, dias: 0, ...dadosSentenca.pena, [campo]: valor };
+    setDadosSentenca({
+      ...dadosSentenca,
+      pena,
+      totalDias: converterParaDias(pena)
+    });
+  };
+  
+  // Funções para gerenciar os processos unificados
+  const processos = dadosSentenca.processos ?? [];
+  
+  const adicionarProcesso = () => {
+    const pena = novoProcesso.pena;
+    if (!novoProcesso.numeroProcesso?.trim() || !pena || converterParaDias(pena) === 0) {
+      toast({
+        title: "Campos obrigatórios",
+        description: "Informe o número do processo e a pena",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    const processo: ProcessoExecucao = {
+      id: crypto.randomUUID(),
+      numeroProcesso: novoProcesso.numeroProcesso.trim(),
+      vara: novoProcesso.vara || undefined,
+      dataTransito: novoProcesso.dataTransito || undefined,
+      crimes: [],
+      pena
+    };
+    
+    setDadosSentenca(unificarProcessos(dadosSentenca, [...processos, processo]));
+    setNovoProcesso({});
+  };
+  
+  const excluirProcesso = (id: string) => {
+    const restantes = processos.filter(processo => processo.id !== id);
+    setDadosSentenca(restantes.length > 0
+      ? unificarProcessos(dadosSentenca, restantes)
+      : { ...dadosSentenca, processos: undefined });
+    setEpisodios(episodios.map(ep => ep.processoId === id ? { ...ep, processoId: undefined } : ep));
+  };
+  
+  const obterNumeroProcesso = (id?: string) => processos.find(processo => processo.id === id)?.numeroProcesso;
   
   // Funções para gerenciar episódios
   const adicionarEpisodio = () => {
@@ -81,7 +164,8 @@ export default function HistoricoCustodia() {
       inicio: novoEpisodio.inicio!,
       fim: novoEpisodio.fim,
       computavel: novoEpisodio.computavel ?? true,
-      observacao: novoEpisodio.observacao
+      observacao: novoEpisodio.observacao,
+      processoId: novoEpisodio.processoId
     };
     
     setEpisodios([...episodios, episodio]);
@@ -140,6 +224,15 @@ export default function HistoricoCustodia() {
     });
   };
   
+  const lancarRemissoesCalculadas = (calculadas: Remissao[]) => {
+    setRemissoes([...remissoes, ...calculadas]);
+
+    toast({
+      title: "Remições lançadas",
+      description: `${calculadas.length} crédito(s) somando ${calculadas.reduce((total, r) => total + r.dias, 0)} dias`
+    });
+  };
+  
   const excluirRemissao = (id: string) => {
     setRemissoes(remissoes.filter(r => r.id !== id));
   };
@@ -159,7 +252,9 @@ export default function HistoricoCustodia() {
       id: crypto.randomUUID(),
       data: novoEvento.data!,
       tipo: novoEvento.tipo!,
-      observacao: novoEvento.observacao
+      observacao: novoEvento.observacao,
+      regimeResultante: novoEvento.tipo === 'Regressao' ? novoEvento.regimeResultante ?? 'Fechado' : undefined,
+      penaAcrescida: novoEvento.tipo === 'Unificacao' ? novoEvento.penaAcrescida : undefined
     };
     
     setEventos([...eventos, evento]);
@@ -170,41 +265,180 @@ export default function HistoricoCustodia() {
     setEventos(eventos.filter(e => e.id !== id));
   };
   
-  const exportarPDF = () => {
+  const salvarCaso = async () => {
+    if (!clienteNome.trim()) {
+      toast({
+        title: "Campos obrigatórios",
+        description: "Informe o nome do cliente para salvar o caso",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    setSalvando(true);
+    try {
+      const caso = await salvarVersao(
+        { clienteNome: clienteNome.trim(), numeroProcesso: dadosSentenca.numeroProcesso, observacoes: casoAtual?.observacoes },
+        { dadosSentenca, episodios, remissoes, eventos, incluirDiaSoltura },
+        resultado,
+        casoAtual?.id
+      );
+      setCasoAtual(caso);
+      toast({
+        title: "Caso salvo",
+        description: `Versão ${caso.versaoAtual} de ${caso.clienteNome}`
+      });
+    } catch (error) {
+      console.error('Erro ao salvar caso:', error);
+      toast({
+        title: "Erro ao salvar",
+        description: "Não foi possível salvar o caso",
+        variant: "destructive"
+      });
+    } finally {
+      setSalvando(false);
+    }
+  };
+  
+  // Restaura a versão; o efeito de recálculo usa a data de hoje
+  const reabrirCaso = (caso: CasoExecucao, versao: VersaoCasoExecucao) => {
+    setCasoAtual(caso);
+    setClienteNome(caso.clienteNome);
+    setDadosSentenca(versao.snapshot.dadosSentenca);
+    setEpisodios(versao.snapshot.episodios);
+    setRemissoes(versao.snapshot.remissoes);
+    setEventos(versao.snapshot.eventos);
+    setIncluirDiaSoltura(versao.snapshot.incluirDiaSoltura);
     toast({
-      title: "Exportar PDF",
-      description: "Funcionalidade em desenvolvimento"
+      title: "Caso reaberto",
+      description: `Versão ${versao.versao} recalculada com a data de hoje`
+    });
+  };
+  
+  const exportarPDF = () => {
+    if (!resultado) return;
+    
+    const aberto = imprimirAtestadoPena({
+      dadosSentenca,
+      episodios,
+      remissoes,
+      eventos,
+      resultado,
+      incluirDiaSoltura,
+      dataReferencia: obterHojeISO(),
+      apenado: clienteNome.trim() || undefined
     });
+    if (!aberto) {
+      toast({
+        title: "Exportar PDF",
+        description: "Permita pop-ups para gerar o atestado de pena",
+        variant: "destructive"
+      });
+    }
   };
   
-  const hoje = dayjs().format('YYYY-MM-DD');
+  const hoje = obterHojeISO();
   const statusAtual = obterStatusAtual(episodios, hoje);
+  const avaliacoesIndulto = dadosSentenca.totalDias > 0
+    ? avaliarIndulto(dadosSentenca, episodios, remissoes, eventos, incluirDiaSoltura)
+    : [];
   
   return (
     <div className="space-y-6">
-      {/* Configurações da Sentença */}
+      {/* Caso */}
       <Card className="bg-slate-800/50 border-slate-700">
         <CardHeader>
-          <CardTitle className="text-white">Dados da Sentença</CardTitle>
+          <CardTitle className="text-white">Caso de Execução</CardTitle>
           <CardDescription className="text-slate-400">
-            Configure os parâmetros base para o cálculo
+            {casoAtual
+              ? `Editando ${casoAtual.clienteNome} · versão ${casoAtual.versaoAtual}; salvar gera uma nova versão`
+              : 'Salve o cálculo por cliente e processo para reabri-lo depois'}
           </CardDescription>
         </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div>
+              <Label className="text-slate-200">Cliente</Label>
+              <Input
+                value={clienteNome}
+                onChange={(e) => setClienteNome(e.target.value)}
+                placeholder="Nome do cliente"
+                className="bg-slate-700 border-slate-600 text-white"
+              />
+            </div>
             <div>
-              <Label className="text-slate-200">Pena Total (anos)</Label>
+              <Label className="text-slate-200">Número do Processo</Label>
               <Input
-                type="number"
-                value={dadosSentenca.totalDias / 365}
+                value={dadosSentenca.numeroProcesso || ''}
                 onChange={(e) => setDadosSentenca({
                   ...dadosSentenca,
-                  totalDias: Math.round(parseFloat(e.target.value || '0') * 365)
+                  numeroProcesso: e.target.value || undefined
                 })}
+                placeholder="0000000-00.0000.0.00.0000"
                 className="bg-slate-700 border-slate-600 text-white"
               />
             </div>
+            <Button onClick={salvarCaso} disabled={salvando}>
+              <Save className="w-4 h-4 mr-2" />
+              {salvando ? 'Salvando...' : casoAtual ? 'Salvar Nova Versão' : 'Salvar Caso'}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setShowHistorico(true)}
+              className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600"
+            >
+              <FolderOpen className="w-4 h-4 mr-2" />
+              Casos Salvos
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+      
+      <HistoricoExecucaoModal
+        isOpen={showHistorico}
+        onClose={() => setShowHistorico(false)}
+        onReabrir={reabrirCaso}
+      />
+      
+      {/* Configurações da Sentença */}
+      <Card className="bg-slate-800/50 border-slate-700">
+        <CardHeader>
+          <CardTitle className="text-white">Dados da Sentença</CardTitle>
+          <CardDescription className="text-slate-400">
+            Configure os parâmetros base para o cálculo
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {(['anos', 'meses', 'dias'] as const).map((campo) => (
+              <div key={campo}>
+                <Label className="text-slate-200">Pena ({campo})</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={dadosSentenca.pena?.[campo] ?? 0}
+                  onChange={(e) => atualizarPena(campo, parseInt(e.target.value) || 0)}
+                  disabled={processos.length > 0}
+                  className="bg-slate-700 border-slate-600 text-white"
+                />
+              </div>
+            ))}
             
+            <div>
+              <Label className="text-slate-200">Início do Cumprimento</Label>
+              <Input
+                type="date"
+                value={dadosSentenca.dataInicioTeorica || ''}
+                onChange={(e) => {
+                  const atualizado = { ...dadosSentenca, dataInicioTeorica: e.target.value || undefined };
+                  setDadosSentenca(processos.length > 0 ? unificarProcessos(atualizado, processos) : atualizado);
+                }}
+                className="bg-slate-700 border-slate-600 text-white"
+              />
+            </div>
+          </div>
+          
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
               <Label className="text-slate-200">Fração Progressão</Label>
               <Select 
@@ -245,6 +479,107 @@ export default function HistoricoCustodia() {
                 </SelectContent>
               </Select>
             </div>
+            
+            <div>
+              <Label className="text-slate-200">Natureza dos Crimes</Label>
+              <Select 
+                value={dadosSentenca.natureza || ''}
+                onValueChange={(value) => setDadosSentenca({
+                  ...dadosSentenca,
+                  natureza: (value || undefined) as NaturezaCrime | undefined
+                })}
+              >
+                <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                  <SelectValue placeholder="Não informada" />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {(Object.keys(ROTULOS_NATUREZA) as NaturezaCrime[]).map((natureza) => (
+                    <SelectItem key={natureza} value={natureza}>{ROTULOS_NATUREZA[natureza]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          
+          {/* Processos unificados */}
+          <div className="space-y-3 p-4 bg-slate-700/30 rounded-lg">
+            <div>
+              <div className="text-sm text-slate-200 font-medium">Processos unificados (art. 111 LEP)</div>
+              <div className="text-xs text-slate-400">
+                Com mais de um processo, a pena da sentença passa a ser a soma das condenações
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-6 gap-2 items-end">
+              <div className="md:col-span-2">
+                <Label className="text-slate-200">Número do Processo</Label>
+                <Input
+                  value={novoProcesso.numeroProcesso || ''}
+                  onChange={(e) => setNovoProcesso({ ...novoProcesso, numeroProcesso: e.target.value })}
+                  className="bg-slate-700 border-slate-600 text-white"
+                />
+              </div>
+              <div>
+                <Label className="text-slate-200">Vara</Label>
+                <Input
+                  value={novoProcesso.vara || ''}
+                  onChange={(e) => setNovoProcesso({ ...novoProcesso, vara: e.target.value })}
+                  className="bg-slate-700 border-slate-600 text-white"
+                />
+              </div>
+              <div>
+                <Label className="text-slate-200">Trânsito em Julgado</Label>
+                <Input
+                  type="date"
+                  value={novoProcesso.dataTransito || ''}
+                  onChange={(e) => setNovoProcesso({ ...novoProcesso, dataTransito: e.target.value })}
+                  className="bg-slate-700 border-slate-600 text-white"
+                />
+              </div>
+              {(['anos', 'meses', 'dias'] as const).map((campo) => (
+                <div key={campo}>
+                  <Label className="text-slate-200">Pena ({campo})</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={novoProcesso.pena?.[campo] ?? ''}
+                    onChange={(e) => setNovoProcesso({
+                      ...novoProcesso,
+                      pena: { anos: 0, meses: 0, dias: 0, ...novoProcesso.pena, [campo]: parseInt(e.target.value) || 0 }
+                    })}
+                    className="bg-slate-700 border-slate-600 text-white"
+                  />
+                </div>
+              ))}
+              <Button onClick={adicionarProcesso} variant="outline" className="md:col-span-3 border-slate-600">
+                <Plus className="w-4 h-4 mr-2" />
+                Adicionar Processo
+              </Button>
+            </div>
+            {processos.map((processo) => (
+              <div key={processo.id} className="flex items-center justify-between text-sm p-2 bg-slate-700/50 rounded">
+                <div>
+                  <span className="text-white font-medium">{processo.numeroProcesso}</span>
+                  <span className="text-slate-400">
+                    {processo.vara && ` · ${processo.vara}`}
+                    {processo.pena && ` · ${formatarPenaPeriodo(processo.pena)}`}
+                    {processo.dataTransito && ` · trânsito em ${formatarDataISO(processo.dataTransito)}`}
+                  </span>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => excluirProcesso(processo.id)}
+                  className="text-red-400 hover:text-red-300"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            {processos.length > 0 && dadosSentenca.pena && (
+              <div className="text-xs text-slate-300">
+                Pena unificada: {formatarPenaPeriodo(dadosSentenca.pena)}
+              </div>
+            )}
           </div>
           
           <div className="flex items-center space-x-2">
@@ -257,6 +592,15 @@ export default function HistoricoCustodia() {
               {incluirDiaSoltura ? <ToggleRight className="w-5 h-5" /> : <ToggleLeft className="w-5 h-5" />}
               Incluir data da soltura no cômputo
             </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setDadosSentenca({ ...dadosSentenca, reincidente: !dadosSentenca.reincidente })}
+              className="text-slate-300 hover:text-white"
+            >
+              {dadosSentenca.reincidente ? <ToggleRight className="w-5 h-5" /> : <ToggleLeft className="w-5 h-5" />}
+              Reincidente
+            </Button>
           </div>
         </CardContent>
       </Card>
@@ -318,6 +662,25 @@ export default function HistoricoCustodia() {
                   />
                 </div>
                 
+                {processos.length > 0 && (
+                  <div>
+                    <Label className="text-slate-200">Processo</Label>
+                    <Select
+                      value={novoEpisodio.processoId || ''}
+                      onValueChange={(value) => setNovoEpisodio({...novoEpisodio, processoId: value})}
+                    >
+                      <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                        <SelectValue placeholder="Não vinculado" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-800 border-slate-700">
+                        {processos.map((processo) => (
+                          <SelectItem key={processo.id} value={processo.id}>{processo.numeroProcesso}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                
                 <div className="flex items-center space-x-2">
                   <Checkbox
                     checked={novoEpisodio.computavel}
@@ -361,6 +724,7 @@ export default function HistoricoCustodia() {
                         <div className="text-sm text-slate-400">
                           {format(new Date(episodio.inicio), 'dd/MM/yyyy', { locale: ptBR })} 
                           {episodio.fim ? ` até ${format(new Date(episodio.fim), 'dd/MM/yyyy', { locale: ptBR })}` : ' (em curso)'}
+                          {obterNumeroProcesso(episodio.processoId) && ` · processo ${obterNumeroProcesso(episodio.processoId)}`}
                         </div>
                         {episodio.observacao && (
                           <div className="text-xs text-slate-500 mt-1">{episodio.observacao}</div>
@@ -401,6 +765,8 @@ export default function HistoricoCustodia() {
             </CardHeader>
             <CardContent className="space-y-4">
               
+              <CalculadoraRemicao onGerar={lancarRemissoesCalculadas} remissoesLancadas={remissoes} />
+              
               {/* Formulário nova remição */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-slate-700/30 rounded-lg">
                 <div>
@@ -469,7 +835,7 @@ export default function HistoricoCustodia() {
                           <span className="text-sm text-slate-400">por {remissao.motivo}</span>
                         </div>
                         <div className="text-sm text-slate-400">
-                          Creditado em {format(new Date(remissao.dataCredito), 'dd/MM/yyyy', { locale: ptBR })}
+                          Creditado em {formatarDataISO(remissao.dataCredito)}
                         </div>
                         {remissao.observacao && (
                           <div className="text-xs text-slate-500 mt-1">{remissao.observacao}</div>
@@ -495,7 +861,7 @@ export default function HistoricoCustodia() {
             <CardHeader>
               <CardTitle className="text-white">Eventos Processuais</CardTitle>
               <CardDescription className="text-slate-400">
-                Registre marcos importantes do processo (informativo)
+                Falta grave, regressão, progressão e unificação alteram o cálculo
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -526,6 +892,7 @@ export default function HistoricoCustodia() {
                       <SelectItem value="Unificacao">Unificação</SelectItem>
                       <SelectItem value="Progressao">Progressão</SelectItem>
                       <SelectItem value="Regressao">Regressão</SelectItem>
+                      <SelectItem value="FaltaGrave">Falta Grave</SelectItem>
                       <SelectItem value="Livramento">Livramento</SelectItem>
                       <SelectItem value="Indulto">Indulto</SelectItem>
                       <SelectItem value="Outro">Outro</SelectItem>
@@ -533,6 +900,48 @@ export default function HistoricoCustodia() {
                   </Select>
                 </div>
                 
+                {novoEvento.tipo === 'Regressao' && (
+                  <div className="md:col-span-2">
+                    <Label className="text-slate-200">Regime Resultante</Label>
+                    <Select
+                      value={novoEvento.regimeResultante || 'Fechado'}
+                      onValueChange={(value) => setNovoEvento({...novoEvento, regimeResultante: value as RegimePrisional})}
+                    >
+                      <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-800 border-slate-700">
+                        <SelectItem value="Fechado">Fechado</SelectItem>
+                        <SelectItem value="Semiaberto">Semiaberto</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                
+                {novoEvento.tipo === 'Unificacao' && (
+                  <div className="md:col-span-2 grid grid-cols-3 gap-2">
+                    {(['anos', 'meses', 'dias'] as const).map((campo) => (
+                      <div key={campo}>
+                        <Label className="text-slate-200">Pena acrescida ({campo})</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          value={novoEvento.penaAcrescida?.[campo] ?? ''}
+                          onChange={(e) => setNovoEvento({
+                            ...novoEvento,
+                            penaAcrescida: {
+                              anos: 0, meses: 0, dias: 0,
+                              ...novoEvento.penaAcrescida,
+                              [campo]: parseInt(e.target.value) || 0
+                            }
+                          })}
+                          className="bg-slate-700 border-slate-600 text-white"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+                
                 <div className="md:col-span-2">
                   <Label className="text-slate-200">Observação</Label>
                   <Textarea
@@ -561,7 +970,9 @@ export default function HistoricoCustodia() {
                           <span className="text-white font-medium">{evento.tipo}</span>
                         </div>
                         <div className="text-sm text-slate-400">
-                          {format(new Date(evento.data), 'dd/MM/yyyy', { locale: ptBR })}
+                          {formatarDataISO(evento.data)}
+                          {evento.regimeResultante && ` · regime ${evento.regimeResultante}`}
+                          {evento.penaAcrescida && ` · +${formatarPenaPeriodo(evento.penaAcrescida)}`}
                         </div>
                         {evento.observacao && (
                           <div className="text-xs text-slate-500 mt-1">{evento.observacao}</div>
@@ -628,7 +1039,7 @@ export default function HistoricoCustodia() {
                     <div className="p-3 bg-blue-600/10 border border-blue-600/30 rounded-lg">
                       <div className="text-xs text-blue-400 font-medium">Progressão</div>
                       <div className="text-lg font-bold text-blue-400">
-                        {format(new Date(resultado.dataProgressao), 'dd/MM/yyyy', { locale: ptBR })}
+                        {formatarDataISO(resultado.dataProgressao)}
                       </div>
                     </div>
                   )}
@@ -637,7 +1048,7 @@ export default function HistoricoCustodia() {
                     <div className="p-3 bg-purple-600/10 border border-purple-600/30 rounded-lg">
                       <div className="text-xs text-purple-400 font-medium">Livramento Condicional</div>
                       <div className="text-lg font-bold text-purple-400">
-                        {format(new Date(resultado.dataLivramento), 'dd/MM/yyyy', { locale: ptBR })}
+                        {formatarDataISO(resultado.dataLivramento)}
                       </div>
                     </div>
                   )}
@@ -645,11 +1056,73 @@ export default function HistoricoCustodia() {
                   <div className="p-3 bg-orange-600/10 border border-orange-600/30 rounded-lg">
                     <div className="text-xs text-orange-400 font-medium">Término da Pena</div>
                     <div className="text-lg font-bold text-orange-400">
-                      {format(new Date(resultado.dataTermino), 'dd/MM/yyyy', { locale: ptBR })}
+                      {formatarDataISO(resultado.dataTermino)}
                     </div>
+                    {resultado.limiteCumprimento && (
+                      <div className="text-xs text-orange-300 mt-1">
+                        Limite de {resultado.limiteCumprimento.diasLimite} dias sobre a pena de {resultado.limiteCumprimento.diasPenaTotal} dias. {resultado.limiteCumprimento.fundamento}
+                      </div>
+                    )}
                   </div>
                 </div>
                 
+                {resultado.detracaoPorProcesso && (
+                  <div className="p-3 bg-slate-700/30 border border-slate-600 rounded-lg space-y-2">
+                    <div className="text-xs text-slate-300 font-medium">Custódia por processo</div>
+                    {resultado.detracaoPorProcesso.map((detracao) => (
+                      <div key={detracao.processoId ?? 'sem-processo'} className="grid grid-cols-3 gap-2 text-xs">
+                        <span className="text-slate-400 truncate">{detracao.numeroProcesso ?? 'Não vinculada'}</span>
+                        <span className="text-white">{detracao.diasCustodia} dias</span>
+                        <span className="text-slate-400 text-right">
+                          {detracao.diasAntesTransito === undefined ? '-' : `${detracao.diasAntesTransito} antes do trânsito`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                
+                {resultado.comparacaoContagem && (
+                  <div className="p-3 bg-slate-700/30 border border-slate-600 rounded-lg space-y-2">
+                    <div className="text-xs text-slate-300 font-medium">Aproximado (365/30) × Calendário (art. 10 CP)</div>
+                    {resultado.comparacaoContagem.map((item) => (
+                      <div key={item.marco} className="grid grid-cols-4 gap-2 text-xs">
+                        <span className="text-slate-400">{ROTULOS_MARCO[item.marco]}</span>
+                        <span className="text-slate-300">{formatarDataISO(item.aproximada)}</span>
+                        <span className="text-white font-medium">{formatarDataISO(item.calendario)}</span>
+                        <span className={cn(
+                          "text-right",
+                          item.diferencaDias ? "text-amber-400" : "text-slate-500"
+                        )}>
+                          {item.diferencaDias === undefined ? '-' : `${item.diferencaDias > 0 ? '+' : ''}${item.diferencaDias} d`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                
+                {resultado.impactoEventos && resultado.impactoEventos.length > 0 && (
+                  <div className="p-3 bg-slate-700/30 border border-slate-600 rounded-lg space-y-3">
+                    <div className="text-xs text-slate-300 font-medium">Efeito dos eventos</div>
+                    {resultado.impactoEventos.map((impacto) => (
+                      <div key={impacto.eventoId} className="space-y-1">
+                        <div className="text-xs text-white font-medium">
+                          {impacto.tipo} · {formatarDataISO(impacto.data)}
+                        </div>
+                        <div className="text-xs text-slate-400">{impacto.efeito}</div>
+                        {(Object.keys(ROTULOS_MARCO) as (keyof typeof ROTULOS_MARCO)[])
+                          .filter((marco) => impacto.antes[marco] !== impacto.depois[marco])
+                          .map((marco) => (
+                            <div key={marco} className="grid grid-cols-3 gap-2 text-xs">
+                              <span className="text-slate-400">{ROTULOS_MARCO[marco]}</span>
+                              <span className="text-slate-300">{formatarDataISO(impacto.antes[marco])}</span>
+                              <span className="text-amber-400">→ {formatarDataISO(impacto.depois[marco])}</span>
+                            </div>
+                          ))}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                
                 <Button onClick={exportarPDF} className="w-full">
                   <Download className="w-4 h-4 mr-2" />
                   Exportar PDF
@@ -657,6 +1130,44 @@ export default function HistoricoCustodia() {
               </CardContent>
             </Card>
           )}
+          
+          {/* Indulto e Comutação */}
+          {avaliacoesIndulto.length > 0 && (
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardHeader>
+                <CardTitle className="text-white">Indulto e Comutação</CardTitle>
+                <CardDescription className="text-slate-400">
+                  Requisitos objetivos de cada decreto natalino
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {avaliacoesIndulto.map((avaliacao) => (
+                  <div key={avaliacao.decretoId} className="p-3 bg-slate-700/30 border border-slate-600 rounded-lg space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-white font-medium">{avaliacao.decreto}</span>
+                      <span className={cn(
+                        "text-xs px-2 py-0.5 rounded-full",
+                        ESTILOS_BENEFICIO[avaliacao.beneficio]
+                      )}>
+                        {ROTULOS_BENEFICIO[avaliacao.beneficio]}
+                      </span>
+                    </div>
+                    <div className="text-xs text-slate-400">
+                      Corte em {formatarDataISO(avaliacao.dataCorte)} · {avaliacao.diasCumpridosNoCorte} dias cumpridos · saldo {avaliacao.saldoNoCorte} dias
+                    </div>
+                    {avaliacao.beneficio === 'comutacao' && (
+                      <div className="text-xs text-emerald-400">
+                        Comutados {avaliacao.diasComutados} dias · saldo comutado {avaliacao.saldoComutado} dias
+                      </div>
+                    )}
+                    {avaliacao.fundamentos.map((fundamento, index) => (
+                      <div key={index} className="text-xs text-slate-500">{fundamento}</div>
+                    ))}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
       
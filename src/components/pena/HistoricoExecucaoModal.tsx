@@ -0,0 +1,262 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useUserTimezone } from "@/hooks/useUserTimezone";
+import { useCasosExecucao } from "@/hooks/useCasosExecucao";
+import type { CasoExecucao, VersaoCasoExecucao } from "@/types/pena";
+import { Scale, Calendar, Copy, FolderOpen, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import dayjs from "dayjs";
+
+interface HistoricoExecucaoModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onReabrir: (caso: CasoExecucao, versao: VersaoCasoExecucao) => void;
+}
+
+const formatarData = (dataISO?: string) => dataISO ? dayjs(dataISO).format('DD/MM/YYYY') : '-';
+
+const HistoricoExecucaoModal: React.FC<HistoricoExecucaoModalProps> = ({
+  isOpen,
+  onClose,
+  onReabrir
+}) => {
+  const [casos, setCasos] = useState<CasoExecucao[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [casoSelecionado, setCasoSelecionado] = useState<CasoExecucao | null>(null);
+  const [versoes, setVersoes] = useState<VersaoCasoExecucao[]>([]);
+  const { formatDateInUserTimezone } = useUserTimezone();
+  const { listarCasos, listarVersoes, duplicarCaso, excluirCaso } = useCasosExecucao();
+
+  const fetchCasos = useCallback(async () => {
+    try {
+      setLoading(true);
+      setCasos(await listarCasos());
+    } catch (error) {
+      console.error('Erro ao buscar casos:', error);
+      toast.error('Erro ao carregar casos salvos');
+    } finally {
+      setLoading(false);
+    }
+  }, [listarCasos]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchCasos();
+    }
+  }, [isOpen, fetchCasos]);
+
+  const selecionarCaso = async (caso: CasoExecucao) => {
+    setCasoSelecionado(caso);
+    try {
+      setVersoes(await listarVersoes(caso.id));
+    } catch (error) {
+      console.error('Erro ao buscar versões:', error);
+      toast.error('Erro ao carregar versões do caso');
+    }
+  };
+
+  const duplicar = async (caso: CasoExecucao) => {
+    try {
+      const copia = await duplicarCaso(caso);
+      setCasos(prev => [copia, ...prev]);
+      toast.success('Caso duplicado');
+    } catch (error) {
+      console.error('Erro ao duplicar caso:', error);
+      toast.error('Erro ao duplicar caso');
+    }
+  };
+
+  const excluir = async (id: string) => {
+    try {
+      await excluirCaso(id);
+      setCasos(prev => prev.filter(caso => caso.id !== id));
+      if (casoSelecionado?.id === id) {
+        setCasoSelecionado(null);
+        setVersoes([]);
+      }
+      toast.success('Caso removido');
+    } catch (error) {
+      console.error('Erro ao remover caso:', error);
+      toast.error('Erro ao remover caso');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-6xl h-[80vh] bg-slate-900 border-slate-700">
+        <DialogHeader>
+          <DialogTitle className="text-white flex items-center gap-2">
+            <Scale className="w-5 h-5 text-primary" />
+            Casos de Execução
+          </DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Casos salvos por cliente e processo, com todas as versões
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-1 gap-4 min-h-0">
+          {/* Lista de casos */}
+          <div className="w-1/2 flex flex-col">
+            <div className="flex items-center justify-between mb-4">
+              <span className="text-sm text-slate-300">
+                {casos.length} caso(s) encontrado(s)
+              </span>
+            </div>
+
+            <ScrollArea className="flex-1">
+              {loading ? (
+                <div className="flex items-center justify-center py-8">
+                  <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                </div>
+              ) : casos.length === 0 ? (
+                <div className="text-center py-8 text-slate-400">
+                  <Scale className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p>Nenhum caso salvo</p>
+                  <p className="text-sm">Salve um cálculo para acompanhá-lo aqui</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {casos.map((caso) => (
+                    <Card
+                      key={caso.id}
+                      className={`cursor-pointer transition-all bg-slate-800/50 border-slate-700 hover:bg-slate-700/50 ${
+                        casoSelecionado?.id === caso.id ? 'ring-2 ring-primary' : ''
+                      }`}
+                      onClick={() => selecionarCaso(caso)}
+                    >
+                      <CardHeader className="pb-3">
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1">
+                            <CardTitle className="text-sm text-white">{caso.clienteNome}</CardTitle>
+                            <CardDescription className="text-xs text-slate-400 mt-1">
+                              {caso.numeroProcesso || 'Sem número de processo'}
+                            </CardDescription>
+                          </div>
+                          <div className="flex gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                duplicar(caso);
+                              }}
+                              className="h-8 w-8 p-0 text-slate-300 hover:text-white hover:bg-slate-600"
+                            >
+                              <Copy className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                excluir(caso.id);
+                              }}
+                              className="h-8 w-8 p-0 text-red-400 hover:text-red-300 hover:bg-red-500/20"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      </CardHeader>
+                      <CardContent className="pt-0 flex items-center gap-2 text-xs text-slate-400">
+                        <Calendar className="w-3 h-3" />
+                        {formatDateInUserTimezone(caso.updatedAt, 'dd/MM/yyyy HH:mm')}
+                        <Badge variant="outline" className="text-xs border-slate-600 text-slate-300">
+                          v{caso.versaoAtual}
+                        </Badge>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+
+          <Separator orientation="vertical" className="bg-slate-700" />
+
+          {/* Versões do caso selecionado */}
+          <div className="w-1/2 flex flex-col">
+            {casoSelecionado ? (
+              <>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-white">Versões</h3>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setCasoSelecionado(null)}
+                    className="text-slate-400 hover:text-white"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+
+                <ScrollArea className="flex-1">
+                  <div className="space-y-3">
+                    {versoes.map((versao) => (
+                      <Card key={versao.id} className="bg-slate-800/30 border-slate-600">
+                        <CardContent className="p-4 space-y-2">
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm text-white font-medium">
+                              Versão {versao.versao}
+                              <span className="text-xs text-slate-400 ml-2">
+                                salva em {formatDateInUserTimezone(versao.createdAt, 'dd/MM/yyyy HH:mm')}
+                              </span>
+                            </span>
+                            <Button
+                              size="sm"
+                              onClick={() => {
+                                onReabrir(casoSelecionado, versao);
+                                onClose();
+                              }}
+                              className="bg-primary hover:bg-primary/90"
+                            >
+                              <FolderOpen className="w-4 h-4 mr-1" />
+                              Reabrir
+                            </Button>
+                          </div>
+                          {versao.resultado && (
+                            <div className="grid grid-cols-3 gap-2 text-xs">
+                              <div>
+                                <span className="text-slate-400">Progressão</span>
+                                <div className="text-blue-400">{formatarData(versao.resultado.dataProgressao)}</div>
+                              </div>
+                              <div>
+                                <span className="text-slate-400">Livramento</span>
+                                <div className="text-purple-400">{formatarData(versao.resultado.dataLivramento)}</div>
+                              </div>
+                              <div>
+                                <span className="text-slate-400">Término</span>
+                                <div className="text-orange-400">{formatarData(versao.resultado.dataTermino)}</div>
+                              </div>
+                            </div>
+                          )}
+                          <div className="text-xs text-slate-500">
+                            Calculado com a data de {formatarData(versao.dataReferencia)} · {versao.snapshot.episodios.length} episódio(s), {versao.snapshot.remissoes.length} remição(ões), {versao.snapshot.eventos.length} evento(s)
+                          </div>
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-slate-400">
+                <div className="text-center">
+                  <FolderOpen className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p>Selecione um caso para ver as versões</p>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HistoricoExecucaoModal;
@@ -1,8 +1,6 @@
 import { useMemo } from 'react';
-import { EpisodioCustodia, Remissao, EventoProcessual, ResultadoCalculoV2 } from '@/types/pena';
+import { EpisodioCustodia, Remissao, EventoProcessual, ResultadoCalculoV2, EtapaExecucao } from '@/types/pena';
 import dayjs from 'dayjs';
-import { format } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
 import { cn } from '@/lib/utils';
 
 interface TimelineExecucaoProps {
@@ -12,6 +10,18 @@ interface TimelineExecucaoProps {
   resultado: ResultadoCalculoV2 | null;
 }
 
+const CORES_REGIME: Record<EtapaExecucao['regimeOrigem'], string> = {
+  Fechado: 'bg-red-500',
+  Semiaberto: 'bg-amber-500',
+  Aberto: 'bg-blue-500'
+};
+
+const ROTULO_DESTINO = (etapa: EtapaExecucao) =>
+  etapa.regimeDestino === 'Termino' ? 'Término da Pena' : `Progressão para ${etapa.regimeDestino}`;
+
+// Datas ISO são dias civis: dayjs as lê no fuso local, sem o deslocamento de new Date()
+const formatarData = (dataISO?: string) => dataISO ? dayjs(dataISO).format('DD/MM/YYYY') : '-';
+
 interface EventoTimeline {
   data: string;
   tipo: 'inicio_prisao' | 'fim_prisao' | 'remissao' | 'evento' | 'progressao' | 'livramento' | 'termino';
@@ -80,15 +90,18 @@ export default function TimelineExecucao({
     
     // Adicionar datas calculadas
     if (resultado) {
-      if (resultado.dataProgressao) {
-        items.push({
-          data: resultado.dataProgressao,
-          tipo: 'progressao',
-          descricao: 'Progressão de Regime',
-          cor: 'border-primary bg-primary/10',
-          icone: '⬆️'
+      resultado.planoEtapas
+        .filter(etapa => etapa.regimeDestino !== 'Termino' && etapa.data)
+        .forEach(etapa => {
+          items.push({
+            data: etapa.data!,
+            tipo: 'progressao',
+            descricao: ROTULO_DESTINO(etapa),
+            detalhes: `${Math.round(etapa.fracao * 100)}% de ${etapa.baseDias} dias (${etapa.diasRequisito} dias) · saldo ${etapa.saldoDias} dias`,
+            cor: 'border-primary bg-primary/10',
+            icone: '⬆️'
+          });
         });
-      }
       
       if (resultado.dataLivramento) {
         items.push({
@@ -123,69 +136,130 @@ export default function TimelineExecucao({
   
   const hoje = dayjs().format('YYYY-MM-DD');
   
+  const planoEtapas = resultado?.planoEtapas ?? [];
+  const totalPlano = planoEtapas.length > 0 ? planoEtapas[planoEtapas.length - 1].acumuladoDias : 0;
+  const cumpridoHoje = resultado ? resultado.diasCumpridosHoje + resultado.remicoesAcumuladasHoje : 0;
+
   return (
-    <div className="relative">
-      {/* Linha vertical */}
-      <div className="absolute left-8 top-0 bottom-0 w-0.5 bg-slate-600"></div>
+    <div className="space-y-6">
+      {totalPlano > 0 && (
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-white">Plano de Regimes</h4>
+
+          {/* Barra segmentada: cada trecho é o tempo em um regime */}
+          <div className="relative">
+            <div className="flex h-6 w-full overflow-hidden rounded">
+              {planoEtapas.map((etapa, index) => (
+                <div
+                  key={index}
+                  className={cn(CORES_REGIME[etapa.regimeOrigem], "h-full opacity-80 border-r border-slate-900 last:border-r-0")}
+                  style={{ width: `${(etapa.diasRequisito / totalPlano) * 100}%` }}
+                  title={`${etapa.regimeOrigem}: ${etapa.diasRequisito} dias`}
+                />
+              ))}
+            </div>
+            <div
+              className="absolute -top-1 -bottom-1 w-0.5 bg-white"
+              style={{ left: `${Math.min(100, (cumpridoHoje / totalPlano) * 100)}%` }}
+              title="Hoje"
+            />
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs text-slate-300">
+              <thead>
+                <tr className="text-slate-400 border-b border-slate-600">
+                  <th className="text-left py-1 pr-2">Etapa</th>
+                  <th className="text-left py-1 pr-2">Data</th>
+                  <th className="text-right py-1 pr-2">Base</th>
+                  <th className="text-right py-1 pr-2">Fração</th>
+                  <th className="text-right py-1 pr-2">Requisito</th>
+                  <th className="text-right py-1">Saldo</th>
+                </tr>
+              </thead>
+              <tbody>
+                {planoEtapas.map((etapa, index) => (
+                  <tr key={index} className="border-b border-slate-700/50">
+                    <td className="py-1 pr-2">
+                      <span className={cn("inline-block w-2 h-2 rounded-full mr-2", CORES_REGIME[etapa.regimeOrigem])} />
+                      {etapa.regimeOrigem} → {etapa.regimeDestino === 'Termino' ? 'Término' : etapa.regimeDestino}
+                    </td>
+                    <td className="py-1 pr-2">{formatarData(etapa.data)}</td>
+                    <td className="py-1 pr-2 text-right">{etapa.baseDias} d</td>
+                    <td className="py-1 pr-2 text-right">{(etapa.fracao * 100).toFixed(1)}%</td>
+                    <td className="py-1 pr-2 text-right">{etapa.diasRequisito} d</td>
+                    <td className="py-1 text-right">{etapa.saldoDias} d</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="relative">
+        {/* Linha vertical */}
+        <div className="absolute left-8 top-0 bottom-0 w-0.5 bg-slate-600"></div>
       
-      <div className="space-y-6">
-        {eventosTimeline.map((evento, index) => {
-          const isPassed = dayjs(evento.data).isBefore(hoje) || dayjs(evento.data).isSame(hoje, 'day');
-          const isToday = dayjs(evento.data).isSame(hoje, 'day');
+        <div className="space-y-6">
+          {eventosTimeline.map((evento, index) => {
+            const isPassed = dayjs(evento.data).isBefore(hoje) || dayjs(evento.data).isSame(hoje, 'day');
+            const isToday = dayjs(evento.data).isSame(hoje, 'day');
           
-          return (
-            <div key={index} className="relative flex items-start">
-              {/* Círculo na linha */}
-              <div className={cn(
-                "absolute left-6 w-4 h-4 rounded-full border-2 z-10",
-                isPassed ? "bg-white border-white" : "bg-slate-800 border-slate-400",
-                isToday && "ring-4 ring-primary/30"
-              )} />
-              
-              {/* Card do evento */}
-              <div className="ml-16 flex-1">
+            return (
+              <div key={index} className="relative flex items-start">
+                {/* Círculo na linha */}
                 <div className={cn(
-                  "p-4 rounded-lg border",
-                  evento.cor,
-                  !isPassed && "opacity-60"
-                )}>
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <div className="flex items-center gap-2">
-                        <span className="text-lg">{evento.icone}</span>
-                        <h4 className="font-semibold text-white">{evento.descricao}</h4>
-                        {isToday && (
-                          <span className="text-xs bg-primary text-primary-foreground px-2 py-1 rounded">
-                            HOJE
-                          </span>
-                        )}
-                      </div>
-                      
-                      <div className="text-sm text-slate-400 mt-1">
-                        {format(new Date(evento.data), 'dd/MM/yyyy', { locale: ptBR })}
-                      </div>
+                  "absolute left-6 w-4 h-4 rounded-full border-2 z-10",
+                  isPassed ? "bg-white border-white" : "bg-slate-800 border-slate-400",
+                  isToday && "ring-4 ring-primary/30"
+                )} />
+              
+                {/* Card do evento */}
+                <div className="ml-16 flex-1">
+                  <div className={cn(
+                    "p-4 rounded-lg border",
+                    evento.cor,
+                    !isPassed && "opacity-60"
+                  )}>
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2">
+                          <span className="text-lg">{evento.icone}</span>
+                          <h4 className="font-semibold text-white">{evento.descricao}</h4>
+                          {isToday && (
+                            <span className="text-xs bg-primary text-primary-foreground px-2 py-1 rounded">
+                              HOJE
+                            </span>
+                          )}
+                        </div>
                       
-                      {evento.detalhes && (
-                        <div className="text-sm text-slate-300 mt-2">
-                          {evento.detalhes}
+                        <div className="text-sm text-slate-400 mt-1">
+                          {formatarData(evento.data)}
                         </div>
-                      )}
+                      
+                        {evento.detalhes && (
+                          <div className="text-sm text-slate-300 mt-2">
+                            {evento.detalhes}
+                          </div>
+                        )}
+                      </div>
                     </div>
                   </div>
                 </div>
               </div>
-            </div>
-          );
-        })}
-      </div>
+            );
+          })}
+        </div>
       
-      {/* Linha de hoje */}
-      <div className="mt-6 pt-4 border-t border-slate-600">
-        <div className="flex items-center gap-2 text-primary">
-          <div className="w-2 h-2 bg-primary rounded-full"></div>
-          <span className="text-sm font-medium">
-            Hoje: {format(new Date(hoje), 'dd/MM/yyyy', { locale: ptBR })}
-          </span>
+        {/* Linha de hoje */}
+        <div className="mt-6 pt-4 border-t border-slate-600">
+          <div className="flex items-center gap-2 text-primary">
+            <div className="w-2 h-2 bg-primary rounded-full"></div>
+            <span className="text-sm font-medium">
+              Hoje: {formatarData(hoje)}
+            </span>
+          </div>
         </div>
       </div>
     </div>
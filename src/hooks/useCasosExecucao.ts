@@ -0,0 +1,119 @@
+import { useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type {
+  CasoExecucao,
+  ResultadoCalculoV2,
+  SnapshotExecucao,
+  VersaoCasoExecucao
+} from '@/types/pena';
+import { obterHojeISO } from '@/lib/pena';
+
+type DadosCaso = Pick<CasoExecucao, 'clienteNome' | 'numeroProcesso' | 'observacoes'>;
+
+const mapearCaso = (row: Tables<'execucao_penal_casos'>): CasoExecucao => ({
+  id: row.id,
+  clienteNome: row.cliente_nome,
+  numeroProcesso: row.numero_processo ?? undefined,
+  observacoes: row.observacoes ?? undefined,
+  versaoAtual: row.versao_atual,
+  updatedAt: row.updated_at
+});
+
+const mapearVersao = (row: Tables<'execucao_penal_versoes'>): VersaoCasoExecucao => ({
+  id: row.id,
+  casoId: row.caso_id,
+  versao: row.versao,
+  snapshot: {
+    dadosSentenca: row.dados_sentenca as unknown as SnapshotExecucao['dadosSentenca'],
+    episodios: row.episodios as unknown as SnapshotExecucao['episodios'],
+    remissoes: row.remissoes as unknown as SnapshotExecucao['remissoes'],
+    eventos: row.eventos as unknown as SnapshotExecucao['eventos'],
+    incluirDiaSoltura: row.incluir_dia_soltura
+  },
+  resultado: (row.resultado as unknown as ResultadoCalculoV2) ?? undefined,
+  dataReferencia: row.data_referencia,
+  createdAt: row.created_at
+});
+
+export const useCasosExecucao = () => {
+  const { user } = useAuth();
+
+  const userId = user?.id;
+
+  const listarCasos = useCallback(async (): Promise<CasoExecucao[]> => {
+    if (!userId) return [];
+
+    const { data, error } = await supabase
+      .from('execucao_penal_casos')
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false })
+      .limit(100);
+
+    if (error) throw error;
+    return (data || []).map(mapearCaso);
+  }, [userId]);
+
+  const listarVersoes = async (casoId: string): Promise<VersaoCasoExecucao[]> => {
+    const { data, error } = await supabase
+      .from('execucao_penal_versoes')
+      .select('*')
+      .eq('caso_id', casoId)
+      .order('versao', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(mapearVersao);
+  };
+
+  // Sem casoId cria o caso; com casoId grava a próxima versão do mesmo caso. O caso e a versão
+  // são gravados juntos pela função salvar_versao_execucao_penal, numa única transação
+  const salvarVersao = async (
+    dadosCaso: DadosCaso,
+    snapshot: SnapshotExecucao,
+    resultado: ResultadoCalculoV2 | null,
+    casoId?: string
+  ): Promise<CasoExecucao> => {
+    if (!userId) throw new Error('Usuário não autenticado');
+
+    const { data, error } = await supabase.rpc('salvar_versao_execucao_penal', {
+      p_caso_id: casoId,
+      p_cliente_nome: dadosCaso.clienteNome,
+      p_numero_processo: dadosCaso.numeroProcesso || undefined,
+      p_observacoes: dadosCaso.observacoes || undefined,
+      p_dados_sentenca: snapshot.dadosSentenca as unknown as Json,
+      p_episodios: snapshot.episodios as unknown as Json,
+      p_remissoes: snapshot.remissoes as unknown as Json,
+      p_eventos: snapshot.eventos as unknown as Json,
+      p_incluir_dia_soltura: snapshot.incluirDiaSoltura,
+      p_resultado: (resultado ?? undefined) as unknown as Json,
+      p_data_referencia: obterHojeISO()
+    });
+    if (error) throw error;
+
+    return mapearCaso(data);
+  };
+
+  const duplicarCaso = async (caso: CasoExecucao): Promise<CasoExecucao> => {
+    const [ultimaVersao] = await listarVersoes(caso.id);
+    if (!ultimaVersao) throw new Error('Caso sem versões salvas');
+
+    return salvarVersao(
+      { ...caso, clienteNome: `${caso.clienteNome} (cópia)` },
+      ultimaVersao.snapshot,
+      ultimaVersao.resultado ?? null
+    );
+  };
+
+  const excluirCaso = async (casoId: string) => {
+    const { error } = await supabase
+      .from('execucao_penal_casos')
+      .delete()
+      .eq('id', casoId);
+
+    if (error) throw error;
+  };
+
+  return { listarCasos, listarVersoes, salvarVersao, duplicarCaso, excluirCaso };
+};
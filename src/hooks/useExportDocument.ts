@@ -1,6 +1,12 @@
 import { useState } from 'react';
 import { toast } from 'sonner';
 import { useUserTimezone } from './useUserTimezone';
+import { AbaPlanilha, baixarArquivo, gerarCSV, gerarXLSX } from '@/lib/planilha';
+import { SERIES_SGS, type IndiceEconomico } from '@/lib/indicesEconomicos';
+import type { ResultadoEstruturado } from '@/types/calculoContrato';
+import type { CalculoDebitoJudicial } from '@/types/debitoJudicial';
+import type { CalculoTrabalhista } from '@/types/calculoTrabalhista';
+import type { CalculoPensao, RitoExecucao } from '@/types/pensao';
 
 interface CalculoContrato {
   valorTotal: number;
@@ -10,14 +16,215 @@ interface CalculoContrato {
   detalhamento: string;
 }
 
-interface CalculoPensao {
-  valorPensao: number;
-  percentualRenda: number;
-  valorTotalAtrasado: number;
-  multa: number;
-  juros: number;
-  valorCorrigido: number;
-  detalhamento: string;
+const formatarDataPlanilha = (data: string | null) => data ? `${data.slice(8, 10)}/${data.slice(5, 7)}/${data.slice(0, 4)}` : null;
+
+// Uma aba com o resumo e uma aba por seção de períodos
+function abasCalculoContrato(estrutura: ResultadoEstruturado): AbaPlanilha[] {
+  return [
+    {
+      nome: 'Resumo',
+      linhas: [
+        ['Item', 'Valor (R$)', 'Fórmula'],
+        ...estrutura.itens.map(item => [item.rotulo, Number(item.valor.toFixed(2)), item.formula])
+      ]
+    },
+    ...Object.entries(estrutura.secoes).map(([secao, titulo]) => ({
+      nome: titulo,
+      linhas: [
+        ['Período', 'Início', 'Fim', 'Dias', 'Base (R$)', 'Taxa (%)', 'Valor (R$)', 'Saldo (R$)', 'Fórmula'],
+        ...estrutura.periodos
+          .filter(periodo => periodo.secao === secao)
+          .map(periodo => [
+            periodo.rotulo,
+            formatarDataPlanilha(periodo.inicio),
+            formatarDataPlanilha(periodo.fim),
+            periodo.dias,
+            periodo.base === null ? null : Number(periodo.base.toFixed(2)),
+            periodo.taxa,
+            Number(periodo.valor.toFixed(2)),
+            periodo.saldo === null ? null : Number(periodo.saldo.toFixed(2)),
+            periodo.formula
+          ])
+      ]
+    }))
+  ];
+}
+
+const arredondar = (valor: number, casas = 2) => Number(valor.toFixed(casas));
+
+// Demonstrativo do cumprimento de sentença (parcela a parcela, com o resumo do art. 523 do CPC)
+// e a tabela dos índices mês a mês, no formato de planilha anexada à petição
+function abasDebitoJudicial(calculo: CalculoDebitoJudicial): AbaPlanilha[] {
+  const nomeIndice = SERIES_SGS[calculo.indice as IndiceEconomico]?.nome ?? calculo.indice.toUpperCase();
+  const resumo: [string, number][] = [
+    ['Valor original', calculo.totalOriginal],
+    [`Correção monetária (${nomeIndice})`, calculo.totalCorrecao],
+    [`Juros de mora (${calculo.jurosMensais}% a.m.)`, calculo.totalJuros],
+    ['SELIC (EC 113/2021)', calculo.totalSelic],
+    ['Principal atualizado', calculo.totalPrincipal],
+    ['Despesas processuais atualizadas', calculo.totalDespesas],
+    [`Honorários de sucumbência (${calculo.percentualHonorarios}%)`, calculo.honorariosSucumbencia],
+    ['Subtotal', calculo.subtotal],
+    ...(calculo.multa523 > 0 ? [['Multa - art. 523, § 1º, do CPC (10%)', calculo.multa523] as [string, number]] : []),
+    ...(calculo.honorarios523 > 0 ? [['Honorários - art. 523, § 1º, do CPC (10%)', calculo.honorarios523] as [string, number]] : []),
+    ['TOTAL DO DÉBITO', calculo.total]
+  ];
+
+  return [
+    {
+      nome: 'Demonstrativo',
+      linhas: [
+        ['DEMONSTRATIVO DE ATUALIZAÇÃO DO DÉBITO - CUMPRIMENTO DE SENTENÇA'],
+        ['Processo', calculo.processo],
+        ['Exequente', calculo.exequente],
+        ['Executado', calculo.executado],
+        ['Data do cálculo', formatarDataPlanilha(calculo.dataCalculo)],
+        ['Citação', formatarDataPlanilha(calculo.dataCitacao)],
+        ['Correção monetária', `${calculo.tabela} (${nomeIndice})${calculo.marcoSelic ? ` até ${formatarDataPlanilha(calculo.marcoSelic)}` : ''}`],
+        ['Juros de mora', `${calculo.jurosMensais}% a.m., simples, desde a citação${calculo.marcoSelic ? ` até ${formatarDataPlanilha(calculo.marcoSelic)}` : ''}`],
+        ['SELIC', calculo.marcoSelic ? `A partir de ${formatarDataPlanilha(calculo.marcoSelic)}, em substituição à correção e aos juros (EC 113/2021)` : 'Não aplicada'],
+        [],
+        [
+          'Descrição', 'Tipo', 'Data-base', 'Valor original (R$)', `Fator ${nomeIndice}`, 'Valor corrigido (R$)',
+          'Juros desde', 'Dias', 'Juros (%)', 'Juros (R$)', 'SELIC desde', 'SELIC (%)', 'SELIC (R$)', 'Total atualizado (R$)'
+        ],
+        ...calculo.parcelas.map(parcela => [
+          parcela.descricao,
+          parcela.tipo === 'despesa' ? 'Despesa' : 'Principal',
+          formatarDataPlanilha(parcela.dataBase),
+          arredondar(parcela.valorOriginal),
+          arredondar(parcela.fatorCorrecao, 6),
+          arredondar(parcela.valorCorrigido),
+          formatarDataPlanilha(parcela.inicioJuros),
+          parcela.inicioJuros ? parcela.diasJuros : null,
+          arredondar(parcela.percentualJuros, 4),
+          arredondar(parcela.valorJuros),
+          formatarDataPlanilha(parcela.inicioSelic),
+          arredondar(parcela.percentualSelic, 4),
+          arredondar(parcela.valorSelic),
+          arredondar(parcela.total)
+        ]),
+        [],
+        ...resumo.map(([rotulo, valor]) => [rotulo, arredondar(valor)])
+      ]
+    },
+    {
+      nome: 'Índices',
+      linhas: [
+        ['Competência', `${nomeIndice} (%)`, 'SELIC (%)'],
+        ...calculo.indices.map(indice => [
+          `${indice.competencia.slice(5, 7)}/${indice.competencia.slice(0, 4)}`,
+          indice.variacao,
+          indice.selic
+        ])
+      ]
+    }
+  ];
+}
+
+// Demonstrativo das verbas rescisórias (IPCA-E e SELIC da ADC 58) e a memória das horas extras
+function abasCalculoTrabalhista(calculo: CalculoTrabalhista): AbaPlanilha[] {
+  return [
+    {
+      nome: 'Verbas',
+      linhas: [
+        ['DEMONSTRATIVO DE VERBAS RESCISÓRIAS'],
+        ['Modalidade', calculo.descricaoRescisao],
+        ['Admissão', formatarDataPlanilha(calculo.dataAdmissao)],
+        ['Dispensa', formatarDataPlanilha(calculo.dataDemissao)],
+        ['Término com a projeção do aviso', formatarDataPlanilha(calculo.dataProjetada)],
+        ['Aviso prévio (Lei 12.506/2011)', `${calculo.diasAviso} dias`],
+        ['Remuneração', arredondar(calculo.remuneracao)],
+        ['Ajuizamento', formatarDataPlanilha(calculo.dataAjuizamento)],
+        ['Data do cálculo', formatarDataPlanilha(calculo.dataCalculo)],
+        [],
+        ['Verba', 'Quantidade', 'Valor (R$)', 'Vencimento', 'Fator IPCA-E', 'Valor corrigido (R$)', 'SELIC (%)', 'SELIC (R$)', 'Total (R$)', 'Fórmula'],
+        ...calculo.verbas.map(verba => [
+          verba.descricao,
+          verba.quantidade,
+          arredondar(verba.valor),
+          formatarDataPlanilha(verba.vencimento),
+          arredondar(verba.fatorIpcae, 6),
+          arredondar(verba.valorCorrigido),
+          arredondar(verba.percentualSelic, 4),
+          arredondar(verba.valorSelic),
+          arredondar(verba.total),
+          verba.formula
+        ]),
+        [],
+        ['Valor nominal', arredondar(calculo.totalNominal)],
+        ['Correção (IPCA-E)', arredondar(calculo.totalCorrecao)],
+        ['SELIC', arredondar(calculo.totalSelic)],
+        ['TOTAL ATUALIZADO', arredondar(calculo.total)]
+      ]
+    },
+    {
+      nome: 'Horas extras',
+      linhas: [
+        ['Competência', 'Salário (R$)', 'Valor da hora (R$)', 'Horas', 'Adicional (%)', 'Horas extras (R$)', 'Dias úteis', 'Repousos', 'DSR (R$)'],
+        ...calculo.horasExtras.map(item => [
+          `${item.competencia.slice(5, 7)}/${item.competencia.slice(0, 4)}`,
+          arredondar(item.salario),
+          arredondar(item.valorHora),
+          item.horas,
+          item.percentual,
+          arredondar(item.valorHoras),
+          item.diasUteis,
+          item.repousos,
+          arredondar(item.dsr)
+        ])
+      ]
+    }
+  ];
+}
+
+const TITULOS_RITO: Record<RitoExecucao, string> = {
+  prisao: 'RITO DA PRISÃO (art. 528, §§ 3º e 7º, do CPC)',
+  penhora: 'RITO DA PENHORA (art. 528, § 8º, do CPC)'
+};
+
+// Demonstrativo das parcelas de pensão em atraso, corrigidas e com juros desde cada vencimento;
+// com o rito, só as parcelas em aberto daquela execução, para anexar à respectiva petição
+function abasCalculoPensao(calculo: CalculoPensao, rito?: RitoExecucao): AbaPlanilha[] {
+  const parcelas = rito
+    ? (calculo.parcelas ?? []).filter(parcela => parcela.rito === rito && parcela.valorEmAberto > 0)
+    : calculo.parcelas ?? [];
+  const demonstrativo = rito ? calculo.demonstrativos?.[rito] : undefined;
+  const nomeIndice = SERIES_SGS[calculo.indice as IndiceEconomico]?.nome ?? (calculo.indice ?? '').toUpperCase();
+  return [
+    {
+      nome: 'Parcelas',
+      linhas: [
+        [rito ? `DEMONSTRATIVO DO DÉBITO ALIMENTAR - ${TITULOS_RITO[rito]}` : 'DEMONSTRATIVO DO DÉBITO ALIMENTAR'],
+        ['Data do cálculo', formatarDataPlanilha(calculo.dataCalculo ?? null)],
+        ...(rito ? [['Data do ajuizamento', formatarDataPlanilha(calculo.dataAjuizamento ?? null)]] : []),
+        ['Correção monetária', `${calculo.tabela ?? ''} (${nomeIndice}), desde cada vencimento`],
+        ['Juros de mora', `${calculo.jurosMensais ?? 1}% a.m., simples, desde cada vencimento`],
+        [],
+        ['Parcela', 'Vencimento', 'Base (R$)', 'Valor devido (R$)', 'Valor pago (R$)', 'Em aberto (R$)', `Fator ${nomeIndice}`, 'Valor corrigido (R$)', 'Dias', 'Juros (R$)', 'Multa (R$)', 'Total (R$)'],
+        ...parcelas.map((parcela, indice) => [
+          indice + 1,
+          formatarDataPlanilha(parcela.vencimento),
+          typeof parcela.baseCalculo === 'number' ? arredondar(parcela.baseCalculo) : null,
+          arredondar(parcela.valorDevido),
+          arredondar(parcela.valorPago),
+          arredondar(parcela.valorEmAberto),
+          arredondar(parcela.fatorCorrecao, 6),
+          arredondar(parcela.valorCorrigido),
+          parcela.diasJuros,
+          arredondar(parcela.valorJuros),
+          arredondar(parcela.valorMulta),
+          arredondar(parcela.total)
+        ]),
+        [],
+        ['Principal em atraso', arredondar(demonstrativo?.principal ?? calculo.valorTotalAtrasado)],
+        ['Correção monetária', arredondar(demonstrativo?.correcao ?? calculo.correcao ?? 0)],
+        ['Juros de mora', arredondar(demonstrativo?.juros ?? calculo.juros)],
+        ['Multa', arredondar(demonstrativo?.multa ?? calculo.multa)],
+        ['TOTAL DO DÉBITO', arredondar(parcelas.reduce((total, parcela) => total + parcela.total, 0))]
+      ]
+    }
+  ];
 }
 
 export const useExportDocument = () => {
@@ -40,6 +247,36 @@ export const useExportDocument = () => {
     }
   };
 
+  const exportCalculoContratoPlanilha = async (estrutura: ResultadoEstruturado, formato: 'xlsx' | 'csv') => {
+    setLoading(true);
+    try {
+      const abas = abasCalculoContrato(estrutura);
+      const nomeArquivo = `calculo-contrato-bancario-${formatDateInUserTimezone(new Date(), 'yyyy-MM-dd')}.${formato}`;
+      baixarArquivo(formato === 'xlsx' ? gerarXLSX(abas) : gerarCSV(abas), nomeArquivo);
+      toast.success(`Planilha ${nomeArquivo} gerada!`);
+    } catch (error) {
+      console.error('Erro ao exportar planilha:', error);
+      toast.error('Erro ao exportar planilha. Tente novamente.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportDebitoJudicialPlanilha = async (calculo: CalculoDebitoJudicial, formato: 'xlsx' | 'csv') => {
+    setLoading(true);
+    try {
+      const abas = abasDebitoJudicial(calculo);
+      const nomeArquivo = `cumprimento-sentenca-${formatDateInUserTimezone(new Date(), 'yyyy-MM-dd')}.${formato}`;
+      baixarArquivo(formato === 'xlsx' ? gerarXLSX(abas) : gerarCSV(abas), nomeArquivo);
+      toast.success(`Planilha ${nomeArquivo} gerada!`);
+    } catch (error) {
+      console.error('Erro ao exportar planilha:', error);
+      toast.error('Erro ao exportar planilha. Tente novamente.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const copyCalculoPensao = async (calculo: CalculoPensao, formData: any) => {
     setLoading(true);
     try {
@@ -56,9 +293,57 @@ export const useExportDocument = () => {
     }
   };
 
+  const exportCalculoPensaoPlanilha = async (calculo: CalculoPensao, formato: 'xlsx' | 'csv', rito?: RitoExecucao) => {
+    setLoading(true);
+    try {
+      const abas = abasCalculoPensao(calculo, rito);
+      const nomeArquivo = `${rito ? `execucao-alimentos-rito-${rito}` : 'debito-alimentar'}-${formatDateInUserTimezone(new Date(), 'yyyy-MM-dd')}.${formato}`;
+      baixarArquivo(formato === 'xlsx' ? gerarXLSX(abas) : gerarCSV(abas), nomeArquivo);
+      toast.success(`Planilha ${nomeArquivo} gerada!`);
+    } catch (error) {
+      console.error('Erro ao exportar planilha:', error);
+      toast.error('Erro ao exportar planilha. Tente novamente.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const copyCalculoTrabalhista = async (calculo: { detalhamento: string }) => {
+    setLoading(true);
+    try {
+      await navigator.clipboard.writeText(calculo.detalhamento);
+      toast.success('Relatório copiado para a área de transferência! Cole em qualquer editor.');
+    } catch (error) {
+      console.error('Erro ao copiar texto:', error);
+      toast.error('Erro ao copiar relatório. Tente novamente.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportCalculoTrabalhistaPlanilha = async (calculo: CalculoTrabalhista, formato: 'xlsx' | 'csv') => {
+    setLoading(true);
+    try {
+      const abas = abasCalculoTrabalhista(calculo);
+      const nomeArquivo = `verbas-rescisorias-${formatDateInUserTimezone(new Date(), 'yyyy-MM-dd')}.${formato}`;
+      baixarArquivo(formato === 'xlsx' ? gerarXLSX(abas) : gerarCSV(abas), nomeArquivo);
+      toast.success(`Planilha ${nomeArquivo} gerada!`);
+    } catch (error) {
+      console.error('Erro ao exportar planilha:', error);
+      toast.error('Erro ao exportar planilha. Tente novamente.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return {
     copyCalculoContrato,
+    exportCalculoContratoPlanilha,
+    exportDebitoJudicialPlanilha,
     copyCalculoPensao,
+    exportCalculoPensaoPlanilha,
+    copyCalculoTrabalhista,
+    exportCalculoTrabalhistaPlanilha,
     loading
   };
 };
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { useCallback, type Dispatch, type SetStateAction } from 'react';
+import { toast } from 'sonner';
+
+// Registro de histórico que grava o resultado completo na mesma forma devolvida pela função de cálculo
+export interface CalculoGravado<C> {
+  valor_total: number;
+  detalhamento: string;
+  calculo: C;
+}
+
+export const resultadoGravado = <C>(registro: CalculoGravado<C>) => ({
+  valorTotal: registro.valor_total,
+  detalhamento: registro.detalhamento,
+  calculo: registro.calculo
+});
+
+/**
+ * Reabre um cálculo do histórico nas calculadoras: preenche o formulário e exibe o resultado
+ * gravado sem refazer o cálculo, para que séries importadas depois não alterem os valores.
+ */
+export const useReabrirCalculo = <F, S>(
+  setFormData: Dispatch<SetStateAction<F>>,
+  setResult: Dispatch<SetStateAction<S | null>>
+) => useCallback((formulario: F, resultado: S) => {
+  setFormData(formulario);
+  setResult(resultado);
+  toast.success('Dados do histórico carregados!');
+}, [setFormData, setResult]);
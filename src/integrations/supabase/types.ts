@@ -228,90 +228,229 @@ export type Database = {
       }
       calculo_contrato_historico: {
         Row: {
+          analise_capitalizacao: Json | null
           created_at: string
           data_contrato: string
           data_pagamento_parcial: string | null
           data_vencimento: string
           detalhamento: string
+          dia_fechamento: number | null
+          dia_vencimento: number | null
           diferenca: number
+          extrato_texto: string | null
           id: string
           indice_correcao: string
           juros_mora: number | null
           juros_total: number
+          modalidade_credito: string | null
+          modo_calculo: string
           multa_atraso: number | null
+          numero_parcelas: number | null
           observacoes: string | null
+          pagamentos: Json
+          parcelas_pagas: number | null
+          repeticao_dobro: boolean
+          resultado_estruturado: Json | null
+          sistema_amortizacao: string | null
+          taxa_anual_declarada: number | null
           taxa_juros: number
+          taxa_media_bacen: number | null
+          taxas_ciclos: Json
           tipo_juros: string
+          tipo_rotativo: string | null
           updated_at: string
           user_id: string
           valor_contrato: number
           valor_corrigido: number
           valor_pago: number | null
+          valor_parcela: number | null
           valor_total: number
         }
         Insert: {
+          analise_capitalizacao?: Json | null
           created_at?: string
           data_contrato: string
           data_pagamento_parcial?: string | null
           data_vencimento: string
           detalhamento: string
+          dia_fechamento?: number | null
+          dia_vencimento?: number | null
           diferenca: number
+          extrato_texto?: string | null
           id?: string
           indice_correcao: string
           juros_mora?: number | null
           juros_total: number
+          modalidade_credito?: string | null
+          modo_calculo?: string
           multa_atraso?: number | null
+          numero_parcelas?: number | null
           observacoes?: string | null
+          pagamentos?: Json
+          parcelas_pagas?: number | null
+          repeticao_dobro?: boolean
+          resultado_estruturado?: Json | null
+          sistema_amortizacao?: string | null
+          taxa_anual_declarada?: number | null
           taxa_juros: number
+          taxa_media_bacen?: number | null
+          taxas_ciclos?: Json
           tipo_juros: string
+          tipo_rotativo?: string | null
           updated_at?: string
           user_id: string
           valor_contrato: number
           valor_corrigido: number
           valor_pago?: number | null
+          valor_parcela?: number | null
           valor_total: number
         }
         Update: {
+          analise_capitalizacao?: Json | null
           created_at?: string
           data_contrato?: string
           data_pagamento_parcial?: string | null
           data_vencimento?: string
           detalhamento?: string
+          dia_fechamento?: number | null
+          dia_vencimento?: number | null
           diferenca?: number
+          extrato_texto?: string | null
           id?: string
           indice_correcao?: string
           juros_mora?: number | null
           juros_total?: number
+          modalidade_credito?: string | null
+          modo_calculo?: string
           multa_atraso?: number | null
+          numero_parcelas?: number | null
           observacoes?: string | null
+          pagamentos?: Json
+          parcelas_pagas?: number | null
+          repeticao_dobro?: boolean
+          resultado_estruturado?: Json | null
+          sistema_amortizacao?: string | null
+          taxa_anual_declarada?: number | null
           taxa_juros?: number
+          taxa_media_bacen?: number | null
+          taxas_ciclos?: Json
           tipo_juros?: string
+          tipo_rotativo?: string | null
           updated_at?: string
           user_id?: string
           valor_contrato?: number
           valor_corrigido?: number
           valor_pago?: number | null
+          valor_parcela?: number | null
+          valor_total?: number
+        }
+        Relationships: []
+      }
+      calculo_debito_judicial_historico: {
+        Row: {
+          calculo: Json
+          created_at: string
+          data_calculo: string
+          data_citacao: string
+          detalhamento: string
+          executado: string | null
+          exequente: string | null
+          honorarios_523: boolean
+          honorarios_sucumbencia: number
+          id: string
+          indice_correcao: string
+          inicio_selic: string | null
+          juros_mensais: number
+          multa_523: boolean
+          observacoes: string | null
+          parcelas: Json
+          processo: string | null
+          subtotal: number
+          tribunal: string
+          updated_at: string
+          user_id: string
+          valor_original: number
+          valor_total: number
+        }
+        Insert: {
+          calculo: Json
+          created_at?: string
+          data_calculo: string
+          data_citacao: string
+          detalhamento: string
+          executado?: string | null
+          exequente?: string | null
+          honorarios_523?: boolean
+          honorarios_sucumbencia?: number
+          id?: string
+          indice_correcao: string
+          inicio_selic?: string | null
+          juros_mensais: number
+          multa_523?: boolean
+          observacoes?: string | null
+          parcelas?: Json
+          processo?: string | null
+          subtotal: number
+          tribunal: string
+          updated_at?: string
+          user_id: string
+          valor_original: number
+          valor_total: number
+        }
+        Update: {
+          calculo?: Json
+          created_at?: string
+          data_calculo?: string
+          data_citacao?: string
+          detalhamento?: string
+          executado?: string | null
+          exequente?: string | null
+          honorarios_523?: boolean
+          honorarios_sucumbencia?: number
+          id?: string
+          indice_correcao?: string
+          inicio_selic?: string | null
+          juros_mensais?: number
+          multa_523?: boolean
+          observacoes?: string | null
+          parcelas?: Json
+          processo?: string | null
+          subtotal?: number
+          tribunal?: string
+          updated_at?: string
+          user_id?: string
+          valor_original?: number
           valor_total?: number
         }
         Relationships: []
       }
       calculo_pensao_historico: {
         Row: {
+          aplicar_multa: boolean
+          correcao_monetaria: number
           created_at: string
+          data_ajuizamento: string | null
           data_fim: string | null
           data_inicio: string
           detalhamento: string
+          historico_renda: Json
           id: string
           idades_filhos: Json
+          indice_correcao: string | null
           juros: number
+          juros_mensais: number | null
           meses_atraso: number | null
           multa: number
           numero_filhos: number
           observacoes: string | null
+          pagamentos: Json
+          parcelas: Json
           percentual_pensao: number | null
           percentual_renda: number
           renda_alimentante: number | null
+          simulacao: Json | null
           tipo_calculo: string
+          tribunal: string | null
           updated_at: string
           user_id: string
           valor_corrigido: number
@@ -320,21 +459,31 @@ export type Database = {
           valor_total_atrasado: number
         }
         Insert: {
+          aplicar_multa?: boolean
+          correcao_monetaria?: number
           created_at?: string
+          data_ajuizamento?: string | null
           data_fim?: string | null
           data_inicio: string
           detalhamento: string
+          historico_renda?: Json
           id?: string
           idades_filhos?: Json
+          indice_correcao?: string | null
           juros: number
+          juros_mensais?: number | null
           meses_atraso?: number | null
           multa: number
           numero_filhos: number
           observacoes?: string | null
+          pagamentos?: Json
+          parcelas?: Json
           percentual_pensao?: number | null
           percentual_renda: number
           renda_alimentante?: number | null
+          simulacao?: Json | null
           tipo_calculo: string
+          tribunal?: string | null
           updated_at?: string
           user_id: string
           valor_corrigido: number
@@ -343,21 +492,31 @@ export type Database = {
           valor_total_atrasado: number
         }
         Update: {
+          aplicar_multa?: boolean
+          correcao_monetaria?: number
           created_at?: string
+          data_ajuizamento?: string | null
           data_fim?: string | null
           data_inicio?: string
           detalhamento?: string
+          historico_renda?: Json
           id?: string
           idades_filhos?: Json
+          indice_correcao?: string | null
           juros?: number
+          juros_mensais?: number | null
           meses_atraso?: number | null
           multa?: number
           numero_filhos?: number
           observacoes?: string | null
+          pagamentos?: Json
+          parcelas?: Json
           percentual_pensao?: number | null
           percentual_renda?: number
           renda_alimentante?: number | null
+          simulacao?: Json | null
           tipo_calculo?: string
+          tribunal?: string | null
           updated_at?: string
           user_id?: string
           valor_corrigido?: number
@@ -367,6 +526,87 @@ export type Database = {
         }
         Relationships: []
       }
+      calculo_trabalhista_historico: {
+        Row: {
+          aviso_previo: string | null
+          calculo: Json
+          created_at: string
+          data_admissao: string
+          data_ajuizamento: string | null
+          data_calculo: string
+          data_demissao: string
+          detalhamento: string
+          divisor_horas: number
+          ferias_vencidas: number
+          fgts_pendente: boolean
+          historico_salarial: Json
+          horas_extras: Json
+          id: string
+          multa_467: boolean
+          multa_477: boolean
+          observacoes: string | null
+          remuneracao: number
+          saldo_fgts: number | null
+          tipo_rescisao: string
+          updated_at: string
+          user_id: string
+          valor_nominal: number
+          valor_total: number
+        }
+        Insert: {
+          aviso_previo?: string | null
+          calculo: Json
+          created_at?: string
+          data_admissao: string
+          data_ajuizamento?: string | null
+          data_calculo: string
+          data_demissao: string
+          detalhamento: string
+          divisor_horas?: number
+          ferias_vencidas?: number
+          fgts_pendente?: boolean
+          historico_salarial?: Json
+          horas_extras?: Json
+          id?: string
+          multa_467?: boolean
+          multa_477?: boolean
+          observacoes?: string | null
+          remuneracao: number
+          saldo_fgts?: number | null
+          tipo_rescisao: string
+          updated_at?: string
+          user_id: string
+          valor_nominal: number
+          valor_total: number
+        }
+        Update: {
+          aviso_previo?: string | null
+          calculo?: Json
+          created_at?: string
+          data_admissao?: string
+          data_ajuizamento?: string | null
+          data_calculo?: string
+          data_demissao?: string
+          detalhamento?: string
+          divisor_horas?: number
+          ferias_vencidas?: number
+          fgts_pendente?: boolean
+          historico_salarial?: Json
+          horas_extras?: Json
+          id?: string
+          multa_467?: boolean
+          multa_477?: boolean
+          observacoes?: string | null
+          remuneracao?: number
+          saldo_fgts?: number | null
+          tipo_rescisao?: string
+          updated_at?: string
+          user_id?: string
+          valor_nominal?: number
+          valor_total?: number
+        }
+        Relationships: []
+      }
       credit_transactions: {
         Row: {
           amount: number
@@ -564,6 +804,92 @@ export type Database = {
         }
         Relationships: []
       }
+      execucao_penal_casos: {
+        Row: {
+          cliente_nome: string
+          created_at: string
+          id: string
+          numero_processo: string | null
+          observacoes: string | null
+          updated_at: string
+          user_id: string
+          versao_atual: number
+        }
+        Insert: {
+          cliente_nome: string
+          created_at?: string
+          id?: string
+          numero_processo?: string | null
+          observacoes?: string | null
+          updated_at?: string
+          user_id: string
+          versao_atual?: number
+        }
+        Update: {
+          cliente_nome?: string
+          created_at?: string
+          id?: string
+          numero_processo?: string | null
+          observacoes?: string | null
+          updated_at?: string
+          user_id?: string
+          versao_atual?: number
+        }
+        Relationships: []
+      }
+      execucao_penal_versoes: {
+        Row: {
+          caso_id: string
+          created_at: string
+          dados_sentenca: Json
+          data_referencia: string
+          episodios: Json
+          eventos: Json
+          id: string
+          incluir_dia_soltura: boolean
+          remissoes: Json
+          resultado: Json | null
+          user_id: string
+          versao: number
+        }
+        Insert: {
+          caso_id: string
+          created_at?: string
+          dados_sentenca: Json
+          data_referencia: string
+          episodios?: Json
+          eventos?: Json
+          id?: string
+          incluir_dia_soltura?: boolean
+          remissoes?: Json
+          resultado?: Json | null
+          user_id: string
+          versao: number
+        }
+        Update: {
+          caso_id?: string
+          created_at?: string
+          dados_sentenca?: Json
+          data_referencia?: string
+          episodios?: Json
+          eventos?: Json
+          id?: string
+          incluir_dia_soltura?: boolean
+          remissoes?: Json
+          resultado?: Json | null
+          user_id?: string
+          versao?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "execucao_penal_versoes_caso_id_fkey"
+            columns: ["caso_id"]
+            isOneToOne: false
+            referencedRelation: "execucao_penal_casos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       feature_usage: {
         Row: {
           created_at: string
@@ -591,6 +917,36 @@ export type Database = {
         }
         Relationships: []
       }
+      indices_economicos: {
+        Row: {
+          competencia: string
+          created_at: string
+          id: string
+          indice: string
+          serie_sgs: number
+          updated_at: string
+          variacao: number
+        }
+        Insert: {
+          competencia: string
+          created_at?: string
+          id?: string
+          indice: string
+          serie_sgs: number
+          updated_at?: string
+          variacao: number
+        }
+        Update: {
+          competencia?: string
+          created_at?: string
+          id?: string
+          indice?: string
+          serie_sgs?: number
+          updated_at?: string
+          variacao?: number
+        }
+        Relationships: []
+      }
       landing_page_settings: {
         Row: {
           created_at: string
@@ -1345,6 +1701,31 @@ export type Database = {
         Args: { p_user_id: string }
         Returns: boolean
       }
+      salvar_versao_execucao_penal: {
+        Args: {
+          p_caso_id?: string
+          p_cliente_nome: string
+          p_dados_sentenca: Json
+          p_data_referencia: string
+          p_episodios: Json
+          p_eventos: Json
+          p_incluir_dia_soltura: boolean
+          p_numero_processo?: string
+          p_observacoes?: string
+          p_remissoes: Json
+          p_resultado?: Json
+        }
+        Returns: {
+          cliente_nome: string
+          created_at: string
+          id: string
+          numero_processo: string | null
+          observacoes: string | null
+          updated_at: string
+          user_id: string
+          versao_atual: number
+        }
+      }
       schedule_daily_agenda_emails: {
         Args: Record<PropertyKey, never>
         Returns: undefined
@@ -0,0 +1,336 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import {
+  DadosSentenca,
+  EpisodioCustodia,
+  EventoProcessual,
+  NaturezaCrime,
+  Remissao,
+  ResultadoCalculoV2
+} from '@/types/pena';
+import {
+  calcularDiasCumpridosAte,
+  classificarCrime,
+  formatarPenaPeriodo,
+  obterPenaPeriodo,
+  ordenarCrimesExecucao
+} from '@/lib/pena';
+
+dayjs.extend(utc);
+
+// Tudo o que entra no atestado; a mesma entrada gera sempre o mesmo documento
+export type DadosAtestadoPena = {
+  dadosSentenca: DadosSentenca;
+  episodios: EpisodioCustodia[];
+  remissoes: Remissao[];
+  eventos: EventoProcessual[];
+  resultado: ResultadoCalculoV2;
+  incluirDiaSoltura: boolean;
+  dataReferencia: string; // data do cálculo (YYYY-MM-DD)
+  apenado?: string;
+};
+
+export const ROTULOS_NATUREZA: Record<NaturezaCrime, string> = {
+  comum: 'Sem violência ou grave ameaça',
+  violento: 'Com violência ou grave ameaça',
+  hediondo: 'Hediondo ou equiparado',
+  hediondo_morte: 'Hediondo com resultado morte',
+  feminicidio: 'Feminicídio',
+  comando_organizacao: 'Comando de organização criminosa',
+  milicia: 'Milícia privada'
+};
+
+const ROTULOS_EVENTO: Record<EventoProcessual['tipo'], string> = {
+  Condenacao: 'Condenação',
+  Unificacao: 'Unificação',
+  Progressao: 'Progressão',
+  Regressao: 'Regressão',
+  FaltaGrave: 'Falta grave',
+  Livramento: 'Livramento',
+  Indulto: 'Indulto',
+  Outro: 'Outro'
+};
+
+// Nomes fixos em vez de Intl, para não depender da localidade do navegador
+const MESES = [
+  'janeiro', 'fevereiro', 'março', 'abril', 'maio', 'junho',
+  'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'
+];
+
+const escapar = (texto?: string) => (texto ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const formatarData = (dataISO?: string) => dataISO ? dayjs.utc(dataISO).format('DD/MM/YYYY') : '-';
+
+const formatarDataExtenso = (dataISO: string) => {
+  const data = dayjs.utc(dataISO);
+  return `${data.date()} de ${MESES[data.month()]} de ${data.year()}`;
+};
+
+const formatarFracao = (fracao: number) => `${Number((fracao * 100).toFixed(2)).toString().replace('.', ',')}%`;
+
+// FNV-1a de 32 bits sobre a entrada, impresso no rodapé para conferência do documento
+function codigoConferencia(dados: DadosAtestadoPena): string {
+  const texto = JSON.stringify(dados);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < texto.length; i++) {
+    hash ^= texto.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).toUpperCase().padStart(8, '0');
+}
+
+const porDataEId = <T extends { id: string }>(data: (item: T) => string) => (a: T, b: T) =>
+  data(a).localeCompare(data(b)) || a.id.localeCompare(b.id);
+
+const tabela = (cabecalho: string[], linhas: string[][], rodape?: string[]) => `
+  <table>
+    <thead><tr>${cabecalho.map(coluna => `<th>${coluna}</th>`).join('')}</tr></thead>
+    <tbody>${linhas.length > 0
+      ? linhas.map(linha => `<tr>${linha.map(celula => `<td>${celula}</td>`).join('')}</tr>`).join('')
+      : `<tr><td colspan="${cabecalho.length}" class="vazio">Nenhum registro</td></tr>`}</tbody>
+    ${rodape ? `<tfoot><tr>${rodape.map(celula => `<td>${celula}</td>`).join('')}</tr></tfoot>` : ''}
+  </table>`;
+
+const ESTILOS = `
+  @page {
+    size: A4;
+    margin: 20mm 15mm 22mm 15mm;
+    @bottom-right { content: "Página " counter(page) " de " counter(pages); font-size: 8pt; }
+  }
+  body { font-family: 'Times New Roman', Times, serif; font-size: 11pt; line-height: 1.4; color: #000; }
+  header { text-align: center; border-bottom: 2px solid #000; padding-bottom: 6px; margin-bottom: 12px; }
+  header .orgao { font-size: 10pt; letter-spacing: 1px; }
+  header h1 { font-size: 14pt; margin: 6px 0 0; }
+  h2 { font-size: 11pt; text-transform: uppercase; border-bottom: 1px solid #000; margin: 16px 0 6px; break-after: avoid; }
+  table { width: 100%; border-collapse: collapse; font-size: 9.5pt; }
+  thead { display: table-header-group; }
+  tr { break-inside: avoid; }
+  th, td { border: 1px solid #444; padding: 3px 5px; text-align: left; vertical-align: top; }
+  th { background: #e5e5e5; }
+  tfoot td { font-weight: bold; }
+  td.vazio { text-align: center; font-style: italic; }
+  .identificacao td:first-child { width: 30%; font-weight: bold; }
+  .memoria li { margin-bottom: 3px; }
+  .assinaturas { margin-top: 40px; break-inside: avoid; }
+  .assinaturas .local { text-align: right; margin-bottom: 50px; }
+  .assinaturas .linhas { display: flex; justify-content: space-around; }
+  .assinaturas .linha { width: 40%; border-top: 1px solid #000; text-align: center; padding-top: 4px; font-size: 10pt; }
+  .conferencia { margin-top: 24px; font-size: 8pt; color: #444; }
+`;
+
+/**
+ * Monta o atestado de pena a cumprir em HTML para impressão. Não lê relógio nem
+ * localidade: datas e valores vêm da entrada, em ordem estável.
+ */
+export function gerarAtestadoPena(dados: DadosAtestadoPena): string {
+  const { dadosSentenca: sentenca, resultado } = dados;
+  const pena = obterPenaPeriodo(sentenca);
+  const crimes = ordenarCrimesExecucao(sentenca.crimes.filter(crime => crime.penaAnos || crime.penaMeses || crime.penaDias));
+  const processos = sentenca.processos ?? [];
+  const numeroProcesso = (id?: string) => processos.find(processo => processo.id === id)?.numeroProcesso;
+  const totalCumpridoHoje = resultado.diasCumpridosHoje + resultado.remicoesAcumuladasHoje;
+  // Dias efetivamente contados pelo motor (calendário ou aproximado), antes do limite do art. 75 CP
+  const diasPenaTotal = resultado.limiteCumprimento?.diasPenaTotal
+    ?? resultado.planoEtapas[resultado.planoEtapas.length - 1]?.acumuladoDias
+    ?? sentenca.totalDias;
+
+  const identificacao = [
+    ['Apenado', escapar(dados.apenado) || '-'],
+    ['Processo de execução', escapar(sentenca.numeroProcesso) || '-'],
+    ['Vara', escapar(sentenca.vara) || '-'],
+    ['Juiz', escapar(sentenca.juiz) || '-'],
+    ['Trânsito em julgado', formatarData(sentenca.dataTransito)],
+    ['Regime inicial', sentenca.regimeInicial],
+    ['Pena total', `${pena ? `${formatarPenaPeriodo(pena)} · ` : ''}${diasPenaTotal} dias`],
+    ['Início do cumprimento', formatarData(sentenca.dataInicioTeorica)],
+    ['Data do cálculo', formatarData(dados.dataReferencia)]
+  ];
+
+  const secaoProcessos = processos.length > 0 ? `
+    <h2>Processos unificados (art. 111 LEP)</h2>
+    ${tabela(
+      ['Processo', 'Vara', 'Trânsito em julgado', 'Pena'],
+      processos.map(processo => [
+        escapar(processo.numeroProcesso),
+        escapar(processo.vara) || '-',
+        formatarData(processo.dataTransito),
+        processo.pena ? formatarPenaPeriodo(processo.pena) : '-'
+      ])
+    )}` : '';
+
+  const secaoCrimes = `
+    <h2>Crimes, na ordem de cumprimento (art. 76 CP)</h2>
+    ${tabela(
+      ['Crime', 'Artigo', 'Pena', 'Natureza', 'Progressão', 'Livramento'],
+      crimes.map(crime => {
+        const classificacao = classificarCrime(crime);
+        return [
+          escapar(crime.descricao) + (numeroProcesso(crime.processoId) ? `<br/><small>${escapar(numeroProcesso(crime.processoId))}</small>` : ''),
+          escapar(crime.artigo),
+          formatarPenaPeriodo({ anos: crime.penaAnos, meses: crime.penaMeses, dias: crime.penaDias }),
+          ROTULOS_NATUREZA[crime.natureza],
+          `${formatarFracao(classificacao.fracaoProgressao)} · ${classificacao.fundamentoProgressao}`,
+          classificacao.fracaoLivramento
+            ? `${formatarFracao(classificacao.fracaoLivramento)} · ${classificacao.fundamentoLivramento}`
+            : classificacao.fundamentoLivramento
+        ];
+      })
+    )}`;
+
+  const episodios = [...dados.episodios].sort(porDataEId(episodio => episodio.inicio));
+  const secaoEpisodios = `
+    <h2>Períodos de custódia</h2>
+    ${tabela(
+      ['Tipo', 'Início', 'Fim', 'Processo', 'Detração', 'Dias'],
+      episodios.map(episodio => [
+        escapar(episodio.tipo),
+        formatarData(episodio.inicio),
+        episodio.fim ? formatarData(episodio.fim) : 'Em curso',
+        escapar(numeroProcesso(episodio.processoId)) || '-',
+        episodio.computavel ? 'Sim' : 'Não',
+        episodio.computavel
+          ? String(calcularDiasCumpridosAte([episodio], dados.dataReferencia, dados.incluirDiaSoltura))
+          : '-'
+      ]),
+      ['Total (períodos simultâneos contados uma vez)', '', '', '', '', String(resultado.diasCumpridosHoje)]
+    )}`;
+
+  const remissoes = [...dados.remissoes].sort(porDataEId(remissao => remissao.dataCredito));
+  const secaoRemissoes = `
+    <h2>Remições (art. 126 LEP)</h2>
+    ${tabela(
+      ['Crédito', 'Motivo', 'Fundamentação', 'Dias'],
+      remissoes.map(remissao => [
+        formatarData(remissao.dataCredito),
+        remissao.motivo,
+        escapar(remissao.observacao) || '-',
+        String(remissao.dias)
+      ]),
+      ['Total creditado até a data do cálculo', '', '', String(resultado.remicoesAcumuladasHoje)]
+    )}`;
+
+  const eventos = [...dados.eventos].sort(porDataEId(evento => evento.data));
+  const secaoEventos = `
+    <h2>Incidentes da execução</h2>
+    ${tabela(
+      ['Data', 'Evento', 'Efeito'],
+      eventos.map(evento => [
+        formatarData(evento.data),
+        ROTULOS_EVENTO[evento.tipo] + (evento.penaAcrescida ? ` (+${formatarPenaPeriodo(evento.penaAcrescida)})` : ''),
+        escapar(resultado.impactoEventos?.find(impacto => impacto.eventoId === evento.id)?.efeito ?? evento.observacao) || '-'
+      ])
+    )}`;
+
+  const fundamentosUnicos = (lista: string[]) => [...new Set(lista)].join('; ');
+  const fundamentoProgressao = crimes.length > 0
+    ? fundamentosUnicos(crimes.map(crime => {
+        const classificacao = classificarCrime(crime);
+        return `${classificacao.fundamentoProgressao} (${formatarFracao(classificacao.fracaoProgressao)})`;
+      }))
+    : `Art. 112 LEP, fração de ${formatarFracao(sentenca.fracaoProgressao)} fixada na sentença`;
+  const fundamentoLivramento = crimes.length > 0
+    ? fundamentosUnicos(crimes.map(crime => {
+        const classificacao = classificarCrime(crime);
+        return classificacao.fracaoLivramento
+          ? `${classificacao.fundamentoLivramento} (${formatarFracao(classificacao.fracaoLivramento)})`
+          : classificacao.fundamentoLivramento;
+      }))
+    : sentenca.fracaoLivramento
+      ? `Art. 83 CP, fração de ${formatarFracao(sentenca.fracaoLivramento)} fixada na sentença`
+      : '-';
+  const fundamentoTermino = [
+    resultado.metodoContagem === 'calendario'
+      ? 'Contagem pelo calendário comum (art. 10 CP)'
+      : 'Contagem aproximada (ano de 365 e mês de 30 dias)',
+    resultado.limiteCumprimento?.fundamento
+  ].filter(Boolean).join('; ');
+
+  const secaoDatas = `
+    <h2>Datas previstas</h2>
+    ${tabela(
+      ['Benefício', 'Data', 'Fundamento'],
+      [
+        ['Progressão de regime', formatarData(resultado.dataProgressao), fundamentoProgressao],
+        ['Livramento condicional', resultado.livramentoVedado ? 'Vedado' : formatarData(resultado.dataLivramento), fundamentoLivramento],
+        ['Término da pena', formatarData(resultado.dataTermino), fundamentoTermino]
+      ]
+    )}
+    ${resultado.planoEtapas.length > 1 ? tabela(
+      ['Etapa', 'Data', 'Base (dias)', 'Fração', 'Requisito (dias)', 'Saldo (dias)'],
+      resultado.planoEtapas.map(etapa => [
+        `${etapa.regimeOrigem} → ${etapa.regimeDestino === 'Termino' ? 'Término' : etapa.regimeDestino}`,
+        formatarData(etapa.data),
+        String(etapa.baseDias),
+        formatarFracao(etapa.fracao),
+        String(etapa.diasRequisito),
+        String(etapa.saldoDias)
+      ])
+    ) : ''}`;
+
+  const memoria: string[] = [
+    `Pena considerada: ${diasPenaTotal} dias${pena ? ` (${formatarPenaPeriodo(pena)})` : ''}.`,
+    `Custódia computada até ${formatarData(dados.dataReferencia)}: ${resultado.diasCumpridosHoje} dias${dados.incluirDiaSoltura ? ', incluído o dia da soltura' : ''}.`,
+    `Remições creditadas até ${formatarData(dados.dataReferencia)}: ${resultado.remicoesAcumuladasHoje} dias.`,
+    `Pena cumprida: ${resultado.diasCumpridosHoje} + ${resultado.remicoesAcumuladasHoje} = ${totalCumpridoHoje} dias.`,
+    `Pena a cumprir: ${resultado.diasFaltantesParaTermino} dias.`
+  ];
+  if (resultado.diasFaltantesParaProgressao !== undefined) {
+    memoria.push(`Faltam ${resultado.diasFaltantesParaProgressao} dias para o requisito objetivo da progressão${resultado.dataBaseProgressao ? `, contado da data-base de ${formatarData(resultado.dataBaseProgressao)}` : ''}.`);
+  }
+  resultado.requisitosPorCrime?.forEach(requisito => {
+    memoria.push(`${escapar(requisito.descricao)}: ${requisito.diasPena} dias × ${formatarFracao(requisito.classificacao.fracaoProgressao)} = ${requisito.diasProgressao} dias para progressão (acumulado ${requisito.acumuladoProgressao}); ${requisito.diasLivramento} dias para livramento (acumulado ${requisito.acumuladoLivramento}).`);
+  });
+  if (resultado.limiteCumprimento) {
+    memoria.push(`Limite de cumprimento: ${resultado.limiteCumprimento.diasLimite} dias sobre a pena total de ${resultado.limiteCumprimento.diasPenaTotal} dias.`);
+  }
+  resultado.comparacaoContagem?.forEach(item => {
+    if (item.diferencaDias) {
+      memoria.push(`A contagem pelo calendário difere da aproximada em ${item.diferencaDias} dia(s) no marco de ${item.marco === 'progressao' ? 'progressão' : item.marco === 'livramento' ? 'livramento' : 'término'}.`);
+    }
+  });
+
+  const secaoMemoria = `
+    <h2>Memória de cálculo</h2>
+    <ol class="memoria">${memoria.map(item => `<li>${item}</li>`).join('')}</ol>`;
+
+  return `<!doctype html><html><head><meta charset="utf-8" />
+<title>Atestado de Pena${sentenca.numeroProcesso ? ` - ${escapar(sentenca.numeroProcesso)}` : ''}</title>
+<style>${ESTILOS}</style>
+</head><body>
+  <header>
+    <div class="orgao">PODER JUDICIÁRIO · VARA DE EXECUÇÕES PENAIS</div>
+    <h1>ATESTADO DE PENA A CUMPRIR</h1>
+  </header>
+  <table class="identificacao"><tbody>${identificacao.map(([rotulo, valor]) => `<tr><td>${rotulo}</td><td>${valor}</td></tr>`).join('')}</tbody></table>
+  ${secaoProcessos}
+  ${crimes.length > 0 ? secaoCrimes : ''}
+  ${secaoEpisodios}
+  ${secaoRemissoes}
+  ${secaoEventos}
+  ${secaoDatas}
+  ${secaoMemoria}
+  <div class="assinaturas">
+    <div class="local">${escapar(sentenca.vara) || '________________'}, ${formatarDataExtenso(dados.dataReferencia)}.</div>
+    <div class="linhas">
+      <div class="linha">Responsável pelo cálculo</div>
+      <div class="linha">${escapar(sentenca.juiz) || 'Juiz(a) da Execução'}</div>
+    </div>
+  </div>
+  <div class="conferencia">Código de conferência ${codigoConferencia(dados)} · documento gerado a partir dos dados informados, sujeito a homologação judicial.</div>
+</body></html>`;
+}
+
+// Abre o atestado em nova janela e aciona a impressão (salvar como PDF)
+export function imprimirAtestadoPena(dados: DadosAtestadoPena): boolean {
+  const janela = window.open('', '_blank', 'width=1024,height=768');
+  if (!janela) return false;
+  janela.document.write(gerarAtestadoPena(dados));
+  janela.document.close();
+  janela.focus();
+  janela.print();
+  return true;
+}
@@ -0,0 +1,243 @@
+import {
+  DadosPreparo,
+  RegraPreparo,
+  ResultadoPreparo,
+  TabelaCustas,
+  TipoRecurso
+} from '@/types/custas';
+
+export const ROTULOS_RECURSO: Record<TipoRecurso, string> = {
+  apelacao: 'Apelação',
+  agravo_instrumento: 'Agravo de instrumento',
+  recurso_ordinario: 'Recurso ordinário',
+  recurso_revista: 'Recurso de revista'
+};
+
+const REGRAS_TJSP: RegraPreparo[] = [
+  {
+    recurso: 'apelacao',
+    rotulo: 'Preparo da apelação e do recurso adesivo',
+    percentual: 4,
+    minimo: 5,
+    maximo: 3000,
+    base: 'valor da causa atualizado ou, havendo condenação líquida, o valor da condenação',
+    fundamento: 'art. 4º, II e § 1º, da Lei Estadual 11.608/2003'
+  },
+  {
+    recurso: 'agravo_instrumento',
+    rotulo: 'Taxa judiciária do agravo de instrumento',
+    valorFixo: 10,
+    base: 'valor fixo',
+    fundamento: 'Lei Estadual 11.608/2003, com a redação da Lei 15.855/2015'
+  }
+];
+
+// Uma versão por tribunal e ano; novas versões entram no topo do tribunal
+export const TABELAS_CUSTAS: TabelaCustas[] = [
+  {
+    id: 'tjsp-2025',
+    tribunal: 'tjsp',
+    nomeTribunal: 'Tribunal de Justiça de São Paulo',
+    ano: 2025,
+    vigencia: '2025-01-01',
+    unidade: { sigla: 'UFESP', valor: 37.02 },
+    reajusteAnual: true,
+    portePorVolume: 32.70,
+    fonte: 'Lei Estadual 11.608/2003, UFESP divulgada pela Secretaria da Fazenda de SP e porte de remessa e retorno por volume fixado pelo Conselho Superior da Magistratura (guia FEDTJ, código 110-4)',
+    regras: REGRAS_TJSP
+  },
+  {
+    id: 'tjsp-2024',
+    tribunal: 'tjsp',
+    nomeTribunal: 'Tribunal de Justiça de São Paulo',
+    ano: 2024,
+    vigencia: '2024-01-01',
+    unidade: { sigla: 'UFESP', valor: 35.36 },
+    reajusteAnual: true,
+    portePorVolume: 32.70,
+    fonte: 'Lei Estadual 11.608/2003, UFESP divulgada pela Secretaria da Fazenda de SP e porte de remessa e retorno por volume fixado pelo Conselho Superior da Magistratura (guia FEDTJ, código 110-4)',
+    regras: REGRAS_TJSP
+  },
+  {
+    id: 'jf-1996',
+    tribunal: 'jf',
+    nomeTribunal: 'Justiça Federal',
+    ano: 1996,
+    vigencia: '1996-07-05',
+    unidade: { sigla: 'UFIR', valor: 1.0641 },
+    reajusteAnual: false,
+    fonte: 'Lei 9.289/1996, Tabela I, com a UFIR congelada desde a extinção (MP 1.973-67/2000)',
+    regras: [
+      {
+        recurso: 'apelacao',
+        rotulo: 'Metade das custas, devida pelo apelante',
+        percentual: 0.5,
+        minimo: 5,
+        maximo: 900,
+        base: 'valor da causa',
+        fundamento: 'art. 14, II, e Tabela I da Lei 9.289/1996'
+      }
+    ]
+  },
+  {
+    id: 'jt-2024',
+    tribunal: 'jt',
+    nomeTribunal: 'Justiça do Trabalho',
+    ano: 2024,
+    vigencia: '2024-08-01',
+    unidade: { sigla: 'R$', valor: 1 },
+    reajusteAnual: true,
+    fonte: 'CLT e ato da Presidência do TST que reajustou o depósito recursal a partir de 01/08/2024',
+    regras: [
+      {
+        recurso: 'recurso_ordinario',
+        rotulo: 'Custas e depósito recursal do recurso ordinário',
+        percentual: 2,
+        minimo: 10.64,
+        maximo: 31144.08, // quatro vezes o teto do RGPS de 2024
+        depositoRecursal: 13133.46,
+        base: 'valor da condenação arbitrado na sentença',
+        fundamento: 'arts. 789, I e § 1º, e 899, § 1º, da CLT'
+      },
+      {
+        recurso: 'recurso_revista',
+        rotulo: 'Depósito recursal do recurso de revista',
+        valorFixo: 0,
+        depositoRecursal: 26266.92,
+        base: 'valor da condenação',
+        fundamento: 'art. 899, § 1º, da CLT e Súmula 128, I, do TST'
+      }
+    ],
+    observacoes: [
+      'Depósito recursal pela metade para entidades sem fins lucrativos, empregadores domésticos, MEI, ME e EPP (art. 899, § 9º, da CLT).',
+      'Isentos do depósito os beneficiários da justiça gratuita, as entidades filantrópicas e as empresas em recuperação judicial (art. 899, § 10).'
+    ]
+  }
+];
+
+const formatarMoeda = (valor: number) => valor.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+export function listarTribunais(): { tribunal: string; nomeTribunal: string }[] {
+  const vistos = new Map<string, string>();
+  TABELAS_CUSTAS.forEach(tabela => {
+    if (!vistos.has(tabela.tribunal)) vistos.set(tabela.tribunal, tabela.nomeTribunal);
+  });
+  return [...vistos.entries()].map(([tribunal, nomeTribunal]) => ({ tribunal, nomeTribunal }));
+}
+
+// Versão vigente na data do recolhimento; sem versão anterior, usa a mais antiga disponível
+export function tabelaVigente(tribunal: string, dataReferencia: string): TabelaCustas | undefined {
+  const versoes = TABELAS_CUSTAS
+    .filter(tabela => tabela.tribunal === tribunal)
+    .sort((a, b) => b.vigencia.localeCompare(a.vigencia));
+  return versoes.find(tabela => tabela.vigencia <= dataReferencia) ?? versoes[versoes.length - 1];
+}
+
+export function recursosDoTribunal(tribunal: string, dataReferencia: string): TipoRecurso[] {
+  return tabelaVigente(tribunal, dataReferencia)?.regras.map(regra => regra.recurso) ?? [];
+}
+
+export function calcularPreparo(dados: DadosPreparo): ResultadoPreparo {
+  const tabela = tabelaVigente(dados.tribunal, dados.dataReferencia);
+  if (!tabela) {
+    throw new Error(`Tribunal sem tabela de custas: ${dados.tribunal}`);
+  }
+  const regra = tabela.regras.find(item => item.recurso === dados.recurso);
+  if (!regra) {
+    throw new Error(`${ROTULOS_RECURSO[dados.recurso]} sem regra na tabela ${tabela.id}`);
+  }
+
+  const memoria: string[] = [];
+  const alertas: string[] = [];
+  const { sigla, valor: valorUnidade } = tabela.unidade;
+  const emReais = (unidades: number) => unidades * valorUnidade;
+  const descreverUnidades = (unidades: number) => sigla === 'R$'
+    ? formatarMoeda(unidades)
+    : `${unidades.toLocaleString('pt-BR')} ${sigla} (${formatarMoeda(emReais(unidades))})`;
+
+  memoria.push(`${tabela.nomeTribunal} - tabela ${tabela.ano}, vigente desde ${tabela.vigencia.split('-').reverse().join('/')} (${tabela.fonte}).`);
+  if (dados.dataReferencia < tabela.vigencia) {
+    alertas.push('Não há tabela cadastrada para a data informada; foi usada a versão mais antiga disponível.');
+  }
+  if (sigla !== 'R$') {
+    memoria.push(`${sigla}: R$ ${valorUnidade.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 4 })}.`);
+  }
+
+  let custas = 0;
+  if (regra.valorFixo !== undefined) {
+    custas = emReais(regra.valorFixo);
+    memoria.push(custas > 0
+      ? `${regra.rotulo}: ${descreverUnidades(regra.valorFixo)}.`
+      : `${regra.rotulo}: sem custas além das recolhidas na instância anterior.`);
+  } else {
+    const calculado = dados.valorBase * (regra.percentual ?? 0) / 100;
+    custas = calculado;
+    memoria.push(`${regra.rotulo}: ${(regra.percentual ?? 0).toLocaleString('pt-BR')}% sobre ${formatarMoeda(dados.valorBase)} (${regra.base}) = ${formatarMoeda(calculado)}.`);
+    if (regra.minimo !== undefined && custas < emReais(regra.minimo)) {
+      custas = emReais(regra.minimo);
+      memoria.push(`Aplicado o mínimo de ${descreverUnidades(regra.minimo)}.`);
+    }
+    if (regra.maximo !== undefined && custas > emReais(regra.maximo)) {
+      custas = emReais(regra.maximo);
+      memoria.push(`Aplicado o máximo de ${descreverUnidades(regra.maximo)}.`);
+    }
+  }
+
+  // Súmula 128, I, do TST: cada recurso exige novo depósito até o limite vigente, mas os
+  // depósitos somados não passam do valor da condenação
+  let depositoRecursal = 0;
+  if (regra.depositoRecursal) {
+    const depositoEfetuado = dados.depositoEfetuado ?? 0;
+    const restanteCondenacao = Math.max(0, Math.round((dados.valorBase - depositoEfetuado) * 100) / 100);
+    depositoRecursal = Math.min(regra.depositoRecursal, restanteCondenacao);
+    if (depositoEfetuado > 0) {
+      memoria.push(`Depósito já efetuado em recurso anterior: ${formatarMoeda(depositoEfetuado)}; resta garantir ${formatarMoeda(restanteCondenacao)} da condenação.`);
+    }
+    memoria.push(depositoRecursal === 0
+      ? 'Depósito recursal dispensado: o valor da condenação já está garantido (Súmula 128, I, do TST).'
+      : depositoRecursal < regra.depositoRecursal
+        ? `Depósito recursal limitado ao ${depositoEfetuado > 0 ? 'saldo' : 'valor'} da condenação: ${formatarMoeda(depositoRecursal)}.`
+        : `Depósito recursal: ${formatarMoeda(depositoRecursal)} (limite vigente).`);
+  }
+
+  let porteRemessa = 0;
+  if (dados.volumes > 0) {
+    if (tabela.portePorVolume !== undefined) {
+      porteRemessa = tabela.portePorVolume * dados.volumes;
+      memoria.push(`Porte de remessa e retorno: ${dados.volumes} volume(s) × ${formatarMoeda(tabela.portePorVolume)} = ${formatarMoeda(porteRemessa)}.`);
+    } else {
+      alertas.push('A tabela não traz o porte de remessa e retorno de autos físicos; confira o valor na guia do tribunal.');
+    }
+  } else {
+    memoria.push('Porte de remessa e retorno dispensado em autos eletrônicos (art. 1.007, § 3º, do CPC).');
+  }
+
+  if (tabela.reajusteAnual && tabela.ano < parseInt(dados.dataReferencia.slice(0, 4))) {
+    alertas.push(`A tabela mais recente cadastrada é de ${tabela.ano}; confira se o tribunal já publicou os valores de ${dados.dataReferencia.slice(0, 4)}.`);
+  }
+  alertas.push('A falta ou insuficiência do preparo gera deserção se não suprida após intimação (art. 1.007, §§ 2º e 4º, do CPC).');
+  alertas.push(...(tabela.observacoes ?? []));
+
+  return {
+    tabela,
+    regra,
+    custas,
+    depositoRecursal,
+    porteRemessa,
+    total: custas + depositoRecursal + porteRemessa,
+    memoria,
+    alertas
+  };
+}
+
+// Nota anexada ao prazo recursal na Agenda Jurídica
+export function formatarNotaPreparo(resultado: ResultadoPreparo): string {
+  return [
+    `Preparo - ${ROTULOS_RECURSO[resultado.regra.recurso]} (${resultado.tabela.nomeTribunal}, tabela ${resultado.tabela.ano})`,
+    `Custas: ${formatarMoeda(resultado.custas)}`,
+    ...(resultado.depositoRecursal > 0 ? [`Depósito recursal: ${formatarMoeda(resultado.depositoRecursal)}`] : []),
+    ...(resultado.porteRemessa > 0 ? [`Porte de remessa e retorno: ${formatarMoeda(resultado.porteRemessa)}`] : []),
+    `Total a recolher: ${formatarMoeda(resultado.total)}`,
+    `Fundamento: ${resultado.regra.fundamento}`
+  ].join('\n');
+}
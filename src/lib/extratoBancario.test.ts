@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import {
+  identificarTransferencias,
+  lerExtrato,
+  lerExtratoCSV,
+  lerExtratoOFX,
+  proporPagamentos
+} from '@/lib/extratoBancario';
+import type { IdentificacaoRecebedor } from '@/types/pensao';
+
+const RECEBEDOR: IdentificacaoRecebedor = { nome: 'Maria Aparecida Souza', cpf: '123.456.789-09', chavePix: '' };
+
+const OFX_SGML = `OFXHEADER:100
+DATA:OFXSGML
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240305120000[-3:BRT]
+<TRNAMT>-800.00
+<FITID>0001
+<MEMO>PIX ENVIADO MARIA APARECIDA SOUZA
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240306
+<TRNAMT>2500.00
+<FITID>0002
+<MEMO>SALARIO
+</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+const OFX_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20240405</DTPOSTED><TRNAMT>-800.00</TRNAMT><FITID>0003</FITID><NAME>MARIA A SOUZA</NAME><MEMO>TED</MEMO></STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+describe('lerExtratoOFX', () => {
+  it.each([
+    ['SGML (OFX 1.x)', OFX_SGML, [
+      { data: '2024-03-05', valor: 800, tipo: 'debito', descricao: 'PIX ENVIADO MARIA APARECIDA SOUZA' },
+      { data: '2024-03-06', valor: 2500, tipo: 'credito', descricao: 'SALARIO' }
+    ]],
+    ['XML (OFX 2.x)', OFX_XML, [
+      { data: '2024-04-05', valor: 800, tipo: 'debito', descricao: 'MARIA A SOUZA TED' }
+    ]]
+  ])('lê os lançamentos do OFX %s', (_formato, texto, esperado) => {
+    expect(lerExtratoOFX(texto)).toEqual(esperado);
+  });
+});
+
+describe('lerExtratoCSV', () => {
+  it('lê CSV separado por ";" com valores no padrão brasileiro', () => {
+    const csv = [
+      'Data;Histórico;Valor;Saldo',
+      '05/03/2024;"PIX ENVIADO; MARIA SOUZA";-1.234,56;10.000,00',
+      '06/03/2024;SALARIO;2.500,00;12.500,00'
+    ].join('\n');
+
+    expect(lerExtratoCSV(csv)).toEqual([
+      { data: '2024-03-05', valor: 1234.56, tipo: 'debito', descricao: 'PIX ENVIADO; MARIA SOUZA' },
+      { data: '2024-03-06', valor: 2500, tipo: 'indefinido', descricao: 'SALARIO' }
+    ]);
+  });
+
+  it('lê colunas separadas de débito e crédito', () => {
+    const csv = 'Data,Descrição,Débito,Crédito\n2024-03-05,TED MARIA SOUZA,800.00,\n2024-03-06,SALARIO,,2500.00';
+
+    expect(lerExtratoCSV(csv)).toEqual([
+      { data: '2024-03-05', valor: 800, tipo: 'debito', descricao: 'TED MARIA SOUZA' },
+      { data: '2024-03-06', valor: 2500, tipo: 'credito', descricao: 'SALARIO' }
+    ]);
+  });
+});
+
+// Texto devolvido pela extração do PDF: cabeçalho, datas sem ano e o saldo após cada valor
+const PDF_TEXTO = `BANCO EXEMPLO S.A.
+Extrato de conta corrente
+Período: 01/03/2024 a 31/03/2024
+Data Histórico Valor (R$) Saldo (R$)
+01/03 SALDO ANTERIOR 1.500,00
+05/03 PIX ENVIADO MARIA A SOUZA -800,00 700,00
+06/03 PIX RECEBIDO JOAO SILVA 2.500,00 3.200,00
+20/03 TED MARIA SOUZA 150,50 D 3.049,50
+Página 1 de 1`;
+
+describe('lerExtrato', () => {
+  it('lê o texto extraído do PDF pelo leitor de texto', () => {
+    expect(lerExtrato(PDF_TEXTO, 'extrato-marco.pdf')).toEqual([
+      { data: '2024-03-01', valor: 1500, tipo: 'indefinido', descricao: 'SALDO ANTERIOR', origem: 'extrato-marco.pdf' },
+      { data: '2024-03-05', valor: 800, tipo: 'debito', descricao: 'PIX ENVIADO MARIA A SOUZA', origem: 'extrato-marco.pdf' },
+      { data: '2024-03-06', valor: 2500, tipo: 'credito', descricao: 'PIX RECEBIDO JOAO SILVA', origem: 'extrato-marco.pdf' },
+      { data: '2024-03-20', valor: 150.5, tipo: 'debito', descricao: 'TED MARIA SOUZA', origem: 'extrato-marco.pdf' }
+    ]);
+  });
+
+  it('identifica as transferências do extrato em PDF', () => {
+    expect(identificarTransferencias(lerExtrato(PDF_TEXTO, 'extrato-marco.pdf'), RECEBEDOR).map(item => [item.data, item.valor]))
+      .toEqual([['2024-03-05', 800], ['2024-03-20', 150.5]]);
+  });
+});
+
+describe('identificarTransferencias', () => {
+  const lancamento = (descricao: string, data = '2024-03-05', valor = 800) =>
+    ({ data, valor, tipo: 'debito' as const, descricao });
+
+  it.each([
+    ['CPF completo', 'PIX ENVIADO 12345678909', RECEBEDOR, 'cpf'],
+    ['CPF mascarado pelo banco', 'PIX ENVIADO ***.456.789-** M A SOUZA', { ...RECEBEDOR, nome: '' }, 'cpf'],
+    ['chave Pix numérica (telefone)', 'PIX ENVIADO CHAVE 5565999887766', { nome: '', cpf: '', chavePix: '(65) 99988-7766' }, 'chave'],
+    ['primeiro nome e sobrenome', 'TED MARIA SOUZA', { ...RECEBEDOR, cpf: '' }, 'nome']
+  ])('identifica por %s', (_caso, descricao, recebedor, criterio) => {
+    expect(identificarTransferencias([lancamento(descricao)], recebedor)).toEqual([
+      { ...lancamento(descricao), criterio }
+    ]);
+  });
+
+  it.each([
+    ['CPF mascarado de outra pessoa', 'PIX ENVIADO ***.999.789-** JOAO', { ...RECEBEDOR, nome: '' }],
+    ['só o primeiro nome', 'PIX ENVIADO MARIA', { ...RECEBEDOR, cpf: '' }]
+  ])('não identifica %s', (_caso, descricao, recebedor) => {
+    expect(identificarTransferencias([lancamento(descricao)], recebedor)).toEqual([]);
+  });
+
+  it('ignora créditos recebidos', () => {
+    expect(identificarTransferencias([{ ...lancamento('PIX RECEBIDO MARIA SOUZA'), tipo: 'credito' }], RECEBEDOR)).toEqual([]);
+  });
+
+  it('conta uma vez os lançamentos repetidos por extratos com períodos sobrepostos', () => {
+    const fevereiroMarco = lerExtrato(
+      'Data;Histórico;Valor\n05/02/2024;PIX MARIA SOUZA;-800,00\n05/03/2024;PIX MARIA SOUZA;-800,00',
+      'fev-mar.csv'
+    );
+    const marcoAbril = lerExtrato(
+      'Data;Histórico;Valor\n05/03/2024;PIX MARIA SOUZA;-800,00\n05/04/2024;PIX MARIA SOUZA;-800,00',
+      'mar-abr.csv'
+    );
+
+    expect(identificarTransferencias([...fevereiroMarco, ...marcoAbril], RECEBEDOR).map(item => item.data))
+      .toEqual(['2024-02-05', '2024-03-05', '2024-04-05']);
+  });
+
+  it('mantém duas transferências idênticas no mesmo dia do mesmo extrato', () => {
+    const extrato = 'Data;Histórico;Valor\n05/03/2024;PIX MARIA SOUZA;-400,00\n05/03/2024;PIX MARIA SOUZA;-400,00';
+    const lancamentos = [...lerExtrato(extrato, 'marco.csv'), ...lerExtrato(extrato, 'marco-de-novo.csv')];
+
+    expect(identificarTransferencias(lancamentos, RECEBEDOR)).toHaveLength(2);
+  });
+});
+
+describe('proporPagamentos', () => {
+  it('soma as transferências de cada mês em um pagamento na data da primeira', () => {
+    const transferencias = identificarTransferencias(lerExtratoOFX(OFX_SGML + OFX_XML), RECEBEDOR);
+    const extras = [{ data: '2024-03-20', valor: 150.5, tipo: 'debito' as const, descricao: 'PIX MARIA SOUZA', criterio: 'nome' as const }];
+
+    expect(proporPagamentos([...transferencias, ...extras].sort((a, b) => a.data.localeCompare(b.data))).map(item => ({
+      competencia: item.competencia,
+      pagamento: item.pagamento
+    }))).toEqual([
+      {
+        competencia: '2024-03',
+        pagamento: { data: '2024-03-05', valor: '950.50', observacao: 'Extrato: 2 transferência(s) identificada(s) por nome' }
+      },
+      {
+        competencia: '2024-04',
+        pagamento: { data: '2024-04-05', valor: '800.00', observacao: 'Extrato: 1 transferência(s) identificada(s) por nome' }
+      }
+    ]);
+  });
+});
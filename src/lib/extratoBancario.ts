@@ -0,0 +1,243 @@
+import type {
+  IdentificacaoRecebedor,
+  LancamentoExtrato,
+  PagamentoProposto,
+  TransferenciaIdentificada
+} from '@/types/pensao';
+
+const PALAVRAS_IGNORADAS = new Set(['DA', 'DE', 'DO', 'DAS', 'DOS', 'E']);
+
+const ROTULOS_CRITERIO: Record<TransferenciaIdentificada['criterio'], string> = {
+  cpf: 'CPF',
+  chave: 'chave Pix',
+  nome: 'nome'
+};
+
+function normalizar(texto: string): string {
+  return texto.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase();
+}
+
+function somenteDigitos(texto: string): string {
+  return texto.replace(/\D/g, '');
+}
+
+// Aceita 1.234,56 (padrão brasileiro), 1,234.56 e 1234.56; "-", "D" ou parênteses indicam débito
+function lerValor(texto: string): { valor: number; tipo: LancamentoExtrato['tipo'] } | null {
+  const limpo = texto.replace(/R\$|\s/g, '');
+  const numero = limpo.match(/\d[\d.,]*/)?.[0];
+  if (!numero) return null;
+
+  const ultimaVirgula = numero.lastIndexOf(',');
+  const ultimoPonto = numero.lastIndexOf('.');
+  const decimal = ultimaVirgula > ultimoPonto
+    ? numero.replace(/\./g, '').replace(',', '.')
+    : numero.replace(/,/g, '');
+  const valor = parseFloat(decimal);
+  if (isNaN(valor)) return null;
+
+  const tipo = /^-|-$|^\(|D$/i.test(limpo) ? 'debito' : /^\+|C$/i.test(limpo) ? 'credito' : 'indefinido';
+  return { valor, tipo };
+}
+
+// dd/mm/aaaa, dd/mm/aa, aaaa-mm-dd ou aaaammdd (OFX); dd/mm usa o ano de referência
+function lerData(texto: string, anoReferencia?: number): string | null {
+  const iso = texto.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  const br = texto.match(/^(\d{2})\/(\d{2})(?:\/(\d{2,4}))?/);
+  if (!br) return null;
+  const ano = br[3] ? (br[3].length === 2 ? `20${br[3]}` : br[3]) : anoReferencia?.toString();
+  return ano ? `${ano}-${br[2]}-${br[1]}` : null;
+}
+
+function campoOFX(bloco: string, tag: string): string {
+  return bloco.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))?.[1].trim() ?? '';
+}
+
+// OFX 1.x (SGML, sem fechamento de tags) e 2.x (XML)
+export function lerExtratoOFX(texto: string): LancamentoExtrato[] {
+  return texto.split(/<STMTTRN>/i).slice(1).flatMap(bloco => {
+    const data = lerData(campoOFX(bloco, 'DTPOSTED'));
+    const valor = parseFloat(campoOFX(bloco, 'TRNAMT').replace(',', '.'));
+    if (!data || isNaN(valor)) return [];
+
+    const tipoTransacao = campoOFX(bloco, 'TRNTYPE').toUpperCase();
+    return [{
+      data,
+      valor: Math.abs(valor),
+      tipo: valor < 0 || tipoTransacao === 'DEBIT' ? 'debito' : 'credito',
+      descricao: [campoOFX(bloco, 'NAME'), campoOFX(bloco, 'MEMO')].filter(Boolean).join(' ')
+    }];
+  });
+}
+
+function dividirLinhaCSV(linha: string, separador: string): string[] {
+  const celulas: string[] = [];
+  let atual = '';
+  let entreAspas = false;
+  for (let i = 0; i < linha.length; i++) {
+    const caractere = linha[i];
+    if (caractere === '"') {
+      if (entreAspas && linha[i + 1] === '"') {
+        atual += '"';
+        i++;
+      } else {
+        entreAspas = !entreAspas;
+      }
+    } else if (caractere === separador && !entreAspas) {
+      celulas.push(atual.trim());
+      atual = '';
+    } else {
+      atual += caractere;
+    }
+  }
+  celulas.push(atual.trim());
+  return celulas;
+}
+
+// CSV com cabeçalho (data, valor ou débito/crédito, descrição/histórico); sem cabeçalho
+// reconhecível, cada linha é lida como uma linha de texto do extrato
+export function lerExtratoCSV(texto: string): LancamentoExtrato[] {
+  const linhas = texto.replace(/^\uFEFF/, '').split(/\r?\n/).filter(linha => linha.trim());
+  const separador = (linhas[0]?.split(';').length ?? 0) > 1 ? ';' : ',';
+
+  const indiceCabecalho = linhas.findIndex(linha => {
+    const celulas = dividirLinhaCSV(normalizar(linha), separador);
+    return celulas.some(celula => /^(DATA|DATE|DT)/.test(celula)) && celulas.some(celula => /VALOR|AMOUNT|DEBITO|SAIDA/.test(celula));
+  });
+  if (indiceCabecalho < 0) return lerExtratoTexto(linhas.join('\n'));
+
+  const cabecalho = dividirLinhaCSV(normalizar(linhas[indiceCabecalho]), separador);
+  const coluna = (padrao: RegExp) => cabecalho.findIndex(celula => padrao.test(celula));
+  const colunaData = coluna(/^(DATA|DATE|DT)/);
+  const colunaValor = coluna(/VALOR|AMOUNT|QUANTIA/);
+  const colunaDebito = coluna(/DEBITO|SAIDA/);
+  const colunaCredito = coluna(/CREDITO|ENTRADA/);
+  const colunasDescricao = cabecalho
+    .map((celula, indice) => /DESCRI|HISTORICO|MEMO|LANCAMENTO|DETALHE|FAVORECIDO|NOME/.test(celula) ? indice : -1)
+    .filter(indice => indice >= 0);
+
+  return linhas.slice(indiceCabecalho + 1).flatMap(linha => {
+    const celulas = dividirLinhaCSV(linha, separador);
+    const data = lerData(celulas[colunaData] ?? '');
+    if (!data) return [];
+
+    const descricao = colunasDescricao.map(indice => celulas[indice]).filter(Boolean).join(' ');
+    if (colunaValor >= 0) {
+      const lido = lerValor(celulas[colunaValor] ?? '');
+      return lido && lido.valor > 0 ? [{ data, ...lido, descricao }] : [];
+    }
+    const debito = colunaDebito >= 0 ? lerValor(celulas[colunaDebito] ?? '') : null;
+    if (debito && debito.valor > 0) return [{ data, valor: debito.valor, tipo: 'debito' as const, descricao }];
+    const credito = colunaCredito >= 0 ? lerValor(celulas[colunaCredito] ?? '') : null;
+    return credito && credito.valor > 0 ? [{ data, valor: credito.valor, tipo: 'credito' as const, descricao }] : [];
+  });
+}
+
+// Texto do extrato (.txt ou CSV sem cabeçalho): uma linha por lançamento, com a data no início e o valor em reais
+// (o primeiro valor da linha; os seguintes costumam ser o saldo)
+export function lerExtratoTexto(texto: string): LancamentoExtrato[] {
+  const anoExplicito = texto.match(/\d{2}\/\d{2}\/(\d{4})/)?.[1];
+  const anoReferencia = anoExplicito ? parseInt(anoExplicito) : new Date().getFullYear();
+  const padraoValor = /[-+(]?\s?(?:R\$\s?)?-?\d{1,3}(?:\.\d{3})*,\d{2}\)?(?:\s?[DC](?![A-Za-z]))?-?/g;
+
+  return texto.split(/\r?\n/).flatMap(linha => {
+    const conteudo = linha.trim().replace(/^"|"$/g, '');
+    const data = lerData(conteudo, anoReferencia);
+    if (!data) return [];
+
+    const semData = conteudo.replace(/^\d{2}\/\d{2}(?:\/\d{2,4})?[\s;,]*/, '');
+    const valorTexto = semData.match(padraoValor)?.[0];
+    const lido = valorTexto ? lerValor(valorTexto) : null;
+    if (!lido || lido.valor <= 0) return [];
+
+    const descricao = semData.slice(0, semData.indexOf(valorTexto!)).replace(/[;,\s]+$/, '').trim();
+    const tipo = lido.tipo !== 'indefinido' ? lido.tipo : /RECEBID|CREDITO|DEPOSITO/.test(normalizar(descricao)) ? 'credito' : 'indefinido';
+    return [{ data, valor: lido.valor, tipo, descricao }];
+  });
+}
+
+export function lerExtrato(texto: string, nomeArquivo: string): LancamentoExtrato[] {
+  const extensao = nomeArquivo.toLowerCase().split('.').pop();
+  const lancamentos = extensao === 'ofx' || /<OFX>/i.test(texto)
+    ? lerExtratoOFX(texto)
+    : extensao === 'csv' ? lerExtratoCSV(texto) : lerExtratoTexto(texto);
+  return lancamentos.map(lancamento => ({ ...lancamento, origem: nomeArquivo }));
+}
+
+function criterioDoLancamento(lancamento: LancamentoExtrato, recebedor: IdentificacaoRecebedor): TransferenciaIdentificada['criterio'] | null {
+  const descricao = normalizar(lancamento.descricao);
+  const digitosDescricao = somenteDigitos(descricao);
+
+  const cpf = somenteDigitos(recebedor.cpf);
+  if (cpf.length === 11) {
+    // Os bancos costumam mascarar o CPF (***.456.789-**): bastam os seis dígitos centrais
+    const mascarado = descricao.match(/\*{3}\.?(\d{3})\.?(\d{3})-?\*{2}/);
+    if (digitosDescricao.includes(cpf) || (mascarado && `${mascarado[1]}${mascarado[2]}` === cpf.slice(3, 9))) return 'cpf';
+  }
+
+  const chave = recebedor.chavePix.trim();
+  if (chave) {
+    const digitosChave = somenteDigitos(chave);
+    const chaveNumerica = /^[\d\s()+.-]+$/.test(chave) && digitosChave.length >= 8;
+    if (chaveNumerica ? digitosDescricao.includes(digitosChave.slice(-8)) : descricao.includes(normalizar(chave))) return 'chave';
+  }
+
+  // Nome: o primeiro nome e ao menos mais um sobrenome (os extratos costumam abreviar o restante)
+  const partes = normalizar(recebedor.nome).split(/\s+/).filter(parte => parte.length > 1 && !PALAVRAS_IGNORADAS.has(parte));
+  if (partes.length > 0) {
+    const presentes = partes.filter(parte => new RegExp(`\\b${parte}\\b`).test(descricao));
+    if (presentes.includes(partes[0]) && presentes.length >= Math.min(2, partes.length)) return 'nome';
+  }
+
+  return null;
+}
+
+// Saídas para o recebedor, identificadas por CPF, chave Pix ou nome. Extratos com períodos
+// sobrepostos repetem os mesmos lançamentos: de cada lançamento igual (data, valor e descrição)
+// ficam tantas ocorrências quantas houver no arquivo que mais o repete, de modo que duas
+// transferências idênticas no mesmo dia e no mesmo extrato continuam sendo duas
+export function identificarTransferencias(lancamentos: LancamentoExtrato[], recebedor: IdentificacaoRecebedor): TransferenciaIdentificada[] {
+  const ocorrenciasPorArquivo = new Map<string, number>();
+  const ocorrenciasMantidas = new Map<string, number>();
+  const transferencias: TransferenciaIdentificada[] = [];
+
+  for (const lancamento of lancamentos) {
+    if (lancamento.tipo === 'credito') continue;
+    const criterio = criterioDoLancamento(lancamento, recebedor);
+    if (!criterio) continue;
+
+    const chave = `${lancamento.data}|${lancamento.valor}|${lancamento.descricao}`;
+    const chaveArquivo = `${lancamento.origem ?? ''}|${chave}`;
+    const ocorrencia = (ocorrenciasPorArquivo.get(chaveArquivo) ?? 0) + 1;
+    ocorrenciasPorArquivo.set(chaveArquivo, ocorrencia);
+    if (ocorrencia <= (ocorrenciasMantidas.get(chave) ?? 0)) continue;
+
+    ocorrenciasMantidas.set(chave, ocorrencia);
+    transferencias.push({ ...lancamento, criterio });
+  }
+
+  return transferencias.sort((a, b) => a.data.localeCompare(b.data));
+}
+
+export function proporPagamentos(transferencias: TransferenciaIdentificada[]): PagamentoProposto[] {
+  const porMes = new Map<string, TransferenciaIdentificada[]>();
+  for (const transferencia of transferencias) {
+    const competencia = transferencia.data.slice(0, 7);
+    porMes.set(competencia, [...(porMes.get(competencia) ?? []), transferencia]);
+  }
+
+  return [...porMes.entries()].map(([competencia, itens]) => {
+    const total = Math.round(itens.reduce((soma, item) => soma + item.valor, 0) * 100) / 100;
+    const criterios = [...new Set(itens.map(item => ROTULOS_CRITERIO[item.criterio]))].join(', ');
+    return {
+      competencia,
+      pagamento: {
+        data: itens[0].data,
+        valor: total.toFixed(2),
+        observacao: `Extrato: ${itens.length} transferência(s) identificada(s) por ${criterios}`
+      },
+      transferencias: itens
+    };
+  });
+}
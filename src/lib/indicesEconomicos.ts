@@ -0,0 +1,107 @@
+export type IndiceEconomico = 'ipca' | 'igpm' | 'inpc' | 'selic' | 'tr' | 'ipcae' | 'cdi';
+
+export interface VariacaoMensal {
+  competencia: string; // primeiro dia do mês (YYYY-MM-01)
+  variacao: number;    // percentual do mês (0.42 = 0,42%)
+}
+
+// Séries mensais do SGS (Sistema Gerenciador de Séries Temporais) do Banco Central
+export const SERIES_SGS: Record<IndiceEconomico, { nome: string; serie: number; fonte: string }> = {
+  ipca: { nome: 'IPCA', serie: 433, fonte: 'IBGE' },
+  igpm: { nome: 'IGP-M', serie: 189, fonte: 'FGV' },
+  inpc: { nome: 'INPC', serie: 188, fonte: 'IBGE' },
+  selic: { nome: 'SELIC', serie: 4390, fonte: 'BCB' },
+  tr: { nome: 'TR', serie: 7811, fonte: 'BCB' },
+  ipcae: { nome: 'IPCA-E', serie: 10764, fonte: 'IBGE' },
+  cdi: { nome: 'CDI', serie: 4391, fonte: 'BCB' }
+};
+
+// Taxas médias mensais de juros (% a.m.) das operações de crédito com recursos livres, usadas na
+// revisão de contratos bancários pela taxa média de mercado da modalidade
+export type TaxaMediaCredito = 'taxa_veiculos' | 'taxa_pessoal' | 'taxa_consignado';
+
+export const TAXAS_MEDIAS_SGS: Record<TaxaMediaCredito, { nome: string; serie: number; fonte: string }> = {
+  taxa_veiculos: { nome: 'Taxa média - aquisição de veículos (PF)', serie: 25471, fonte: 'BCB' },
+  taxa_pessoal: { nome: 'Taxa média - crédito pessoal não consignado (PF)', serie: 25464, fonte: 'BCB' },
+  taxa_consignado: { nome: 'Taxa média - crédito pessoal consignado total (PF)', serie: 25469, fonte: 'BCB' }
+};
+
+// Salário mínimo nacional em reais, base das pensões fixadas em percentual do mínimo
+export const SALARIO_MINIMO_SGS: Record<'salario_minimo', { nome: string; serie: number; fonte: string }> = {
+  salario_minimo: { nome: 'Salário mínimo (R$)', serie: 1619, fonte: 'BCB' }
+};
+
+// Tudo o que a tela de administração importa para a tabela indices_economicos
+export type SerieImportavel = IndiceEconomico | TaxaMediaCredito | keyof typeof SALARIO_MINIMO_SGS;
+
+export const SERIES_IMPORTAVEIS: Record<SerieImportavel, { nome: string; serie: number; fonte: string }> = {
+  ...SERIES_SGS,
+  ...TAXAS_MEDIAS_SGS,
+  ...SALARIO_MINIMO_SGS
+};
+
+const MESES_ABREVIADOS = ['jan', 'fev', 'mar', 'abr', 'mai', 'jun', 'jul', 'ago', 'set', 'out', 'nov', 'dez'];
+
+// Datas do SGS: "01/03/2024" (API), "03/2024" ou "mar/2024" (exportação da página de consulta)
+function lerCompetencia(texto: string): string | null {
+  const data = texto.trim().toLowerCase();
+  let mes: number;
+  let ano: number;
+
+  let partes = data.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  if (partes) {
+    mes = parseInt(partes[2]);
+    ano = parseInt(partes[3]);
+  } else if ((partes = data.match(/^(\d{2})\/(\d{4})$/))) {
+    mes = parseInt(partes[1]);
+    ano = parseInt(partes[2]);
+  } else if ((partes = data.match(/^([a-z]{3})\/(\d{4})$/))) {
+    mes = MESES_ABREVIADOS.indexOf(partes[1]) + 1;
+    ano = parseInt(partes[2]);
+  } else {
+    return null;
+  }
+
+  if (mes < 1 || mes > 12) return null;
+  return `${ano}-${String(mes).padStart(2, '0')}-01`;
+}
+
+// O CSV usa vírgula decimal e, às vezes, ponto como separador de milhar
+function lerValor(texto: string | number): number | null {
+  if (typeof texto === 'number') return Number.isFinite(texto) ? texto : null;
+  const limpo = texto.trim();
+  if (!limpo) return null;
+  const normalizado = limpo.includes(',') ? limpo.replace(/\./g, '').replace(',', '.') : limpo;
+  const valor = Number(normalizado);
+  return Number.isFinite(valor) ? valor : null;
+}
+
+/**
+ * Lê uma exportação do SGS em JSON (`[{ "data": "01/01/2024", "valor": "0.42" }]`) ou CSV
+ * (`"data";"valor"` separado por ponto e vírgula). Linhas de cabeçalho, rodapé ("Fonte")
+ * e valores vazios são ignorados; competências repetidas ficam com o último valor.
+ */
+export function lerExportacaoSGS(conteudo: string): VariacaoMensal[] {
+  const porCompetencia = new Map<string, number>();
+  const texto = conteudo.replace(/^\uFEFF/, '').trim();
+
+  if (texto.startsWith('[')) {
+    const registros: { data?: string; valor?: string | number }[] = JSON.parse(texto);
+    registros.forEach(registro => {
+      const competencia = registro.data ? lerCompetencia(registro.data) : null;
+      const variacao = registro.valor !== undefined ? lerValor(registro.valor) : null;
+      if (competencia && variacao !== null) porCompetencia.set(competencia, variacao);
+    });
+  } else {
+    texto.split(/\r?\n/).forEach(linha => {
+      const [data, valor] = linha.split(';').map(campo => campo.replace(/"/g, ''));
+      if (valor === undefined) return;
+      const competencia = lerCompetencia(data);
+      const variacao = lerValor(valor);
+      if (competencia && variacao !== null) porCompetencia.set(competencia, variacao);
+    });
+  }
+
+  return Array.from(porCompetencia, ([competencia, variacao]) => ({ competencia, variacao }))
+    .sort((a, b) => a.competencia.localeCompare(b.competencia));
+}
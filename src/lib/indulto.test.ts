@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { DECRETOS_INDULTO, avaliarIndulto } from '@/lib/indulto';
+import type { Crime, DadosSentenca, EpisodioCustodia, EventoProcessual, NaturezaCrime, Reincidencia } from '@/types/pena';
+
+// Decreto 12.338/2024: corte em 25/12/2024, indulto até 8 anos, frações de 1/5 e 1/3
+const decreto2024 = DECRETOS_INDULTO.filter(decreto => decreto.ano === 2024);
+
+const crime = (natureza: NaturezaCrime, penaAnos: number, reincidencia: Reincidencia = 'primario'): Crime => ({
+  id: `${natureza}-${penaAnos}`,
+  descricao: natureza,
+  artigo: '',
+  penaAnos,
+  penaMeses: 0,
+  penaDias: 0,
+  natureza,
+  reincidencia
+});
+
+const dados = (extras: Partial<DadosSentenca>): DadosSentenca => ({
+  crimes: [],
+  totalDias: 0,
+  regimeInicial: 'Fechado',
+  fracaoProgressao: 1/6,
+  ...extras
+});
+
+// Custódia ininterrupta até a data de corte: 1821 dias desde 2020, 1090 desde 2022 e 452 desde out/2023
+const presoDesde = (inicio: string): EpisodioCustodia[] => [{ id: inicio, tipo: 'Cumprimento de Pena', inicio, computavel: true }];
+
+const faltaGrave = (data: string): EventoProcessual => ({ id: data, data, tipo: 'FaltaGrave' });
+
+const avaliar = (sentenca: DadosSentenca, inicio: string, eventos: EventoProcessual[] = []) =>
+  avaliarIndulto(sentenca, presoDesde(inicio), [], eventos, false, decreto2024)[0];
+
+describe('avaliarIndulto - crimes impeditivos', () => {
+  it.each([
+    ['pena impeditiva não cumprida até o corte', '2022-01-01', 'nenhum', 'Pena dos crimes impeditivos (1460 dias) não cumprida até 25/12/2024'],
+    ['pena impeditiva cumprida, indulto pelo crime comum', '2020-01-01', 'indulto', 'Indulto: cumpridos 361 de 146 dias exigidos (20%, primário)']
+  ])('%s', (_caso, inicio, beneficio, fundamento) => {
+    const avaliacao = avaliar(dados({ crimes: [crime('violento', 4), crime('comum', 2)] }), inicio);
+
+    expect(avaliacao).toMatchObject({ beneficio, diasPenaImpeditiva: 1460 });
+    expect(avaliacao.fundamentos).toContain(fundamento);
+  });
+
+  it('nega o benefício quando todos os crimes são impeditivos', () => {
+    const avaliacao = avaliar(dados({ crimes: [crime('hediondo', 5)] }), '2020-01-01');
+
+    expect(avaliacao.beneficio).toBe('nenhum');
+    expect(avaliacao.fundamentos).toEqual(['Todos os crimes são impeditivos neste decreto']);
+  });
+});
+
+describe('avaliarIndulto - natureza sem crimes detalhados', () => {
+  it.each([
+    ['sem natureza nem fração de hediondo, não avalia', {}, 'nao_avaliado'],
+    ['fração de 2/5 presume crime hediondo', { fracaoProgressao: 2/5 }, 'nenhum'],
+    ['fração de 3/5 presume crime hediondo', { fracaoProgressao: 3/5 }, 'nenhum'],
+    ['natureza informada prevalece sobre a fração', { natureza: 'comum' as NaturezaCrime, fracaoProgressao: 2/5 }, 'indulto'],
+    ['natureza impeditiva informada', { natureza: 'violento' as NaturezaCrime }, 'nenhum']
+  ])('%s', (_caso, extras, beneficio) => {
+    expect(avaliar(dados({ totalDias: 1825, ...extras }), '2020-01-01').beneficio).toBe(beneficio);
+  });
+
+  it('explica por que o decreto não foi avaliado', () => {
+    const avaliacao = avaliar(dados({ totalDias: 1825 }), '2020-01-01');
+
+    expect(avaliacao.fundamentos[0]).toMatch(/^Natureza dos crimes não informada/);
+    expect(avaliacao.diasComutados).toBeUndefined();
+  });
+});
+
+describe('avaliarIndulto - limite de 8 anos', () => {
+  it.each([
+    ['pena de 9 anos excede o limite', dados({ crimes: [crime('comum', 9)] }), 'comutacao'],
+    ['8 anos pelo calendário, com os dias bissextos, não excedem o limite',
+      dados({ natureza: 'comum', pena: { anos: 8, meses: 0, dias: 0 }, totalDias: 2920, dataInicioTeorica: '2020-01-01' }), 'indulto']
+  ])('%s', (_caso, sentenca, beneficio) => {
+    expect(avaliar(sentenca, '2020-01-01').beneficio).toBe(beneficio);
+  });
+
+  it('registra o limite em dias contado pelo calendário', () => {
+    const avaliacao = avaliar(dados({ natureza: 'comum', pena: { anos: 9, meses: 0, dias: 0 }, totalDias: 3285, dataInicioTeorica: '2020-01-01' }), '2020-01-01');
+
+    expect(avaliacao.fundamentos).toContain('Indulto: pena de 3285 dias acima do limite de 8 anos (2922 dias)');
+  });
+});
+
+describe('avaliarIndulto - fração do primário e do reincidente', () => {
+  it.each([
+    ['primário cumpre 1/5', 'primario' as Reincidencia, 'indulto', 365],
+    ['reincidente não cumpre 1/3', 'reincidente' as Reincidencia, 'nenhum', 609]
+  ])('%s', (_caso, reincidencia, beneficio, diasExigidosIndulto) => {
+    const avaliacao = avaliar(dados({ crimes: [crime('comum', 5, reincidencia)] }), '2023-10-01');
+
+    expect(avaliacao).toMatchObject({ beneficio, diasExigidosIndulto, diasCumpridosNoCorte: 452 });
+  });
+
+  it('usa o campo da sentença quando os crimes não são detalhados', () => {
+    const avaliacao = avaliar(dados({ natureza: 'comum', reincidente: true, totalDias: 1825 }), '2023-10-01');
+
+    expect(avaliacao).toMatchObject({ beneficio: 'nenhum', diasExigidosIndulto: 609 });
+  });
+});
+
+describe('avaliarIndulto - falta grave', () => {
+  it.each([
+    ['nos 12 meses anteriores ao corte impede o benefício', '2024-06-01', 'nenhum'],
+    ['na própria data de corte impede o benefício', '2024-12-25', 'nenhum'],
+    ['anterior ao período vedado não impede', '2023-11-01', 'indulto'],
+    ['posterior ao corte não impede', '2025-01-10', 'indulto']
+  ])('%s', (_caso, data, beneficio) => {
+    expect(avaliar(dados({ crimes: [crime('comum', 5)] }), '2020-01-01', [faltaGrave(data)]).beneficio).toBe(beneficio);
+  });
+});
+
+describe('avaliarIndulto - saldo comutado', () => {
+  it.each([
+    ['primário: 1/4 do saldo', 'primario' as Reincidencia, 913, 457, 1372],
+    ['reincidente: 1/5 do saldo', 'reincidente' as Reincidencia, 1217, 365, 1464]
+  ])('%s', (_caso, reincidencia, diasExigidosComutacao, diasComutados, saldoComutado) => {
+    const avaliacao = avaliar(dados({ crimes: [crime('comum', 10, reincidencia)] }), '2020-01-01');
+
+    expect(avaliacao).toMatchObject({
+      beneficio: 'comutacao',
+      saldoNoCorte: 1829,
+      diasExigidosComutacao,
+      diasComutados,
+      saldoComutado
+    });
+  });
+
+  it('comuta só o saldo dos crimes comuns depois de cumprida a pena impeditiva', () => {
+    const avaliacao = avaliar(dados({ crimes: [crime('violento', 2), crime('comum', 9)] }), '2020-01-01');
+
+    // 730 dias impeditivos + 3285 comuns; 1091 dias cumpridos na pena comum
+    expect(avaliacao).toMatchObject({ beneficio: 'comutacao', saldoNoCorte: 2194, diasComutados: 548, saldoComutado: 1646 });
+  });
+});
@@ -0,0 +1,207 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import {
+  AvaliacaoIndulto,
+  DadosSentenca,
+  EpisodioCustodia,
+  EventoProcessual,
+  NaturezaCrime,
+  RegraDecretoIndulto,
+  Remissao
+} from '@/types/pena';
+import {
+  calcularDiasCumpridosAte,
+  calcularRemissoesAte,
+  calcularRequisitosCrimes,
+  contarDiasPeriodo,
+  converterParaDias,
+  somarDiasISO
+} from '@/lib/pena';
+
+dayjs.extend(utc);
+
+const NATUREZAS_COM_VIOLENCIA_OU_HEDIONDAS: RegraDecretoIndulto['naturezasImpeditivas'] = [
+  'violento',
+  'hediondo',
+  'hediondo_morte',
+  'feminicidio',
+  'comando_organizacao',
+  'milicia'
+];
+
+// Um decreto por ano; novos decretos entram no topo da lista
+export const DECRETOS_INDULTO: RegraDecretoIndulto[] = [
+  {
+    id: 'decreto-12338-2024',
+    decreto: 'Decreto 12.338/2024',
+    ano: 2024,
+    dataCorte: '2024-12-25',
+    naturezasImpeditivas: NATUREZAS_COM_VIOLENCIA_OU_HEDIONDAS,
+    semFaltaGraveMeses: 12,
+    indulto: { penaMaximaAnos: 8, fracaoPrimario: 1/5, fracaoReincidente: 1/3 },
+    comutacao: { fracaoPrimario: 1/4, fracaoReincidente: 1/3, reducaoPrimario: 1/4, reducaoReincidente: 1/5 }
+  },
+  {
+    id: 'decreto-11846-2023',
+    decreto: 'Decreto 11.846/2023',
+    ano: 2023,
+    dataCorte: '2023-12-25',
+    naturezasImpeditivas: NATUREZAS_COM_VIOLENCIA_OU_HEDIONDAS,
+    semFaltaGraveMeses: 12,
+    indulto: { penaMaximaAnos: 8, fracaoPrimario: 1/5, fracaoReincidente: 1/3 },
+    comutacao: { fracaoPrimario: 1/4, fracaoReincidente: 1/3, reducaoPrimario: 1/4, reducaoReincidente: 1/5 }
+  }
+];
+
+const formatarData = (dataISO: string) => dayjs.utc(dataISO).format('DD/MM/YYYY');
+
+// Sem crimes detalhados vale a natureza informada na sentença; na falta dela, as frações de 2/5 e
+// 3/5 só se aplicam a hediondos e equiparados, e as demais não distinguem crime comum de violento
+function naturezaDaSentenca(dados: DadosSentenca): { natureza?: NaturezaCrime; presumida: boolean } {
+  if (dados.natureza) return { natureza: dados.natureza, presumida: false };
+  if (dados.fracaoProgressao >= 2/5) return { natureza: 'hediondo', presumida: true };
+  return { presumida: false };
+}
+
+/**
+ * Avalia indulto e comutação em cada decreto. A pena dos crimes impeditivos precisa estar
+ * integralmente cumprida na data de corte; as frações incidem sobre a pena dos demais.
+ * A falta grave não interrompe a contagem (Súmula 535 STJ), apenas impede o benefício
+ * quando ocorrida no período vedado pelo decreto. Sem a natureza dos crimes o decreto
+ * não é avaliado, pois não há como afastar as vedações.
+ */
+export function avaliarIndulto(
+  dados: DadosSentenca,
+  episodios: EpisodioCustodia[],
+  remissoes: Remissao[],
+  eventos: EventoProcessual[] = [],
+  incluirDiaSoltura: boolean = false,
+  decretos: RegraDecretoIndulto[] = DECRETOS_INDULTO
+): AvaliacaoIndulto[] {
+  const crimesComPena = dados.crimes.filter(crime => crime.penaAnos || crime.penaMeses || crime.penaDias);
+  const requisitos = crimesComPena.length > 0
+    ? calcularRequisitosCrimes(crimesComPena, dados.pena ? dados.dataInicioTeorica : undefined)
+    : [];
+  const reincidente = crimesComPena.length > 0
+    ? crimesComPena.some(crime => crime.reincidencia !== 'primario')
+    : !!dados.reincidente;
+  const sentenca = crimesComPena.length > 0 ? null : naturezaDaSentenca(dados);
+
+  const penaUnificada = eventos
+    .filter(evento => evento.tipo === 'Unificacao' && evento.penaAcrescida)
+    .reduce((total, evento) => total + (dados.pena
+      ? contarDiasPeriodo(evento.data, evento.penaAcrescida!)
+      : converterParaDias(evento.penaAcrescida!)), 0);
+
+  return decretos.map(decreto => {
+    const fundamentos: string[] = [];
+    const corte = decreto.dataCorte;
+
+    const impeditivos = requisitos.filter(requisito =>
+      decreto.naturezasImpeditivas.includes(crimesComPena.find(crime => crime.id === requisito.crimeId)!.natureza)
+    );
+    const sentencaImpeditiva = !!sentenca?.natureza && decreto.naturezasImpeditivas.includes(sentenca.natureza);
+    const diasPenaImpeditiva = sentencaImpeditiva
+      ? dados.totalDias
+      : impeditivos.reduce((total, r) => total + r.diasPena, 0);
+    const diasPenaComum = (requisitos.length > 0
+      ? requisitos.reduce((total, r) => total + r.diasPena, 0) - diasPenaImpeditiva
+      : sentencaImpeditiva ? 0 : dados.totalDias) + penaUnificada;
+
+    const diasCumpridosNoCorte = calcularDiasCumpridosAte(episodios, somarDiasISO(corte, 1), incluirDiaSoltura)
+      + calcularRemissoesAte(remissoes, corte);
+    const saldoNoCorte = Math.max(0, diasPenaImpeditiva + diasPenaComum - diasCumpridosNoCorte);
+    const cumpridoComum = Math.max(0, diasCumpridosNoCorte - diasPenaImpeditiva);
+
+    const avaliacao: AvaliacaoIndulto = {
+      decretoId: decreto.id,
+      decreto: decreto.decreto,
+      dataCorte: corte,
+      beneficio: 'nenhum',
+      diasCumpridosNoCorte,
+      diasPenaImpeditiva,
+      saldoNoCorte,
+      fundamentos
+    };
+
+    if (sentenca && !sentenca.natureza) {
+      avaliacao.beneficio = 'nao_avaliado';
+      fundamentos.push('Natureza dos crimes não informada: detalhe os crimes ou indique a natureza para avaliar as vedações do decreto');
+      return avaliacao;
+    }
+    if (sentenca?.presumida) {
+      fundamentos.push(`Crime hediondo ou equiparado presumido pela fração de progressão (${Math.round(dados.fracaoProgressao * 100)}%)`);
+    }
+    if (diasPenaComum <= 0) {
+      fundamentos.push('Todos os crimes são impeditivos neste decreto');
+      return avaliacao;
+    }
+    if (diasPenaImpeditiva > 0) {
+      fundamentos.push(diasCumpridosNoCorte >= diasPenaImpeditiva
+        ? `Pena dos crimes impeditivos (${diasPenaImpeditiva} dias) cumprida até ${formatarData(corte)}`
+        : `Pena dos crimes impeditivos (${diasPenaImpeditiva} dias) não cumprida até ${formatarData(corte)}`);
+      if (diasCumpridosNoCorte < diasPenaImpeditiva) return avaliacao;
+    }
+    if (saldoNoCorte === 0) {
+      fundamentos.push('Pena já cumprida na data de corte');
+      return avaliacao;
+    }
+
+    if (decreto.semFaltaGraveMeses) {
+      const inicioVedacao = dayjs.utc(corte).subtract(decreto.semFaltaGraveMeses, 'month');
+      const faltaNoPeriodo = eventos.find(evento =>
+        evento.tipo === 'FaltaGrave' &&
+        dayjs.utc(evento.data).isAfter(inicioVedacao) &&
+        !dayjs.utc(evento.data).isAfter(dayjs.utc(corte))
+      );
+      if (faltaNoPeriodo) {
+        fundamentos.push(`Falta grave em ${formatarData(faltaNoPeriodo.data)}, nos ${decreto.semFaltaGraveMeses} meses anteriores à data de corte`);
+        return avaliacao;
+      }
+    }
+
+    const rotuloReincidencia = reincidente ? 'reincidente' : 'primário';
+
+    if (decreto.indulto) {
+      const { penaMaximaAnos, fracaoPrimario, fracaoReincidente } = decreto.indulto;
+      const fracao = reincidente ? fracaoReincidente : fracaoPrimario;
+      avaliacao.diasExigidosIndulto = Math.ceil(diasPenaComum * fracao);
+
+      // O limite em anos é contado pelo calendário a partir do mesmo início da pena, como os dias dela
+      const limite = { anos: penaMaximaAnos ?? 0, meses: 0, dias: 0 };
+      const penaMaximaDias = penaMaximaAnos
+        ? dados.pena && dados.dataInicioTeorica ? contarDiasPeriodo(dados.dataInicioTeorica, limite) : converterParaDias(limite)
+        : undefined;
+
+      if (penaMaximaDias && diasPenaComum > penaMaximaDias) {
+        fundamentos.push(`Indulto: pena de ${diasPenaComum} dias acima do limite de ${penaMaximaAnos} anos (${penaMaximaDias} dias)`);
+      } else {
+        fundamentos.push(`Indulto: cumpridos ${cumpridoComum} de ${avaliacao.diasExigidosIndulto} dias exigidos (${Math.round(fracao * 100)}%, ${rotuloReincidencia})`);
+        if (cumpridoComum >= avaliacao.diasExigidosIndulto) {
+          avaliacao.beneficio = 'indulto';
+          avaliacao.diasComutados = saldoNoCorte;
+          avaliacao.saldoComutado = 0;
+          return avaliacao;
+        }
+      }
+    }
+
+    if (decreto.comutacao) {
+      const { fracaoPrimario, fracaoReincidente, reducaoPrimario, reducaoReincidente } = decreto.comutacao;
+      const fracao = reincidente ? fracaoReincidente : fracaoPrimario;
+      const reducao = reincidente ? reducaoReincidente : reducaoPrimario;
+      avaliacao.diasExigidosComutacao = Math.ceil(diasPenaComum * fracao);
+
+      fundamentos.push(`Comutação: cumpridos ${cumpridoComum} de ${avaliacao.diasExigidosComutacao} dias exigidos (${Math.round(fracao * 100)}%, ${rotuloReincidencia})`);
+      if (cumpridoComum >= avaliacao.diasExigidosComutacao) {
+        const saldoComum = Math.max(0, diasPenaComum - cumpridoComum);
+        avaliacao.beneficio = 'comutacao';
+        avaliacao.diasComutados = Math.floor(saldoComum * reducao);
+        avaliacao.saldoComutado = saldoNoCorte - avaliacao.diasComutados;
+        fundamentos.push(`Redução de ${Math.round(reducao * 100)}% sobre o saldo de ${saldoComum} dias`);
+      }
+    }
+
+    return avaliacao;
+  });
+}
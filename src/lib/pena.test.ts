@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { calcularDatasChave, obterHojeISO } from '@/lib/pena';
+import type {
+  DadosSentenca,
+  EpisodioCustodia,
+  EventoProcessual,
+  Remissao,
+  ResultadoCalculoV2
+} from '@/types/pena';
+
+// Cada arquivo em fixtures/pena é um caso: a entrada do cálculo e o subconjunto esperado do resultado
+type CasoDatasChave = {
+  descricao: string;
+  entrada: {
+    hoje?: string;   // data de referência (YYYY-MM-DD)
+    agora?: string;  // ou um instante UTC, convertido para o dia de Cuiabá por obterHojeISO
+    incluirDiaSoltura?: boolean;
+    dadosSentenca: DadosSentenca;
+    episodios: EpisodioCustodia[];
+    remissoes: Remissao[];
+    eventos?: EventoProcessual[];
+  };
+  esperado: Partial<ResultadoCalculoV2>;
+};
+
+const casos = Object.entries(
+  import.meta.glob<CasoDatasChave>('./fixtures/pena/*.json', { eager: true, import: 'default' })
+).map(([arquivo, caso]) => ({ arquivo: arquivo.replace('./fixtures/pena/', ''), ...caso }));
+
+// O resultado não pode depender do fuso da máquina que executa o cálculo
+const FUSOS_MAQUINA = ['UTC', 'America/Cuiaba', 'Asia/Tokyo'];
+
+function calcular({ entrada }: CasoDatasChave) {
+  if (entrada.agora) {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(entrada.agora));
+  }
+  const hoje = entrada.hoje ?? obterHojeISO();
+
+  return calcularDatasChave(
+    entrada.dadosSentenca,
+    entrada.episodios,
+    entrada.remissoes,
+    hoje,
+    entrada.incluirDiaSoltura ?? false,
+    entrada.eventos ?? []
+  );
+}
+
+describe('calcularDatasChave (fixtures)', () => {
+  const fusoOriginal = process.env.TZ;
+
+  afterEach(() => {
+    vi.useRealTimers();
+    process.env.TZ = fusoOriginal;
+  });
+
+  it('encontra os casos em fixtures/pena', () => {
+    expect(casos.length).toBeGreaterThan(0);
+  });
+
+  describe.each(casos)('$arquivo', (caso) => {
+    it.each(FUSOS_MAQUINA)(`${caso.descricao} (máquina em %s)`, (fuso) => {
+      process.env.TZ = fuso;
+      expect(calcular(caso)).toMatchObject(caso.esperado);
+    });
+  });
+});
@@ -3,7 +3,25 @@ import utc from 'dayjs/plugin/utc';
 import timezone from 'dayjs/plugin/timezone';
 import isBetween from 'dayjs/plugin/isBetween';
 import isSameOrBefore from 'dayjs/plugin/isSameOrBefore';
-import { EpisodioCustodia, Remissao, DadosSentenca, ResultadoCalculoV2, PontoTempo } from '@/types/pena';
+import {
+  EpisodioCustodia,
+  Remissao,
+  DadosSentenca,
+  ResultadoCalculoV2,
+  PontoTempo,
+  PenaPeriodo,
+  ComparacaoContagem,
+  Crime,
+  ClassificacaoCrime,
+  RequisitoCrime,
+  RegimePrisional,
+  EtapaExecucao,
+  EventoProcessual,
+  DatasMarco,
+  ImpactoEvento,
+  ProcessoExecucao,
+  DetracaoProcesso
+} from '@/types/pena';
 
 // Configurar dayjs
 dayjs.extend(utc);
@@ -13,71 +31,407 @@ dayjs.extend(isSameOrBefore);
 
 const TIMEZONE = 'America/Cuiaba';
 
+// As datas da execução são dias civis (YYYY-MM-DD). Operar em UTC evita que o fuso
+// da máquina desloque o dia ao converter para o fuso da vara.
+function paraData(dataISO: string) {
+  return dayjs.utc(dataISO);
+}
+
+export function obterHojeISO(): string {
+  return dayjs().tz(TIMEZONE).format('YYYY-MM-DD');
+}
+
 export function converterParaDias({ anos, meses, dias }: { anos: number; meses: number; dias: number }): number {
   return (anos * 365) + (meses * 30) + dias;
 }
 
 export function somarDiasISO(dataISO: string, dias: number): string {
-  return dayjs(dataISO).tz(TIMEZONE).add(dias, 'day').format('YYYY-MM-DD');
+  return paraData(dataISO).add(dias, 'day').format('YYYY-MM-DD');
 }
 
-export function calcularDiasCumpridosAte(
-  episodios: EpisodioCustodia[], 
-  ate: string, 
-  incluirDiaSoltura: boolean = false
+function diasNoMes(ano: number, mes: number): number {
+  return new Date(Date.UTC(ano, mes + 1, 0)).getUTCDate();
+}
+
+// Dia e mês correspondentes após somar anos/meses. Se o mês de destino não tiver o dia
+// (ex.: 31/01 + 1 mês), o prazo vai para o primeiro dia subsequente (Lei 810/1949, art. 3º).
+function diaCorrespondente(dataISO: string, anos: number, meses: number) {
+  const data = paraData(dataISO);
+  const totalMeses = data.month() + anos * 12 + meses;
+  const ano = data.year() + Math.floor(totalMeses / 12);
+  const mes = totalMeses % 12;
+
+  if (data.date() > diasNoMes(ano, mes)) {
+    return dayjs.utc(Date.UTC(ano, mes + 1, 1));
+  }
+  return dayjs.utc(Date.UTC(ano, mes, data.date()));
+}
+
+/**
+ * Último dia de um período contado pelo calendário comum (art. 10 CP).
+ * Com incluirDiaInicio o dia do começo é computado; sem ele, a contagem começa no dia seguinte.
+ */
+export function somarPeriodoCalendario(
+  inicioISO: string,
+  periodo: PenaPeriodo,
+  incluirDiaInicio: boolean = true
+): string {
+  const inicio = incluirDiaInicio ? inicioISO : somarDiasISO(inicioISO, 1);
+  return diaCorrespondente(inicio, periodo.anos, periodo.meses)
+    .add(periodo.dias - 1, 'day')
+    .format('YYYY-MM-DD');
+}
+
+// Quantidade real de dias do período quando contado a partir de inicioISO (considera anos bissextos)
+export function contarDiasPeriodo(
+  inicioISO: string,
+  periodo: PenaPeriodo,
+  incluirDiaInicio: boolean = true
 ): number {
-  let totalDias = 0;
-  const dataLimite = dayjs(ate).tz(TIMEZONE);
+  const inicio = incluirDiaInicio ? inicioISO : somarDiasISO(inicioISO, 1);
+  const fim = somarPeriodoCalendario(inicioISO, periodo, incluirDiaInicio);
+  return paraData(fim).diff(paraData(inicio), 'day') + 1;
+}
 
-  episodios
-    .filter(ep => ep.computavel)
-    .forEach(episodio => {
-      const inicio = dayjs(episodio.inicio).tz(TIMEZONE);
-      let fim = episodio.fim ? dayjs(episodio.fim).tz(TIMEZONE) : dataLimite;
+export function somarPenas(penas: PenaPeriodo[]): PenaPeriodo {
+  const total = penas.reduce(
+    (acc, pena) => ({
+      anos: acc.anos + pena.anos,
+      meses: acc.meses + pena.meses,
+      dias: acc.dias + pena.dias
+    }),
+    { anos: 0, meses: 0, dias: 0 }
+  );
 
-      // Se o episódio ainda não começou na data limite, pular
-      if (inicio.isAfter(dataLimite)) return;
+  return {
+    anos: total.anos + Math.floor(total.meses / 12),
+    meses: total.meses % 12,
+    dias: total.dias
+  };
+}
 
-      // Se o episódio termina depois da data limite, usar a data limite
-      if (fim.isAfter(dataLimite)) {
-        fim = dataLimite;
-      }
+// A fração incide sobre anos e meses; o resto do mês vira dias (mês de 30 dias) e
+// desprezam-se as frações de dia (art. 11 CP).
+export function fracionarPena(pena: PenaPeriodo, fracao: number): PenaPeriodo {
+  const meses = (pena.anos * 12 + pena.meses) * fracao;
+  const mesesInteiros = Math.floor(meses + 1e-9);
+  const dias = Math.floor((meses - mesesInteiros) * 30 + pena.dias * fracao + 1e-9);
 
-      // Calcular dias do episódio
-      let diasEpisodio;
-      if (incluirDiaSoltura) {
-        diasEpisodio = fim.diff(inicio, 'day') + 1;
-      } else {
-        diasEpisodio = fim.diff(inicio, 'day');
-      }
+  return {
+    anos: Math.floor(mesesInteiros / 12),
+    meses: mesesInteiros % 12,
+    dias
+  };
+}
 
-      totalDias += Math.max(0, diasEpisodio);
-    });
+export function formatarPenaPeriodo(pena: PenaPeriodo): string {
+  return `${pena.anos}a ${pena.meses}m ${pena.dias}d`;
+}
 
-  return totalDias;
+export function obterPenaPeriodo(dados: DadosSentenca): PenaPeriodo | undefined {
+  const pena = dados.pena ?? (dados.crimes.length > 0
+    ? somarPenas(dados.crimes.map(crime => ({ anos: crime.penaAnos, meses: crime.penaMeses, dias: crime.penaDias })))
+    : undefined);
+
+  if (!pena || (pena.anos === 0 && pena.meses === 0 && pena.dias === 0)) return undefined;
+  return pena;
 }
 
-export function calcularRemissoesAte(remissoes: Remissao[], ate: string): number {
-  const dataLimite = dayjs(ate).tz(TIMEZONE);
-  
-  return remissoes
-    .filter(remissao => dayjs(remissao.dataCredito).tz(TIMEZONE).isSameOrBefore(dataLimite))
-    .reduce((total, remissao) => total + remissao.dias, 0);
+function obterPenaProcesso(processo: ProcessoExecucao): PenaPeriodo {
+  return processo.crimes.length > 0
+    ? somarPenas(processo.crimes.map(crime => ({ anos: crime.penaAnos, meses: crime.penaMeses, dias: crime.penaDias })))
+    : processo.pena ?? { anos: 0, meses: 0, dias: 0 };
 }
 
-export function calcularDatasChave(
-  dados: DadosSentenca,
+/**
+ * Unifica as condenações dos processos em uma pena total (art. 111 LEP). Com os crimes de
+ * todos os processos detalhados, cada um segue a fração do seu inciso; do contrário, valem
+ * as frações informadas na sentença.
+ */
+export function unificarProcessos(dados: DadosSentenca, processos: ProcessoExecucao[]): DadosSentenca {
+  const pena = somarPenas(processos.map(obterPenaProcesso));
+  const crimesDetalhados = processos.length > 0 && processos.every(processo => processo.crimes.length > 0);
+
+  return {
+    ...dados,
+    processos,
+    crimes: crimesDetalhados
+      ? processos.flatMap(processo => processo.crimes.map(crime => ({ ...crime, processoId: processo.id })))
+      : [],
+    pena,
+    totalDias: dados.dataInicioTeorica ? contarDiasPeriodo(dados.dataInicioTeorica, pena) : converterParaDias(pena)
+  };
+}
+
+// Livramento condicional (art. 83 CP)
+const LIVRAMENTO_PRIMARIO = { fracao: 1/3, fundamento: 'Art. 83, I, CP' };
+const LIVRAMENTO_REINCIDENTE = { fracao: 1/2, fundamento: 'Art. 83, II, CP' };
+const LIVRAMENTO_HEDIONDO = { fracao: 2/3, fundamento: 'Art. 83, V, CP' };
+
+/**
+ * Enquadra o crime nos incisos do art. 112 da LEP. Nos hediondos, os percentuais de
+ * reincidente exigem reincidência específica; o reincidente genérico segue o percentual
+ * do primário (Tema 1084 STJ).
+ */
+export function classificarCrime(crime: Pick<Crime, 'natureza' | 'reincidencia'>): ClassificacaoCrime {
+  const reincidente = crime.reincidencia !== 'primario';
+  const especifico = crime.reincidencia === 'reincidente_especifico';
+  const livramentoComum = reincidente ? LIVRAMENTO_REINCIDENTE : LIVRAMENTO_PRIMARIO;
+
+  const montar = (
+    inciso: ClassificacaoCrime['inciso'],
+    fracaoProgressao: number,
+    livramento?: { fracao: number; fundamento: string },
+    fundamentoVedacao?: string
+  ): ClassificacaoCrime => ({
+    inciso,
+    fracaoProgressao,
+    fracaoLivramento: livramento?.fracao,
+    fundamentoProgressao: `Art. 112, ${inciso}, LEP`,
+    fundamentoLivramento: livramento?.fundamento ?? fundamentoVedacao
+  });
+
+  switch (crime.natureza) {
+    case 'comum':
+      return reincidente ? montar('II', 0.2, livramentoComum) : montar('I', 0.16, livramentoComum);
+    case 'violento':
+      return reincidente ? montar('IV', 0.3, livramentoComum) : montar('III', 0.25, livramentoComum);
+    case 'hediondo':
+      return especifico
+        ? montar('VII', 0.6, undefined, 'Vedado ao reincidente específico (art. 83, V, CP)')
+        : montar('V', 0.4, LIVRAMENTO_HEDIONDO);
+    case 'hediondo_morte':
+      return especifico
+        ? montar('VIII', 0.7, undefined, 'Vedado (art. 112, VIII, LEP)')
+        : montar('VI-a', 0.5, undefined, 'Vedado (art. 112, VI, a, LEP)');
+    case 'feminicidio':
+      return especifico
+        ? montar('VIII', 0.7, undefined, 'Vedado (art. 112, VIII, LEP)')
+        : montar('VI-A', 0.55, undefined, 'Vedado (art. 112, VI-A, LEP)');
+    case 'comando_organizacao':
+      return montar('VI-b', 0.5, especifico ? undefined : LIVRAMENTO_HEDIONDO, 'Vedado ao reincidente específico (art. 83, V, CP)');
+    case 'milicia':
+      return montar('VI-c', 0.5, livramentoComum);
+  }
+}
+
+// No concurso de crimes executa-se primeiro a pena mais grave (art. 76 CP)
+export function ordenarCrimesExecucao(crimes: Crime[]): Crime[] {
+  return crimes
+    .map((crime, indice) => ({ crime, indice, fracao: classificarCrime(crime).fracaoProgressao }))
+    .sort((a, b) => b.fracao - a.fracao || a.indice - b.indice)
+    .map(({ crime }) => crime);
+}
+
+/**
+ * Requisito objetivo de cada crime, cumprido em sequência: cada pena é satisfeita com a
+ * própria fração antes de passar à seguinte. Com inicioISO a contagem segue o calendário,
+ * cada parcela começando no dia seguinte ao fim da anterior; sem ele usa os fatores 365/30.
+ */
+export function calcularRequisitosCrimes(crimes: Crime[], inicioISO?: string): RequisitoCrime[] {
+  let cursorProgressao = inicioISO;
+  let cursorLivramento = inicioISO;
+  let cursorPena = inicioISO;
+  let acumuladoProgressao = 0;
+  let acumuladoLivramento = 0;
+
+  // Conta o período a partir do cursor e o avança para o dia seguinte ao último dia contado
+  const contar = (periodo: PenaPeriodo, cursor?: string): [number, string | undefined] => {
+    if (!cursor) return [converterParaDias(periodo), undefined];
+    const dias = contarDiasPeriodo(cursor, periodo);
+    return [dias, somarDiasISO(cursor, dias)];
+  };
+
+  return ordenarCrimesExecucao(crimes).map(crime => {
+    const classificacao = classificarCrime(crime);
+    const pena = { anos: crime.penaAnos, meses: crime.penaMeses, dias: crime.penaDias };
+
+    const [diasPena, proximoPena] = contar(pena, cursorPena);
+    const [diasProgressao, proximoProgressao] = contar(fracionarPena(pena, classificacao.fracaoProgressao), cursorProgressao);
+    // Vedado o livramento, a pena desse crime precisa ser cumprida por inteiro
+    const [diasLivramento, proximoLivramento] = contar(fracionarPena(pena, classificacao.fracaoLivramento ?? 1), cursorLivramento);
+
+    cursorPena = proximoPena;
+    cursorProgressao = proximoProgressao;
+    cursorLivramento = proximoLivramento;
+    acumuladoProgressao += diasProgressao;
+    acumuladoLivramento += diasLivramento;
+
+    return {
+      crimeId: crime.id,
+      descricao: crime.descricao,
+      classificacao,
+      diasPena,
+      diasProgressao,
+      diasLivramento,
+      acumuladoProgressao,
+      acumuladoLivramento
+    };
+  });
+}
+
+const SEQUENCIA_REGIMES: RegimePrisional[] = ['Fechado', 'Semiaberto', 'Aberto'];
+
+// Pena sujeita a uma mesma fração de progressão, na ordem de execução
+type ParcelaPena = { diasPena: number; fracao: number };
+
+// Requisito sobre a pena remanescente: o já cumprido abate as parcelas na ordem de execução
+// e o saldo de cada uma recebe a sua fração.
+function requisitoSobreSaldo(diasCumpridos: number, parcelas: ParcelaPena[]): number {
+  let cumpridoRestante = diasCumpridos;
+  return parcelas.reduce((soma, parcela) => {
+    const saldo = Math.max(0, parcela.diasPena - cumpridoRestante);
+    cumpridoRestante = Math.max(0, cumpridoRestante - parcela.diasPena);
+    return soma + Math.floor(saldo * parcela.fracao);
+  }, 0);
+}
+
+// Situação da execução depois de aplicados os eventos processuais
+type EstadoExecucao = {
+  regime: RegimePrisional;
+  totalDias: number;
+  parcelas: ParcelaPena[];
+  dataBase?: string;             // data-base da progressão; ausente = início do cumprimento
+  cumpridoNaDataBase: number;
+  requisitoProgressao?: number;  // dias a cumprir a partir da data-base
+  requisitoLivramento?: number;  // pena cumprida exigida desde o início
+  limiteDias?: number;           // pena cumprida ao atingir o limite do art. 75 CP
+};
+
+// Limite de cumprimento das penas privativas de liberdade (art. 75 CP, Lei 13.964/2019)
+const LIMITE_CUMPRIMENTO: PenaPeriodo = { anos: 40, meses: 0, dias: 0 };
+
+const obterFimCumprimento = (estado: EstadoExecucao) => estado.limiteDias ?? estado.totalDias;
+
+/**
+ * Aplica um evento processual ao estado da execução. Retorna undefined para eventos
+ * meramente informativos.
+ */
+function aplicarEvento(
+  estado: EstadoExecucao,
+  evento: EventoProcessual,
+  cumpridoNaData: number,
+  diasPenaAcrescida: number,
+  diasLimiteNaData: number,
+  fracoesPadrao: { progressao: number; livramento?: number }
+): { estado: EstadoExecucao; efeito: string } | undefined {
+  // Nova data-base: a fração passa a incidir sobre o saldo a partir da data do evento
+  const reiniciarDataBase = (regime: RegimePrisional): EstadoExecucao => ({
+    ...estado,
+    regime,
+    dataBase: evento.data,
+    cumpridoNaDataBase: cumpridoNaData,
+    requisitoProgressao: regime === 'Aberto' ? undefined : requisitoSobreSaldo(cumpridoNaData, estado.parcelas)
+  });
+
+  switch (evento.tipo) {
+    case 'FaltaGrave':
+      return {
+        estado: reiniciarDataBase(estado.regime),
+        efeito: 'Interrompe a contagem para progressão (Súmula 534 STJ); não interrompe livramento, indulto e comutação (Súmulas 441 e 535 STJ)'
+      };
+    case 'Regressao': {
+      const regime = evento.regimeResultante ?? 'Fechado';
+      return {
+        estado: reiniciarDataBase(regime),
+        efeito: `Regressão ao regime ${regime} (art. 118 LEP), com nova data-base para progressão`
+      };
+    }
+    case 'Progressao': {
+      const proximo = SEQUENCIA_REGIMES[SEQUENCIA_REGIMES.indexOf(estado.regime) + 1];
+      if (!proximo) return undefined;
+      return {
+        estado: reiniciarDataBase(proximo),
+        efeito: `Progressão ao regime ${proximo}; a fração seguinte incide sobre o saldo da pena`
+      };
+    }
+    case 'Unificacao': {
+      if (diasPenaAcrescida <= 0) return undefined;
+      const fracaoProgressao = evento.fracaoProgressao ?? fracoesPadrao.progressao;
+      const fracaoLivramento = evento.fracaoLivramento ?? fracoesPadrao.livramento;
+      // Nova unificação despreza a pena já cumprida: o limite conta do saldo mais a nova pena (art. 75, §2º, CP)
+      const totalDias = estado.totalDias + diasPenaAcrescida;
+      const saldo = obterFimCumprimento(estado) - cumpridoNaData + diasPenaAcrescida;
+      const fimCumprimento = cumpridoNaData + Math.min(saldo, diasLimiteNaData);
+      return {
+        estado: {
+          ...estado,
+          totalDias,
+          limiteDias: fimCumprimento < totalDias ? fimCumprimento : undefined,
+          parcelas: [...estado.parcelas, { diasPena: diasPenaAcrescida, fracao: fracaoProgressao }],
+          requisitoProgressao: estado.requisitoProgressao === undefined
+            ? undefined
+            : estado.requisitoProgressao + Math.floor(diasPenaAcrescida * fracaoProgressao),
+          requisitoLivramento: estado.requisitoLivramento === undefined || fracaoLivramento === undefined
+            ? estado.requisitoLivramento
+            : estado.requisitoLivramento + Math.floor(diasPenaAcrescida * fracaoLivramento)
+        },
+        efeito: `Soma de ${diasPenaAcrescida} dias à pena a partir da unificação (art. 111, parágrafo único, LEP); a data-base não se altera (Tema 1006 STJ)`
+      };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Plano de progressões do regime atual até o término. A primeira fração conta da data-base;
+ * as seguintes incidem sobre o saldo remanescente após a progressão anterior. Progressões
+ * que só ocorreriam depois do limite do art. 75 CP ficam fora do plano.
+ */
+function montarPlanoEtapas(
+  estado: EstadoExecucao,
+  localizar: (dias: number) => string | undefined
+): EtapaExecucao[] {
+  const etapas: EtapaExecucao[] = [];
+  let indice = Math.max(0, SEQUENCIA_REGIMES.indexOf(estado.regime));
+  let acumulado = estado.cumpridoNaDataBase;
+  const fim = obterFimCumprimento(estado);
+
+  while (indice < SEQUENCIA_REGIMES.length - 1 && estado.requisitoProgressao !== undefined) {
+    const baseDias = estado.totalDias - acumulado;
+    const diasRequisito = etapas.length === 0
+      ? estado.requisitoProgressao
+      : requisitoSobreSaldo(acumulado, estado.parcelas);
+    if (acumulado + diasRequisito >= fim) break;
+    acumulado += diasRequisito;
+
+    etapas.push({
+      regimeOrigem: SEQUENCIA_REGIMES[indice],
+      regimeDestino: SEQUENCIA_REGIMES[indice + 1],
+      data: localizar(acumulado),
+      baseDias,
+      fracao: estado.parcelas.length === 1
+        ? estado.parcelas[0].fracao
+        : (baseDias > 0 ? diasRequisito / baseDias : 0),
+      diasRequisito,
+      acumuladoDias: acumulado,
+      saldoDias: estado.totalDias - acumulado
+    });
+    indice++;
+  }
+
+  etapas.push({
+    regimeOrigem: SEQUENCIA_REGIMES[indice],
+    regimeDestino: 'Termino',
+    data: localizar(fim),
+    baseDias: fim - acumulado,
+    fracao: 1,
+    diasRequisito: fim - acumulado,
+    acumuladoDias: fim,
+    saldoDias: 0
+  });
+
+  return etapas;
+}
+
+function montarPontos(
   episodios: EpisodioCustodia[],
   remissoes: Remissao[],
-  hojeISO: string,
-  incluirDiaSoltura: boolean = false
-): ResultadoCalculoV2 {
-  const hoje = dayjs(hojeISO).tz(TIMEZONE);
-  
-  // Criar pontos de mudança na linha do tempo
+  incluirDiaSoltura: boolean
+): PontoTempo[] {
   const pontos: PontoTempo[] = [];
-  
-  // Adicionar episódios
+
   episodios.filter(ep => ep.computavel).forEach(episodio => {
     pontos.push({
       data: episodio.inicio,
@@ -85,18 +439,18 @@ export function calcularDatasChave(
       episodioId: episodio.id,
       valor: 1
     });
-    
+
     if (episodio.fim) {
+      // Computar o dia da soltura equivale a encerrar o episódio no dia seguinte
       pontos.push({
-        data: episodio.fim,
+        data: incluirDiaSoltura ? somarDiasISO(episodio.fim, 1) : episodio.fim,
         tipo: 'fim_episodio',
         episodioId: episodio.id,
         valor: -1
       });
     }
   });
-  
-  // Adicionar remições
+
   remissoes.forEach(remissao => {
     pontos.push({
       data: remissao.dataCredito,
@@ -105,114 +459,322 @@ export function calcularDatasChave(
       valor: remissao.dias
     });
   });
-  
-  // Ordenar pontos cronologicamente
-  pontos.sort((a, b) => dayjs(a.data).diff(dayjs(b.data)));
-  
-  // Simular o tempo e encontrar as datas chave
+
+  return pontos.sort((a, b) => paraData(a.data).diff(paraData(b.data)));
+}
+
+/**
+ * Primeira data em que custódia + remições alcançam diasNecessarios.
+ * Com contarDiaCorrente o próprio dia retornado já conta como cumprido (contagem do art. 10 CP).
+ * Retorna undefined quando o requisito não é atingido e o apenado está solto ao fim da linha do tempo.
+ */
+function localizarDataAlvo(
+  pontos: PontoTempo[],
+  diasNecessarios: number,
+  contarDiaCorrente: boolean
+): string | undefined {
+  if (pontos.length === 0) return undefined;
+
+  const ajuste = contarDiaCorrente ? 1 : 0;
   let custodiaAtiva = 0;
-  let diasCumpridos = 0;
-  let remicoesAcumuladas = 0;
-  let dataAnterior = pontos.length > 0 ? dayjs(pontos[0].data).tz(TIMEZONE) : hoje;
-  
-  let dataProgressao: string | undefined;
-  let dataLivramento: string | undefined;
-  let dataTermino: string = hojeISO;
-  
-  const diasNecessariosProgressao = dados.fracaoProgressao * dados.totalDias;
-  const diasNecessariosLivramento = dados.fracaoLivramento ? dados.fracaoLivramento * dados.totalDias : undefined;
-  const diasNecessariosTermino = dados.totalDias;
-  
+  let acumulado = 0;
+  let dataAnterior = paraData(pontos[0].data);
+
   for (const ponto of pontos) {
-    const dataPonto = dayjs(ponto.data).tz(TIMEZONE);
-    
-    // Acumular dias cumpridos no período anterior se estava em custódia
-    if (custodiaAtiva > 0 && dataPonto.isAfter(dataAnterior)) {
-      const diasPeriodo = incluirDiaSoltura ? 
-        dataPonto.diff(dataAnterior, 'day') + (ponto.tipo === 'fim_episodio' ? 1 : 0) :
-        dataPonto.diff(dataAnterior, 'day');
-      diasCumpridos += diasPeriodo;
-    }
-    
-    // Aplicar mudança do ponto atual
-    if (ponto.tipo === 'inicio_episodio') {
-      custodiaAtiva += ponto.valor;
-    } else if (ponto.tipo === 'fim_episodio') {
-      custodiaAtiva += ponto.valor;
-    } else if (ponto.tipo === 'credito_remissao') {
-      remicoesAcumuladas += ponto.valor;
-    }
-    
-    // Verificar se atingiu alguma data chave
-    const totalCumprido = diasCumpridos + remicoesAcumuladas;
-    
-    if (!dataProgressao && totalCumprido >= diasNecessariosProgressao) {
-      if (custodiaAtiva > 0) {
-        // Está em custódia, calcular data exata
-        const diasFaltavam = diasNecessariosProgressao - (diasCumpridos + remicoesAcumuladas - ponto.valor);
-        dataProgressao = dataAnterior.add(diasFaltavam, 'day').format('YYYY-MM-DD');
-      } else {
-        // Não está em custódia, marcar para o próximo período
-        dataProgressao = ponto.data;
+    const dataPonto = paraData(ponto.data);
+
+    // Período anterior em custódia: o requisito pode ter sido atingido no meio dele
+    if (custodiaAtiva > 0) {
+      const diasPeriodo = dataPonto.diff(dataAnterior, 'day');
+      if (acumulado + diasPeriodo >= diasNecessarios) {
+        return dataAnterior.add(Math.max(0, diasNecessarios - acumulado - ajuste), 'day').format('YYYY-MM-DD');
       }
+      acumulado += diasPeriodo;
     }
-    
-    if (!dataLivramento && diasNecessariosLivramento && totalCumprido >= diasNecessariosLivramento) {
-      if (custodiaAtiva > 0) {
-        const diasFaltavam = diasNecessariosLivramento - (diasCumpridos + remicoesAcumuladas - ponto.valor);
-        dataLivramento = dataAnterior.add(diasFaltavam, 'day').format('YYYY-MM-DD');
-      } else {
-        dataLivramento = ponto.data;
-      }
+
+    if (ponto.tipo === 'credito_remissao') {
+      acumulado += ponto.valor;
+      // Remição creditada fora da custódia antecipa o marco para a data do crédito
+      if (acumulado >= diasNecessarios) return ponto.data;
+    } else {
+      custodiaAtiva += ponto.valor;
     }
-    
-    if (totalCumprido >= diasNecessariosTermino) {
-      if (custodiaAtiva > 0) {
-        const diasFaltavam = diasNecessariosTermino - (diasCumpridos + remicoesAcumuladas - ponto.valor);
-        dataTermino = dataAnterior.add(diasFaltavam, 'day').format('YYYY-MM-DD');
-      } else {
-        dataTermino = ponto.data;
-      }
-      break;
+
+    dataAnterior = dataPonto;
+  }
+
+  if (custodiaAtiva > 0) {
+    return dataAnterior.add(Math.max(0, diasNecessarios - acumulado - ajuste), 'day').format('YYYY-MM-DD');
+  }
+
+  return undefined;
+}
+
+export function calcularDiasCumpridosAte(
+  episodios: EpisodioCustodia[],
+  ate: string,
+  incluirDiaSoltura: boolean = false
+): number {
+  const dataLimite = paraData(ate);
+  let totalDias = 0;
+  let custodiaAtiva = 0;
+  let dataAnterior = dataLimite;
+
+  // Episódios sobrepostos contam uma única vez
+  for (const ponto of montarPontos(episodios, [], incluirDiaSoltura)) {
+    const dataPonto = paraData(ponto.data);
+    const limite = dataPonto.isAfter(dataLimite) ? dataLimite : dataPonto;
+
+    if (custodiaAtiva > 0 && limite.isAfter(dataAnterior)) {
+      totalDias += limite.diff(dataAnterior, 'day');
     }
-    
+    if (dataPonto.isAfter(dataLimite)) return totalDias;
+
+    custodiaAtiva += ponto.valor;
     dataAnterior = dataPonto;
   }
-  
+
+  if (custodiaAtiva > 0 && dataLimite.isAfter(dataAnterior)) {
+    totalDias += dataLimite.diff(dataAnterior, 'day');
+  }
+
+  return totalDias;
+}
+
+export function calcularRemissoesAte(remissoes: Remissao[], ate: string): number {
+  const dataLimite = paraData(ate);
+
+  return remissoes
+    .filter(remissao => paraData(remissao.dataCredito).isSameOrBefore(dataLimite))
+    .reduce((total, remissao) => total + remissao.dias, 0);
+}
+
+export function calcularDatasChave(
+  dados: DadosSentenca,
+  episodios: EpisodioCustodia[],
+  remissoes: Remissao[],
+  hojeISO: string,
+  incluirDiaSoltura: boolean = false,
+  eventos: EventoProcessual[] = []
+): ResultadoCalculoV2 {
+  const pontos = montarPontos(episodios, remissoes, incluirDiaSoltura);
+  const pena = obterPenaPeriodo(dados);
+  const metodoContagem = pena ? 'calendario' : 'aproximado';
+
+  // O calendário é percorrido a partir do início do cumprimento (ou da primeira prisão computável)
+  const primeiraPrisao = pontos.find(ponto => ponto.tipo === 'inicio_episodio');
+  const inicioReferencia = dados.dataInicioTeorica ?? primeiraPrisao?.data ?? hojeISO;
+
+  // Com crimes informados, cada um é satisfeito com a fração do seu inciso do art. 112 LEP
+  const crimesComPena = dados.crimes.filter(crime => crime.penaAnos || crime.penaMeses || crime.penaDias);
+  const requisitosAproximados = crimesComPena.length > 0 ? calcularRequisitosCrimes(crimesComPena) : undefined;
+  const requisitosCalendario = requisitosAproximados && pena ? calcularRequisitosCrimes(crimesComPena, inicioReferencia) : undefined;
+  const livramentoVedado = requisitosAproximados?.every(requisito => requisito.classificacao.fracaoLivramento === undefined);
+
+  const totalRequisitos = (requisitos: RequisitoCrime[], marco: 'progressao' | 'livramento') =>
+    requisitos[requisitos.length - 1][marco === 'progressao' ? 'acumuladoProgressao' : 'acumuladoLivramento'];
+
+  const diasAproximados = (marco: string, fracao: number) =>
+    requisitosAproximados && marco !== 'termino'
+      ? totalRequisitos(requisitosAproximados, marco as 'progressao' | 'livramento')
+      : Math.floor(fracao * dados.totalDias);
+  const diasCalendario = (marco: string, fracao: number) =>
+    requisitosCalendario && marco !== 'termino'
+      ? totalRequisitos(requisitosCalendario, marco as 'progressao' | 'livramento')
+      : contarDiasPeriodo(inicioReferencia, fracionarPena(pena!, fracao));
+
+  const marcos = (['progressao', 'livramento', 'termino'] as const)
+    .map(marco => ({
+      marco,
+      fracao: marco === 'progressao' ? dados.fracaoProgressao : marco === 'livramento' ? dados.fracaoLivramento : 1
+    }))
+    .filter(({ marco, fracao }) => {
+      if (marco === 'termino') return true;
+      if (requisitosAproximados) return marco === 'progressao' || !livramentoVedado;
+      return !!fracao;
+    })
+    .map(({ marco, fracao }) => {
+      const aproximado = { dias: diasAproximados(marco, fracao), data: undefined as string | undefined };
+      aproximado.data = localizarDataAlvo(pontos, aproximado.dias, false);
+      if (!pena) return { marco, principal: aproximado, aproximado };
+
+      const calendario = { dias: diasCalendario(marco, fracao), data: undefined as string | undefined };
+      calendario.data = localizarDataAlvo(pontos, calendario.dias, true);
+      return { marco, principal: calendario, aproximado, calendario };
+    });
+
+  const progressao = marcos.find(m => m.marco === 'progressao');
+  const livramento = marcos.find(m => m.marco === 'livramento');
+  const termino = marcos.find(m => m.marco === 'termino')!;
+
   // Calcular situação atual (até hoje)
   const diasCumpridosHoje = calcularDiasCumpridosAte(episodios, hojeISO, incluirDiaSoltura);
   const remicoesAcumuladasHoje = calcularRemissoesAte(remissoes, hojeISO);
   const totalCumpridoHoje = diasCumpridosHoje + remicoesAcumuladasHoje;
-  
-  // Se ainda não atingiu o término, projetar para o futuro
-  if (totalCumpridoHoje < diasNecessariosTermino && custodiaAtiva > 0) {
-    const diasRestantes = diasNecessariosTermino - totalCumpridoHoje;
-    dataTermino = somarDiasISO(hojeISO, diasRestantes);
+
+  const comparacaoContagem: ComparacaoContagem[] | undefined = pena
+    ? marcos.map(({ marco, aproximado, calendario }) => ({
+        marco,
+        aproximada: aproximado.data,
+        calendario: calendario?.data,
+        diferencaDias: aproximado.data && calendario?.data
+          ? paraData(calendario.data).diff(paraData(aproximado.data), 'day')
+          : undefined
+      }))
+    : undefined;
+
+  const requisitosPorCrime = (requisitosCalendario ?? requisitosAproximados)?.map(requisito => ({
+    ...requisito,
+    dataProgressao: localizarDataAlvo(pontos, requisito.acumuladoProgressao, !!requisitosCalendario)
+  }));
+
+  const estadoInicial: EstadoExecucao = {
+    regime: dados.regimeInicial,
+    totalDias: termino.principal.dias,
+    parcelas: requisitosPorCrime
+      ? requisitosPorCrime.map(requisito => ({ diasPena: requisito.diasPena, fracao: requisito.classificacao.fracaoProgressao }))
+      : [{ diasPena: termino.principal.dias, fracao: dados.fracaoProgressao }],
+    cumpridoNaDataBase: 0,
+    requisitoProgressao: progressao?.principal.dias,
+    requisitoLivramento: livramento?.principal.dias
+  };
+
+  // Acima de 40 anos a soltura ocorre no limite; progressão e livramento seguem sobre a pena total (Súmula 715 STF)
+  const diasLimite = (dataISO: string) => pena
+    ? contarDiasPeriodo(dataISO, LIMITE_CUMPRIMENTO)
+    : converterParaDias(LIMITE_CUMPRIMENTO);
+  if (estadoInicial.totalDias > diasLimite(inicioReferencia)) {
+    estadoInicial.limiteDias = diasLimite(inicioReferencia);
   }
-  
+
+  // Em liberdade sem ter cumprido a pena: projeta o término como se a custódia recomeçasse hoje
+  const localizar = (dias: number, fimDias: number) =>
+    localizarDataAlvo(pontos, dias, !!pena) ??
+    (dias >= fimDias ? somarDiasISO(hojeISO, Math.max(0, dias - totalCumpridoHoje)) : undefined);
+
+  // Marcos alcançados só depois da soltura pelo limite não se realizam
+  const datasDoEstado = (estado: EstadoExecucao): DatasMarco => {
+    const fim = obterFimCumprimento(estado);
+    const progressaoDias = estado.requisitoProgressao === undefined
+      ? undefined
+      : estado.cumpridoNaDataBase + estado.requisitoProgressao;
+    return {
+      progressao: progressaoDias === undefined || progressaoDias >= fim ? undefined : localizar(progressaoDias, fim),
+      livramento: estado.requisitoLivramento === undefined || estado.requisitoLivramento >= fim
+        ? undefined
+        : localizar(estado.requisitoLivramento, fim),
+      termino: localizar(fim, fim)
+    };
+  };
+
+  // Eventos aplicados em ordem cronológica, registrando o deslocamento de cada marco
+  const impactoEventos: ImpactoEvento[] = [];
+  const estadoFinal = [...eventos]
+    .sort((a, b) => paraData(a.data).diff(paraData(b.data)))
+    .reduce((estado, evento) => {
+      const diasPenaAcrescida = evento.penaAcrescida
+        ? (pena ? contarDiasPeriodo(evento.data, evento.penaAcrescida) : converterParaDias(evento.penaAcrescida))
+        : 0;
+      const cumpridoNaData = calcularDiasCumpridosAte(episodios, evento.data, incluirDiaSoltura)
+        + calcularRemissoesAte(remissoes, evento.data);
+      const aplicado = aplicarEvento(estado, evento, cumpridoNaData, diasPenaAcrescida, diasLimite(evento.data), {
+        progressao: dados.fracaoProgressao,
+        livramento: livramentoVedado ? undefined : dados.fracaoLivramento
+      });
+      if (!aplicado) return estado;
+
+      impactoEventos.push({
+        eventoId: evento.id,
+        tipo: evento.tipo,
+        data: evento.data,
+        efeito: aplicado.efeito,
+        antes: datasDoEstado(estado),
+        depois: datasDoEstado(aplicado.estado)
+      });
+      return aplicado.estado;
+    }, estadoInicial);
+
+  const datas = datasDoEstado(estadoFinal);
+  const fimCumprimento = obterFimCumprimento(estadoFinal);
+  const planoEtapas = montarPlanoEtapas(estadoFinal, dias => localizar(dias, fimCumprimento));
+
   return {
-    dataProgressao,
-    dataLivramento,
-    dataTermino,
+    dataProgressao: datas.progressao,
+    dataLivramento: datas.livramento,
+    dataTermino: datas.termino!,
     diasCumpridosHoje,
-    diasFaltantesParaProgressao: dataProgressao ? undefined : Math.max(0, diasNecessariosProgressao - totalCumpridoHoje),
-    diasFaltantesParaTermino: Math.max(0, diasNecessariosTermino - totalCumpridoHoje),
-    remicoesAcumuladasHoje
+    diasFaltantesParaProgressao: estadoFinal.requisitoProgressao === undefined
+      || estadoFinal.cumpridoNaDataBase + estadoFinal.requisitoProgressao >= fimCumprimento
+      ? undefined
+      : Math.max(0, estadoFinal.cumpridoNaDataBase + estadoFinal.requisitoProgressao - totalCumpridoHoje),
+    diasFaltantesParaTermino: Math.max(0, fimCumprimento - totalCumpridoHoje),
+    remicoesAcumuladasHoje,
+    metodoContagem,
+    comparacaoContagem,
+    requisitosPorCrime,
+    livramentoVedado,
+    planoEtapas,
+    dataBaseProgressao: estadoFinal.dataBase,
+    impactoEventos,
+    limiteCumprimento: estadoFinal.limiteDias === undefined
+      ? undefined
+      : {
+          diasPenaTotal: estadoFinal.totalDias,
+          diasLimite: estadoFinal.limiteDias,
+          fundamento: 'Art. 75 CP: cumprimento limitado a 40 anos; benefícios calculados sobre a pena total (Súmula 715 STF)'
+        },
+    detracaoPorProcesso: dados.processos?.length
+      ? calcularDetracaoPorProcesso(dados.processos, episodios, hojeISO, incluirDiaSoltura)
+      : undefined
   };
 }
 
+/**
+ * Custódia atribuída a cada processo. Episódios simultâneos em processos distintos contam
+ * uma vez na pena unificada, mas aparecem em cada processo. A custódia anterior ao trânsito
+ * em julgado é a detraída da pena do processo (art. 42 CP).
+ */
+export function calcularDetracaoPorProcesso(
+  processos: ProcessoExecucao[],
+  episodios: EpisodioCustodia[],
+  hojeISO: string,
+  incluirDiaSoltura: boolean = false
+): DetracaoProcesso[] {
+  const detracoes: DetracaoProcesso[] = processos.map(processo => {
+    const doProcesso = episodios.filter(episodio => episodio.processoId === processo.id);
+    const ateTransito = processo.dataTransito && paraData(processo.dataTransito).isBefore(paraData(hojeISO))
+      ? processo.dataTransito
+      : hojeISO;
+    return {
+      processoId: processo.id,
+      numeroProcesso: processo.numeroProcesso,
+      diasCustodia: calcularDiasCumpridosAte(doProcesso, hojeISO, incluirDiaSoltura),
+      diasAntesTransito: processo.dataTransito
+        ? calcularDiasCumpridosAte(doProcesso, ateTransito, incluirDiaSoltura)
+        : undefined
+    };
+  });
+
+  const semProcesso = episodios.filter(episodio => !processos.some(processo => processo.id === episodio.processoId));
+  if (semProcesso.length > 0) {
+    detracoes.push({ diasCustodia: calcularDiasCumpridosAte(semProcesso, hojeISO, incluirDiaSoltura) });
+  }
+
+  return detracoes;
+}
+
 export function obterStatusAtual(
   episodios: EpisodioCustodia[],
   hojeISO: string
 ): 'Em liberdade' | 'Em custódia' {
-  const hoje = dayjs(hojeISO).tz(TIMEZONE);
-  
+  const hoje = paraData(hojeISO);
+
   const emCustodia = episodios.some(episodio => {
-    const inicio = dayjs(episodio.inicio).tz(TIMEZONE);
-    const fim = episodio.fim ? dayjs(episodio.fim).tz(TIMEZONE) : null;
-    
+    const inicio = paraData(episodio.inicio);
+    const fim = episodio.fim ? paraData(episodio.fim) : null;
+
     return inicio.isSameOrBefore(hoje) && (!fim || fim.isAfter(hoje));
   });
-  
+
   return emCustodia ? 'Em custódia' : 'Em liberdade';
-}
\ No newline at end of file
+}
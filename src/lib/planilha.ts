@@ -0,0 +1,223 @@
+export type CelulaPlanilha = string | number | null;
+
+export interface AbaPlanilha {
+  nome: string;
+  linhas: CelulaPlanilha[][];
+}
+
+const TIPO_XLSX = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// CSV no padrão do Excel em português: ponto e vírgula e vírgula decimal
+function celulaCSV(celula: CelulaPlanilha): string {
+  if (celula === null) return '';
+  if (typeof celula === 'number') return String(celula).replace('.', ',');
+  return /[;"\n\r]/.test(celula) ? `"${celula.replace(/"/g, '""')}"` : celula;
+}
+
+/**
+ * Gera um CSV com as abas uma abaixo da outra, separadas por uma linha em branco e
+ * precedidas do nome da aba. O BOM faz o Excel reconhecer o arquivo como UTF-8.
+ */
+export function gerarCSV(abas: AbaPlanilha[]): Blob {
+  const texto = abas
+    .map(aba => [[aba.nome], ...aba.linhas].map(linha => linha.map(celulaCSV).join(';')).join('\r\n'))
+    .join('\r\n\r\n');
+  return new Blob(['\uFEFF' + texto], { type: 'text/csv;charset=utf-8' });
+}
+
+function escaparXML(texto: string): string {
+  // Caracteres de controle (exceto tabulação e quebras de linha) não são aceitos em XML 1.0
+  const semControle = Array.from(texto)
+    .filter(caractere => caractere >= ' ' || caractere === '\t' || caractere === '\n' || caractere === '\r')
+    .join('');
+
+  return semControle
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function colunaExcel(indice: number): string {
+  let coluna = '';
+  for (let n = indice + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    coluna = String.fromCharCode(65 + ((n - 1) % 26)) + coluna;
+  }
+  return coluna;
+}
+
+function xmlAba(aba: AbaPlanilha): string {
+  const linhas = aba.linhas.map((linha, i) => {
+    const celulas = linha.map((celula, j) => {
+      const referencia = `${colunaExcel(j)}${i + 1}`;
+      if (celula === null) return '';
+      if (typeof celula === 'number') {
+        return Number.isFinite(celula) ? `<c r="${referencia}"><v>${celula}</v></c>` : '';
+      }
+      return `<c r="${referencia}" t="inlineStr"><is><t xml:space="preserve">${escaparXML(celula)}</t></is></c>`;
+    }).join('');
+    return `<row r="${i + 1}">${celulas}</row>`;
+  }).join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${linhas}</sheetData></worksheet>`;
+}
+
+// O Excel limita o nome da aba a 31 caracteres, sem []:*?/\ e sem repetição
+function nomesDasAbas(abas: AbaPlanilha[]): string[] {
+  const usados = new Set<string>();
+  return abas.map((aba, i) => {
+    const base = aba.nome.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || `Planilha${i + 1}`;
+    let nome = base;
+    for (let n = 2; usados.has(nome.toLowerCase()); n++) {
+      nome = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+    }
+    usados.add(nome.toLowerCase());
+    return nome;
+  });
+}
+
+const TABELA_CRC32 = (() => {
+  const tabela = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    tabela[n] = c >>> 0;
+  }
+  return tabela;
+})();
+
+function crc32(dados: Uint8Array): number {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < dados.length; i++) crc = TABELA_CRC32[(crc ^ dados[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+// Arquivo ZIP sem compressão (método 0), suficiente para o pacote OOXML da planilha
+function gerarZip(arquivos: { nome: string; conteudo: string }[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const locais: Uint8Array[] = [];
+  const centrais: Uint8Array[] = [];
+  let deslocamento = 0;
+
+  arquivos.forEach(arquivo => {
+    const nome = encoder.encode(arquivo.nome);
+    const dados = encoder.encode(arquivo.conteudo);
+    const crc = crc32(dados);
+
+    const local = new Uint8Array(30 + nome.length + dados.length);
+    const vLocal = new DataView(local.buffer);
+    vLocal.setUint32(0, 0x04034B50, true);
+    vLocal.setUint16(4, 20, true);
+    vLocal.setUint16(6, 0x0800, true); // nomes em UTF-8
+    vLocal.setUint32(14, crc, true);
+    vLocal.setUint32(18, dados.length, true);
+    vLocal.setUint32(22, dados.length, true);
+    vLocal.setUint16(26, nome.length, true);
+    local.set(nome, 30);
+    local.set(dados, 30 + nome.length);
+
+    const central = new Uint8Array(46 + nome.length);
+    const vCentral = new DataView(central.buffer);
+    vCentral.setUint32(0, 0x02014B50, true);
+    vCentral.setUint16(4, 20, true);
+    vCentral.setUint16(6, 20, true);
+    vCentral.setUint16(8, 0x0800, true);
+    vCentral.setUint32(16, crc, true);
+    vCentral.setUint32(20, dados.length, true);
+    vCentral.setUint32(24, dados.length, true);
+    vCentral.setUint16(28, nome.length, true);
+    vCentral.setUint32(42, deslocamento, true);
+    central.set(nome, 46);
+
+    locais.push(local);
+    centrais.push(central);
+    deslocamento += local.length;
+  });
+
+  const tamanhoCentral = centrais.reduce((total, c) => total + c.length, 0);
+  const fim = new Uint8Array(22);
+  const vFim = new DataView(fim.buffer);
+  vFim.setUint32(0, 0x06054B50, true);
+  vFim.setUint16(8, arquivos.length, true);
+  vFim.setUint16(10, arquivos.length, true);
+  vFim.setUint32(12, tamanhoCentral, true);
+  vFim.setUint32(16, deslocamento, true);
+
+  const zip = new Uint8Array(deslocamento + tamanhoCentral + fim.length);
+  let posicao = 0;
+  [...locais, ...centrais, fim].forEach(parte => {
+    zip.set(parte, posicao);
+    posicao += parte.length;
+  });
+  return zip;
+}
+
+/**
+ * Gera uma planilha XLSX com uma aba por tabela. Números ficam como números, para que
+ * somas e gráficos funcionem no Excel; textos vão como strings inline.
+ */
+export function gerarXLSX(abas: AbaPlanilha[]): Blob {
+  const nomes = nomesDasAbas(abas);
+
+  const arquivos = [
+    {
+      nome: '[Content_Types].xml',
+      conteudo: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        abas.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+        '</Types>'
+    },
+    {
+      nome: '_rels/.rels',
+      conteudo: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+    },
+    {
+      nome: 'xl/workbook.xml',
+      conteudo: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+        nomes.map((nome, i) => `<sheet name="${escaparXML(nome)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+        '</sheets></workbook>'
+    },
+    {
+      nome: 'xl/_rels/workbook.xml.rels',
+      conteudo: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        abas.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('') +
+        `<Relationship Id="rId${abas.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        '</Relationships>'
+    },
+    {
+      nome: 'xl/styles.xml',
+      conteudo: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/></cellXfs>' +
+        '</styleSheet>'
+    },
+    ...abas.map((aba, i) => ({ nome: `xl/worksheets/sheet${i + 1}.xml`, conteudo: xmlAba(aba) }))
+  ];
+
+  return new Blob([gerarZip(arquivos)], { type: TIPO_XLSX });
+}
+
+export function baixarArquivo(blob: Blob, nomeArquivo: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = nomeArquivo;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
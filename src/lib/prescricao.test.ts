@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { calcularPrescricao } from '@/lib/prescricao';
+import type { DadosPrescricao, EventoPrescricao } from '@/types/prescricao';
+
+const dados = (prazoId: string, dataEvento: string, extras: Partial<DadosPrescricao> = {}): DadosPrescricao => ({
+  prazoId,
+  dataEvento,
+  eventos: [],
+  aplicarRjet: false,
+  dataReferencia: '2025-01-01',
+  ...extras
+});
+
+const evento = (tipo: EventoPrescricao['tipo'], data: string): EventoPrescricao => ({ id: `${tipo}-${data}`, tipo, data });
+
+describe('calcularPrescricao - vencimento pelo art. 132 do CC', () => {
+  it.each([
+    ['prazo em anos vence no dia de igual número', dados('cc-206-3-v', '2021-03-15'), '2024-03-15'],
+    ['sem dia correspondente, vence no imediato (§ 3º)', dados('cc-206-1-ii', '2020-02-29'), '2021-03-01'],
+    ['vencimento no sábado prorroga para segunda (§ 1º)', dados('cc-206-3-v', '2021-03-16'), '2024-03-18'],
+    ['prazo em dias exclui o dia do começo', dados('cdc-26-i', '2023-01-02'), '2023-02-01'],
+    ['art. 173, I, do CTN conta do primeiro dia do exercício seguinte', dados('ctn-173-i', '2018-05-10'), '2024-01-01']
+  ])('%s', (_caso, entrada, dataFinal) => {
+    expect(calcularPrescricao(entrada).dataFinal).toBe(dataFinal);
+  });
+
+  it.each([
+    ['no último dia', '2024-03-15', false, 0],
+    ['no dia seguinte ao último', '2024-03-16', true, -1]
+  ])('verifica a consumação %s', (_caso, dataReferencia, consumada, diasRestantes) => {
+    expect(calcularPrescricao(dados('cc-206-3-v', '2021-03-15', { dataReferencia }))).toMatchObject({ consumada, diasRestantes });
+  });
+});
+
+describe('calcularPrescricao - suspensão do RJET (Lei 14.010/2020)', () => {
+  it.each([
+    ['prazo em curso acrescido de todo o período suspenso', dados('cc-206-3-v', '2019-01-10', { aplicarRjet: true }), '2022-05-31', 141],
+    ['termo inicial durante a suspensão acrescido dos dias restantes', dados('cc-206-3-v', '2020-08-01', { aplicarRjet: true }), '2023-10-30', 90],
+    ['prazo iniciado após a suspensão não é alterado', dados('cc-206-3-v', '2020-11-03', { aplicarRjet: true }), '2023-11-03', 0],
+    ['prazo tributário não é suspenso', dados('ctn-174', '2019-01-10', { aplicarRjet: true }), '2024-01-10', 0]
+  ])('%s', (_caso, entrada, dataFinal, diasSuspensos) => {
+    expect(calcularPrescricao(entrada)).toMatchObject({ dataFinal, diasSuspensos });
+  });
+});
+
+describe('calcularPrescricao - interrupção', () => {
+  it.each([
+    ['citação reinicia o prazo por inteiro', [evento('citacao', '2020-01-20')], '2023-01-20', '2020-01-20'],
+    ['só a primeira interrupção vale (art. 202 do CC)', [evento('protesto', '2021-06-01'), evento('citacao', '2020-01-20')], '2023-01-20', '2020-01-20'],
+    ['evento posterior à consumação não interrompe', [evento('citacao', '2022-02-01')], '2022-01-10', null]
+  ])('%s', (_caso, eventos, dataFinal, interrompidaEm) => {
+    expect(calcularPrescricao(dados('cc-206-3-v', '2019-01-10', { eventos }))).toMatchObject({ dataFinal, interrompidaEm });
+  });
+
+  it('desconsidera eventos no prazo decadencial', () => {
+    const resultado = calcularPrescricao(dados('cdc-26-ii', '2023-01-02', { eventos: [evento('citacao', '2023-02-01')] }));
+
+    expect(resultado).toMatchObject({ dataFinal: '2023-04-03', interrompidaEm: null });
+  });
+});
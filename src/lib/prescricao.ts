@@ -0,0 +1,376 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import {
+  AreaPrescricao,
+  DadosPrescricao,
+  EventoPrescricao,
+  PrazoLegal,
+  ResultadoPrescricao
+} from '@/types/prescricao';
+
+dayjs.extend(utc);
+
+// Lei 14.010/2020, art. 3º: prazos impedidos ou suspensos da vigência da lei até 30/10/2020
+const RJET_INICIO = '2020-06-12';
+const RJET_FIM = '2020-10-30';
+
+export const AREAS_PRESCRICAO: Record<AreaPrescricao, string> = {
+  civil: 'Cível',
+  consumidor: 'Consumidor',
+  trabalhista: 'Trabalhista',
+  tributario: 'Tributário'
+};
+
+// Um prazo por pretensão; novos prazos entram na área correspondente
+export const PRAZOS_LEGAIS: PrazoLegal[] = [
+  {
+    id: 'cc-205',
+    area: 'civil',
+    rotulo: 'Prazo geral (sem prazo específico em lei)',
+    natureza: 'prescricao',
+    anos: 10, meses: 0, dias: 0,
+    fundamento: 'art. 205 do CC',
+    termoInicial: 'violação do direito (art. 189 do CC)'
+  },
+  {
+    id: 'cc-206-1-ii',
+    area: 'civil',
+    rotulo: 'Segurado contra o segurador',
+    natureza: 'prescricao',
+    anos: 1, meses: 0, dias: 0,
+    fundamento: 'art. 206, § 1º, II, do CC',
+    termoInicial: 'ciência do fato gerador da pretensão'
+  },
+  {
+    id: 'cc-206-2',
+    area: 'civil',
+    rotulo: 'Prestações alimentares vencidas',
+    natureza: 'prescricao',
+    anos: 2, meses: 0, dias: 0,
+    fundamento: 'art. 206, § 2º, do CC',
+    termoInicial: 'vencimento de cada prestação',
+    observacao: 'Não corre entre ascendentes e descendentes durante o poder familiar (art. 197, II, do CC).'
+  },
+  {
+    id: 'cc-206-3-i',
+    area: 'civil',
+    rotulo: 'Aluguéis de prédios urbanos ou rústicos',
+    natureza: 'prescricao',
+    anos: 3, meses: 0, dias: 0,
+    fundamento: 'art. 206, § 3º, I, do CC',
+    termoInicial: 'vencimento de cada aluguel'
+  },
+  {
+    id: 'cc-206-3-iv',
+    area: 'civil',
+    rotulo: 'Ressarcimento de enriquecimento sem causa',
+    natureza: 'prescricao',
+    anos: 3, meses: 0, dias: 0,
+    fundamento: 'art. 206, § 3º, IV, do CC',
+    termoInicial: 'enriquecimento indevido'
+  },
+  {
+    id: 'cc-206-3-v',
+    area: 'civil',
+    rotulo: 'Reparação civil (extracontratual)',
+    natureza: 'prescricao',
+    anos: 3, meses: 0, dias: 0,
+    fundamento: 'art. 206, § 3º, V, do CC',
+    termoInicial: 'ato ilícito ou ciência do dano',
+    observacao: 'A responsabilidade contratual segue o prazo geral de 10 anos (EREsp 1.280.825/RJ).'
+  },
+  {
+    id: 'cc-206-3-viii',
+    area: 'civil',
+    rotulo: 'Pagamento de título de crédito',
+    natureza: 'prescricao',
+    anos: 3, meses: 0, dias: 0,
+    fundamento: 'art. 206, § 3º, VIII, do CC',
+    termoInicial: 'vencimento do título'
+  },
+  {
+    id: 'cc-206-5-i',
+    area: 'civil',
+    rotulo: 'Dívida líquida em instrumento público ou particular',
+    natureza: 'prescricao',
+    anos: 5, meses: 0, dias: 0,
+    fundamento: 'art. 206, § 5º, I, do CC',
+    termoInicial: 'vencimento da dívida'
+  },
+  {
+    id: 'cc-206-5-ii',
+    area: 'civil',
+    rotulo: 'Honorários de profissionais liberais',
+    natureza: 'prescricao',
+    anos: 5, meses: 0, dias: 0,
+    fundamento: 'art. 206, § 5º, II, do CC',
+    termoInicial: 'conclusão dos serviços, cessação do contrato ou revogação do mandato'
+  },
+  {
+    id: 'cdc-26-i',
+    area: 'consumidor',
+    rotulo: 'Vício aparente em produto ou serviço não durável',
+    natureza: 'decadencia',
+    anos: 0, meses: 0, dias: 30,
+    fundamento: 'art. 26, I, do CDC',
+    termoInicial: 'entrega do produto ou término do serviço (art. 26, § 1º); no vício oculto, quando evidenciado (§ 3º)'
+  },
+  {
+    id: 'cdc-26-ii',
+    area: 'consumidor',
+    rotulo: 'Vício aparente em produto ou serviço durável',
+    natureza: 'decadencia',
+    anos: 0, meses: 0, dias: 90,
+    fundamento: 'art. 26, II, do CDC',
+    termoInicial: 'entrega do produto ou término do serviço (art. 26, § 1º); no vício oculto, quando evidenciado (§ 3º)',
+    observacao: 'A reclamação ao fornecedor e a instauração de inquérito civil obstam a decadência (art. 26, § 2º).'
+  },
+  {
+    id: 'cdc-27',
+    area: 'consumidor',
+    rotulo: 'Reparação por fato do produto ou do serviço',
+    natureza: 'prescricao',
+    anos: 5, meses: 0, dias: 0,
+    fundamento: 'art. 27 do CDC',
+    termoInicial: 'conhecimento do dano e de sua autoria'
+  },
+  {
+    id: 'clt-bienal',
+    area: 'trabalhista',
+    rotulo: 'Ajuizamento após a extinção do contrato (bienal)',
+    natureza: 'prescricao',
+    anos: 2, meses: 0, dias: 0,
+    fundamento: 'art. 7º, XXIX, da CF e art. 11 da CLT',
+    termoInicial: 'extinção do contrato, com a projeção do aviso prévio (OJ 83 da SDI-1 do TST)',
+    observacao: 'Ajuizada a ação, só são exigíveis os créditos dos cinco anos anteriores ao ajuizamento (Súmula 308, I, do TST).'
+  },
+  {
+    id: 'clt-quinquenal',
+    area: 'trabalhista',
+    rotulo: 'Créditos exigíveis no curso do contrato (quinquenal)',
+    natureza: 'prescricao',
+    anos: 5, meses: 0, dias: 0,
+    fundamento: 'art. 7º, XXIX, da CF e art. 11 da CLT',
+    termoInicial: 'exigibilidade de cada parcela (actio nata)',
+    observacao: 'Limitado a dois anos após a extinção do contrato.'
+  },
+  {
+    id: 'ctn-173-i',
+    area: 'tributario',
+    rotulo: 'Constituição do crédito tributário (lançamento)',
+    natureza: 'decadencia',
+    anos: 5, meses: 0, dias: 0,
+    fundamento: 'art. 173, I, do CTN',
+    termoInicial: 'fato gerador; a contagem começa no primeiro dia do exercício seguinte',
+    observacao: 'No lançamento por homologação com pagamento antecipado, o prazo corre do fato gerador (art. 150, § 4º, do CTN).'
+  },
+  {
+    id: 'ctn-174',
+    area: 'tributario',
+    rotulo: 'Cobrança do crédito tributário (execução fiscal)',
+    natureza: 'prescricao',
+    anos: 5, meses: 0, dias: 0,
+    fundamento: 'art. 174 do CTN',
+    termoInicial: 'constituição definitiva do crédito'
+  }
+];
+
+const ROTULOS_INTERRUPCAO: Record<AreaPrescricao, Record<EventoPrescricao['tipo'], string>> = {
+  civil: {
+    citacao: 'despacho que ordenou a citação, retroativo à propositura (art. 202, I, do CC e art. 240, § 1º, do CPC)',
+    protesto: 'protesto judicial ou cambial (art. 202, II e III, do CC)'
+  },
+  consumidor: {
+    citacao: 'despacho que ordenou a citação, retroativo à propositura (art. 202, I, do CC e art. 240, § 1º, do CPC)',
+    protesto: 'protesto judicial ou cambial (art. 202, II e III, do CC)'
+  },
+  trabalhista: {
+    citacao: 'ajuizamento de reclamação trabalhista, ainda que arquivada (art. 11, § 3º, da CLT e Súmula 268 do TST)',
+    protesto: 'protesto judicial (OJ 392 da SDI-1 do TST)'
+  },
+  tributario: {
+    citacao: 'despacho que ordenou a citação em execução fiscal (art. 174, parágrafo único, I, do CTN)',
+    protesto: 'protesto judicial (art. 174, parágrafo único, II, do CTN)'
+  }
+};
+
+function paraData(dataISO: string) {
+  return dayjs.utc(dataISO);
+}
+
+function formatarData(dataISO: string): string {
+  return paraData(dataISO).format('DD/MM/YYYY');
+}
+
+export function formatarDuracaoPrazo(prazo: Pick<PrazoLegal, 'anos' | 'meses' | 'dias'>): string {
+  const partes: string[] = [];
+  if (prazo.anos) partes.push(`${prazo.anos} ${prazo.anos === 1 ? 'ano' : 'anos'}`);
+  if (prazo.meses) partes.push(`${prazo.meses} ${prazo.meses === 1 ? 'mês' : 'meses'}`);
+  if (prazo.dias) partes.push(`${prazo.dias} ${prazo.dias === 1 ? 'dia' : 'dias'}`);
+  return partes.join(' e ');
+}
+
+/**
+ * Vencimento pelo art. 132 do CC: exclui-se o dia do começo e inclui-se o do vencimento.
+ * Prazos em meses e anos vencem no dia de igual número, ou no imediato se faltar
+ * exata correspondência (§ 3º).
+ */
+function vencimentoPrazo(inicioISO: string, prazo: PrazoLegal): string {
+  const inicio = paraData(inicioISO);
+  const totalMeses = inicio.month() + prazo.anos * 12 + prazo.meses;
+  const ano = inicio.year() + Math.floor(totalMeses / 12);
+  const mes = totalMeses % 12;
+  const correspondente = inicio.date() > dayjs.utc(Date.UTC(ano, mes, 1)).daysInMonth()
+    ? dayjs.utc(Date.UTC(ano, mes + 1, 1))
+    : dayjs.utc(Date.UTC(ano, mes, inicio.date()));
+  return correspondente.add(prazo.dias, 'day').format('YYYY-MM-DD');
+}
+
+// Dias do período suspenso do RJET que caem dentro da contagem (após o dia do começo, até o vencimento)
+function diasSuspensosRjet(inicioISO: string, fimISO: string): number {
+  const de = paraData(inicioISO).add(1, 'day').format('YYYY-MM-DD');
+  const primeiro = de > RJET_INICIO ? de : RJET_INICIO;
+  const ultimo = fimISO < RJET_FIM ? fimISO : RJET_FIM;
+  return primeiro <= ultimo ? paraData(ultimo).diff(paraData(primeiro), 'day') + 1 : 0;
+}
+
+// Vencimento com o acréscimo da suspensão; repete enquanto o acréscimo ainda cair no período suspenso
+function vencimentoComSuspensao(inicioISO: string, prazo: PrazoLegal, aplicarRjet: boolean) {
+  const vencimento = vencimentoPrazo(inicioISO, prazo);
+  if (!aplicarRjet) return { dataFinal: vencimento, diasSuspensos: 0 };
+
+  let diasSuspensos = diasSuspensosRjet(inicioISO, vencimento);
+  let dataFinal = paraData(vencimento).add(diasSuspensos, 'day').format('YYYY-MM-DD');
+  let recalculado = diasSuspensosRjet(inicioISO, dataFinal);
+  while (recalculado !== diasSuspensos) {
+    diasSuspensos = recalculado;
+    dataFinal = paraData(vencimento).add(diasSuspensos, 'day').format('YYYY-MM-DD');
+    recalculado = diasSuspensosRjet(inicioISO, dataFinal);
+  }
+  return { dataFinal, diasSuspensos };
+}
+
+// Art. 132, § 1º, do CC: vencimento em dia não útil prorroga para o dia útil seguinte (feriados não considerados)
+function prorrogarParaDiaUtil(dataISO: string): string {
+  let data = paraData(dataISO);
+  while (data.day() === 0 || data.day() === 6) {
+    data = data.add(1, 'day');
+  }
+  return data.format('YYYY-MM-DD');
+}
+
+export function calcularPrescricao(dados: DadosPrescricao): ResultadoPrescricao {
+  const prazo = PRAZOS_LEGAIS.find(item => item.id === dados.prazoId);
+  if (!prazo) {
+    throw new Error(`Prazo não cadastrado: ${dados.prazoId}`);
+  }
+
+  const fundamentacao: string[] = [];
+  const alertas: string[] = [];
+  const nomeNatureza = prazo.natureza === 'prescricao' ? 'Prescrição' : 'Decadência';
+
+  fundamentacao.push(`${nomeNatureza} em ${formatarDuracaoPrazo(prazo)} - ${prazo.rotulo} (${prazo.fundamento}).`);
+  fundamentacao.push(`Termo inicial: ${prazo.termoInicial}, em ${formatarData(dados.dataEvento)}.`);
+
+  // Art. 173, I, do CTN: a contagem começa em 1º de janeiro do exercício seguinte ao do fato gerador
+  let inicioContagem = prazo.id === 'ctn-173-i'
+    ? `${paraData(dados.dataEvento).year()}-12-31`
+    : dados.dataEvento;
+  if (inicioContagem !== dados.dataEvento) {
+    fundamentacao.push(`Contagem a partir de 01/01/${paraData(dados.dataEvento).year() + 1}, primeiro dia do exercício seguinte.`);
+  }
+  fundamentacao.push('Contagem do art. 132 do CC: exclui-se o dia do começo e inclui-se o do vencimento; prazos em anos e meses vencem no dia de igual número.');
+
+  // A suspensão do RJET alcança prazos prescricionais e decadenciais de direito privado (art. 3º, § 2º)
+  const aplicarRjet = dados.aplicarRjet && prazo.area !== 'tributario';
+  if (dados.aplicarRjet && prazo.area === 'tributario') {
+    alertas.push('A suspensão do RJET (Lei 14.010/2020) alcança apenas relações de direito privado e não foi aplicada ao prazo tributário.');
+  }
+  if (aplicarRjet && prazo.area === 'trabalhista') {
+    alertas.push('A aplicação do RJET aos prazos trabalhistas é controvertida; confira o entendimento do TRT.');
+  }
+
+  let { dataFinal, diasSuspensos } = vencimentoComSuspensao(inicioContagem, prazo, aplicarRjet);
+  let interrupcao: EventoPrescricao | null = null;
+
+  const eventos = [...dados.eventos]
+    .filter(evento => evento.data)
+    .sort((a, b) => a.data.localeCompare(b.data));
+
+  if (prazo.natureza === 'decadencia' && eventos.length > 0) {
+    alertas.push(prazo.area === 'tributario'
+      ? 'A decadência tributária não se suspende nem se interrompe; os eventos informados foram desconsiderados.'
+      : 'Salvo disposição legal, a decadência não se suspende nem se interrompe (art. 207 do CC); os eventos informados foram desconsiderados.');
+  } else {
+    for (const evento of eventos) {
+      if (evento.data < dados.dataEvento) {
+        alertas.push(`Evento de ${formatarData(evento.data)} é anterior ao termo inicial e foi desconsiderado.`);
+        continue;
+      }
+      if (evento.data > dataFinal) {
+        alertas.push(`Evento de ${formatarData(evento.data)} ocorreu depois de consumada a ${nomeNatureza.toLowerCase()} e não a interrompe.`);
+        continue;
+      }
+      // Art. 202 do CC: a interrupção somente poderá ocorrer uma vez
+      if (interrupcao && prazo.area !== 'tributario') {
+        alertas.push(`Evento de ${formatarData(evento.data)} desconsiderado: a prescrição só se interrompe uma vez (art. 202, caput, do CC).`);
+        continue;
+      }
+
+      interrupcao = evento;
+      inicioContagem = evento.data;
+      ({ dataFinal, diasSuspensos } = vencimentoComSuspensao(inicioContagem, prazo, aplicarRjet));
+      fundamentacao.push(`Interrupção em ${formatarData(evento.data)}: ${ROTULOS_INTERRUPCAO[prazo.area][evento.tipo]}. O prazo recomeça por inteiro dessa data (art. 202, parágrafo único, do CC).`);
+    }
+  }
+
+  if (interrupcao?.tipo === 'citacao') {
+    alertas.push('Enquanto o processo estiver em curso a prescrição não volta a correr; o novo prazo conta do último ato do processo.');
+  }
+
+  if (diasSuspensos > 0) {
+    fundamentacao.push(`Suspensão de ${formatarData(RJET_INICIO)} a ${formatarData(RJET_FIM)} (art. 3º da Lei 14.010/2020 - RJET): ${diasSuspensos} dia(s) acrescido(s) ao prazo.`);
+  }
+
+  const vencimentoUtil = prorrogarParaDiaUtil(dataFinal);
+  if (vencimentoUtil !== dataFinal) {
+    fundamentacao.push(`Vencimento em ${formatarData(dataFinal)} (fim de semana), prorrogado para ${formatarData(vencimentoUtil)} (art. 132, § 1º, do CC).`);
+    dataFinal = vencimentoUtil;
+  }
+  alertas.push('Feriados nacionais e locais não são considerados na prorrogação do vencimento.');
+
+  const diasRestantes = paraData(dataFinal).diff(paraData(dados.dataReferencia), 'day');
+  const consumada = diasRestantes < 0;
+  fundamentacao.push(consumada
+    ? `${nomeNatureza} consumada em ${formatarData(paraData(dataFinal).add(1, 'day').format('YYYY-MM-DD'))}; o último dia útil foi ${formatarData(dataFinal)}.`
+    : `Último dia para o exercício: ${formatarData(dataFinal)} (${diasRestantes} dia(s) a partir de ${formatarData(dados.dataReferencia)}).`);
+  if (prazo.observacao) {
+    fundamentacao.push(prazo.observacao);
+  }
+
+  return {
+    prazo,
+    dataEvento: dados.dataEvento,
+    inicioContagem,
+    dataFinal,
+    diasSuspensos,
+    interrompidaEm: interrupcao?.data ?? null,
+    consumada,
+    diasRestantes,
+    fundamentacao,
+    alertas
+  };
+}
+
+export function formatarRelatorioPrescricao(resultado: ResultadoPrescricao): string {
+  const natureza = resultado.prazo.natureza === 'prescricao' ? 'PRESCRIÇÃO' : 'DECADÊNCIA';
+  return [
+    `CÁLCULO DE ${natureza}`,
+    `${AREAS_PRESCRICAO[resultado.prazo.area]} - ${resultado.prazo.rotulo}`,
+    '',
+    ...resultado.fundamentacao.map(linha => `• ${linha}`),
+    ...(resultado.alertas.length > 0 ? ['', 'Observações:', ...resultado.alertas.map(alerta => `⚠ ${alerta}`)] : []),
+    '',
+    `Data final: ${formatarData(resultado.dataFinal)}${resultado.consumada ? ' (consumada)' : ''}`
+  ].join('\n');
+}
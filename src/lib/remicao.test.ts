@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { calcularRemicaoEstudo, calcularRemicaoLeitura, calcularRemicaoTrabalho } from '@/lib/remicao';
+import type { RegistroEstudo, RegistroLeitura, RegistroTrabalho, Remissao } from '@/types/pena';
+
+const lancada = (id: string, motivo: Remissao['motivo'], dataCredito: string, dias: number, saldo?: number): Remissao =>
+  ({ id, motivo, dataCredito, dias, saldo });
+
+const diasESaldos = (calculadas: { remissao: Remissao }[]) =>
+  calculadas.map(({ remissao }) => ({ dias: remissao.dias, saldo: remissao.saldo }));
+
+describe('calcularRemicaoTrabalho', () => {
+  it.each([
+    [
+      'leva o resto da divisão por 3 para o mês seguinte',
+      [{ id: 'a', referencia: '2024-01', diasTrabalhados: 20 }, { id: 'b', referencia: '2024-02', diasTrabalhados: 22 }],
+      [],
+      [{ dias: 6, saldo: 2 }, { dias: 8, saldo: 0 }]
+    ],
+    [
+      'abre o lote com o saldo da última remição lançada',
+      [{ id: 'b', referencia: '2024-02', diasTrabalhados: 22 }],
+      [lancada('trabalho-a', 'Trabalho', '2024-01-31', 6, 2)],
+      [{ dias: 8, saldo: 0 }]
+    ],
+    [
+      'limita os dias trabalhados aos dias do mês sem domingos',
+      [{ id: 'a', referencia: '2024-02', diasTrabalhados: 28 }],
+      [],
+      [{ dias: 8, saldo: 1 }]
+    ]
+  ] as [string, RegistroTrabalho[], Remissao[], { dias: number; saldo: number }[]][])('%s', (_caso, registros, anteriores, esperado) => {
+    expect(diasESaldos(calcularRemicaoTrabalho(registros, anteriores))).toEqual(esperado);
+  });
+
+  it('alerta quando os dias trabalhados excedem o mês', () => {
+    const [calculada] = calcularRemicaoTrabalho([{ id: 'a', referencia: '2024-02', diasTrabalhados: 28 }]);
+
+    expect(calculada.alertas).toEqual(['28 dias trabalhados excedem os 25 dias úteis de 02/2024; computados 25']);
+  });
+});
+
+describe('calcularRemicaoEstudo', () => {
+  it.each([
+    [
+      'leva as horas que não completam 12 para o mês seguinte',
+      [{ id: 'a', referencia: '2024-03', horas: 50 }, { id: 'b', referencia: '2024-04', horas: 22 }],
+      [],
+      [{ dias: 4, saldo: 2 }, { dias: 2, saldo: 0 }]
+    ],
+    [
+      'acresce 1/3 na conclusão sobre os dias do lote e os já lançados',
+      [{ id: 'b', referencia: '2024-02', horas: 60, conclusao: 'Medio' }],
+      [lancada('estudo-a', 'Estudo', '2024-01-31', 10, 0)],
+      [{ dias: 5, saldo: 0 }, { dias: 5, saldo: undefined }]
+    ],
+    [
+      'conta o acréscimo só a partir da última conclusão lançada',
+      [{ id: 'c', referencia: '2024-02', horas: 36, conclusao: 'Superior' }],
+      [
+        lancada('estudo-a', 'Estudo', '2023-11-30', 9, 0),
+        lancada('estudo-conclusao-a', 'Estudo', '2023-11-30', 3),
+        lancada('estudo-b', 'Estudo', '2024-01-31', 6, 0)
+      ],
+      [{ dias: 3, saldo: 0 }, { dias: 3, saldo: undefined }]
+    ]
+  ] as [string, RegistroEstudo[], Remissao[], { dias: number; saldo?: number }[]][])('%s', (_caso, registros, anteriores, esperado) => {
+    expect(diasESaldos(calcularRemicaoEstudo(registros, anteriores))).toEqual(esperado);
+  });
+});
+
+describe('calcularRemicaoLeitura', () => {
+  const leitura = (id: string, dataAprovacao: string): RegistroLeitura => ({ id, titulo: `Obra ${id}`, dataAprovacao });
+  const onzeLancadas = Array.from({ length: 11 }, (_, indice) =>
+    lancada(`leitura-${indice}`, 'Leitura', `2024-${String(indice + 1).padStart(2, '0')}-10`, 4));
+
+  it.each([
+    ['credita 4 dias por obra', [leitura('a', '2024-03-10'), leitura('b', '2024-04-10')], [], [4, 4]],
+    ['conta as obras já lançadas no limite de 12 por ano', [leitura('a', '2024-12-01'), leitura('b', '2024-12-20')], onzeLancadas, [4, 0]],
+    ['reinicia o limite no ano seguinte', [leitura('a', '2024-12-20'), leitura('b', '2025-01-05')], [...onzeLancadas, lancada('leitura-x', 'Leitura', '2024-12-01', 4)], [0, 4]]
+  ] as [string, RegistroLeitura[], Remissao[], number[]][])('%s', (_caso, registros, anteriores, dias) => {
+    expect(calcularRemicaoLeitura(registros, anteriores).map(({ remissao }) => remissao.dias)).toEqual(dias);
+  });
+});
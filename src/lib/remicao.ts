@@ -0,0 +1,201 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import {
+  RegistroEstudo,
+  RegistroLeitura,
+  RegistroTrabalho,
+  Remissao,
+  RemissaoCalculada
+} from '@/types/pena';
+
+dayjs.extend(utc);
+
+const DIAS_TRABALHO_POR_DIA_REMIDO = 3;     // art. 126, §1º, II, LEP
+const HORAS_ESTUDO_POR_DIA_REMIDO = 12;     // art. 126, §1º, I, LEP
+const HORAS_ESTUDO_MAXIMAS_POR_DIA = 4;     // 12 horas divididas em, no mínimo, 3 dias
+const BONUS_CONCLUSAO_CURSO = 1/3;          // art. 126, §5º, LEP
+const DIAS_POR_OBRA_LIDA = 4;               // Res. CNJ 391/2021, art. 5º
+const OBRAS_POR_ANO = 12;
+
+const ROTULOS_CONCLUSAO = {
+  Fundamental: 'ensino fundamental',
+  Medio: 'ensino médio',
+  Superior: 'ensino superior'
+};
+
+// O crédito do mês é lançado no último dia da referência
+function ultimoDiaReferencia(referencia: string): string {
+  return dayjs.utc(`${referencia}-01`).endOf('month').format('YYYY-MM-DD');
+}
+
+function formatarReferencia(referencia: string): string {
+  return dayjs.utc(`${referencia}-01`).format('MM/YYYY');
+}
+
+// Dias do mês exceto domingos, em que há descanso (art. 33 LEP)
+function diasUteisReferencia(referencia: string): number {
+  const inicio = dayjs.utc(`${referencia}-01`);
+  let dias = 0;
+  for (let dia = 0; dia < inicio.daysInMonth(); dia++) {
+    if (inicio.add(dia, 'day').day() !== 0) dias++;
+  }
+  return dias;
+}
+
+const ordenarPorReferencia = <T extends { referencia: string }>(registros: T[]) =>
+  [...registros].sort((a, b) => a.referencia.localeCompare(b.referencia));
+
+// Remições do motivo já lançadas antes do primeiro mês dos novos registros, em ordem de crédito
+function lancadasAntes(anteriores: Remissao[], motivo: Remissao['motivo'], referencia: string | undefined): Remissao[] {
+  const limite = referencia ? ultimoDiaReferencia(referencia) : '';
+  return anteriores
+    .filter(remissao => remissao.motivo === motivo && remissao.dataCredito < limite)
+    .sort((a, b) => a.dataCredito.localeCompare(b.dataCredito));
+}
+
+// Saldo deixado pelo último crédito lançado, que abre o cálculo dos novos registros
+function saldoLancado(lancadas: Remissao[]): number {
+  return [...lancadas].reverse().find(remissao => remissao.saldo !== undefined)?.saldo ?? 0;
+}
+
+/**
+ * Remição por trabalho: 1 dia a cada 3 trabalhados. Os dias que não completam um
+ * múltiplo de 3 passam para o mês seguinte, inclusive o saldo das remições já lançadas.
+ */
+export function calcularRemicaoTrabalho(registros: RegistroTrabalho[], anteriores: Remissao[] = []): RemissaoCalculada[] {
+  const ordenados = ordenarPorReferencia(registros);
+  let saldoDias = saldoLancado(lancadasAntes(anteriores, 'Trabalho', ordenados[0]?.referencia));
+
+  return ordenados.map(registro => {
+    const alertas: string[] = [];
+    const limite = diasUteisReferencia(registro.referencia);
+    let diasComputados = registro.diasTrabalhados;
+
+    if (diasComputados > limite) {
+      alertas.push(`${registro.diasTrabalhados} dias trabalhados excedem os ${limite} dias úteis de ${formatarReferencia(registro.referencia)}; computados ${limite}`);
+      diasComputados = limite;
+    }
+
+    const total = diasComputados + saldoDias;
+    const dias = Math.floor(total / DIAS_TRABALHO_POR_DIA_REMIDO);
+    const saldoAnterior = saldoDias;
+    saldoDias = total % DIAS_TRABALHO_POR_DIA_REMIDO;
+
+    return {
+      remissao: {
+        id: `trabalho-${registro.id}`,
+        dataCredito: ultimoDiaReferencia(registro.referencia),
+        dias,
+        motivo: 'Trabalho',
+        observacao: `Art. 126, §1º, II, LEP: ${diasComputados} dias trabalhados em ${formatarReferencia(registro.referencia)}`
+          + (saldoAnterior ? ` + ${saldoAnterior} de saldo anterior` : '')
+          + ` ÷ 3 = ${dias} dia(s)`
+          + (saldoDias ? ` (saldo de ${saldoDias} para o mês seguinte)` : ''),
+        saldo: saldoDias
+      },
+      alertas
+    };
+  });
+}
+
+/**
+ * Remição por estudo: 1 dia a cada 12 horas de frequência, com até 4 horas por dia.
+ * Na conclusão de curso, as remições por estudo acumuladas desde a última conclusão
+ * (inclusive as já lançadas) recebem o acréscimo de 1/3 em um crédito separado.
+ */
+export function calcularRemicaoEstudo(registros: RegistroEstudo[], anteriores: Remissao[] = []): RemissaoCalculada[] {
+  const resultado: RemissaoCalculada[] = [];
+  const ordenados = ordenarPorReferencia(registros);
+  const lancadas = lancadasAntes(anteriores, 'Estudo', ordenados[0]?.referencia);
+  let saldoHoras = saldoLancado(lancadas);
+  let diasDesdeConclusao = 0;
+
+  lancadas.forEach(remissao => {
+    diasDesdeConclusao = remissao.id.startsWith('estudo-conclusao-') ? 0 : diasDesdeConclusao + remissao.dias;
+  });
+
+  ordenados.forEach(registro => {
+    const alertas: string[] = [];
+    const dataCredito = ultimoDiaReferencia(registro.referencia);
+    const limite = dayjs.utc(`${registro.referencia}-01`).daysInMonth() * HORAS_ESTUDO_MAXIMAS_POR_DIA;
+    let horasComputadas = registro.horas;
+
+    if (horasComputadas > limite) {
+      alertas.push(`${registro.horas} horas excedem o limite de ${limite} horas em ${formatarReferencia(registro.referencia)} (4 horas por dia); computadas ${limite}`);
+      horasComputadas = limite;
+    }
+
+    const total = horasComputadas + saldoHoras;
+    const dias = Math.floor(total / HORAS_ESTUDO_POR_DIA_REMIDO);
+    const saldoAnterior = saldoHoras;
+    saldoHoras = total % HORAS_ESTUDO_POR_DIA_REMIDO;
+    diasDesdeConclusao += dias;
+
+    resultado.push({
+      remissao: {
+        id: `estudo-${registro.id}`,
+        dataCredito,
+        dias,
+        motivo: 'Estudo',
+        observacao: `Art. 126, §1º, I, LEP: ${horasComputadas} horas de estudo em ${formatarReferencia(registro.referencia)}`
+          + (saldoAnterior ? ` + ${saldoAnterior} de saldo anterior` : '')
+          + ` ÷ 12 = ${dias} dia(s)`
+          + (saldoHoras ? ` (saldo de ${saldoHoras} horas para o mês seguinte)` : ''),
+        saldo: saldoHoras
+      },
+      alertas
+    });
+
+    if (registro.conclusao) {
+      const bonus = Math.floor(diasDesdeConclusao * BONUS_CONCLUSAO_CURSO);
+      resultado.push({
+        remissao: {
+          id: `estudo-conclusao-${registro.id}`,
+          dataCredito,
+          dias: bonus,
+          motivo: 'Estudo',
+          observacao: `Art. 126, §5º, LEP: acréscimo de 1/3 sobre ${diasDesdeConclusao} dias remidos pela conclusão do ${ROTULOS_CONCLUSAO[registro.conclusao]}`
+        },
+        alertas: []
+      });
+      diasDesdeConclusao = 0;
+    }
+  });
+
+  return resultado;
+}
+
+/**
+ * Remição pela leitura (Res. CNJ 391/2021): 4 dias por obra com relatório aprovado,
+ * limitada a 12 obras por ano, contadas as já lançadas. As obras excedentes não geram crédito.
+ */
+export function calcularRemicaoLeitura(registros: RegistroLeitura[], anteriores: Remissao[] = []): RemissaoCalculada[] {
+  const obrasPorAno: Record<number, number> = {};
+  anteriores
+    .filter(remissao => remissao.motivo === 'Leitura' && remissao.dias > 0)
+    .forEach(remissao => {
+      const ano = dayjs.utc(remissao.dataCredito).year();
+      obrasPorAno[ano] = (obrasPorAno[ano] ?? 0) + 1;
+    });
+
+  return [...registros]
+    .sort((a, b) => a.dataAprovacao.localeCompare(b.dataAprovacao))
+    .map(registro => {
+      const ano = dayjs.utc(registro.dataAprovacao).year();
+      obrasPorAno[ano] = (obrasPorAno[ano] ?? 0) + 1;
+      const excedente = obrasPorAno[ano] > OBRAS_POR_ANO;
+
+      return {
+        remissao: {
+          id: `leitura-${registro.id}`,
+          dataCredito: registro.dataAprovacao,
+          dias: excedente ? 0 : DIAS_POR_OBRA_LIDA,
+          motivo: 'Leitura',
+          observacao: `Res. CNJ 391/2021, art. 5º: leitura de "${registro.titulo}" (obra ${obrasPorAno[ano]} de ${ano})`
+        },
+        alertas: excedente
+          ? [`Limite de ${OBRAS_POR_ANO} obras em ${ano} atingido; "${registro.titulo}" não gera remição`]
+          : []
+      };
+    });
+}
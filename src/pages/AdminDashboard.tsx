@@ -13,7 +13,8 @@ import BlogManager from "@/components/admin/BlogManager";
 import BlogSettings from "@/components/admin/BlogSettings";
 import AdsManager from "@/components/admin/AdsManager";
 import LandingPageSettings from "@/components/admin/LandingPageSettings";
-import { Users, FileText, Upload, Undo2, ArrowLeft, Coins, Mail, BookOpen, Settings2, Wrench, Globe, Settings } from "lucide-react";
+import IndicesManager from "@/components/admin/IndicesManager";
+import { Users, FileText, Upload, Undo2, ArrowLeft, Coins, Mail, BookOpen, Settings2, Wrench, Globe, Settings, LineChart } from "lucide-react";
 import { usePageTitle } from "@/hooks/usePageTitle";
 import { useSEO } from "@/hooks/useSEO";
 import { useNavigate } from "react-router-dom";
@@ -89,7 +90,7 @@ export default function AdminDashboard() {
             </CardHeader>
             <CardContent>
               <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-                <TabsList className="grid w-full grid-cols-7 h-auto">
+                <TabsList className="grid w-full grid-cols-8 h-auto">
                   <TabsTrigger value="users" className="flex items-center gap-2 p-3">
                     <Users className="h-4 w-4" />
                     <span className="hidden lg:inline">Usuários</span>
@@ -118,6 +119,10 @@ export default function AdminDashboard() {
                     <Globe className="h-4 w-4" />
                     <span className="hidden lg:inline">Página Venda</span>
                   </TabsTrigger>
+                  <TabsTrigger value="indices" className="flex items-center gap-2 p-3">
+                    <LineChart className="h-4 w-4" />
+                    <span className="hidden lg:inline">Índices</span>
+                  </TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="users">
@@ -190,6 +195,10 @@ export default function AdminDashboard() {
                     <LandingPageSettings />
                   </div>
                 </TabsContent>
+
+                <TabsContent value="indices">
+                  <IndicesManager />
+                </TabsContent>
               </Tabs>
             </CardContent>
           </Card>
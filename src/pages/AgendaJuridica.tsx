@@ -46,6 +46,7 @@ import { useFeatureUsage } from "@/hooks/useFeatureUsage";
 import { useUserTimezone } from "@/hooks/useUserTimezone";
 import { Bell, BellOff, Settings } from "lucide-react";
 import DocumentExtractor from "@/components/DocumentExtractor";
+import PreparoRecursalNota from "@/components/PreparoRecursalNota";
 
 interface LegalCommitment {
   id: string;
@@ -75,7 +76,7 @@ const AgendaJuridica = () => {
   const { canAccessPremiumTools, isEssentialSubscriber } = useAccessControl();
   
   // Hook para timezone do usuário
-  const { userTimezone } = useUserTimezone();
+  const { userTimezone, getCurrentDateForAPI } = useUserTimezone();
   
   const [commitments, setCommitments] = useState<LegalCommitment[]>([]);
   const [filteredCommitments, setFilteredCommitments] = useState<LegalCommitment[]>([]);
@@ -1179,6 +1180,16 @@ const AgendaJuridica = () => {
                           </div>
                         )}
 
+                        {newCommitment.commitment_type === 'prazo_processual' && newCommitment.deadline_type === 'recursal' && (
+                          <PreparoRecursalNota
+                            dataReferencia={newCommitment.commitment_date.slice(0, 10) || getCurrentDateForAPI()}
+                            onAnexar={(nota) => setNewCommitment(prev => ({
+                              ...prev,
+                              description: prev.description ? `${prev.description}\n\n${nota}` : nota
+                            }))}
+                          />
+                        )}
+
                         <div className="grid grid-cols-2 gap-4">
                           <div className="grid gap-2">
                             <Label htmlFor="date">Data/Hora *</Label>
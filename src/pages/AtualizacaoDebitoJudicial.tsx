@@ -0,0 +1,664 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Calculator, DollarSign, Download, FileText, Gavel, TrendingUp, Zap } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import UserMenu from "@/components/UserMenu";
+import { useExportDocument } from "@/hooks/useExportDocument";
+import { useReabrirCalculo, resultadoGravado } from "@/hooks/useReabrirCalculo";
+import HistoricoDebitoJudicialModal from "@/components/HistoricoDebitoJudicialModal";
+import type { CalculoDebitoJudicial, ParcelaDebito } from "@/types/debitoJudicial";
+
+interface DebitoJudicialResult {
+  valorTotal: number;
+  detalhamento: string;
+  calculo: CalculoDebitoJudicial;
+}
+
+// EC 113/2021: SELIC a partir de dezembro de 2021
+const INICIO_SELIC_EC113 = '2021-12-01';
+
+const formatarMoeda = (valor: number) => `R$ ${valor.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatarDataCivil = (data: string) => `${data.slice(8, 10)}/${data.slice(5, 7)}/${data.slice(0, 4)}`;
+
+const AtualizacaoDebitoJudicial = () => {
+  const navigate = useNavigate();
+  const { profile } = useAuth();
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<DebitoJudicialResult | null>(null);
+  const [historicoModalOpen, setHistoricoModalOpen] = useState(false);
+  const { exportDebitoJudicialPlanilha, loading: exportLoading } = useExportDocument();
+
+  const [formData, setFormData] = useState({
+    processo: '',
+    exequente: '',
+    executado: '',
+    tribunal: 'tjsp',
+    indiceCorrecao: 'inpc',
+    parcelas: [{ descricao: '', data: '', valor: '', tipo: 'principal' }] as ParcelaDebito[],
+    dataCitacao: '',
+    dataCalculo: '',
+    aplicarSelic: true,
+    inicioSelic: INICIO_SELIC_EC113,
+    jurosMensais: '1',
+    honorariosSucumbencia: '10',
+    multa523: true,
+    honorarios523: true,
+    observacoes: ''
+  });
+  const reabrirCalculo = useReabrirCalculo(setFormData, setResult);
+
+  const handleInputChange = (field: string, value: string | boolean | ParcelaDebito[]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const atualizarParcela = (index: number, campo: keyof ParcelaDebito, valor: string) => {
+    const novasParcelas = [...formData.parcelas];
+    novasParcelas[index] = { ...novasParcelas[index], [campo]: valor };
+    handleInputChange('parcelas', novasParcelas);
+  };
+
+  const handleCalcular = async () => {
+    if (!formData.dataCitacao || !formData.parcelas.some(parcela => parcela.data && parcela.valor)) {
+      toast.error("Informe a data da citação e ao menos uma parcela com data e valor");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { aplicarSelic, ...dados } = formData;
+      const { data, error } = await supabase.functions.invoke('atualizacao-debito-judicial', {
+        body: { ...dados, inicioSelic: aplicarSelic ? formData.inicioSelic : '' }
+      });
+
+      if (error) throw error;
+
+      setResult(data);
+      toast.success("Cálculo realizado com sucesso!");
+    } catch (error) {
+      console.error('Erro ao calcular:', error);
+      toast.error("Erro ao realizar o cálculo");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopiar = async (detalhamento: string) => {
+    try {
+      await navigator.clipboard.writeText(detalhamento);
+      toast.success('Relatório copiado para a área de transferência! Cole em qualquer editor.');
+    } catch (error) {
+      console.error('Erro ao copiar texto:', error);
+      toast.error('Erro ao copiar relatório. Tente novamente.');
+    }
+  };
+
+  const totalTokens = (profile?.token_balance || 0) + (profile?.plan_tokens || 0);
+
+  return (
+    <div className="h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex flex-col overflow-hidden">
+      {/* Header fixo */}
+      <div className="flex-shrink-0 bg-slate-800/50 border-b border-slate-700 backdrop-blur-sm">
+        <div className="container max-w-6xl mx-auto px-4 py-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => navigate('/dashboard')}
+                className="text-white hover:bg-slate-700"
+              >
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <img
+                src="/lovable-uploads/640a3b5c-aae7-485a-a595-a0d750c13d9b.png"
+                alt="Oráculo Jurídico"
+                className="h-8 w-auto"
+              />
+              <div>
+                <h1 className="text-xl font-bold text-white flex items-center gap-2">
+                  <Gavel className="h-5 w-5 text-primary" />
+                  Atualização de Débito Judicial
+                </h1>
+                <p className="text-xs text-slate-300 hidden md:block">
+                  Tabela do tribunal, juros de mora, SELIC e art. 523 do CPC
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3">
+              {/* Contador de tokens */}
+              <div className="hidden md:flex items-center gap-2 bg-slate-700/50 rounded-lg px-3 py-2">
+                <Zap className="w-4 h-4 text-primary" />
+                <span className="text-sm font-medium text-white">
+                  {Math.floor(totalTokens).toLocaleString()}
+                </span>
+                <span className="text-xs text-slate-300">tokens</span>
+              </div>
+
+              {/* Histórico Button */}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setHistoricoModalOpen(true)}
+                className="hidden md:flex items-center gap-2 bg-slate-700/50 border-slate-600 text-white hover:bg-slate-600"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                Histórico
+              </Button>
+
+              <UserMenu />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Conteúdo principal com scroll interno */}
+      <div className="flex-1 overflow-y-auto">
+        <div className="container max-w-6xl mx-auto px-4 py-6 space-y-6">
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 items-start">
+
+            {/* Formulário */}
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-white">
+                  <FileText className="w-5 h-5 text-primary" />
+                  Dados da Condenação
+                </CardTitle>
+                <CardDescription>
+                  Parcelas do título judicial e critérios de atualização
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="processo" className="text-sm text-slate-300">Processo</Label>
+                  <Input
+                    id="processo"
+                    placeholder="0000000-00.0000.0.00.0000"
+                    value={formData.processo}
+                    onChange={(e) => handleInputChange('processo', e.target.value)}
+                    className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                  />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="exequente" className="text-sm text-slate-300">Exequente</Label>
+                    <Input
+                      id="exequente"
+                      value={formData.exequente}
+                      onChange={(e) => handleInputChange('exequente', e.target.value)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="executado" className="text-sm text-slate-300">Executado</Label>
+                    <Input
+                      id="executado"
+                      value={formData.executado}
+                      onChange={(e) => handleInputChange('executado', e.target.value)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="tribunal" className="text-sm text-slate-300">Tabela de Correção</Label>
+                    <Select value={formData.tribunal} onValueChange={(value) => handleInputChange('tribunal', value)}>
+                      <SelectTrigger className="bg-slate-700 border-slate-600 focus:border-primary text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="tjsp">TJSP - Tabela Prática (INPC)</SelectItem>
+                        <SelectItem value="tjmg">TJMG - Fator da CGJ (INPC)</SelectItem>
+                        <SelectItem value="tjdft">TJDFT (INPC)</SelectItem>
+                        <SelectItem value="jf">Justiça Federal - Manual de Cálculos (IPCA-E)</SelectItem>
+                        <SelectItem value="outro">Outro tribunal</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {formData.tribunal === 'outro' && (
+                    <div className="space-y-2">
+                      <Label htmlFor="indiceCorrecao" className="text-sm text-slate-300">Índice de Correção</Label>
+                      <Select value={formData.indiceCorrecao} onValueChange={(value) => handleInputChange('indiceCorrecao', value)}>
+                        <SelectTrigger className="bg-slate-700 border-slate-600 focus:border-primary text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="inpc">INPC</SelectItem>
+                          <SelectItem value="ipcae">IPCA-E</SelectItem>
+                          <SelectItem value="ipca">IPCA</SelectItem>
+                          <SelectItem value="igpm">IGP-M</SelectItem>
+                          <SelectItem value="tr">TR</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="dataCitacao" className="text-sm text-slate-300">Data da Citação *</Label>
+                    <Input
+                      id="dataCitacao"
+                      type="date"
+                      value={formData.dataCitacao}
+                      onChange={(e) => handleInputChange('dataCitacao', e.target.value)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="dataCalculo" className="text-sm text-slate-300">Data do Cálculo</Label>
+                    <Input
+                      id="dataCalculo"
+                      type="date"
+                      value={formData.dataCalculo}
+                      onChange={(e) => handleInputChange('dataCalculo', e.target.value)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                  </div>
+                </div>
+
+                {/* Parcelas da condenação */}
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm text-slate-300">Parcelas *</Label>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleInputChange('parcelas', [...formData.parcelas, { descricao: '', data: '', valor: '', tipo: 'principal' }])}
+                      className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600"
+                    >
+                      Adicionar Parcela
+                    </Button>
+                  </div>
+
+                  {formData.parcelas.map((parcela, index) => (
+                    <div key={index} className="grid grid-cols-1 md:grid-cols-[1.4fr_1fr_1fr_1fr_auto] gap-2 items-end">
+                      <div className="space-y-1">
+                        <Label className="text-xs text-slate-400">Descrição</Label>
+                        <Input
+                          placeholder="Danos materiais"
+                          value={parcela.descricao}
+                          onChange={(e) => atualizarParcela(index, 'descricao', e.target.value)}
+                          className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs text-slate-400">Data-base</Label>
+                        <Input
+                          type="date"
+                          value={parcela.data}
+                          onChange={(e) => atualizarParcela(index, 'data', e.target.value)}
+                          className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs text-slate-400">Valor</Label>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          value={parcela.valor}
+                          onChange={(e) => atualizarParcela(index, 'valor', e.target.value)}
+                          className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs text-slate-400">Tipo</Label>
+                        <Select value={parcela.tipo} onValueChange={(value) => atualizarParcela(index, 'tipo', value)}>
+                          <SelectTrigger className="bg-slate-700 border-slate-600 focus:border-primary text-white">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="principal">Principal</SelectItem>
+                            <SelectItem value="despesa">Despesa</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        disabled={formData.parcelas.length === 1}
+                        onClick={() => handleInputChange('parcelas', formData.parcelas.filter((_, i) => i !== index))}
+                        className="text-red-400 hover:bg-red-900/20 px-2"
+                      >
+                        ×
+                      </Button>
+                    </div>
+                  ))}
+                  <p className="text-xs text-slate-500">
+                    Principal recebe juros de mora desde a citação (ou da data-base, se posterior). Despesas, como custas adiantadas, só são corrigidas desde o desembolso.
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="jurosMensais" className="text-sm text-slate-300">Juros de Mora (% a.m.)</Label>
+                    <Input
+                      id="jurosMensais"
+                      type="number"
+                      step="0.01"
+                      value={formData.jurosMensais}
+                      onChange={(e) => handleInputChange('jurosMensais', e.target.value)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="honorariosSucumbencia" className="text-sm text-slate-300">Honorários de Sucumbência (%)</Label>
+                    <Input
+                      id="honorariosSucumbencia"
+                      type="number"
+                      step="0.01"
+                      value={formData.honorariosSucumbencia}
+                      onChange={(e) => handleInputChange('honorariosSucumbencia', e.target.value)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-3 p-3 bg-slate-700/30 rounded-lg border border-slate-600">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <Label htmlFor="aplicarSelic" className="text-sm text-slate-300">SELIC após a EC 113/2021</Label>
+                      <p className="text-xs text-slate-500">Substitui a correção e os juros a partir do mês informado</p>
+                    </div>
+                    <Switch
+                      id="aplicarSelic"
+                      checked={formData.aplicarSelic}
+                      onCheckedChange={(checked) => handleInputChange('aplicarSelic', checked)}
+                    />
+                  </div>
+                  {formData.aplicarSelic && (
+                    <Input
+                      type="month"
+                      value={formData.inicioSelic.slice(0, 7)}
+                      onChange={(e) => handleInputChange('inicioSelic', e.target.value ? `${e.target.value}-01` : INICIO_SELIC_EC113)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                  )}
+                  <div className="flex items-center justify-between gap-4">
+                    <Label htmlFor="multa523" className="text-sm text-slate-300">Multa de 10% (art. 523, § 1º, CPC)</Label>
+                    <Switch
+                      id="multa523"
+                      checked={formData.multa523}
+                      onCheckedChange={(checked) => handleInputChange('multa523', checked)}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between gap-4">
+                    <Label htmlFor="honorarios523" className="text-sm text-slate-300">Honorários de 10% (art. 523, § 1º, CPC)</Label>
+                    <Switch
+                      id="honorarios523"
+                      checked={formData.honorarios523}
+                      onCheckedChange={(checked) => handleInputChange('honorarios523', checked)}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="observacoes" className="text-sm text-slate-300">Observações</Label>
+                  <Textarea
+                    id="observacoes"
+                    placeholder="Informações adicionais sobre o título executivo..."
+                    value={formData.observacoes}
+                    onChange={(e) => handleInputChange('observacoes', e.target.value)}
+                    className="min-h-[80px] bg-slate-700 border-slate-600 focus:border-primary text-white"
+                  />
+                </div>
+
+                <Button
+                  onClick={handleCalcular}
+                  disabled={loading}
+                  className="w-full bg-primary hover:bg-primary/90 py-3 text-lg font-semibold"
+                  size="lg"
+                >
+                  {loading ? (
+                    <div className="flex items-center gap-2">
+                      <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                      Calculando...
+                    </div>
+                  ) : (
+                    <>
+                      <Calculator className="h-5 w-5 mr-2" />
+                      Calcular
+                    </>
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
+
+            {/* Resultado */}
+            {result ? (
+              <Card className="bg-slate-800/50 border-slate-700">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-white">
+                    <TrendingUp className="w-5 h-5 text-green-400" />
+                    Resultado do Cálculo
+                  </CardTitle>
+                  <CardDescription>
+                    Débito atualizado até {formatarDataCivil(result.calculo.dataCalculo)}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="p-4 bg-gradient-to-br from-green-600/20 to-green-600/10 border border-green-500/30 rounded-lg">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="text-xs text-green-300 font-medium">Total do Débito</p>
+                          <p className="text-2xl font-bold text-green-400">{formatarMoeda(result.calculo.total)}</p>
+                        </div>
+                        <DollarSign className="w-8 h-8 text-green-400" />
+                      </div>
+                    </div>
+                    <div className="p-4 bg-gradient-to-br from-orange-600/20 to-orange-600/10 border border-orange-500/30 rounded-lg">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="text-xs text-orange-300 font-medium">Subtotal (antes do art. 523)</p>
+                          <p className="text-2xl font-bold text-orange-400">{formatarMoeda(result.calculo.subtotal)}</p>
+                        </div>
+                        <TrendingUp className="w-8 h-8 text-orange-400" />
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+                    <div className="p-3 bg-slate-700/30 rounded-lg border border-slate-600">
+                      <p className="text-slate-400">Correção</p>
+                      <p className="text-white font-semibold mt-1">{formatarMoeda(result.calculo.totalCorrecao)}</p>
+                    </div>
+                    <div className="p-3 bg-slate-700/30 rounded-lg border border-slate-600">
+                      <p className="text-slate-400">Juros de mora</p>
+                      <p className="text-white font-semibold mt-1">{formatarMoeda(result.calculo.totalJuros)}</p>
+                    </div>
+                    <div className="p-3 bg-slate-700/30 rounded-lg border border-slate-600">
+                      <p className="text-slate-400">SELIC</p>
+                      <p className="text-white font-semibold mt-1">{formatarMoeda(result.calculo.totalSelic)}</p>
+                    </div>
+                    <div className="p-3 bg-slate-700/30 rounded-lg border border-slate-600">
+                      <p className="text-slate-400">Multa + honorários 523</p>
+                      <p className="text-white font-semibold mt-1">{formatarMoeda(result.calculo.multa523 + result.calculo.honorarios523)}</p>
+                    </div>
+                  </div>
+
+                  {(result.calculo.competenciasSemIndice.length > 0 || result.calculo.competenciasSemSelic.length > 0) && (
+                    <div className="p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-xs text-amber-300">
+                      {result.calculo.competenciasSemIndice.length + result.calculo.competenciasSemSelic.length} competência(s) sem índice cadastrado foram consideradas com variação zero.
+                      Confira o detalhamento antes de juntar a planilha.
+                    </div>
+                  )}
+
+                  <div className="space-y-3 p-4 bg-slate-700/30 rounded-lg border border-slate-600">
+                    <div className="flex items-center justify-between gap-2">
+                      <h4 className="text-sm font-semibold text-white">Demonstrativo por Parcela</h4>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={exportLoading}
+                          onClick={() => exportDebitoJudicialPlanilha(result.calculo, 'xlsx')}
+                          className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600"
+                        >
+                          <Download className="w-4 h-4 mr-1" />
+                          XLSX
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={exportLoading}
+                          onClick={() => exportDebitoJudicialPlanilha(result.calculo, 'csv')}
+                          className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600"
+                        >
+                          <Download className="w-4 h-4 mr-1" />
+                          CSV
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="max-h-64 overflow-y-auto rounded border border-slate-600">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="text-slate-300">Parcela</TableHead>
+                            <TableHead className="text-slate-300 text-right">Corrigido</TableHead>
+                            <TableHead className="text-slate-300 text-right">Juros</TableHead>
+                            <TableHead className="text-slate-300 text-right">SELIC</TableHead>
+                            <TableHead className="text-slate-300 text-right">Total</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {result.calculo.parcelas.map((parcela, index) => (
+                            <TableRow key={index} className="text-slate-200">
+                              <TableCell>
+                                {parcela.descricao}
+                                <p className="text-xs text-slate-400">
+                                  {formatarDataCivil(parcela.dataBase)} · {formatarMoeda(parcela.valorOriginal)}
+                                </p>
+                              </TableCell>
+                              <TableCell className="text-right whitespace-nowrap">{formatarMoeda(parcela.valorCorrigido)}</TableCell>
+                              <TableCell className="text-right whitespace-nowrap">{formatarMoeda(parcela.valorJuros)}</TableCell>
+                              <TableCell className="text-right whitespace-nowrap">{formatarMoeda(parcela.valorSelic)}</TableCell>
+                              <TableCell className="text-right whitespace-nowrap">{formatarMoeda(parcela.total)}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </div>
+
+                  {/* Detalhamento */}
+                  <div className="bg-gradient-to-br from-primary/10 to-primary/5 rounded-lg border-2 border-primary/30 p-6 mt-6">
+                    <div className="flex items-center justify-between mb-4">
+                      <h4 className="text-xl font-bold text-white flex items-center gap-3">
+                        <FileText className="w-6 h-6 text-primary" />
+                        Detalhamento do Cálculo
+                      </h4>
+                      <Button
+                        onClick={() => handleCopiar(result.detalhamento)}
+                        variant="outline"
+                        size="sm"
+                        className="bg-primary/10 border-primary/30 text-primary hover:bg-primary/20"
+                      >
+                        Copiar Relatório
+                      </Button>
+                    </div>
+                    <div className="max-h-96 overflow-y-auto bg-slate-900/50 rounded-lg border border-slate-600 p-4">
+                      <pre className="text-sm whitespace-pre-wrap break-words text-slate-200 leading-relaxed font-mono">
+                        {result.detalhamento}
+                      </pre>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card className="bg-slate-800/50 border-slate-700">
+                <CardContent className="p-8 text-center">
+                  <Gavel className="w-16 h-16 text-slate-500 mx-auto mb-4" />
+                  <h3 className="text-lg font-semibold text-white mb-2">
+                    Aguardando Dados
+                  </h3>
+                  <p className="text-sm text-slate-400 max-w-md mx-auto">
+                    Informe as parcelas da condenação e a data da citação para gerar
+                    o demonstrativo do cumprimento de sentença.
+                  </p>
+
+                  <div className="mt-6 space-y-2">
+                    <div className="flex items-center justify-center gap-2 text-xs text-slate-500">
+                      <span>✓ Correção pela tabela do tribunal até a EC 113/2021</span>
+                    </div>
+                    <div className="flex items-center justify-center gap-2 text-xs text-slate-500">
+                      <span>✓ Juros de mora desde a citação e SELIC a partir de 12/2021</span>
+                    </div>
+                    <div className="flex items-center justify-center gap-2 text-xs text-slate-500">
+                      <span>✓ Multa e honorários do art. 523 e planilha para a petição</span>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          {/* Informações importantes */}
+          <Card className="bg-amber-900/20 border-amber-500/30">
+            <CardContent className="p-4">
+              <div className="flex items-start gap-3">
+                <div className="p-2 bg-amber-500/20 rounded-lg flex-shrink-0">
+                  <FileText className="w-5 h-5 text-amber-400" />
+                </div>
+                <div>
+                  <h4 className="font-semibold text-amber-200 mb-2">Informações Importantes</h4>
+                  <div className="space-y-1 text-sm text-amber-300/80">
+                    <p>• Confira se o título judicial fixou índice, termo inicial de juros ou honorários diferentes dos padrões</p>
+                    <p>• A multa e os honorários do art. 523 só incidem se não houver pagamento voluntário em 15 dias</p>
+                    <p>• Os índices são os mesmos cadastrados para as demais calculadoras (SGS/Banco Central)</p>
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Modal de Histórico */}
+      <HistoricoDebitoJudicialModal
+        isOpen={historicoModalOpen}
+        onClose={() => setHistoricoModalOpen(false)}
+        onSelectCalculation={(calculo) => reabrirCalculo(
+          {
+            processo: calculo.processo || '',
+            exequente: calculo.exequente || '',
+            executado: calculo.executado || '',
+            tribunal: calculo.tribunal,
+            indiceCorrecao: calculo.indice_correcao,
+            parcelas: calculo.parcelas,
+            dataCitacao: calculo.data_citacao,
+            dataCalculo: calculo.data_calculo,
+            aplicarSelic: !!calculo.inicio_selic,
+            inicioSelic: calculo.inicio_selic || INICIO_SELIC_EC113,
+            jurosMensais: calculo.juros_mensais.toString(),
+            honorariosSucumbencia: calculo.honorarios_sucumbencia.toString(),
+            multa523: calculo.multa_523,
+            honorarios523: calculo.honorarios_523,
+            observacoes: calculo.observacoes || ''
+          },
+          resultadoGravado(calculo)
+        )}
+      />
+    </div>
+  );
+};
+
+export default AtualizacaoDebitoJudicial;
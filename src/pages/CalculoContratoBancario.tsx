@@ -5,6 +5,8 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { ArrowLeft, Calculator, DollarSign, Building, TrendingUp, FileText, Zap } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { toast } from "sonner";
@@ -15,17 +17,163 @@ import UserMenu from "@/components/UserMenu";
 import { useScrollDirection } from "@/hooks/useScrollDirection";
 import { useUserTimezone } from "@/hooks/useUserTimezone";
 import { useExportDocument } from "@/hooks/useExportDocument";
+import { useReabrirCalculo } from "@/hooks/useReabrirCalculo";
 import HistoricoCalculosModal from "@/components/HistoricoCalculosModal";
+import MemoriaCalculoContrato from "@/components/MemoriaCalculoContrato";
+import type { ResultadoEstruturado } from "@/types/calculoContrato";
 
 
+interface Pagamento {
+  data: string;
+  valor: string;
+  observacao: string;
+}
+
+interface TaxaCiclo {
+  competencia: string;
+  taxaCobrada: string;
+  taxaMedia: string;
+}
+
+interface CicloRotativo {
+  inicio: string;
+  fim: string;
+  vencimento: string | null;
+  emAberto: boolean;
+  taxaCobrada: number;
+  taxaMedia: number;
+  acimaLimiteChequeEspecial: boolean;
+  diasDevedor: number;
+  saldoMedioDevedor: number;
+  jurosLancados: number;
+  jurosTaxaCobrada: number;
+  jurosTaxaMedia: number;
+  iof: number;
+  tarifas: { data: string; descricao: string; valor: number }[];
+  totalTarifas: number;
+  diferencaJuros: number;
+  saldoCobrado: number;
+  saldoRevisado: number;
+}
+
+interface CalculoRotativo {
+  tipo: string;
+  inicio: string;
+  fim: string;
+  lancamentosLidos: number;
+  linhasIgnoradas: string[];
+  ciclos: CicloRotativo[];
+  totalJurosLancados: number;
+  totalJurosTaxaCobrada: number;
+  totalJurosTaxaMedia: number;
+  totalIof: number;
+  totalTarifas: number;
+  totalDiferencaJuros: number;
+  totalDebitos: number;
+  saldoCobrado: number;
+  saldoRevisado: number;
+}
+
+interface LancamentoExtrato {
+  data: string;
+  descricao: string;
+  dias: number;
+  correcao: number;
+  juros: number;
+  jurosMora: number;
+  multa: number;
+  pagamento: number;
+  imputadoMora: number;
+  imputadoJuros: number;
+  imputadoPrincipal: number;
+  principal: number;
+  jurosPendentes: number;
+  moraPendente: number;
+  saldo: number;
+}
+
+interface ExtratoPagamentos {
+  lancamentos: LancamentoExtrato[];
+  totalCorrecao: number;
+  totalJuros: number;
+  totalJurosMora: number;
+  totalMulta: number;
+  totalPago: number;
+  saldoFinal: number;
+  saldoCredor: number;
+}
+
 interface CalculoResult {
   valorTotal: number;
   jurosTotal: number;
   valorCorrigido: number;
   diferenca: number;
   detalhamento: string;
+  competenciasSemIndice?: string[];
+  revisaoParcelamento?: RevisaoParcelamento | null;
+  avisoRevisao?: string;
+  analiseCapitalizacao?: AnaliseCapitalizacao | null;
+  extratoPagamentos?: ExtratoPagamentos | null;
+  calculoRotativo?: CalculoRotativo;
+  resultadoEstruturado?: ResultadoEstruturado | null;
+}
+
+interface AnaliseCapitalizacao {
+  taxaMensalDeclarada: number;
+  taxaAnualDeclarada: number | null;
+  duodecuplo: number;
+  capitalizacaoPactuada: boolean;
+  frequenciaImplicita: number | null;
+  descricaoFrequencia: string;
+  numeroParcelas: number;
+  valorParcela: number;
+  parcelaInformada: boolean;
+  taxaEfetivaMensal: number | null;
+  taxaEfetivaAnual: number | null;
+  taxaEfetivaSuperior: boolean;
+  parcelaGauss: number;
+  totalContratado: number;
+  totalGauss: number;
+  parcelasPagas: number;
+  pagoAMaiorGauss: number;
+}
+
+interface RevisaoParcelamento {
+  sistema: string;
+  modalidade: string;
+  taxaContratada: number;
+  taxaMedia: number;
+  fonteTaxaMedia: string;
+  razaoTaxas: number;
+  abusiva: boolean;
+  parcelasPagas: number;
+  parcelas: {
+    numero: number;
+    vencimento: string;
+    parcelaContratada: number;
+    parcelaRevisada: number;
+    diferenca: number;
+    paga: boolean;
+  }[];
+  totalContratado: number;
+  totalRevisado: number;
+  valorPagoAMaior: number;
+  valorPagoAMaiorCorrigido: number;
+  repeticaoDobro: boolean;
+  valorRestituir: number | null; // só apurado quando a taxa é abusiva
+  saldoContratado: number;
+  saldoRevisado: number;
 }
 
+const SEM_PARCELAMENTO = 'nenhum';
+
+// Modalidades cuja taxa média vem da série do SGS cadastrada em indices_economicos
+const MODALIDADES_COM_SERIE = ['veiculos', 'pessoal', 'consignado'];
+
+const formatarMoeda = (valor: number) => `R$ ${valor.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatarDataCivil = (data: string) => `${data.slice(8, 10)}/${data.slice(5, 7)}/${data.slice(0, 4)}`;
+
 const CalculoContratoBancario = () => {
   const navigate = useNavigate();
   const { useTokens, profile } = useAuth();
@@ -43,23 +191,61 @@ const CalculoContratoBancario = () => {
     taxaJuros: '',
     tipoJuros: 'simples',
     indiceCorrecao: 'ipca',
-    valorPago: '',
-    dataPagamentoParcial: '',
+    pagamentos: [] as Pagamento[],
     multaAtraso: '2',
     jurosMora: '1',
-    observacoes: ''
+    observacoes: '',
+    sistemaAmortizacao: '',
+    numeroParcelas: '',
+    parcelasPagas: '',
+    modalidadeCredito: 'veiculos',
+    taxaMediaBacen: '',
+    repeticaoDobro: false,
+    valorParcela: '',
+    taxaAnualDeclarada: '',
+    modoCalculo: 'contrato',
+    tipoRotativo: 'cheque_especial',
+    diaFechamento: '',
+    diaVencimento: '',
+    extratoTexto: '',
+    taxasCiclos: [] as TaxaCiclo[]
   });
+  const reabrirCalculo = useReabrirCalculo(setFormData, setResult);
+
+  const rotativo = formData.modoCalculo === 'rotativo';
+  const taxaMediaPorSerie = MODALIDADES_COM_SERIE.includes(formData.modalidadeCredito);
 
-  const handleInputChange = (field: string, value: string) => {
+  const handleInputChange = (field: string, value: string | boolean | Pagamento[] | TaxaCiclo[]) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  const handleImportarExtrato = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    handleInputChange('extratoTexto', (await file.text()).replace(/^\uFEFF/, ''));
+    toast.success(`Extrato ${file.name} carregado`);
+  };
+
   const handleCalcular = async () => {
-    if (!formData.valorContrato || !formData.dataContrato || !formData.dataVencimento || !formData.taxaJuros) {
+    if (rotativo) {
+      if (!formData.extratoTexto.trim() || !formData.taxaJuros || !formData.taxaMediaBacen) {
+        toast.error("Informe o extrato, a taxa cobrada e a taxa média de mercado");
+        return;
+      }
+      if (formData.tipoRotativo === 'cartao' && (!formData.diaFechamento || !formData.diaVencimento)) {
+        toast.error("Informe os dias de fechamento e de vencimento da fatura");
+        return;
+      }
+    } else if (!formData.valorContrato || !formData.dataContrato || !formData.dataVencimento || !formData.taxaJuros) {
       toast.error("Preencha todos os campos obrigatórios");
       return;
     }
 
+    if (!rotativo && formData.sistemaAmortizacao && (!formData.numeroParcelas || (!taxaMediaPorSerie && !formData.taxaMediaBacen))) {
+      toast.error("Informe o número de parcelas e a taxa média do BACEN para revisar o parcelamento");
+      return;
+    }
+
     setLoading(true);
     try {
       // Calculadora bancária agora é gratuita - não consome tokens
@@ -72,6 +258,9 @@ const CalculoContratoBancario = () => {
 
       setResult(data);
       toast.success("Cálculo realizado com sucesso!");
+      if (data.avisoRevisao) {
+        toast.error(data.avisoRevisao);
+      }
     } catch (error) {
       console.error('Erro ao calcular:', error);
       toast.error("Erro ao realizar o cálculo");
@@ -170,11 +359,11 @@ const CalculoContratoBancario = () => {
                 </div>
                 <div className="text-center p-3 bg-white/5 rounded-lg">
                   <div className="text-lg font-bold text-green-400">Correção</div>
-                  <div className="text-xs text-slate-400">IPCA/IGP-M/SELIC</div>
+                  <div className="text-xs text-slate-400">Índices Oficiais Mês a Mês</div>
                 </div>
                 <div className="text-center p-3 bg-white/5 rounded-lg">
                   <div className="text-lg font-bold text-orange-400">Análise</div>
-                  <div className="text-xs text-slate-400">Cláusulas Abusivas</div>
+                  <div className="text-xs text-slate-400">Price/SAC pela Taxa Média</div>
                 </div>
                 <div className="text-center p-3 bg-white/5 rounded-lg">
                   <div className="text-lg font-bold text-purple-400">Relatório</div>
@@ -199,134 +388,521 @@ const CalculoContratoBancario = () => {
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="valorContrato" className="text-sm text-slate-300">Valor do Contrato *</Label>
-                    <Input
-                      id="valorContrato"
-                      type="number"
-                      step="0.01"
-                      placeholder="10000.00"
-                      value={formData.valorContrato}
-                      onChange={(e) => handleInputChange('valorContrato', e.target.value)}
-                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="valorPago" className="text-sm text-slate-300">Valor Pago</Label>
-                    <Input
-                      id="valorPago"
-                      type="number"
-                      step="0.01"
-                      placeholder="5000.00"
-                      value={formData.valorPago}
-                      onChange={(e) => handleInputChange('valorPago', e.target.value)}
-                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="dataPagamentoParcial" className="text-sm text-slate-300">Data do Pagamento</Label>
-                    <Input
-                      id="dataPagamentoParcial"
-                      type="date"
-                      value={formData.dataPagamentoParcial}
-                      onChange={(e) => handleInputChange('dataPagamentoParcial', e.target.value)}
-                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
-                    />
-                  </div>
+                <div className="space-y-2">
+                  <Label htmlFor="modoCalculo" className="text-sm text-slate-300">Tipo de Cálculo</Label>
+                  <Select value={formData.modoCalculo} onValueChange={(value) => handleInputChange('modoCalculo', value)}>
+                    <SelectTrigger className="bg-slate-700 border-slate-600 focus:border-primary text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="contrato">Contrato (empréstimo, financiamento)</SelectItem>
+                      <SelectItem value="rotativo">Cheque especial ou cartão (rotativo)</SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="dataContrato" className="text-sm text-slate-300">Data do Contrato *</Label>
-                    <Input
-                      id="dataContrato"
-                      type="date"
-                      value={formData.dataContrato}
-                      onChange={(e) => handleInputChange('dataContrato', e.target.value)}
-                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
-                    />
+                {rotativo ? (
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="tipoRotativo" className="text-sm text-slate-300">Modalidade</Label>
+                        <Select value={formData.tipoRotativo} onValueChange={(value) => handleInputChange('tipoRotativo', value)}>
+                          <SelectTrigger className="bg-slate-700 border-slate-600 focus:border-primary text-white">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="cheque_especial">Cheque especial</SelectItem>
+                            <SelectItem value="cartao">Cartão de crédito (rotativo)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {formData.tipoRotativo === 'cartao' && (
+                        <div className="grid grid-cols-2 gap-2">
+                          <div className="space-y-2">
+                            <Label htmlFor="diaFechamento" className="text-sm text-slate-300">Dia Fechamento *</Label>
+                            <Input
+                              id="diaFechamento"
+                              type="number"
+                              min="1"
+                              max="31"
+                              placeholder="10"
+                              value={formData.diaFechamento}
+                              onChange={(e) => handleInputChange('diaFechamento', e.target.value)}
+                              className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="diaVencimento" className="text-sm text-slate-300">Dia Vencimento *</Label>
+                            <Input
+                              id="diaVencimento"
+                              type="number"
+                              min="1"
+                              max="31"
+                              placeholder="20"
+                              value={formData.diaVencimento}
+                              onChange={(e) => handleInputChange('diaVencimento', e.target.value)}
+                              className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                            />
+                          </div>
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="taxaJuros" className="text-sm text-slate-300">Taxa Cobrada (% a.m.) *</Label>
+                        <Input
+                          id="taxaJuros"
+                          type="number"
+                          step="0.01"
+                          placeholder="7.9"
+                          value={formData.taxaJuros}
+                          onChange={(e) => handleInputChange('taxaJuros', e.target.value)}
+                          className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="taxaMediaBacen" className="text-sm text-slate-300">Taxa Média de Mercado (% a.m.) *</Label>
+                        <Input
+                          id="taxaMediaBacen"
+                          type="number"
+                          step="0.01"
+                          placeholder="6.5"
+                          value={formData.taxaMediaBacen}
+                          onChange={(e) => handleInputChange('taxaMediaBacen', e.target.value)}
+                          className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                        />
+                      </div>
+                    </div>
+
+                    {/* Taxas por ciclo - substituem as taxas acima no mês de fechamento informado */}
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between">
+                        <Label className="text-sm text-slate-300">Taxas por Ciclo</Label>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleInputChange('taxasCiclos', [...formData.taxasCiclos, { competencia: '', taxaCobrada: '', taxaMedia: '' }])}
+                          className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600"
+                        >
+                          Adicionar Ciclo
+                        </Button>
+                      </div>
+
+                      {formData.taxasCiclos.map((taxa, index) => (
+                        <div key={index} className="grid grid-cols-1 md:grid-cols-[1.2fr_1fr_1fr_auto] gap-2 items-end">
+                          <div className="space-y-1">
+                            <Label className="text-xs text-slate-400">Mês do fechamento</Label>
+                            <Input
+                              type="month"
+                              value={taxa.competencia}
+                              onChange={(e) => {
+                                const novasTaxas = [...formData.taxasCiclos];
+                                novasTaxas[index] = { ...taxa, competencia: e.target.value };
+                                handleInputChange('taxasCiclos', novasTaxas);
+                              }}
+                              className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs text-slate-400">Cobrada (% a.m.)</Label>
+                            <Input
+                              type="number"
+                              step="0.01"
+                              value={taxa.taxaCobrada}
+                              onChange={(e) => {
+                                const novasTaxas = [...formData.taxasCiclos];
+                                novasTaxas[index] = { ...taxa, taxaCobrada: e.target.value };
+                                handleInputChange('taxasCiclos', novasTaxas);
+                              }}
+                              className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs text-slate-400">Média (% a.m.)</Label>
+                            <Input
+                              type="number"
+                              step="0.01"
+                              value={taxa.taxaMedia}
+                              onChange={(e) => {
+                                const novasTaxas = [...formData.taxasCiclos];
+                                novasTaxas[index] = { ...taxa, taxaMedia: e.target.value };
+                                handleInputChange('taxasCiclos', novasTaxas);
+                              }}
+                              className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                            />
+                          </div>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleInputChange('taxasCiclos', formData.taxasCiclos.filter((_, i) => i !== index))}
+                            className="text-red-400 hover:bg-red-900/20 px-2"
+                          >
+                            ×
+                          </Button>
+                        </div>
+                      ))}
+
+                      {formData.taxasCiclos.length === 0 && (
+                        <p className="text-xs text-slate-500">
+                          Sem taxas por ciclo, todos os ciclos usam as taxas acima. Uma taxa em branco no ciclo também usa a taxa acima.
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="extratoTexto" className="text-sm text-slate-300">Extrato *</Label>
+                        <input
+                          type="file"
+                          accept=".csv,.txt"
+                          className="hidden"
+                          id="extrato-upload"
+                          onChange={e => {
+                            handleImportarExtrato(e.target.files);
+                            e.target.value = "";
+                          }}
+                        />
+                        <Button asChild variant="outline" size="sm" className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600">
+                          <label htmlFor="extrato-upload" className="cursor-pointer">Importar CSV</label>
+                        </Button>
+                      </div>
+                      <Textarea
+                        id="extratoTexto"
+                        placeholder={"01/03/2024;SALDO ANTERIOR;0,00\n05/03/2024;PIX ENVIADO;-1.000,00\n01/04/2024;JUROS CHEQUE ESPECIAL;-60,00\n01/04/2024;IOF;-8,50"}
+                        value={formData.extratoTexto}
+                        onChange={(e) => handleInputChange('extratoTexto', e.target.value)}
+                        className="min-h-[160px] font-mono text-xs bg-slate-700 border-slate-600 focus:border-primary text-white"
+                      />
+                      <p className="text-xs text-slate-500">
+                        Uma linha por lançamento: data, histórico e valor (e, opcionalmente, o saldo), separados por ponto e vírgula, tabulação ou espaços.
+                        {formData.tipoRotativo === 'cartao'
+                          ? ' Na fatura, compras e encargos são positivos e pagamentos, negativos.'
+                          : ' Na conta, débitos são negativos (ou com D) e créditos, positivos.'}
+                        {' '}Juros, IOF e tarifas são reconhecidos pelo histórico.
+                      </p>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                  <div className="grid grid-cols-1 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="valorContrato" className="text-sm text-slate-300">Valor do Contrato *</Label>
+                      <Input
+                        id="valorContrato"
+                        type="number"
+                        step="0.01"
+                        placeholder="10000.00"
+                        value={formData.valorContrato}
+                        onChange={(e) => handleInputChange('valorContrato', e.target.value)}
+                        className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                      />
+                    </div>
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="dataVencimento" className="text-sm text-slate-300">Data de Vencimento *</Label>
-                    <Input
-                      id="dataVencimento"
-                      type="date"
-                      value={formData.dataVencimento}
-                      onChange={(e) => handleInputChange('dataVencimento', e.target.value)}
-                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
-                    />
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="dataContrato" className="text-sm text-slate-300">Data do Contrato *</Label>
+                      <Input
+                        id="dataContrato"
+                        type="date"
+                        value={formData.dataContrato}
+                        onChange={(e) => handleInputChange('dataContrato', e.target.value)}
+                        className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="dataVencimento" className="text-sm text-slate-300">Data de Vencimento *</Label>
+                      <Input
+                        id="dataVencimento"
+                        type="date"
+                        value={formData.dataVencimento}
+                        onChange={(e) => handleInputChange('dataVencimento', e.target.value)}
+                        className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                      />
+                    </div>
                   </div>
-                </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="taxaJuros" className="text-sm text-slate-300">Taxa de Juros (% a.m.) *</Label>
-                    <Input
-                      id="taxaJuros"
-                      type="number"
-                      step="0.01"
-                      placeholder="2.5"
-                      value={formData.taxaJuros}
-                      onChange={(e) => handleInputChange('taxaJuros', e.target.value)}
-                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
-                    />
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="taxaJuros" className="text-sm text-slate-300">Taxa de Juros (% a.m.) *</Label>
+                      <Input
+                        id="taxaJuros"
+                        type="number"
+                        step="0.01"
+                        placeholder="2.5"
+                        value={formData.taxaJuros}
+                        onChange={(e) => handleInputChange('taxaJuros', e.target.value)}
+                        className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="tipoJuros" className="text-sm text-slate-300">Tipo de Juros</Label>
+                      <Select value={formData.tipoJuros} onValueChange={(value) => handleInputChange('tipoJuros', value)}>
+                        <SelectTrigger className="bg-slate-700 border-slate-600 focus:border-primary text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="simples">Juros Simples</SelectItem>
+                          <SelectItem value="compostos">Juros Compostos</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="multaAtraso" className="text-sm text-slate-300">Multa por Atraso (%)</Label>
+                      <Input
+                        id="multaAtraso"
+                        type="number"
+                        step="0.01"
+                        placeholder="2.0"
+                        value={formData.multaAtraso}
+                        onChange={(e) => handleInputChange('multaAtraso', e.target.value)}
+                        className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="jurosMora" className="text-sm text-slate-300">Juros de Mora (% a.m.)</Label>
+                      <Input
+                        id="jurosMora"
+                        type="number"
+                        step="0.01"
+                        placeholder="1.0"
+                        value={formData.jurosMora}
+                        onChange={(e) => handleInputChange('jurosMora', e.target.value)}
+                        className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                      />
+                    </div>
                   </div>
+
                   <div className="space-y-2">
-                    <Label htmlFor="tipoJuros" className="text-sm text-slate-300">Tipo de Juros</Label>
-                    <Select value={formData.tipoJuros} onValueChange={(value) => handleInputChange('tipoJuros', value)}>
+                    <Label htmlFor="indiceCorrecao" className="text-sm text-slate-300">Índice de Correção</Label>
+                    <Select value={formData.indiceCorrecao} onValueChange={(value) => handleInputChange('indiceCorrecao', value)}>
                       <SelectTrigger className="bg-slate-700 border-slate-600 focus:border-primary text-white">
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="simples">Juros Simples</SelectItem>
-                        <SelectItem value="compostos">Juros Compostos</SelectItem>
+                        <SelectItem value="ipca">IPCA</SelectItem>
+                        <SelectItem value="igpm">IGP-M</SelectItem>
+                        <SelectItem value="inpc">INPC</SelectItem>
+                        <SelectItem value="selic">SELIC</SelectItem>
+                        <SelectItem value="tr">TR</SelectItem>
+                        <SelectItem value="ipcae">IPCA-E</SelectItem>
+                        <SelectItem value="cdi">CDI</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
-                </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="multaAtraso" className="text-sm text-slate-300">Multa por Atraso (%)</Label>
-                    <Input
-                      id="multaAtraso"
-                      type="number"
-                      step="0.01"
-                      placeholder="2.0"
-                      value={formData.multaAtraso}
-                      onChange={(e) => handleInputChange('multaAtraso', e.target.value)}
-                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="jurosMora" className="text-sm text-slate-300">Juros de Mora (% a.m.)</Label>
-                    <Input
-                      id="jurosMora"
-                      type="number"
-                      step="0.01"
-                      placeholder="1.0"
-                      value={formData.jurosMora}
-                      onChange={(e) => handleInputChange('jurosMora', e.target.value)}
-                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
-                    />
+                  {/* Pagamentos - extrato com imputação do art. 354 do CC */}
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-sm text-slate-300">Pagamentos</Label>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleInputChange('pagamentos', [...formData.pagamentos, { data: '', valor: '', observacao: '' }])}
+                        className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600"
+                      >
+                        Adicionar Pagamento
+                      </Button>
+                    </div>
+
+                    {formData.pagamentos.map((pagamento, index) => (
+                      <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1.5fr_auto] gap-2 items-end">
+                        <div className="space-y-1">
+                          <Label className="text-xs text-slate-400">Data</Label>
+                          <Input
+                            type="date"
+                            value={pagamento.data}
+                            onChange={(e) => {
+                              const novosPagamentos = [...formData.pagamentos];
+                              novosPagamentos[index] = { ...pagamento, data: e.target.value };
+                              handleInputChange('pagamentos', novosPagamentos);
+                            }}
+                            className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs text-slate-400">Valor</Label>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            placeholder="500.00"
+                            value={pagamento.valor}
+                            onChange={(e) => {
+                              const novosPagamentos = [...formData.pagamentos];
+                              novosPagamentos[index] = { ...pagamento, valor: e.target.value };
+                              handleInputChange('pagamentos', novosPagamentos);
+                            }}
+                            className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs text-slate-400">Observação</Label>
+                          <Input
+                            placeholder="Parcela 3"
+                            value={pagamento.observacao}
+                            onChange={(e) => {
+                              const novosPagamentos = [...formData.pagamentos];
+                              novosPagamentos[index] = { ...pagamento, observacao: e.target.value };
+                              handleInputChange('pagamentos', novosPagamentos);
+                            }}
+                            className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                          />
+                        </div>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleInputChange('pagamentos', formData.pagamentos.filter((_, i) => i !== index))}
+                          className="text-red-400 hover:bg-red-900/20 px-2"
+                        >
+                          ×
+                        </Button>
+                      </div>
+                    ))}
+
+                    {formData.pagamentos.length === 0 && (
+                      <p className="text-xs text-slate-500">
+                        Sem pagamentos, o saldo é atualizado do contrato até hoje. Cada pagamento quita primeiro a mora, depois os juros e por fim o capital (art. 354 CC).
+                      </p>
+                    )}
                   </div>
-                </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="indiceCorrecao" className="text-sm text-slate-300">Índice de Correção</Label>
-                  <Select value={formData.indiceCorrecao} onValueChange={(value) => handleInputChange('indiceCorrecao', value)}>
-                    <SelectTrigger className="bg-slate-700 border-slate-600 focus:border-primary text-white">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="ipca">IPCA</SelectItem>
-                      <SelectItem value="igpm">IGP-M</SelectItem>
-                      <SelectItem value="inpc">INPC</SelectItem>
-                      <SelectItem value="selic">SELIC</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+                  {/* Parcelamento - capitalização e revisão pela taxa média de mercado */}
+                  <div className="space-y-4 p-4 bg-slate-700/30 rounded-lg border border-slate-600">
+                    <div>
+                      <Label className="text-sm text-slate-300">Parcelamento (opcional)</Label>
+                      <p className="text-xs text-slate-500 mt-1">
+                        Com o número de parcelas, o cálculo verifica a capitalização de juros e refaz a dívida a juros simples (Gauss)
+                      </p>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="numeroParcelas" className="text-sm text-slate-300">Número de Parcelas</Label>
+                        <Input
+                          id="numeroParcelas"
+                          type="number"
+                          min="1"
+                          placeholder="48"
+                          value={formData.numeroParcelas}
+                          onChange={(e) => handleInputChange('numeroParcelas', e.target.value)}
+                          className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="parcelasPagas" className="text-sm text-slate-300">Parcelas Pagas</Label>
+                        <Input
+                          id="parcelasPagas"
+                          type="number"
+                          min="0"
+                          placeholder="12"
+                          value={formData.parcelasPagas}
+                          onChange={(e) => handleInputChange('parcelasPagas', e.target.value)}
+                          className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="valorParcela" className="text-sm text-slate-300">Valor da Parcela</Label>
+                        <Input
+                          id="valorParcela"
+                          type="number"
+                          step="0.01"
+                          placeholder="450.00"
+                          value={formData.valorParcela}
+                          onChange={(e) => handleInputChange('valorParcela', e.target.value)}
+                          className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="taxaAnualDeclarada" className="text-sm text-slate-300">Taxa Anual Declarada (% a.a.)</Label>
+                        <Input
+                          id="taxaAnualDeclarada"
+                          type="number"
+                          step="0.01"
+                          placeholder="34.49"
+                          value={formData.taxaAnualDeclarada}
+                          onChange={(e) => handleInputChange('taxaAnualDeclarada', e.target.value)}
+                          className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                        />
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label className="text-sm text-slate-300">Revisão pela Taxa Média</Label>
+                      <Select
+                        value={formData.sistemaAmortizacao || SEM_PARCELAMENTO}
+                        onValueChange={(value) => handleInputChange('sistemaAmortizacao', value === SEM_PARCELAMENTO ? '' : value)}
+                      >
+                        <SelectTrigger className="bg-slate-700 border-slate-600 focus:border-primary text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={SEM_PARCELAMENTO}>Não revisar</SelectItem>
+                          <SelectItem value="price">Tabela Price</SelectItem>
+                          <SelectItem value="sac">SAC</SelectItem>
+                          <SelectItem value="sacre">SACRE</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {formData.sistemaAmortizacao && (
+                      <>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                            <Label className="text-sm text-slate-300">Modalidade</Label>
+                            <Select value={formData.modalidadeCredito} onValueChange={(value) => handleInputChange('modalidadeCredito', value)}>
+                              <SelectTrigger className="bg-slate-700 border-slate-600 focus:border-primary text-white">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="veiculos">Aquisição de veículos</SelectItem>
+                                <SelectItem value="pessoal">Crédito pessoal não consignado</SelectItem>
+                                <SelectItem value="consignado">Crédito consignado</SelectItem>
+                                <SelectItem value="imobiliario">Financiamento imobiliário</SelectItem>
+                                <SelectItem value="capital_giro">Capital de giro (PJ)</SelectItem>
+                                <SelectItem value="outros">Outras</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="taxaMediaBacen" className="text-sm text-slate-300">Taxa Média BACEN (% a.m.){taxaMediaPorSerie ? '' : ' *'}</Label>
+                            <Input
+                              id="taxaMediaBacen"
+                              type="number"
+                              step="0.01"
+                              placeholder={taxaMediaPorSerie ? 'Série do BACEN' : '1.8'}
+                              value={formData.taxaMediaBacen}
+                              onChange={(e) => handleInputChange('taxaMediaBacen', e.target.value)}
+                              className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                            />
+                          </div>
+                        </div>
+                        <p className="text-xs text-slate-500">
+                          {taxaMediaPorSerie
+                            ? 'A taxa média vem da série do Banco Central para a modalidade no mês da contratação; o valor informado só é usado se a série não tiver esse mês'
+                            : 'Use a taxa média mensal divulgada pelo Banco Central para a modalidade no mês da contratação'}
+                        </p>
+
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor="repeticaoDobro" className="text-sm text-slate-300">Repetição em dobro (art. 42 CDC)</Label>
+                          <Switch
+                            id="repeticaoDobro"
+                            checked={formData.repeticaoDobro}
+                            onCheckedChange={(checked) => handleInputChange('repeticaoDobro', checked)}
+                          />
+                        </div>
+                      </>
+                    )}
+                  </div>
+                  </>
+                )}
 
                 <div className="space-y-2">
                   <Label htmlFor="observacoes" className="text-sm text-slate-300">Observações</Label>
@@ -378,7 +954,7 @@ const CalculoContratoBancario = () => {
                     <div className="p-4 bg-gradient-to-br from-green-600/20 to-green-600/10 border border-green-500/30 rounded-lg">
                       <div className="flex items-center justify-between">
                         <div>
-                          <p className="text-xs text-green-300 font-medium">Valor Total Devido</p>
+                          <p className="text-xs text-green-300 font-medium">{result.calculoRotativo ? 'Saldo Devedor Revisado' : 'Valor Total Devido'}</p>
                           <p className="text-2xl font-bold text-green-400">
                             R$ {result.valorTotal.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
                           </p>
@@ -390,7 +966,7 @@ const CalculoContratoBancario = () => {
                     <div className="p-4 bg-gradient-to-br from-orange-600/20 to-orange-600/10 border border-orange-500/30 rounded-lg">
                       <div className="flex items-center justify-between">
                         <div>
-                          <p className="text-xs text-orange-300 font-medium">Juros Total</p>
+                          <p className="text-xs text-orange-300 font-medium">{result.calculoRotativo ? 'Juros Lançados' : 'Juros Total'}</p>
                           <p className="text-2xl font-bold text-orange-400">
                             R$ {result.jurosTotal.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
                           </p>
@@ -402,19 +978,235 @@ const CalculoContratoBancario = () => {
 
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div className="p-3 bg-slate-700/30 rounded-lg border border-slate-600">
-                      <p className="text-xs text-slate-400">Valor Corrigido</p>
+                      <p className="text-xs text-slate-400">{result.calculoRotativo ? 'Saldo Devedor Cobrado' : 'Valor Corrigido'}</p>
                       <p className="text-lg font-semibold text-blue-400 mt-1">
                         R$ {result.valorCorrigido.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
                       </p>
                     </div>
                     <div className="p-3 bg-slate-700/30 rounded-lg border border-slate-600">
-                      <p className="text-xs text-slate-400">Diferença</p>
+                      <p className="text-xs text-slate-400">{result.calculoRotativo ? 'Juros Cobrados a Maior' : 'Diferença'}</p>
                       <p className="text-lg font-semibold text-red-400 mt-1">
                         R$ {result.diferenca.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
                       </p>
                     </div>
                   </div>
 
+                  {result.competenciasSemIndice && result.competenciasSemIndice.length > 0 && (
+                    <div className="p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-xs text-amber-300">
+                      {result.competenciasSemIndice.length} competência(s) sem índice cadastrado foram corrigidas com variação zero.
+                      Confira a memória da correção no detalhamento.
+                    </div>
+                  )}
+
+                  {result.calculoRotativo && (
+                    <div className="space-y-3 p-4 bg-slate-700/30 rounded-lg border border-slate-600">
+                      <div className="flex items-center justify-between">
+                        <h4 className="text-sm font-semibold text-white">Ciclos do Rotativo</h4>
+                        <span className="text-xs text-slate-400">
+                          {result.calculoRotativo.lancamentosLidos} lançamentos · {formatarDataCivil(result.calculoRotativo.inicio)} a {formatarDataCivil(result.calculoRotativo.fim)}
+                        </span>
+                      </div>
+                      <div className="max-h-64 overflow-y-auto rounded border border-slate-600">
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead className="text-slate-300">Fechamento</TableHead>
+                              <TableHead className="text-slate-300 text-right">Taxas</TableHead>
+                              <TableHead className="text-slate-300 text-right">Juros lançados</TableHead>
+                              <TableHead className="text-slate-300 text-right">Taxa média</TableHead>
+                              <TableHead className="text-slate-300 text-right">IOF</TableHead>
+                              <TableHead className="text-slate-300 text-right">Tarifas</TableHead>
+                              <TableHead className="text-slate-300 text-right">Diferença</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {result.calculoRotativo.ciclos.map((ciclo) => (
+                              <TableRow key={ciclo.inicio} className="text-slate-200">
+                                <TableCell>
+                                  {formatarDataCivil(ciclo.fim)}
+                                  {ciclo.emAberto && <p className="text-xs text-slate-400">em aberto</p>}
+                                </TableCell>
+                                <TableCell className={`text-right ${ciclo.acimaLimiteChequeEspecial ? 'text-red-400' : ''}`}>
+                                  {ciclo.taxaCobrada.toLocaleString('pt-BR')}% × {ciclo.taxaMedia.toLocaleString('pt-BR')}%
+                                </TableCell>
+                                <TableCell className="text-right">{formatarMoeda(ciclo.jurosLancados)}</TableCell>
+                                <TableCell className="text-right">{formatarMoeda(ciclo.jurosTaxaMedia)}</TableCell>
+                                <TableCell className="text-right">{formatarMoeda(ciclo.iof)}</TableCell>
+                                <TableCell className="text-right">{formatarMoeda(ciclo.totalTarifas)}</TableCell>
+                                <TableCell className={`text-right ${ciclo.diferencaJuros > 0 ? 'text-red-400' : ''}`}>
+                                  {formatarMoeda(ciclo.diferencaJuros)}
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </div>
+                      {result.calculoRotativo.ciclos.some(ciclo => ciclo.acimaLimiteChequeEspecial) && (
+                        <p className="text-xs text-red-400">Há ciclos com taxa acima do teto de 8% a.m. do cheque especial (Res. CMN 4.765/2019).</p>
+                      )}
+                      {result.calculoRotativo.linhasIgnoradas.length > 0 && (
+                        <p className="text-xs text-amber-300">
+                          {result.calculoRotativo.linhasIgnoradas.length} linha(s) do extrato sem data ou valor foram ignoradas.
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {result.extratoPagamentos && (
+                    <div className="space-y-3 p-4 bg-slate-700/30 rounded-lg border border-slate-600">
+                      <div className="flex items-center justify-between">
+                        <h4 className="text-sm font-semibold text-white">Extrato de Pagamentos</h4>
+                        <span className="text-xs text-slate-400">Imputação: mora → juros → capital</span>
+                      </div>
+                      <div className="max-h-64 overflow-y-auto rounded border border-slate-600">
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead className="text-slate-300">Data</TableHead>
+                              <TableHead className="text-slate-300">Evento</TableHead>
+                              <TableHead className="text-slate-300 text-right">Encargos</TableHead>
+                              <TableHead className="text-slate-300 text-right">Pago</TableHead>
+                              <TableHead className="text-slate-300 text-right">Saldo</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {result.extratoPagamentos.lancamentos.map((lancamento, index) => (
+                              <TableRow key={index} className="text-slate-200">
+                                <TableCell>{formatarDataCivil(lancamento.data)}</TableCell>
+                                <TableCell>
+                                  {lancamento.descricao}
+                                  {lancamento.pagamento > 0 && (
+                                    <p className="text-xs text-slate-400">
+                                      mora {formatarMoeda(lancamento.imputadoMora)} · juros {formatarMoeda(lancamento.imputadoJuros)} · capital {formatarMoeda(lancamento.imputadoPrincipal)}
+                                    </p>
+                                  )}
+                                </TableCell>
+                                <TableCell className="text-right">
+                                  {formatarMoeda(lancamento.correcao + lancamento.juros + lancamento.jurosMora + lancamento.multa)}
+                                </TableCell>
+                                <TableCell className="text-right">{lancamento.pagamento > 0 ? formatarMoeda(lancamento.pagamento) : '—'}</TableCell>
+                                <TableCell className="text-right">{formatarMoeda(lancamento.saldo)}</TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </div>
+                      {result.extratoPagamentos.saldoCredor > 0 && (
+                        <p className="text-xs text-green-400">
+                          Pago a maior: {formatarMoeda(result.extratoPagamentos.saldoCredor)}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {result.analiseCapitalizacao && (
+                    <div className="space-y-3 p-4 bg-slate-700/30 rounded-lg border border-slate-600">
+                      <div className="flex items-center justify-between gap-2">
+                        <h4 className="text-sm font-semibold text-white">Capitalização de Juros</h4>
+                        <div className="flex gap-2">
+                          {result.analiseCapitalizacao.capitalizacaoPactuada && (
+                            <Badge variant="secondary">Anual &gt; 12× mensal</Badge>
+                          )}
+                          {result.analiseCapitalizacao.taxaEfetivaSuperior && (
+                            <Badge variant="destructive">Taxa efetiva acima da declarada</Badge>
+                          )}
+                        </div>
+                      </div>
+                      <div className="grid grid-cols-2 gap-3 text-xs">
+                        <div>
+                          <p className="text-slate-400">Capitalização implícita</p>
+                          <p className="text-white font-medium">{result.analiseCapitalizacao.descricaoFrequencia}</p>
+                        </div>
+                        <div>
+                          <p className="text-slate-400">Taxa efetiva da parcela</p>
+                          <p className="text-white font-medium">
+                            {result.analiseCapitalizacao.taxaEfetivaMensal !== null
+                              ? `${result.analiseCapitalizacao.taxaEfetivaMensal.toLocaleString('pt-BR', { maximumFractionDigits: 4 })}% a.m.`
+                              : '—'}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-slate-400">Parcela cobrada × Gauss</p>
+                          <p className="text-white font-medium">
+                            {formatarMoeda(result.analiseCapitalizacao.valorParcela)} × {formatarMoeda(result.analiseCapitalizacao.parcelaGauss)}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-slate-400">Diferença total (juros simples)</p>
+                          <p className="text-green-400 font-semibold">
+                            {formatarMoeda(result.analiseCapitalizacao.totalContratado - result.analiseCapitalizacao.totalGauss)}
+                          </p>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
+                  {result.revisaoParcelamento && (
+                    <div className="space-y-3 p-4 bg-slate-700/30 rounded-lg border border-slate-600">
+                      <div className="flex items-center justify-between">
+                        <h4 className="text-sm font-semibold text-white">Revisão do Parcelamento</h4>
+                        {result.revisaoParcelamento.abusiva && (
+                          <Badge variant="destructive">
+                            Taxa {result.revisaoParcelamento.razaoTaxas.toLocaleString('pt-BR', { maximumFractionDigits: 2 })}x a média
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-slate-400">
+                        Taxa média de {result.revisaoParcelamento.taxaMedia.toLocaleString('pt-BR', { maximumFractionDigits: 4 })}% a.m. ({result.revisaoParcelamento.fonteTaxaMedia})
+                      </p>
+                      <div className="grid grid-cols-2 gap-3 text-xs">
+                        <div>
+                          <p className="text-slate-400">Total contratado</p>
+                          <p className="text-white font-medium">{formatarMoeda(result.revisaoParcelamento.totalContratado)}</p>
+                        </div>
+                        <div>
+                          <p className="text-slate-400">Total revisado</p>
+                          <p className="text-white font-medium">{formatarMoeda(result.revisaoParcelamento.totalRevisado)}</p>
+                        </div>
+                        <div>
+                          <p className="text-slate-400">Pago a maior (corrigido)</p>
+                          <p className="text-white font-medium">{formatarMoeda(result.revisaoParcelamento.valorPagoAMaiorCorrigido)}</p>
+                        </div>
+                        <div>
+                          <p className="text-slate-400">A restituir{result.revisaoParcelamento.repeticaoDobro ? ' (em dobro)' : ''}</p>
+                          {result.revisaoParcelamento.valorRestituir !== null ? (
+                            <p className="text-green-400 font-semibold">{formatarMoeda(result.revisaoParcelamento.valorRestituir)}</p>
+                          ) : (
+                            <p className="text-slate-300">Sem restituição: taxa sem abusividade</p>
+                          )}
+                        </div>
+                      </div>
+                      <div className="max-h-64 overflow-y-auto rounded border border-slate-600">
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead className="text-slate-300">Nº</TableHead>
+                              <TableHead className="text-slate-300">Vencimento</TableHead>
+                              <TableHead className="text-slate-300 text-right">Contratada</TableHead>
+                              <TableHead className="text-slate-300 text-right">Revisada</TableHead>
+                              <TableHead className="text-slate-300 text-right">Diferença</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {result.revisaoParcelamento.parcelas.map(parcela => (
+                              <TableRow key={parcela.numero} className={parcela.paga ? 'text-slate-200' : 'text-slate-400'}>
+                                <TableCell>{parcela.numero}{parcela.paga ? ' ✓' : ''}</TableCell>
+                                <TableCell>{formatarDataCivil(parcela.vencimento)}</TableCell>
+                                <TableCell className="text-right">{formatarMoeda(parcela.parcelaContratada)}</TableCell>
+                                <TableCell className="text-right">{formatarMoeda(parcela.parcelaRevisada)}</TableCell>
+                                <TableCell className="text-right">{formatarMoeda(parcela.diferenca)}</TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </div>
+                    </div>
+                  )}
+
+                  {result.resultadoEstruturado && (
+                    <MemoriaCalculoContrato estrutura={result.resultadoEstruturado} />
+                  )}
+
                   {/* Detalhamento - DESTAQUE PRINCIPAL */}
                    <div className="bg-gradient-to-br from-primary/10 to-primary/5 rounded-lg border-2 border-primary/30 p-6 mt-6">
                      <div className="flex items-center justify-between mb-4">
@@ -466,7 +1258,7 @@ const CalculoContratoBancario = () => {
                       <span>✓ Juros simples e compostos</span>
                     </div>
                     <div className="flex items-center justify-center gap-2 text-xs text-slate-500">
-                      <span>✓ Correção por IPCA, IGP-M, SELIC</span>
+                      <span>✓ Correção mês a mês por IPCA, IGP-M, INPC, SELIC, TR, IPCA-E e CDI</span>
                     </div>
                     <div className="flex items-center justify-center gap-2 text-xs text-slate-500">
                       <span>✓ Relatório detalhado</span>
@@ -503,23 +1295,47 @@ const CalculoContratoBancario = () => {
       <HistoricoCalculosModal
         isOpen={historicoModalOpen}
         onClose={() => setHistoricoModalOpen(false)}
-        onSelectCalculation={(calculo) => {
-          // Preencher formulário com dados do histórico
-          setFormData({
+        onSelectCalculation={(calculo) => reabrirCalculo(
+          {
             valorContrato: calculo.valor_contrato.toString(),
             dataContrato: calculo.data_contrato,
             dataVencimento: calculo.data_vencimento,
             taxaJuros: calculo.taxa_juros.toString(),
-            tipoJuros: calculo.tipo_juros,
+            // O rotativo grava o próprio regime; o formulário do contrato volta ao padrão
+            tipoJuros: calculo.tipo_juros === 'rotativo' ? 'simples' : calculo.tipo_juros,
             indiceCorrecao: calculo.indice_correcao,
-            valorPago: calculo.valor_pago?.toString() || '',
-            dataPagamentoParcial: calculo.data_pagamento_parcial || '',
+            pagamentos: Array.isArray(calculo.pagamentos) && calculo.pagamentos.length > 0
+              ? calculo.pagamentos
+              : calculo.valor_pago
+                ? [{ data: calculo.data_pagamento_parcial || calculo.data_vencimento, valor: calculo.valor_pago.toString(), observacao: '' }]
+                : [],
             multaAtraso: calculo.multa_atraso.toString(),
             jurosMora: calculo.juros_mora.toString(),
-            observacoes: calculo.observacoes || ''
-          });
-          toast.success('Dados do histórico carregados!');
-        }}
+            observacoes: calculo.observacoes || '',
+            sistemaAmortizacao: calculo.sistema_amortizacao || '',
+            numeroParcelas: calculo.numero_parcelas?.toString() || '',
+            parcelasPagas: calculo.parcelas_pagas?.toString() || '',
+            modalidadeCredito: calculo.modalidade_credito || 'veiculos',
+            taxaMediaBacen: calculo.taxa_media_bacen?.toString() || '',
+            repeticaoDobro: calculo.repeticao_dobro,
+            valorParcela: calculo.valor_parcela?.toString() || '',
+            taxaAnualDeclarada: calculo.taxa_anual_declarada?.toString() || '',
+            modoCalculo: calculo.modo_calculo,
+            tipoRotativo: calculo.tipo_rotativo || 'cheque_especial',
+            diaFechamento: calculo.dia_fechamento?.toString() || '',
+            diaVencimento: calculo.dia_vencimento?.toString() || '',
+            extratoTexto: calculo.extrato_texto || '',
+            taxasCiclos: calculo.taxas_ciclos || []
+          },
+          {
+            valorTotal: calculo.valor_total,
+            jurosTotal: calculo.juros_total,
+            valorCorrigido: calculo.valor_corrigido,
+            diferenca: calculo.diferenca,
+            detalhamento: calculo.detalhamento,
+            resultadoEstruturado: calculo.resultado_estruturado
+          }
+        )}
       />
     </div>
   );
@@ -0,0 +1,377 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { ArrowLeft, Calculator, DollarSign, FileText, Landmark, Zap } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { useUserTimezone } from "@/hooks/useUserTimezone";
+import UserMenu from "@/components/UserMenu";
+import {
+  ROTULOS_RECURSO,
+  calcularPreparo,
+  formatarNotaPreparo,
+  listarTribunais,
+  recursosDoTribunal
+} from "@/lib/custas";
+import type { ResultadoPreparo, TipoRecurso } from "@/types/custas";
+
+const formatarMoeda = (valor: number) => `R$ ${valor.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const CalculoCustas = () => {
+  const navigate = useNavigate();
+  const { profile } = useAuth();
+  const { getCurrentDateForAPI } = useUserTimezone();
+  const [resultado, setResultado] = useState<ResultadoPreparo | null>(null);
+
+  const [formData, setFormData] = useState({
+    tribunal: 'tjsp',
+    recurso: 'apelacao' as TipoRecurso,
+    valorBase: '',
+    dataReferencia: '',
+    autosFisicos: false,
+    volumes: '1',
+    depositoEfetuado: ''
+  });
+
+  const handleInputChange = (field: string, value: string | boolean) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const dataReferencia = formData.dataReferencia || getCurrentDateForAPI();
+  const recursos = recursosDoTribunal(formData.tribunal, dataReferencia);
+  const exigeDeposito = formData.recurso === 'recurso_revista';
+
+  const handleTribunal = (tribunal: string) => {
+    const disponiveis = recursosDoTribunal(tribunal, dataReferencia);
+    setFormData(prev => ({
+      ...prev,
+      tribunal,
+      recurso: disponiveis.includes(prev.recurso) ? prev.recurso : disponiveis[0]
+    }));
+  };
+
+  const handleCalcular = () => {
+    const valorBase = parseFloat(formData.valorBase) || 0;
+    if (valorBase <= 0 && formData.recurso !== 'agravo_instrumento') {
+      toast.error("Informe o valor da causa ou da condenação");
+      return;
+    }
+
+    try {
+      setResultado(calcularPreparo({
+        tribunal: formData.tribunal,
+        recurso: formData.recurso,
+        valorBase,
+        dataReferencia,
+        volumes: formData.autosFisicos ? parseInt(formData.volumes) || 1 : 0,
+        depositoEfetuado: exigeDeposito ? parseFloat(formData.depositoEfetuado) || 0 : 0
+      }));
+    } catch (error) {
+      console.error('Erro ao calcular:', error);
+      toast.error("Erro ao realizar o cálculo");
+    }
+  };
+
+  const handleCopiar = async (texto: string) => {
+    try {
+      await navigator.clipboard.writeText(texto);
+      toast.success('Relatório copiado para a área de transferência! Cole em qualquer editor.');
+    } catch (error) {
+      console.error('Erro ao copiar texto:', error);
+      toast.error('Erro ao copiar relatório. Tente novamente.');
+    }
+  };
+
+  const totalTokens = (profile?.token_balance || 0) + (profile?.plan_tokens || 0);
+
+  return (
+    <div className="h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex flex-col overflow-hidden">
+      {/* Header fixo */}
+      <div className="flex-shrink-0 bg-slate-800/50 border-b border-slate-700 backdrop-blur-sm">
+        <div className="container max-w-6xl mx-auto px-4 py-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => navigate('/dashboard')}
+                className="text-white hover:bg-slate-700"
+              >
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <img
+                src="/lovable-uploads/640a3b5c-aae7-485a-a595-a0d750c13d9b.png"
+                alt="Oráculo Jurídico"
+                className="h-8 w-auto"
+              />
+              <div>
+                <h1 className="text-xl font-bold text-white flex items-center gap-2">
+                  <Landmark className="h-5 w-5 text-primary" />
+                  Custas e Preparo Recursal
+                </h1>
+                <p className="text-xs text-slate-300 hidden md:block">
+                  Preparo, depósito recursal e porte de remessa por tribunal
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3">
+              {/* Contador de tokens */}
+              <div className="hidden md:flex items-center gap-2 bg-slate-700/50 rounded-lg px-3 py-2">
+                <Zap className="w-4 h-4 text-primary" />
+                <span className="text-sm font-medium text-white">
+                  {Math.floor(totalTokens).toLocaleString()}
+                </span>
+                <span className="text-xs text-slate-300">tokens</span>
+              </div>
+
+              <UserMenu />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Conteúdo principal com scroll interno */}
+      <div className="flex-1 overflow-y-auto">
+        <div className="container max-w-6xl mx-auto px-4 py-6 space-y-6">
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 items-start">
+
+            {/* Formulário */}
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-white">
+                  <FileText className="w-5 h-5 text-primary" />
+                  Dados do Recurso
+                </CardTitle>
+                <CardDescription>
+                  Tribunal, recurso e base de cálculo. Entre os tribunais estaduais, só o TJSP está cadastrado
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="tribunal" className="text-sm text-slate-300">Tribunal</Label>
+                    <Select value={formData.tribunal} onValueChange={handleTribunal}>
+                      <SelectTrigger className="bg-slate-700 border-slate-600 focus:border-primary text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {listarTribunais().map(({ tribunal, nomeTribunal }) => (
+                          <SelectItem key={tribunal} value={tribunal}>{nomeTribunal}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="recurso" className="text-sm text-slate-300">Recurso</Label>
+                    <Select value={formData.recurso} onValueChange={(value) => handleInputChange('recurso', value)}>
+                      <SelectTrigger className="bg-slate-700 border-slate-600 focus:border-primary text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {recursos.map(recurso => (
+                          <SelectItem key={recurso} value={recurso}>{ROTULOS_RECURSO[recurso]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="valorBase" className="text-sm text-slate-300">
+                      {formData.tribunal === 'jt' ? 'Valor da Condenação' : 'Valor da Causa'}
+                    </Label>
+                    <Input
+                      id="valorBase"
+                      type="number"
+                      step="0.01"
+                      value={formData.valorBase}
+                      onChange={(e) => handleInputChange('valorBase', e.target.value)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="dataReferencia" className="text-sm text-slate-300">Data do Recolhimento</Label>
+                    <Input
+                      id="dataReferencia"
+                      type="date"
+                      value={formData.dataReferencia}
+                      onChange={(e) => handleInputChange('dataReferencia', e.target.value)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                  </div>
+                </div>
+
+                {exigeDeposito && (
+                  <div className="space-y-2">
+                    <Label htmlFor="depositoEfetuado" className="text-sm text-slate-300">Depósito Já Efetuado (recurso ordinário)</Label>
+                    <Input
+                      id="depositoEfetuado"
+                      type="number"
+                      step="0.01"
+                      value={formData.depositoEfetuado}
+                      onChange={(e) => handleInputChange('depositoEfetuado', e.target.value)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                    <p className="text-xs text-slate-500">Somado ao novo depósito, não passa do valor da condenação (Súmula 128, I, do TST)</p>
+                  </div>
+                )}
+
+                <div className="space-y-3 p-3 bg-slate-700/30 rounded-lg border border-slate-600">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <Label htmlFor="autosFisicos" className="text-sm text-slate-300">Autos físicos</Label>
+                      <p className="text-xs text-slate-500">Em autos eletrônicos não há porte de remessa e retorno</p>
+                    </div>
+                    <Switch
+                      id="autosFisicos"
+                      checked={formData.autosFisicos}
+                      onCheckedChange={(checked) => handleInputChange('autosFisicos', checked)}
+                    />
+                  </div>
+                  {formData.autosFisicos && (
+                    <div className="space-y-2">
+                      <Label htmlFor="volumes" className="text-xs text-slate-400">Volumes</Label>
+                      <Input
+                        id="volumes"
+                        type="number"
+                        min="1"
+                        value={formData.volumes}
+                        onChange={(e) => handleInputChange('volumes', e.target.value)}
+                        className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                      />
+                    </div>
+                  )}
+                </div>
+
+                <Button
+                  onClick={handleCalcular}
+                  className="w-full bg-primary hover:bg-primary/90 py-3 text-lg font-semibold"
+                  size="lg"
+                >
+                  <Calculator className="h-5 w-5 mr-2" />
+                  Calcular
+                </Button>
+              </CardContent>
+            </Card>
+
+            {/* Resultado */}
+            {resultado ? (
+              <Card className="bg-slate-800/50 border-slate-700">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-white">
+                    <DollarSign className="w-5 h-5 text-green-400" />
+                    Valor a Recolher
+                  </CardTitle>
+                  <CardDescription>
+                    {ROTULOS_RECURSO[resultado.regra.recurso]} · {resultado.tabela.nomeTribunal} · tabela {resultado.tabela.ano}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="p-4 bg-gradient-to-br from-green-600/20 to-green-600/10 border border-green-500/30 rounded-lg">
+                    <p className="text-xs text-green-300 font-medium">Total</p>
+                    <p className="text-2xl font-bold text-green-400">{formatarMoeda(resultado.total)}</p>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-xs">
+                    <div className="p-3 bg-slate-700/30 rounded-lg border border-slate-600">
+                      <p className="text-slate-400">Custas / preparo</p>
+                      <p className="text-white font-semibold mt-1">{formatarMoeda(resultado.custas)}</p>
+                    </div>
+                    <div className="p-3 bg-slate-700/30 rounded-lg border border-slate-600">
+                      <p className="text-slate-400">Depósito recursal</p>
+                      <p className="text-white font-semibold mt-1">{formatarMoeda(resultado.depositoRecursal)}</p>
+                    </div>
+                    <div className="p-3 bg-slate-700/30 rounded-lg border border-slate-600">
+                      <p className="text-slate-400">Porte de remessa</p>
+                      <p className="text-white font-semibold mt-1">{formatarMoeda(resultado.porteRemessa)}</p>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2 p-4 bg-slate-700/30 rounded-lg border border-slate-600">
+                    <h4 className="text-sm font-semibold text-white">Memória e fundamento</h4>
+                    <ul className="space-y-1 text-sm text-slate-300">
+                      {resultado.memoria.map((linha, index) => (
+                        <li key={index}>• {linha}</li>
+                      ))}
+                      <li>• Fundamento: {resultado.regra.fundamento}.</li>
+                    </ul>
+                  </div>
+
+                  {resultado.alertas.length > 0 && (
+                    <div className="space-y-1 p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-xs text-amber-300">
+                      {resultado.alertas.map((alerta, index) => (
+                        <p key={index}>⚠ {alerta}</p>
+                      ))}
+                    </div>
+                  )}
+
+                  <Button
+                    onClick={() => handleCopiar(formatarNotaPreparo(resultado))}
+                    variant="outline"
+                    className="w-full bg-primary/10 border-primary/30 text-primary hover:bg-primary/20"
+                  >
+                    Copiar Resumo
+                  </Button>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card className="bg-slate-800/50 border-slate-700">
+                <CardContent className="p-8 text-center">
+                  <Landmark className="w-16 h-16 text-slate-500 mx-auto mb-4" />
+                  <h3 className="text-lg font-semibold text-white mb-2">
+                    Aguardando Dados
+                  </h3>
+                  <p className="text-sm text-slate-400 max-w-md mx-auto">
+                    Escolha o tribunal e o recurso e informe a base de cálculo
+                    para obter o valor do preparo.
+                  </p>
+
+                  <div className="mt-6 space-y-2">
+                    <div className="flex items-center justify-center gap-2 text-xs text-slate-500">
+                      <span>✓ Tabelas versionadas por tribunal e ano</span>
+                    </div>
+                    <div className="flex items-center justify-center gap-2 text-xs text-slate-500">
+                      <span>✓ Mínimos, máximos e depósito recursal trabalhista</span>
+                    </div>
+                    <div className="flex items-center justify-center gap-2 text-xs text-slate-500">
+                      <span>✓ Valor anexável ao prazo recursal na Agenda Jurídica</span>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          {/* Informações importantes */}
+          <Card className="bg-amber-900/20 border-amber-500/30">
+            <CardContent className="p-4">
+              <div className="flex items-start gap-3">
+                <div className="p-2 bg-amber-500/20 rounded-lg flex-shrink-0">
+                  <FileText className="w-5 h-5 text-amber-400" />
+                </div>
+                <div>
+                  <h4 className="font-semibold text-amber-200 mb-2">Informações Importantes</h4>
+                  <div className="space-y-1 text-sm text-amber-300/80">
+                    <p>• Confira sempre o valor na guia emitida pelo tribunal antes do recolhimento</p>
+                    <p>• Beneficiários da justiça gratuita são dispensados do preparo (art. 98, § 1º, do CPC)</p>
+                    <p>• O preparo deve ser comprovado no ato de interposição do recurso (art. 1.007 do CPC)</p>
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalculoCustas;
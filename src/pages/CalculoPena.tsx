@@ -18,17 +18,32 @@ import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
 import HistoricoCustodia from "@/components/pena/HistoricoCustodia";
 import DadosSentencaAvancados from "@/components/pena/DadosSentencaAvancados";
-import type { DadosSentenca } from "@/types/pena";
-
+import type { DadosSentenca, EpisodioCustodia } from "@/types/pena";
+import {
+  calcularDatasChave,
+  contarDiasPeriodo,
+  fracionarPena,
+  obterHojeISO,
+  somarDiasISO,
+  somarPeriodoCalendario
+} from "@/lib/pena";
+import { imprimirAtestadoPena, type DadosAtestadoPena } from "@/lib/atestadoPena";
+import dayjs from "dayjs";
+
+// Progressão e livramento ficam sem data quando vedados ou além do limite do art. 75 CP
 interface ResultadoCalculo {
-  dataProgressao: Date;
-  dataLivramentoCondicional: Date;
+  dataProgressao?: Date;
+  dataLivramentoCondicional?: Date;
+  livramentoVedado?: boolean;
   dataFinalPena: Date;
   penatotalDias: number;
   diasRemidos: number;
   regimeProgressao: string;
 }
 
+const formatarMarco = (data: Date | undefined, semData = "—") =>
+  data ? format(data, "dd/MM/yyyy", { locale: ptBR }) : semData;
+
 export default function CalculoPena() {
   usePageTitle();
   useSEO({
@@ -51,6 +66,8 @@ export default function CalculoPena() {
 
   // Estado do resultado
   const [resultado, setResultado] = useState<ResultadoCalculo | null>(null);
+  // Preenchido apenas pelo cálculo a partir dos dados da sentença
+  const [dadosAtestado, setDadosAtestado] = useState<DadosAtestadoPena | null>(null);
   const [loading, setLoading] = useState(false);
 
   const calcularPena = () => {
@@ -66,14 +83,15 @@ export default function CalculoPena() {
     setLoading(true);
 
     try {
-      // Converter pena para dias
-      const anos = parseInt(penananos) || 0;
-      const meses = parseInt(penaMeses) || 0;
-      const dias = parseInt(penaDias) || 0;
+      // Pena em anos, meses e dias, contada pelo calendário comum a partir do início (art. 10 CP)
+      const pena = {
+        anos: parseInt(penananos) || 0,
+        meses: parseInt(penaMeses) || 0,
+        dias: parseInt(penaDias) || 0
+      };
       const diasRemidosNum = parseInt(diasRemidos) || 0;
-
-      const penatotalDias = (anos * 365) + (meses * 30) + dias;
-      const penaLiquidaDias = penatotalDias - diasRemidosNum;
+      const inicioISO = format(dataInicio, "yyyy-MM-dd");
+      const penatotalDias = contarDiasPeriodo(inicioISO, pena);
 
       // Definir percentuais conforme o tipo
       let percentualProgressao = 0;
@@ -98,18 +116,13 @@ export default function CalculoPena() {
           break;
       }
 
-      // Calcular datas
-      const diasParaProgressao = Math.floor(penaLiquidaDias * percentualProgressao);
-      const diasParaLivramento = Math.floor(penaLiquidaDias * percentualLivramento);
-
-      const dataProgressao = new Date(dataInicio);
-      dataProgressao.setDate(dataProgressao.getDate() + diasParaProgressao);
-
-      const dataLivramentoCondicional = new Date(dataInicio);
-      dataLivramentoCondicional.setDate(dataLivramentoCondicional.getDate() + diasParaLivramento);
+      // Último dia da fração da pena; os dias remidos contam como pena cumprida e antecipam o marco
+      const calcularMarco = (fracao: number) =>
+        dayjs(somarDiasISO(somarPeriodoCalendario(inicioISO, fracionarPena(pena, fracao)), -diasRemidosNum)).toDate();
 
-      const dataFinalPena = new Date(dataInicio);
-      dataFinalPena.setDate(dataFinalPena.getDate() + penaLiquidaDias);
+      const dataProgressao = calcularMarco(percentualProgressao);
+      const dataLivramentoCondicional = calcularMarco(percentualLivramento);
+      const dataFinalPena = calcularMarco(1);
 
       // Determinar próximo regime
       let regimeProgressao = "";
@@ -133,6 +146,7 @@ export default function CalculoPena() {
         diasRemidos: diasRemidosNum,
         regimeProgressao
       });
+      setDadosAtestado(null);
 
       toast({
         title: "Cálculo realizado",
@@ -154,37 +168,38 @@ export default function CalculoPena() {
   const exportarPDF = () => {
     if (!resultado) return;
 
-    // Implementar exportação PDF aqui
-    toast({
-      title: "Exportar PDF",
-      description: "Funcionalidade em desenvolvimento"
-    });
+    if (!dadosAtestado) {
+      toast({
+        title: "Exportar PDF",
+        description: "O atestado de pena é gerado a partir dos dados da sentença ou do histórico de custódia"
+      });
+      return;
+    }
+
+    if (!imprimirAtestadoPena(dadosAtestado)) {
+      toast({
+        title: "Exportar PDF",
+        description: "Permita pop-ups para gerar o atestado de pena",
+        variant: "destructive"
+      });
+    }
   };
 
   const handleCalculoAvancado = (dadosSentenca: DadosSentenca) => {
     setLoading(true);
     try {
-      // Calcular datas baseado nos dados da sentença
+      // Sem histórico de custódia, considera cumprimento contínuo desde o início informado
+      const hojeISO = obterHojeISO();
+      const inicioISO = dadosSentenca.dataInicioTeorica || hojeISO;
+      const sentenca = { ...dadosSentenca, dataInicioTeorica: inicioISO };
+      const episodios: EpisodioCustodia[] = [{ id: 'inicio', tipo: 'Cumprimento de Pena', inicio: inicioISO, computavel: true }];
+      const datas = calcularDatasChave(sentenca, episodios, [], hojeISO);
+
+      // dayjs interpreta a data ISO no fuso local, sem o deslocamento de new Date('YYYY-MM-DD')
       const totalDias = dadosSentenca.totalDias;
-      const fracaoProgressao = dadosSentenca.fracaoProgressao;
-      const fracaoLivramento = dadosSentenca.fracaoLivramento || dadosSentenca.fracaoProgressao * 2;
-
-      // Se tem data de início, usar ela, senão usar data atual
-      const dataInicioCalculo = dadosSentenca.dataInicioTeorica 
-        ? new Date(dadosSentenca.dataInicioTeorica) 
-        : new Date();
-
-      const diasParaProgressao = Math.floor(totalDias * fracaoProgressao);
-      const diasParaLivramento = Math.floor(totalDias * fracaoLivramento);
-
-      const dataProgressao = new Date(dataInicioCalculo);
-      dataProgressao.setDate(dataProgressao.getDate() + diasParaProgressao);
-
-      const dataLivramentoCondicional = new Date(dataInicioCalculo);
-      dataLivramentoCondicional.setDate(dataLivramentoCondicional.getDate() + diasParaLivramento);
-
-      const dataFinalPena = new Date(dataInicioCalculo);
-      dataFinalPena.setDate(dataFinalPena.getDate() + totalDias);
+      const dataProgressao = datas.dataProgressao ? dayjs(datas.dataProgressao).toDate() : undefined;
+      const dataLivramentoCondicional = datas.dataLivramento ? dayjs(datas.dataLivramento).toDate() : undefined;
+      const dataFinalPena = dayjs(datas.dataTermino).toDate();
 
       // Determinar próximo regime
       let regimeProgressao = "";
@@ -203,11 +218,21 @@ export default function CalculoPena() {
       setResultado({
         dataProgressao,
         dataLivramentoCondicional,
+        livramentoVedado: datas.livramentoVedado,
         dataFinalPena,
         penatotalDias: totalDias,
         diasRemidos: 0,
         regimeProgressao
       });
+      setDadosAtestado({
+        dadosSentenca: sentenca,
+        episodios,
+        remissoes: [],
+        eventos: [],
+        resultado: datas,
+        incluirDiaSoltura: false,
+        dataReferencia: hojeISO
+      });
 
       toast({
         title: "Cálculo realizado",
@@ -235,6 +260,7 @@ export default function CalculoPena() {
     setTipoPercentual("primario");
     setDiasRemidos("");
     setResultado(null);
+    setDadosAtestado(null);
   };
 
   return (
@@ -488,7 +514,7 @@ export default function CalculoPena() {
                         <div>
                           <p className="text-xs text-primary font-medium">Progressão de Regime</p>
                           <p className="text-lg font-bold text-primary">
-                            {format(resultado.dataProgressao, "dd/MM/yyyy", { locale: ptBR })}
+                            {formatarMarco(resultado.dataProgressao)}
                           </p>
                           <p className="text-xs text-slate-400">
                             Para regime {resultado.regimeProgressao}
@@ -503,7 +529,7 @@ export default function CalculoPena() {
                         <div>
                           <p className="text-xs text-emerald-400 font-medium">Livramento Condicional</p>
                           <p className="text-lg font-bold text-emerald-400">
-                            {format(resultado.dataLivramentoCondicional, "dd/MM/yyyy", { locale: ptBR })}
+                            {formatarMarco(resultado.dataLivramentoCondicional, resultado.livramentoVedado ? "Vedado" : "—")}
                           </p>
                         </div>
                         <Clock className="w-8 h-8 text-emerald-400" />
@@ -557,7 +583,7 @@ export default function CalculoPena() {
                         <div className="flex-1">
                           <p className="text-sm text-white">Progressão para {resultado.regimeProgressao}</p>
                           <p className="text-xs text-slate-400">
-                            {format(resultado.dataProgressao, "dd/MM/yyyy", { locale: ptBR })}
+                            {formatarMarco(resultado.dataProgressao)}
                           </p>
                         </div>
                       </div>
@@ -567,7 +593,7 @@ export default function CalculoPena() {
                         <div className="flex-1">
                           <p className="text-sm text-white">Livramento Condicional</p>
                           <p className="text-xs text-slate-400">
-                            {format(resultado.dataLivramentoCondicional, "dd/MM/yyyy", { locale: ptBR })}
+                            {formatarMarco(resultado.dataLivramentoCondicional, resultado.livramentoVedado ? "Vedado" : "—")}
                           </p>
                         </div>
                       </div>
@@ -5,7 +5,9 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
-import { ArrowLeft, Calculator, Heart, TrendingUp, FileText, Zap, Users, Scale } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Calculator, Heart, TrendingUp, FileText, Zap, Users, Scale, Download, Upload } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
@@ -15,32 +17,11 @@ import UserMenu from "@/components/UserMenu";
 import { useScrollDirection } from "@/hooks/useScrollDirection";
 import { useExportDocument } from "@/hooks/useExportDocument";
 import HistoricoPensaoModal from "@/components/HistoricoPensaoModal";
+import ImportarExtratoPensao from "@/components/ImportarExtratoPensao";
 import { useUserTimezone } from "@/hooks/useUserTimezone";
+import type { CalculoPensao as CalculoResult, PagamentoPensao as Pagamento, RendaMensal, RitoExecucao, TipoCalculoPensao } from "@/types/pensao";
 
-
-interface Pagamento {
-  data: string;
-  valor: string;
-  observacao: string;
-}
-
-interface CalculoResult {
-  valorPensao: number;
-  percentualRenda: number;
-  valorTotalAtrasado: number;
-  multa: number;
-  juros: number;
-  valorCorrigido: number;
-  detalhamento: string;
-  totalParcelas?: number;
-  saldoDevedor?: number;
-  proximoVencimento?: string;
-  proximoValorTotal?: number;
-  totalPagamentosRealizados?: number;
-  parcelasEmAtraso?: number;
-  valorTotalOriginal?: number;
-  valorProximaPensao?: number;
-}
+const formatarDataCivil = (data: string) => `${data.slice(8, 10)}/${data.slice(5, 7)}/${data.slice(0, 4)}`;
 
 const CalculoPensaoAlimenticia = () => {
   const navigate = useNavigate();
@@ -48,22 +29,32 @@ const CalculoPensaoAlimenticia = () => {
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<CalculoResult | null>(null);
   const [historicoModalOpen, setHistoricoModalOpen] = useState(false);
+  const [importarExtratoOpen, setImportarExtratoOpen] = useState(false);
   const { visible: menuVisible } = useScrollDirection();
-  const { copyCalculoPensao, loading: exportLoading } = useExportDocument();
+  const { copyCalculoPensao, exportCalculoPensaoPlanilha, loading: exportLoading } = useExportDocument();
   const { userTimezone } = useUserTimezone();
   
   const [formData, setFormData] = useState({
     numeroFilhos: '1',
     idadesFilhos: [''],
+    tipoCalculo: 'fixo' as TipoCalculoPensao,
     valorEstipulado: '',
+    percentualSalarioMinimo: '',
+    percentualPensao: '',
+    historicoRenda: [] as RendaMensal[],
     diaVencimento: '5',
     dataInicioObrigacao: '',
     mesesAtrasados: '', // Novo campo para meses atrasados
     pagamentos: [] as Pagamento[],
+    tribunal: 'outro', // 'outro' com o INPC puro
+    indiceCorrecao: 'inpc',
+    jurosMensais: '1',
+    aplicarMulta: false,
+    dataAjuizamento: '', // separa o rito da prisão do rito da penhora
     observacoes: ''
   });
 
-  const handleInputChange = (field: string, value: string | Pagamento[]) => {
+  const handleInputChange = (field: string, value: string | boolean | Pagamento[] | RendaMensal[]) => {
     if (field === 'numeroFilhos' && typeof value === 'string') {
       const numFilhos = parseInt(value);
       const novasIdades = Array.from({ length: numFilhos }, (_, i) => 
@@ -74,9 +65,9 @@ const CalculoPensaoAlimenticia = () => {
         numeroFilhos: value,
         idadesFilhos: novasIdades
       }));
-    } else if (field === 'pagamentos' && Array.isArray(value)) {
-      setFormData(prev => ({ ...prev, pagamentos: value }));
-    } else if (typeof value === 'string') {
+    } else if (Array.isArray(value)) {
+      setFormData(prev => ({ ...prev, [field]: value }));
+    } else if (typeof value === 'string' || typeof value === 'boolean') {
       setFormData(prev => ({ ...prev, [field]: value }));
     }
   };
@@ -87,8 +78,14 @@ const CalculoPensaoAlimenticia = () => {
     setFormData(prev => ({ ...prev, idadesFilhos: novasIdades }));
   };
 
-  const handleCalcular = async () => {
-    if (!formData.valorEstipulado || !formData.dataInicioObrigacao) {
+  // Recebe os dados explicitamente quando o cálculo é refeito logo após alterar o formulário
+  const handleCalcular = async (dados: typeof formData = formData) => {
+    const valorInformado = dados.tipoCalculo === 'salario_minimo'
+      ? dados.percentualSalarioMinimo
+      : dados.tipoCalculo === 'percentual_renda'
+        ? dados.percentualPensao && dados.historicoRenda.some(renda => renda.competencia && renda.valor)
+        : dados.valorEstipulado;
+    if (!valorInformado || !dados.dataInicioObrigacao) {
       toast.error("Preencha todos os campos obrigatórios");
       return;
     }
@@ -99,11 +96,10 @@ const CalculoPensaoAlimenticia = () => {
 
       // Preparar dados para envio - converter idades para compatibilidade
       const dadosEnvio = {
-        ...formData,
-        idadeFilho: formData.idadesFilhos[0] || '', // Primeira idade para compatibilidade
-        idadesFilhos: formData.idadesFilhos,
-        mesesAtraso: formData.mesesAtrasados, // Enviar meses atrasados se informado
-        tipoCalculo: 'fixo' // Sempre valor fixo agora
+        ...dados,
+        idadeFilho: dados.idadesFilhos[0] || '', // Primeira idade para compatibilidade
+        idadesFilhos: dados.idadesFilhos,
+        mesesAtraso: dados.mesesAtrasados // Enviar meses atrasados se informado
       };
 
       const { data, error } = await supabase.functions.invoke('calculo-pensao-alimenticia', {
@@ -122,6 +118,21 @@ const CalculoPensaoAlimenticia = () => {
     }
   };
 
+  // Os meses importados substituem os lançamentos já existentes nesses meses; as datas geradas
+  // sem valor são descartadas
+  const handleImportarPagamentos = (importados: Pagamento[]) => {
+    const mesesImportados = new Set(importados.map(pagamento => pagamento.data.slice(0, 7)));
+    const pagamentos = [
+      ...formData.pagamentos.filter(pagamento => pagamento.valor && !mesesImportados.has(pagamento.data.slice(0, 7))),
+      ...importados
+    ].sort((a, b) => a.data.localeCompare(b.data));
+    const dados = { ...formData, pagamentos };
+
+    setFormData(dados);
+    toast.success(`${importados.length} pagamento(s) importado(s) do extrato`);
+    handleCalcular(dados);
+  };
+
   const totalTokens = (profile?.token_balance || 0) + (profile?.plan_tokens || 0);
 
   return (
@@ -177,6 +188,16 @@ const CalculoPensaoAlimenticia = () => {
                 </svg>
                 Histórico
               </Button>
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigate('/simulador-revisional-pensao')}
+                className="hidden md:flex items-center gap-2 bg-slate-700/50 border-slate-600 text-white hover:bg-slate-600"
+              >
+                <Scale className="w-4 h-4" />
+                Revisional
+              </Button>
               
               <UserMenu />
             </div>
@@ -238,18 +259,117 @@ const CalculoPensaoAlimenticia = () => {
               </CardHeader>
               <CardContent className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="valorEstipulado" className="text-sm text-slate-300">Valor Estipulado da Pensão *</Label>
-                  <Input
-                    id="valorEstipulado"
-                    type="number"
-                    step="0.01"
-                    placeholder="500.00"
-                    value={formData.valorEstipulado}
-                    onChange={(e) => handleInputChange('valorEstipulado', e.target.value)}
-                    className="bg-slate-700 border-slate-600 focus:border-primary text-white"
-                  />
+                  <Label htmlFor="tipoCalculo" className="text-sm text-slate-300">Forma de Fixação *</Label>
+                  <Select value={formData.tipoCalculo} onValueChange={(value) => handleInputChange('tipoCalculo', value)}>
+                    <SelectTrigger className="bg-slate-700 border-slate-600 focus:border-primary text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="fixo">Valor fixo</SelectItem>
+                      <SelectItem value="salario_minimo">Percentual do salário mínimo</SelectItem>
+                      <SelectItem value="percentual_renda">Percentual da renda líquida</SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
 
+                {formData.tipoCalculo === 'fixo' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="valorEstipulado" className="text-sm text-slate-300">Valor Estipulado da Pensão *</Label>
+                    <Input
+                      id="valorEstipulado"
+                      type="number"
+                      step="0.01"
+                      placeholder="500.00"
+                      value={formData.valorEstipulado}
+                      onChange={(e) => handleInputChange('valorEstipulado', e.target.value)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                  </div>
+                )}
+
+                {formData.tipoCalculo === 'salario_minimo' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="percentualSalarioMinimo" className="text-sm text-slate-300">Percentual do Salário Mínimo (%) *</Label>
+                    <Input
+                      id="percentualSalarioMinimo"
+                      type="number"
+                      step="0.01"
+                      placeholder="30"
+                      value={formData.percentualSalarioMinimo}
+                      onChange={(e) => handleInputChange('percentualSalarioMinimo', e.target.value)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                    <p className="text-xs text-slate-400">Cada parcela usa o salário mínimo vigente no mês do vencimento</p>
+                  </div>
+                )}
+
+                {formData.tipoCalculo === 'percentual_renda' && (
+                  <div className="space-y-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="percentualPensao" className="text-sm text-slate-300">Percentual da Renda Líquida (%) *</Label>
+                      <Input
+                        id="percentualPensao"
+                        type="number"
+                        step="0.01"
+                        placeholder="30"
+                        value={formData.percentualPensao}
+                        onChange={(e) => handleInputChange('percentualPensao', e.target.value)}
+                        className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                      />
+                    </div>
+                    <div className="space-y-2 p-3 bg-slate-700/30 rounded-lg border border-slate-600">
+                      <div className="flex items-center justify-between">
+                        <Label className="text-sm text-slate-300">Histórico de Renda *</Label>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleInputChange('historicoRenda', [...formData.historicoRenda, { competencia: '', valor: '' }])}
+                          className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600"
+                        >
+                          Adicionar Renda
+                        </Button>
+                      </div>
+                      <p className="text-xs text-slate-400">Cada renda vale a partir do mês informado, até a próxima (um lançamento por contracheque ou reajuste)</p>
+                      {formData.historicoRenda.map((renda, index) => (
+                        <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                          <Input
+                            type="month"
+                            value={renda.competencia}
+                            onChange={(e) => {
+                              const novasRendas = [...formData.historicoRenda];
+                              novasRendas[index] = { ...renda, competencia: e.target.value };
+                              handleInputChange('historicoRenda', novasRendas);
+                            }}
+                            className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                          />
+                          <Input
+                            type="number"
+                            step="0.01"
+                            placeholder="Renda líquida"
+                            value={renda.valor}
+                            onChange={(e) => {
+                              const novasRendas = [...formData.historicoRenda];
+                              novasRendas[index] = { ...renda, valor: e.target.value };
+                              handleInputChange('historicoRenda', novasRendas);
+                            }}
+                            className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                          />
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleInputChange('historicoRenda', formData.historicoRenda.filter((_, i) => i !== index))}
+                            className="text-red-400 hover:bg-red-900/20 px-2"
+                          >
+                            ×
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <div className="space-y-2">
                   <Label htmlFor="numeroFilhos" className="text-sm text-slate-300">Número de Filhos *</Label>
                   <Select value={formData.numeroFilhos} onValueChange={(value) => handleInputChange('numeroFilhos', value)}>
@@ -310,6 +430,18 @@ const CalculoPensaoAlimenticia = () => {
                   <p className="text-xs text-slate-400">Data da determinação judicial ou acordo</p>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="dataAjuizamento" className="text-sm text-slate-300">Data de Ajuizamento da Execução (opcional)</Label>
+                  <Input
+                    id="dataAjuizamento"
+                    type="date"
+                    value={formData.dataAjuizamento}
+                    onChange={(e) => handleInputChange('dataAjuizamento', e.target.value)}
+                    className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                  />
+                  <p className="text-xs text-slate-400">Separa os demonstrativos do rito da prisão e do rito da penhora (art. 528, § 7º, do CPC)</p>
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="mesesAtrasados" className="text-sm text-slate-300">Meses em Atraso (opcional)</Label>
                   <Input
@@ -324,6 +456,47 @@ const CalculoPensaoAlimenticia = () => {
                   <p className="text-xs text-slate-400">Quantos meses estão em atraso (deixe vazio para cálculo automático)</p>
                 </div>
 
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="tribunal" className="text-sm text-slate-300">Correção Monetária</Label>
+                    <Select value={formData.tribunal} onValueChange={(value) => handleInputChange('tribunal', value)}>
+                      <SelectTrigger className="bg-slate-700 border-slate-600 focus:border-primary text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="outro">INPC (IBGE)</SelectItem>
+                        <SelectItem value="tjsp">TJSP - Tabela Prática (INPC)</SelectItem>
+                        <SelectItem value="tjmg">TJMG - Fator da CGJ (INPC)</SelectItem>
+                        <SelectItem value="tjdft">TJDFT (INPC)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="jurosMensais" className="text-sm text-slate-300">Juros de Mora (% a.m.)</Label>
+                    <Input
+                      id="jurosMensais"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.jurosMensais}
+                      onChange={(e) => handleInputChange('jurosMensais', e.target.value)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between gap-4 p-3 bg-slate-700/30 rounded-lg border border-slate-600">
+                  <div>
+                    <Label htmlFor="aplicarMulta" className="text-sm text-slate-300">Multa de 2%</Label>
+                    <p className="text-xs text-slate-500">Somente quando prevista no acordo ou na sentença</p>
+                  </div>
+                  <Switch
+                    id="aplicarMulta"
+                    checked={formData.aplicarMulta}
+                    onCheckedChange={(checked) => handleInputChange('aplicarMulta', checked)}
+                  />
+                </div>
+
                 {/* Seção de Pagamentos */}
                 <div className="space-y-4 border-t border-slate-600 pt-4">
                   <div className="flex items-center justify-between">
@@ -342,7 +515,8 @@ const CalculoPensaoAlimenticia = () => {
                           const dataInicio = new Date(formData.dataInicioObrigacao);
                           const hoje = new Date();
                           const diaVencimento = parseInt(formData.diaVencimento);
-                          const valorEstipulado = formData.valorEstipulado;
+                          // Percentuais do mínimo ou da renda variam por mês; o valor pago fica em branco
+                          const valorEstipulado = formData.tipoCalculo === 'fixo' ? formData.valorEstipulado : '';
                           
                           const pagamentosGerados: Pagamento[] = [];
                           
@@ -403,6 +577,16 @@ const CalculoPensaoAlimenticia = () => {
                       >
                         Adicionar Manual
                       </Button>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setImportarExtratoOpen(true)}
+                        className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600"
+                      >
+                        <Upload className="w-4 h-4 mr-1" />
+                        Importar Extrato
+                      </Button>
                     </div>
                   </div>
                   
@@ -495,6 +679,7 @@ const CalculoPensaoAlimenticia = () => {
                              className="bg-slate-700 border-slate-600 focus:border-primary text-white"
                            />
                          </div>
+                         {formData.tipoCalculo === 'fixo' && (<>
                          <div className="space-y-1">
                            <Label className="text-xs text-slate-400">Diferença</Label>
                            <div className={`px-3 py-2 rounded text-sm font-medium ${
@@ -522,6 +707,7 @@ const CalculoPensaoAlimenticia = () => {
                              {diasAtraso === 0 ? 'N/A' : `R$ ${valorCorrigido.toFixed(2)}`}
                            </div>
                          </div>
+                         </>)}
                          <div className="flex justify-end items-end">
                            <Button
                              type="button"
@@ -541,7 +727,7 @@ const CalculoPensaoAlimenticia = () => {
                    })}
                   
                    {/* Resumo de saldo acumulado */}
-                   {formData.pagamentos.length > 0 && (() => {
+                   {formData.pagamentos.length > 0 && formData.tipoCalculo === 'fixo' && (() => {
                      const saldoTotal = formData.pagamentos.reduce((saldo, pagamento) => {
                        const valorDevido = parseFloat(formData.valorEstipulado) || 0;
                        const valorPago = parseFloat(pagamento.valor) || 0;
@@ -604,7 +790,7 @@ const CalculoPensaoAlimenticia = () => {
 
 
                  <Button 
-                   onClick={handleCalcular} 
+                   onClick={() => handleCalcular()} 
                    disabled={loading}
                    className="w-full bg-primary hover:bg-primary/90 py-3 text-lg font-semibold"
                    size="lg"
@@ -637,6 +823,15 @@ const CalculoPensaoAlimenticia = () => {
                    </CardDescription>
                  </CardHeader>
                  <CardContent className="space-y-6">
+                    {result.avisos && result.avisos.length > 0 && (
+                      <div className="space-y-2">
+                        {result.avisos.map((aviso, index) => (
+                          <div key={index} className="p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-xs text-amber-300">
+                            {aviso}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     {/* Resumo Executivo */}
                     <div className="bg-gradient-to-r from-primary/20 to-primary/10 border border-primary/30 rounded-lg p-6">
                       <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
@@ -670,9 +865,9 @@ const CalculoPensaoAlimenticia = () => {
                         <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-600">
                           <p className="text-xs text-slate-400 uppercase tracking-wide font-medium">Encargos</p>
                           <p className="text-2xl font-bold text-orange-400 mt-1">
-                            R$ {(result.multa + result.juros).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                            R$ {((result.correcao || 0) + result.multa + result.juros).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
                           </p>
-                          <p className="text-xs text-slate-500 mt-1">Multa + Juros moratórios</p>
+                          <p className="text-xs text-slate-500 mt-1">Correção + Juros{result.multa > 0 ? ' + Multa' : ''}</p>
                         </div>
                       </div>
                     </div>
@@ -747,13 +942,21 @@ const CalculoPensaoAlimenticia = () => {
                                 </span>
                               </div>
                               <div className="flex justify-between items-center py-2 border-b border-slate-700">
-                                <span className="text-sm text-slate-400">Multa Moratória (2%)</span>
+                                <span className="text-sm text-slate-400">Correção Monetária ({result.indice?.toUpperCase() || 'INPC'})</span>
                                 <span className="text-sm font-semibold text-orange-400">
-                                  R$ {result.multa.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                                  R$ {(result.correcao || 0).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
                                 </span>
                               </div>
+                              {result.multa > 0 && (
+                                <div className="flex justify-between items-center py-2 border-b border-slate-700">
+                                  <span className="text-sm text-slate-400">Multa Moratória (2%)</span>
+                                  <span className="text-sm font-semibold text-orange-400">
+                                    R$ {result.multa.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                                  </span>
+                                </div>
+                              )}
                               <div className="flex justify-between items-center py-2 border-b border-slate-700">
-                                <span className="text-sm text-slate-400">Juros de Mora (1% a.m.)</span>
+                                <span className="text-sm text-slate-400">Juros de Mora ({(result.jurosMensais ?? 1).toLocaleString('pt-BR')}% a.m.)</span>
                                 <span className="text-sm font-semibold text-orange-400">
                                   R$ {result.juros.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
                                 </span>
@@ -767,7 +970,7 @@ const CalculoPensaoAlimenticia = () => {
                               <div className="bg-red-900/20 border border-red-500/30 rounded-lg p-3 mt-3">
                                 <p className="text-xs text-red-300 text-center">Total de Encargos</p>
                                 <p className="text-xl font-bold text-red-400 text-center">
-                                  R$ {(result.multa + result.juros).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                                  R$ {((result.correcao || 0) + result.multa + result.juros).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
                                 </p>
                               </div>
                             </div>
@@ -834,7 +1037,7 @@ const CalculoPensaoAlimenticia = () => {
                           </p>
                           <p className="text-sm text-slate-400">
                             Este valor representa o montante total atualizado incluindo principal, 
-                            {result.valorTotalAtrasado > 0 && ' valores em atraso,'} multa e juros de mora.
+                            {result.valorTotalAtrasado > 0 && ' valores em atraso,'} correção monetária e juros de mora.
                           </p>
                         </div>
                         <div className="space-y-3">
@@ -859,6 +1062,128 @@ const CalculoPensaoAlimenticia = () => {
                       </div>
                     </div>
 
+                   {/* Demonstrativos da execução por rito (art. 528, § 7º, do CPC) */}
+                   {result.demonstrativos && (
+                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                       {([
+                         { rito: 'prisao', titulo: 'Rito da Prisão', descricao: 'Três últimas parcelas anteriores ao ajuizamento e as vencidas no curso do processo', cor: 'text-red-300' },
+                         { rito: 'penhora', titulo: 'Rito da Penhora', descricao: 'Parcelas anteriores, cobradas pela expropriação de bens', cor: 'text-amber-300' }
+                       ] as { rito: RitoExecucao; titulo: string; descricao: string; cor: string }[]).map(({ rito, titulo, descricao, cor }) => {
+                         const demonstrativo = result.demonstrativos![rito];
+                         return (
+                           <div key={rito} className="space-y-3 p-4 bg-slate-700/30 rounded-lg border border-slate-600">
+                             <div>
+                               <h4 className={`text-sm font-semibold ${cor}`}>{titulo}</h4>
+                               <p className="text-xs text-slate-400">{descricao}</p>
+                             </div>
+                             <div className="space-y-1 text-sm text-slate-300">
+                               <div className="flex justify-between"><span>Parcelas em aberto</span><span>{demonstrativo.parcelas}</span></div>
+                               <div className="flex justify-between"><span>Principal</span><span>R$ {demonstrativo.principal.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}</span></div>
+                               <div className="flex justify-between"><span>Correção</span><span>R$ {demonstrativo.correcao.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}</span></div>
+                               <div className="flex justify-between"><span>Juros e multa</span><span>R$ {(demonstrativo.juros + demonstrativo.multa).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}</span></div>
+                               <div className="flex justify-between font-semibold text-white border-t border-slate-600 pt-1"><span>Total</span><span>R$ {demonstrativo.total.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}</span></div>
+                             </div>
+                             <div className="flex gap-2">
+                               <Button
+                                 variant="outline"
+                                 size="sm"
+                                 disabled={exportLoading || demonstrativo.parcelas === 0}
+                                 onClick={() => exportCalculoPensaoPlanilha(result, 'xlsx', rito)}
+                                 className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600"
+                               >
+                                 <Download className="w-4 h-4 mr-1" />
+                                 XLSX
+                               </Button>
+                               <Button
+                                 variant="outline"
+                                 size="sm"
+                                 disabled={exportLoading || demonstrativo.parcelas === 0}
+                                 onClick={() => exportCalculoPensaoPlanilha(result, 'csv', rito)}
+                                 className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600"
+                               >
+                                 <Download className="w-4 h-4 mr-1" />
+                                 CSV
+                               </Button>
+                             </div>
+                           </div>
+                         );
+                       })}
+                     </div>
+                   )}
+
+                   {/* Demonstrativo por parcela */}
+                   {result.parcelas && result.parcelas.length > 0 && (
+                     <div className="space-y-3 p-4 bg-slate-700/30 rounded-lg border border-slate-600">
+                       <div className="flex items-center justify-between gap-2">
+                         <h4 className="text-sm font-semibold text-white">Demonstrativo por Parcela</h4>
+                         <div className="flex gap-2">
+                           <Button
+                             variant="outline"
+                             size="sm"
+                             disabled={exportLoading}
+                             onClick={() => exportCalculoPensaoPlanilha(result, 'xlsx')}
+                             className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600"
+                           >
+                             <Download className="w-4 h-4 mr-1" />
+                             XLSX
+                           </Button>
+                           <Button
+                             variant="outline"
+                             size="sm"
+                             disabled={exportLoading}
+                             onClick={() => exportCalculoPensaoPlanilha(result, 'csv')}
+                             className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600"
+                           >
+                             <Download className="w-4 h-4 mr-1" />
+                             CSV
+                           </Button>
+                         </div>
+                       </div>
+                       {result.competenciasSemIndice && result.competenciasSemIndice.length > 0 && (
+                         <div className="p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-xs text-amber-300">
+                           {result.competenciasSemIndice.length} competência(s) sem índice cadastrado foram consideradas com variação zero.
+                         </div>
+                       )}
+                       <div className="max-h-72 overflow-auto rounded border border-slate-600">
+                         <Table>
+                           <TableHeader>
+                             <TableRow>
+                               <TableHead className="text-slate-300">Vencimento</TableHead>
+                               <TableHead className="text-slate-300 text-right">Pago</TableHead>
+                               <TableHead className="text-slate-300 text-right">Fator</TableHead>
+                               <TableHead className="text-slate-300 text-right">Corrigido</TableHead>
+                               <TableHead className="text-slate-300 text-right">Juros</TableHead>
+                               <TableHead className="text-slate-300 text-right">Total</TableHead>
+                             </TableRow>
+                           </TableHeader>
+                           <TableBody>
+                             {result.parcelas.map((parcela, index) => (
+                               <TableRow key={index} className="text-slate-200">
+                                 <TableCell>
+                                   {formatarDataCivil(parcela.vencimento)}
+                                   {parcela.rito && parcela.valorEmAberto > 0 && (
+                                     <Badge variant="outline" className={`ml-2 text-[10px] ${parcela.rito === 'prisao' ? 'border-red-500/40 text-red-300' : 'border-amber-500/40 text-amber-300'}`}>
+                                       {parcela.rito === 'prisao' ? 'Prisão' : 'Penhora'}
+                                     </Badge>
+                                   )}
+                                   <p className="text-xs text-slate-400">
+                                     R$ {parcela.valorDevido.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                                     {parcela.baseCalculo !== null && parcela.baseCalculo !== undefined && ` · base R$ ${parcela.baseCalculo.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}`}
+                                   </p>
+                                 </TableCell>
+                                 <TableCell className="text-right whitespace-nowrap">R$ {parcela.valorPago.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}</TableCell>
+                                 <TableCell className="text-right whitespace-nowrap">{parcela.fatorCorrecao.toLocaleString('pt-BR', { minimumFractionDigits: 6, maximumFractionDigits: 6 })}</TableCell>
+                                 <TableCell className="text-right whitespace-nowrap">R$ {parcela.valorCorrigido.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}</TableCell>
+                                 <TableCell className="text-right whitespace-nowrap">R$ {(parcela.valorJuros + parcela.valorMulta).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}</TableCell>
+                                 <TableCell className="text-right whitespace-nowrap">R$ {parcela.total.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}</TableCell>
+                               </TableRow>
+                             ))}
+                           </TableBody>
+                         </Table>
+                       </div>
+                     </div>
+                   )}
+
                    {/* Detalhamento */}
                    <div className="bg-slate-900/50 rounded-lg border border-slate-600 p-4">
                      <div className="flex items-center justify-between mb-3">
@@ -908,7 +1233,7 @@ const CalculoPensaoAlimenticia = () => {
                       <span>✓ Cálculo por percentual ou valor fixo</span>
                     </div>
                     <div className="flex items-center justify-center gap-2 text-xs text-slate-500">
-                      <span>✓ Juros e multa por atraso</span>
+                      <span>✓ Correção pelo INPC ou tabela do tribunal e juros por parcela</span>
                     </div>
                     <div className="flex items-center justify-center gap-2 text-xs text-slate-500">
                       <span>✓ Múltiplos filhos</span>
@@ -931,7 +1256,7 @@ const CalculoPensaoAlimenticia = () => {
                   <div className="space-y-1 text-sm text-amber-300/80">
                     <p>• Pensão devida até 18 anos (ou 24 se universitário)</p>
                     <p>• Percentual varia entre 15% a 30% da renda por filho</p>
-                    <p>• Atraso: multa de 2% + juros de 1% ao mês</p>
+                    <p>• Atraso: correção monetária e juros de mora desde cada vencimento (Súmula 43 do STJ)</p>
                     <p>• Valor pode ser revisado mediante mudança financeira</p>
                   </div>
                 </div>
@@ -941,6 +1266,13 @@ const CalculoPensaoAlimenticia = () => {
         </div>
       </div>
 
+      <ImportarExtratoPensao
+        isOpen={importarExtratoOpen}
+        onClose={() => setImportarExtratoOpen(false)}
+        onConfirmar={handleImportarPagamentos}
+        pagamentosAtuais={formData.pagamentos}
+      />
+
       {/* Modal de Histórico */}
       <HistoricoPensaoModal
         isOpen={historicoModalOpen}
@@ -950,11 +1282,20 @@ const CalculoPensaoAlimenticia = () => {
           setFormData({
             numeroFilhos: calculo.numero_filhos.toString(),
             idadesFilhos: calculo.idades_filhos.map(idade => idade.toString()),
+            tipoCalculo: (['salario_minimo', 'percentual_renda'].includes(calculo.tipo_calculo) ? calculo.tipo_calculo : 'fixo') as TipoCalculoPensao,
             valorEstipulado: calculo.valor_fixo?.toString() || '',
+            percentualSalarioMinimo: calculo.tipo_calculo === 'salario_minimo' ? calculo.percentual_pensao?.toString() || '' : '',
+            percentualPensao: calculo.tipo_calculo === 'percentual_renda' ? calculo.percentual_pensao?.toString() || '' : '',
+            historicoRenda: calculo.historico_renda || [],
             diaVencimento: '5',
             dataInicioObrigacao: calculo.data_inicio || '',
             mesesAtrasados: '', // Resetar campo de meses atrasados
-            pagamentos: [],
+            pagamentos: calculo.pagamentos || [],
+            tribunal: calculo.tribunal || 'outro',
+            indiceCorrecao: calculo.indice_correcao || 'inpc',
+            jurosMensais: calculo.juros_mensais?.toString() || '1',
+            aplicarMulta: !!calculo.aplicar_multa,
+            dataAjuizamento: calculo.data_ajuizamento || '',
             observacoes: calculo.observacoes || ''
           });
           toast.success('Dados do histórico carregados!');
@@ -0,0 +1,474 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Calculator, CalendarPlus, FileText, Hourglass, Zap } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useUserTimezone } from "@/hooks/useUserTimezone";
+import { useFeatureUsage } from "@/hooks/useFeatureUsage";
+import UserMenu from "@/components/UserMenu";
+import {
+  AREAS_PRESCRICAO,
+  PRAZOS_LEGAIS,
+  calcularPrescricao,
+  formatarDuracaoPrazo,
+  formatarRelatorioPrescricao
+} from "@/lib/prescricao";
+import type { AreaPrescricao, EventoPrescricao, ResultadoPrescricao } from "@/types/prescricao";
+
+const formatarDataCivil = (data: string) => `${data.slice(8, 10)}/${data.slice(5, 7)}/${data.slice(0, 4)}`;
+
+const CalculoPrescricao = () => {
+  const navigate = useNavigate();
+  const { user, profile } = useAuth();
+  const { getCurrentDateForAPI } = useUserTimezone();
+  const { logFeatureUsage } = useFeatureUsage();
+  const [resultado, setResultado] = useState<ResultadoPrescricao | null>(null);
+  const [salvandoAgenda, setSalvandoAgenda] = useState(false);
+
+  const [formData, setFormData] = useState({
+    prazoId: 'cc-206-3-v',
+    dataEvento: '',
+    eventos: [] as EventoPrescricao[],
+    aplicarRjet: true,
+    dataReferencia: '',
+    processo: '',
+    cliente: ''
+  });
+
+  const handleInputChange = (field: string, value: string | boolean | EventoPrescricao[]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const atualizarEvento = (index: number, campo: 'tipo' | 'data', valor: string) => {
+    const novosEventos = [...formData.eventos];
+    novosEventos[index] = { ...novosEventos[index], [campo]: valor };
+    handleInputChange('eventos', novosEventos);
+  };
+
+  const prazoSelecionado = PRAZOS_LEGAIS.find(prazo => prazo.id === formData.prazoId);
+
+  const handleCalcular = () => {
+    if (!formData.dataEvento) {
+      toast.error("Informe a data do termo inicial");
+      return;
+    }
+
+    try {
+      setResultado(calcularPrescricao({
+        prazoId: formData.prazoId,
+        dataEvento: formData.dataEvento,
+        eventos: formData.eventos,
+        aplicarRjet: formData.aplicarRjet,
+        dataReferencia: formData.dataReferencia || getCurrentDateForAPI()
+      }));
+    } catch (error) {
+      console.error('Erro ao calcular:', error);
+      toast.error("Erro ao realizar o cálculo");
+    }
+  };
+
+  const handleCopiar = async (texto: string) => {
+    try {
+      await navigator.clipboard.writeText(texto);
+      toast.success('Relatório copiado para a área de transferência! Cole em qualquer editor.');
+    } catch (error) {
+      console.error('Erro ao copiar texto:', error);
+      toast.error('Erro ao copiar relatório. Tente novamente.');
+    }
+  };
+
+  // Lança o último dia do prazo na Agenda Jurídica como prazo processual
+  const handleAdicionarAgenda = async () => {
+    if (!resultado || !user) return;
+
+    setSalvandoAgenda(true);
+    try {
+      const inicio = new Date(`${resultado.dataFinal}T09:00:00`);
+      const natureza = resultado.prazo.natureza === 'prescricao' ? 'Prescrição' : 'Decadência';
+      const { error } = await supabase
+        .from('legal_commitments')
+        .insert({
+          user_id: user.id,
+          title: `${natureza}: ${resultado.prazo.rotulo}`,
+          description: formatarRelatorioPrescricao(resultado),
+          commitment_type: 'prazo_processual',
+          deadline_type: 'outras',
+          commitment_date: inicio.toISOString(),
+          end_date: new Date(inicio.getTime() + 60 * 60 * 1000).toISOString(),
+          process_number: formData.processo || null,
+          client_name: formData.cliente || null,
+          priority: resultado.diasRestantes <= 30 ? 'urgente' : 'alta',
+          status: 'pendente',
+          auto_detected: false
+        });
+
+      if (error) throw error;
+
+      logFeatureUsage('commitment_created', { type: 'prazo_processual', source: 'calculo_prescricao' });
+      toast.success(`Prazo de ${formatarDataCivil(resultado.dataFinal)} adicionado à Agenda Jurídica!`);
+    } catch (error) {
+      console.error('Erro ao adicionar prazo à agenda:', error);
+      toast.error('Erro ao adicionar o prazo à agenda');
+    } finally {
+      setSalvandoAgenda(false);
+    }
+  };
+
+  const totalTokens = (profile?.token_balance || 0) + (profile?.plan_tokens || 0);
+
+  return (
+    <div className="h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex flex-col overflow-hidden">
+      {/* Header fixo */}
+      <div className="flex-shrink-0 bg-slate-800/50 border-b border-slate-700 backdrop-blur-sm">
+        <div className="container max-w-6xl mx-auto px-4 py-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => navigate('/dashboard')}
+                className="text-white hover:bg-slate-700"
+              >
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <img
+                src="/lovable-uploads/640a3b5c-aae7-485a-a595-a0d750c13d9b.png"
+                alt="Oráculo Jurídico"
+                className="h-8 w-auto"
+              />
+              <div>
+                <h1 className="text-xl font-bold text-white flex items-center gap-2">
+                  <Hourglass className="h-5 w-5 text-primary" />
+                  Prescrição e Decadência
+                </h1>
+                <p className="text-xs text-slate-300 hidden md:block">
+                  Prazos do CC, CDC, CLT e CTN com interrupções e suspensão do RJET
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3">
+              {/* Contador de tokens */}
+              <div className="hidden md:flex items-center gap-2 bg-slate-700/50 rounded-lg px-3 py-2">
+                <Zap className="w-4 h-4 text-primary" />
+                <span className="text-sm font-medium text-white">
+                  {Math.floor(totalTokens).toLocaleString()}
+                </span>
+                <span className="text-xs text-slate-300">tokens</span>
+              </div>
+
+              <UserMenu />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Conteúdo principal com scroll interno */}
+      <div className="flex-1 overflow-y-auto">
+        <div className="container max-w-6xl mx-auto px-4 py-6 space-y-6">
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 items-start">
+
+            {/* Formulário */}
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-white">
+                  <FileText className="w-5 h-5 text-primary" />
+                  Dados da Pretensão
+                </CardTitle>
+                <CardDescription>
+                  Prazo aplicável, termo inicial e causas de interrupção
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="prazoId" className="text-sm text-slate-300">Pretensão</Label>
+                  <Select value={formData.prazoId} onValueChange={(value) => handleInputChange('prazoId', value)}>
+                    <SelectTrigger className="bg-slate-700 border-slate-600 focus:border-primary text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(AREAS_PRESCRICAO) as AreaPrescricao[]).map(area => (
+                        <SelectGroup key={area}>
+                          <SelectLabel>{AREAS_PRESCRICAO[area]}</SelectLabel>
+                          {PRAZOS_LEGAIS.filter(prazo => prazo.area === area).map(prazo => (
+                            <SelectItem key={prazo.id} value={prazo.id}>
+                              {prazo.rotulo} - {formatarDuracaoPrazo(prazo)}
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {prazoSelecionado && (
+                    <p className="text-xs text-slate-500">
+                      {prazoSelecionado.natureza === 'prescricao' ? 'Prescrição' : 'Decadência'} · {prazoSelecionado.fundamento} · termo inicial: {prazoSelecionado.termoInicial}
+                    </p>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="dataEvento" className="text-sm text-slate-300">Data do Termo Inicial *</Label>
+                    <Input
+                      id="dataEvento"
+                      type="date"
+                      value={formData.dataEvento}
+                      onChange={(e) => handleInputChange('dataEvento', e.target.value)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="dataReferencia" className="text-sm text-slate-300">Verificar em</Label>
+                    <Input
+                      id="dataReferencia"
+                      type="date"
+                      value={formData.dataReferencia}
+                      onChange={(e) => handleInputChange('dataReferencia', e.target.value)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                  </div>
+                </div>
+
+                {/* Causas interruptivas */}
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm text-slate-300">Interrupções</Label>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleInputChange('eventos', [...formData.eventos, { id: crypto.randomUUID(), tipo: 'citacao', data: '' }])}
+                      className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600"
+                    >
+                      Adicionar Evento
+                    </Button>
+                  </div>
+
+                  {formData.eventos.map((evento, index) => (
+                    <div key={evento.id} className="grid grid-cols-[1.2fr_1fr_auto] gap-2 items-end">
+                      <div className="space-y-1">
+                        <Label className="text-xs text-slate-400">Evento</Label>
+                        <Select value={evento.tipo} onValueChange={(value) => atualizarEvento(index, 'tipo', value)}>
+                          <SelectTrigger className="bg-slate-700 border-slate-600 focus:border-primary text-white">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="citacao">
+                              {prazoSelecionado?.area === 'trabalhista' ? 'Ajuizamento da reclamação' : 'Citação (despacho / propositura)'}
+                            </SelectItem>
+                            <SelectItem value="protesto">Protesto</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs text-slate-400">Data</Label>
+                        <Input
+                          type="date"
+                          value={evento.data}
+                          onChange={(e) => atualizarEvento(index, 'data', e.target.value)}
+                          className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                        />
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleInputChange('eventos', formData.eventos.filter((_, i) => i !== index))}
+                        className="text-red-400 hover:bg-red-900/20 px-2"
+                      >
+                        ×
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex items-center justify-between gap-4 p-3 bg-slate-700/30 rounded-lg border border-slate-600">
+                  <div>
+                    <Label htmlFor="aplicarRjet" className="text-sm text-slate-300">Suspensão do RJET (Covid-19)</Label>
+                    <p className="text-xs text-slate-500">12/06/2020 a 30/10/2020 - art. 3º da Lei 14.010/2020</p>
+                  </div>
+                  <Switch
+                    id="aplicarRjet"
+                    checked={formData.aplicarRjet}
+                    onCheckedChange={(checked) => handleInputChange('aplicarRjet', checked)}
+                  />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="processo" className="text-sm text-slate-300">Processo</Label>
+                    <Input
+                      id="processo"
+                      placeholder="Opcional, para a agenda"
+                      value={formData.processo}
+                      onChange={(e) => handleInputChange('processo', e.target.value)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="cliente" className="text-sm text-slate-300">Cliente</Label>
+                    <Input
+                      id="cliente"
+                      placeholder="Opcional, para a agenda"
+                      value={formData.cliente}
+                      onChange={(e) => handleInputChange('cliente', e.target.value)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                  </div>
+                </div>
+
+                <Button
+                  onClick={handleCalcular}
+                  className="w-full bg-primary hover:bg-primary/90 py-3 text-lg font-semibold"
+                  size="lg"
+                >
+                  <Calculator className="h-5 w-5 mr-2" />
+                  Calcular
+                </Button>
+              </CardContent>
+            </Card>
+
+            {/* Resultado */}
+            {resultado ? (
+              <Card className="bg-slate-800/50 border-slate-700">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-white">
+                    <Hourglass className="w-5 h-5 text-indigo-400" />
+                    Resultado
+                  </CardTitle>
+                  <CardDescription>
+                    {AREAS_PRESCRICAO[resultado.prazo.area]} · {resultado.prazo.rotulo}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className={`p-4 rounded-lg border ${resultado.consumada ? 'bg-red-600/10 border-red-500/30' : 'bg-green-600/10 border-green-500/30'}`}>
+                    <div className="flex items-center justify-between gap-4">
+                      <div>
+                        <p className={`text-xs font-medium ${resultado.consumada ? 'text-red-300' : 'text-green-300'}`}>
+                          {resultado.prazo.natureza === 'prescricao' ? 'Prazo prescricional' : 'Prazo decadencial'} até
+                        </p>
+                        <p className={`text-2xl font-bold ${resultado.consumada ? 'text-red-400' : 'text-green-400'}`}>
+                          {formatarDataCivil(resultado.dataFinal)}
+                        </p>
+                      </div>
+                      <Badge variant="outline" className={resultado.consumada ? 'border-red-500 text-red-300' : 'border-green-500 text-green-300'}>
+                        {resultado.consumada
+                          ? 'Consumada'
+                          : `${resultado.diasRestantes} dia(s) restante(s)`}
+                      </Badge>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-xs">
+                    <div className="p-3 bg-slate-700/30 rounded-lg border border-slate-600">
+                      <p className="text-slate-400">Prazo</p>
+                      <p className="text-white font-semibold mt-1">{formatarDuracaoPrazo(resultado.prazo)}</p>
+                    </div>
+                    <div className="p-3 bg-slate-700/30 rounded-lg border border-slate-600">
+                      <p className="text-slate-400">Interrompida em</p>
+                      <p className="text-white font-semibold mt-1">{resultado.interrompidaEm ? formatarDataCivil(resultado.interrompidaEm) : '-'}</p>
+                    </div>
+                    <div className="p-3 bg-slate-700/30 rounded-lg border border-slate-600">
+                      <p className="text-slate-400">Dias suspensos (RJET)</p>
+                      <p className="text-white font-semibold mt-1">{resultado.diasSuspensos}</p>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2 p-4 bg-slate-700/30 rounded-lg border border-slate-600">
+                    <h4 className="text-sm font-semibold text-white">Fundamentação</h4>
+                    <ul className="space-y-1 text-sm text-slate-300">
+                      {resultado.fundamentacao.map((linha, index) => (
+                        <li key={index}>• {linha}</li>
+                      ))}
+                    </ul>
+                  </div>
+
+                  {resultado.alertas.length > 0 && (
+                    <div className="space-y-1 p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-xs text-amber-300">
+                      {resultado.alertas.map((alerta, index) => (
+                        <p key={index}>⚠ {alerta}</p>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex flex-col md:flex-row gap-2">
+                    <Button
+                      onClick={handleAdicionarAgenda}
+                      disabled={salvandoAgenda || resultado.consumada}
+                      className="flex-1 bg-primary hover:bg-primary/90"
+                    >
+                      <CalendarPlus className="w-4 h-4 mr-2" />
+                      {salvandoAgenda ? 'Adicionando...' : 'Adicionar à Agenda'}
+                    </Button>
+                    <Button
+                      onClick={() => handleCopiar(formatarRelatorioPrescricao(resultado))}
+                      variant="outline"
+                      className="flex-1 bg-primary/10 border-primary/30 text-primary hover:bg-primary/20"
+                    >
+                      Copiar Relatório
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card className="bg-slate-800/50 border-slate-700">
+                <CardContent className="p-8 text-center">
+                  <Hourglass className="w-16 h-16 text-slate-500 mx-auto mb-4" />
+                  <h3 className="text-lg font-semibold text-white mb-2">
+                    Aguardando Dados
+                  </h3>
+                  <p className="text-sm text-slate-400 max-w-md mx-auto">
+                    Escolha a pretensão e informe o termo inicial para saber
+                    até quando ela pode ser exercida.
+                  </p>
+
+                  <div className="mt-6 space-y-2">
+                    <div className="flex items-center justify-center gap-2 text-xs text-slate-500">
+                      <span>✓ Prazos dos arts. 205/206 do CC, 26/27 do CDC, 7º, XXIX, da CF e 173/174 do CTN</span>
+                    </div>
+                    <div className="flex items-center justify-center gap-2 text-xs text-slate-500">
+                      <span>✓ Interrupção por citação e protesto e suspensão do RJET</span>
+                    </div>
+                    <div className="flex items-center justify-center gap-2 text-xs text-slate-500">
+                      <span>✓ Prazo lançado na Agenda Jurídica com um clique</span>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          {/* Informações importantes */}
+          <Card className="bg-amber-900/20 border-amber-500/30">
+            <CardContent className="p-4">
+              <div className="flex items-start gap-3">
+                <div className="p-2 bg-amber-500/20 rounded-lg flex-shrink-0">
+                  <FileText className="w-5 h-5 text-amber-400" />
+                </div>
+                <div>
+                  <h4 className="font-semibold text-amber-200 mb-2">Informações Importantes</h4>
+                  <div className="space-y-1 text-sm text-amber-300/80">
+                    <p>• Causas impeditivas e suspensivas pessoais (arts. 197 a 199 do CC) não são consideradas</p>
+                    <p>• A prorrogação do vencimento considera apenas fins de semana, não feriados</p>
+                    <p>• Confira o termo inicial: a teoria da actio nata pode deslocá-lo para a ciência da lesão</p>
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalculoPrescricao;
@@ -0,0 +1,712 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Briefcase, Calculator, DollarSign, Download, FileText, TrendingUp, Zap } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import UserMenu from "@/components/UserMenu";
+import { useExportDocument } from "@/hooks/useExportDocument";
+import { useReabrirCalculo, resultadoGravado } from "@/hooks/useReabrirCalculo";
+import HistoricoTrabalhistaModal from "@/components/HistoricoTrabalhistaModal";
+import type { CalculoTrabalhista, FaixaSalarial, HoraExtraInformada } from "@/types/calculoTrabalhista";
+
+interface TrabalhistaResult {
+  valorTotal: number;
+  detalhamento: string;
+  calculo: CalculoTrabalhista;
+}
+
+const formatarMoeda = (valor: number) => `R$ ${valor.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatarDataCivil = (data: string) => `${data.slice(8, 10)}/${data.slice(5, 7)}/${data.slice(0, 4)}`;
+
+const CalculoVerbasRescisorias = () => {
+  const navigate = useNavigate();
+  const { profile } = useAuth();
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<TrabalhistaResult | null>(null);
+  const [historicoModalOpen, setHistoricoModalOpen] = useState(false);
+  const { copyCalculoTrabalhista, exportCalculoTrabalhistaPlanilha, loading: exportLoading } = useExportDocument();
+
+  const [formData, setFormData] = useState({
+    dataAdmissao: '',
+    dataDemissao: '',
+    tipoRescisao: 'sem_justa_causa',
+    avisoPrevio: 'indenizado',
+    historicoSalarial: [{ inicio: '', salario: '' }] as FaixaSalarial[],
+    feriasVencidas: '0',
+    saldoFgts: '',
+    fgtsPendente: false,
+    horasExtras: [] as HoraExtraInformada[],
+    divisorHoras: '220',
+    multa477: false,
+    multa467: false,
+    dataAjuizamento: '',
+    dataCalculo: '',
+    observacoes: ''
+  });
+  const reabrirCalculo = useReabrirCalculo(setFormData, setResult);
+
+  const handleInputChange = (field: string, value: string | boolean | FaixaSalarial[] | HoraExtraInformada[]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const atualizarFaixa = (index: number, campo: keyof FaixaSalarial, valor: string) => {
+    const novasFaixas = [...formData.historicoSalarial];
+    novasFaixas[index] = { ...novasFaixas[index], [campo]: valor };
+    handleInputChange('historicoSalarial', novasFaixas);
+  };
+
+  const atualizarHoraExtra = (index: number, campo: keyof HoraExtraInformada, valor: string) => {
+    const novasHoras = [...formData.horasExtras];
+    novasHoras[index] = { ...novasHoras[index], [campo]: valor };
+    handleInputChange('horasExtras', novasHoras);
+  };
+
+  const handleTipoRescisao = (value: string) => {
+    // O aviso do pedido de demissão é devido pelo empregado; nos demais casos, pelo empregador
+    setFormData(prev => ({
+      ...prev,
+      tipoRescisao: value,
+      avisoPrevio: value === 'pedido_demissao' ? 'trabalhado' : prev.avisoPrevio === 'nao_cumprido' ? 'indenizado' : prev.avisoPrevio
+    }));
+  };
+
+  const handleCalcular = async () => {
+    if (!formData.dataAdmissao || !formData.dataDemissao) {
+      toast.error("Informe as datas de admissão e de dispensa");
+      return;
+    }
+    if (formData.dataDemissao < formData.dataAdmissao) {
+      toast.error("A dispensa deve ser posterior à admissão");
+      return;
+    }
+    if (!formData.historicoSalarial.some(faixa => faixa.inicio && faixa.salario)) {
+      toast.error("Informe ao menos um salário no histórico salarial");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('calculo-verbas-rescisorias', {
+        body: formData
+      });
+
+      if (error) throw error;
+
+      setResult(data);
+      toast.success("Cálculo realizado com sucesso!");
+    } catch (error) {
+      console.error('Erro ao calcular:', error);
+      toast.error("Erro ao realizar o cálculo");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const totalTokens = (profile?.token_balance || 0) + (profile?.plan_tokens || 0);
+  const avisoDoEmpregador = !['pedido_demissao', 'justa_causa'].includes(formData.tipoRescisao);
+
+  return (
+    <div className="h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex flex-col overflow-hidden">
+      {/* Header fixo */}
+      <div className="flex-shrink-0 bg-slate-800/50 border-b border-slate-700 backdrop-blur-sm">
+        <div className="container max-w-6xl mx-auto px-4 py-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => navigate('/dashboard')}
+                className="text-white hover:bg-slate-700"
+              >
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <img
+                src="/lovable-uploads/640a3b5c-aae7-485a-a595-a0d750c13d9b.png"
+                alt="Oráculo Jurídico"
+                className="h-8 w-auto"
+              />
+              <div>
+                <h1 className="text-xl font-bold text-white flex items-center gap-2">
+                  <Briefcase className="h-5 w-5 text-primary" />
+                  Verbas Rescisórias
+                </h1>
+                <p className="text-xs text-slate-300 hidden md:block">
+                  Rescisão, horas extras, FGTS e multas da CLT com atualização pela ADC 58
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3">
+              {/* Contador de tokens */}
+              <div className="hidden md:flex items-center gap-2 bg-slate-700/50 rounded-lg px-3 py-2">
+                <Zap className="w-4 h-4 text-primary" />
+                <span className="text-sm font-medium text-white">
+                  {Math.floor(totalTokens).toLocaleString()}
+                </span>
+                <span className="text-xs text-slate-300">tokens</span>
+              </div>
+
+              {/* Histórico Button */}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setHistoricoModalOpen(true)}
+                className="hidden md:flex items-center gap-2 bg-slate-700/50 border-slate-600 text-white hover:bg-slate-600"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                Histórico
+              </Button>
+
+              <UserMenu />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Conteúdo principal com scroll interno */}
+      <div className="flex-1 overflow-y-auto">
+        <div className="container max-w-6xl mx-auto px-4 py-6 space-y-6">
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 items-start">
+
+            {/* Formulário */}
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-white">
+                  <FileText className="w-5 h-5 text-primary" />
+                  Dados do Contrato
+                </CardTitle>
+                <CardDescription>
+                  Período, modalidade de rescisão e histórico salarial
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="dataAdmissao" className="text-sm text-slate-300">Admissão *</Label>
+                    <Input
+                      id="dataAdmissao"
+                      type="date"
+                      value={formData.dataAdmissao}
+                      onChange={(e) => handleInputChange('dataAdmissao', e.target.value)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="dataDemissao" className="text-sm text-slate-300">Dispensa (último dia trabalhado) *</Label>
+                    <Input
+                      id="dataDemissao"
+                      type="date"
+                      value={formData.dataDemissao}
+                      onChange={(e) => handleInputChange('dataDemissao', e.target.value)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="tipoRescisao" className="text-sm text-slate-300">Modalidade de Rescisão</Label>
+                    <Select value={formData.tipoRescisao} onValueChange={handleTipoRescisao}>
+                      <SelectTrigger className="bg-slate-700 border-slate-600 focus:border-primary text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="sem_justa_causa">Dispensa sem justa causa</SelectItem>
+                        <SelectItem value="rescisao_indireta">Rescisão indireta (art. 483)</SelectItem>
+                        <SelectItem value="acordo">Acordo (art. 484-A)</SelectItem>
+                        <SelectItem value="pedido_demissao">Pedido de demissão</SelectItem>
+                        <SelectItem value="justa_causa">Justa causa (art. 482)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {formData.tipoRescisao !== 'justa_causa' && (
+                    <div className="space-y-2">
+                      <Label htmlFor="avisoPrevio" className="text-sm text-slate-300">Aviso Prévio</Label>
+                      <Select value={formData.avisoPrevio} onValueChange={(value) => handleInputChange('avisoPrevio', value)}>
+                        <SelectTrigger className="bg-slate-700 border-slate-600 focus:border-primary text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {avisoDoEmpregador ? (
+                            <>
+                              <SelectItem value="indenizado">Indenizado</SelectItem>
+                              <SelectItem value="trabalhado">Trabalhado (30 dias)</SelectItem>
+                            </>
+                          ) : (
+                            <>
+                              <SelectItem value="trabalhado">Cumprido pelo empregado</SelectItem>
+                              <SelectItem value="nao_cumprido">Não cumprido (desconto)</SelectItem>
+                            </>
+                          )}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </div>
+
+                {/* Histórico salarial */}
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm text-slate-300">Histórico Salarial *</Label>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleInputChange('historicoSalarial', [...formData.historicoSalarial, { inicio: '', salario: '' }])}
+                      className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600"
+                    >
+                      Adicionar Salário
+                    </Button>
+                  </div>
+
+                  {formData.historicoSalarial.map((faixa, index) => (
+                    <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+                      <div className="space-y-1">
+                        <Label className="text-xs text-slate-400">A partir de</Label>
+                        <Input
+                          type="month"
+                          value={faixa.inicio}
+                          onChange={(e) => atualizarFaixa(index, 'inicio', e.target.value)}
+                          className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs text-slate-400">Salário mensal</Label>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          value={faixa.salario}
+                          onChange={(e) => atualizarFaixa(index, 'salario', e.target.value)}
+                          className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                        />
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        disabled={formData.historicoSalarial.length === 1}
+                        onClick={() => handleInputChange('historicoSalarial', formData.historicoSalarial.filter((_, i) => i !== index))}
+                        className="text-red-400 hover:bg-red-900/20 px-2"
+                      >
+                        ×
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+
+                {/* Horas extras por competência */}
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm text-slate-300">Horas Extras</Label>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleInputChange('horasExtras', [...formData.horasExtras, { competencia: '', horas: '', percentual: '50' }])}
+                      className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600"
+                    >
+                      Adicionar Mês
+                    </Button>
+                  </div>
+
+                  {formData.horasExtras.map((item, index) => (
+                    <div key={index} className="grid grid-cols-[1.2fr_1fr_1fr_auto] gap-2 items-end">
+                      <div className="space-y-1">
+                        <Label className="text-xs text-slate-400">Competência</Label>
+                        <Input
+                          type="month"
+                          value={item.competencia}
+                          onChange={(e) => atualizarHoraExtra(index, 'competencia', e.target.value)}
+                          className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs text-slate-400">Horas</Label>
+                        <Input
+                          type="number"
+                          step="0.5"
+                          value={item.horas}
+                          onChange={(e) => atualizarHoraExtra(index, 'horas', e.target.value)}
+                          className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs text-slate-400">Adicional (%)</Label>
+                        <Input
+                          type="number"
+                          value={item.percentual}
+                          onChange={(e) => atualizarHoraExtra(index, 'percentual', e.target.value)}
+                          className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                        />
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleInputChange('horasExtras', formData.horasExtras.filter((_, i) => i !== index))}
+                        className="text-red-400 hover:bg-red-900/20 px-2"
+                      >
+                        ×
+                      </Button>
+                    </div>
+                  ))}
+                  {formData.horasExtras.length > 0 && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="divisorHoras" className="text-xs text-slate-400">Divisor mensal</Label>
+                        <Input
+                          id="divisorHoras"
+                          type="number"
+                          value={formData.divisorHoras}
+                          onChange={(e) => handleInputChange('divisorHoras', e.target.value)}
+                          className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                        />
+                      </div>
+                      <p className="text-xs text-slate-500 self-end">
+                        Reflexo em DSR calculado mês a mês; a média dos últimos 12 meses integra aviso, 13º e férias.
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="feriasVencidas" className="text-sm text-slate-300">Períodos de Férias Vencidas</Label>
+                    <Input
+                      id="feriasVencidas"
+                      type="number"
+                      min="0"
+                      value={formData.feriasVencidas}
+                      onChange={(e) => handleInputChange('feriasVencidas', e.target.value)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="saldoFgts" className="text-sm text-slate-300">Saldo do FGTS (extrato)</Label>
+                    <Input
+                      id="saldoFgts"
+                      type="number"
+                      step="0.01"
+                      placeholder="Vazio: estimado pelos salários"
+                      value={formData.saldoFgts}
+                      onChange={(e) => handleInputChange('saldoFgts', e.target.value)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-3 p-3 bg-slate-700/30 rounded-lg border border-slate-600">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <Label htmlFor="fgtsPendente" className="text-sm text-slate-300">FGTS não depositado</Label>
+                      <p className="text-xs text-slate-500">Cobra o saldo do contrato além dos depósitos da rescisão</p>
+                    </div>
+                    <Switch
+                      id="fgtsPendente"
+                      checked={formData.fgtsPendente}
+                      onCheckedChange={(checked) => handleInputChange('fgtsPendente', checked)}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between gap-4">
+                    <Label htmlFor="multa477" className="text-sm text-slate-300">Multa do art. 477, § 8º, CLT</Label>
+                    <Switch
+                      id="multa477"
+                      checked={formData.multa477}
+                      onCheckedChange={(checked) => handleInputChange('multa477', checked)}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between gap-4">
+                    <Label htmlFor="multa467" className="text-sm text-slate-300">Multa do art. 467 da CLT (50%)</Label>
+                    <Switch
+                      id="multa467"
+                      checked={formData.multa467}
+                      onCheckedChange={(checked) => handleInputChange('multa467', checked)}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="dataAjuizamento" className="text-sm text-slate-300">Ajuizamento da Ação</Label>
+                    <Input
+                      id="dataAjuizamento"
+                      type="date"
+                      value={formData.dataAjuizamento}
+                      onChange={(e) => handleInputChange('dataAjuizamento', e.target.value)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="dataCalculo" className="text-sm text-slate-300">Data do Cálculo</Label>
+                    <Input
+                      id="dataCalculo"
+                      type="date"
+                      value={formData.dataCalculo}
+                      onChange={(e) => handleInputChange('dataCalculo', e.target.value)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="observacoes" className="text-sm text-slate-300">Observações</Label>
+                  <Textarea
+                    id="observacoes"
+                    placeholder="Informações adicionais sobre o contrato..."
+                    value={formData.observacoes}
+                    onChange={(e) => handleInputChange('observacoes', e.target.value)}
+                    className="min-h-[80px] bg-slate-700 border-slate-600 focus:border-primary text-white"
+                  />
+                </div>
+
+                <Button
+                  onClick={handleCalcular}
+                  disabled={loading}
+                  className="w-full bg-primary hover:bg-primary/90 py-3 text-lg font-semibold"
+                  size="lg"
+                >
+                  {loading ? (
+                    <div className="flex items-center gap-2">
+                      <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                      Calculando...
+                    </div>
+                  ) : (
+                    <>
+                      <Calculator className="h-5 w-5 mr-2" />
+                      Calcular
+                    </>
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
+
+            {/* Resultado */}
+            {result ? (
+              <Card className="bg-slate-800/50 border-slate-700">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-white">
+                    <TrendingUp className="w-5 h-5 text-green-400" />
+                    Resultado do Cálculo
+                  </CardTitle>
+                  <CardDescription>
+                    {result.calculo.descricaoRescisao} · atualizado até {formatarDataCivil(result.calculo.dataCalculo)}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="p-4 bg-gradient-to-br from-green-600/20 to-green-600/10 border border-green-500/30 rounded-lg">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="text-xs text-green-300 font-medium">Total Atualizado</p>
+                          <p className="text-2xl font-bold text-green-400">{formatarMoeda(result.calculo.total)}</p>
+                        </div>
+                        <DollarSign className="w-8 h-8 text-green-400" />
+                      </div>
+                    </div>
+                    <div className="p-4 bg-gradient-to-br from-teal-600/20 to-teal-600/10 border border-teal-500/30 rounded-lg">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="text-xs text-teal-300 font-medium">Valor Nominal</p>
+                          <p className="text-2xl font-bold text-teal-400">{formatarMoeda(result.calculo.totalNominal)}</p>
+                        </div>
+                        <TrendingUp className="w-8 h-8 text-teal-400" />
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+                    <div className="p-3 bg-slate-700/30 rounded-lg border border-slate-600">
+                      <p className="text-slate-400">Remuneração</p>
+                      <p className="text-white font-semibold mt-1">{formatarMoeda(result.calculo.remuneracao)}</p>
+                    </div>
+                    <div className="p-3 bg-slate-700/30 rounded-lg border border-slate-600">
+                      <p className="text-slate-400">Aviso prévio</p>
+                      <p className="text-white font-semibold mt-1">{result.calculo.diasAviso} dias</p>
+                    </div>
+                    <div className="p-3 bg-slate-700/30 rounded-lg border border-slate-600">
+                      <p className="text-slate-400">IPCA-E</p>
+                      <p className="text-white font-semibold mt-1">{formatarMoeda(result.calculo.totalCorrecao)}</p>
+                    </div>
+                    <div className="p-3 bg-slate-700/30 rounded-lg border border-slate-600">
+                      <p className="text-slate-400">SELIC</p>
+                      <p className="text-white font-semibold mt-1">{formatarMoeda(result.calculo.totalSelic)}</p>
+                    </div>
+                  </div>
+
+                  {(result.calculo.competenciasSemIndice.length > 0 || result.calculo.competenciasSemSelic.length > 0) && (
+                    <div className="p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-xs text-amber-300">
+                      {result.calculo.competenciasSemIndice.length + result.calculo.competenciasSemSelic.length} competência(s) sem índice cadastrado foram consideradas com variação zero.
+                      Confira o detalhamento antes de juntar a planilha.
+                    </div>
+                  )}
+
+                  <div className="space-y-3 p-4 bg-slate-700/30 rounded-lg border border-slate-600">
+                    <div className="flex items-center justify-between gap-2">
+                      <h4 className="text-sm font-semibold text-white">Demonstrativo por Verba</h4>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={exportLoading}
+                          onClick={() => exportCalculoTrabalhistaPlanilha(result.calculo, 'xlsx')}
+                          className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600"
+                        >
+                          <Download className="w-4 h-4 mr-1" />
+                          XLSX
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={exportLoading}
+                          onClick={() => exportCalculoTrabalhistaPlanilha(result.calculo, 'csv')}
+                          className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600"
+                        >
+                          <Download className="w-4 h-4 mr-1" />
+                          CSV
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="max-h-64 overflow-y-auto rounded border border-slate-600">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="text-slate-300">Verba</TableHead>
+                            <TableHead className="text-slate-300 text-right">Nominal</TableHead>
+                            <TableHead className="text-slate-300 text-right">Corrigido</TableHead>
+                            <TableHead className="text-slate-300 text-right">Total</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {result.calculo.verbas.map((verba, index) => (
+                            <TableRow key={index} className="text-slate-200">
+                              <TableCell>
+                                {verba.descricao}
+                                <p className="text-xs text-slate-400">{verba.quantidade}</p>
+                              </TableCell>
+                              <TableCell className="text-right whitespace-nowrap">{formatarMoeda(verba.valor)}</TableCell>
+                              <TableCell className="text-right whitespace-nowrap">{formatarMoeda(verba.valorCorrigido)}</TableCell>
+                              <TableCell className="text-right whitespace-nowrap">{formatarMoeda(verba.total)}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </div>
+
+                  {/* Detalhamento */}
+                  <div className="bg-gradient-to-br from-primary/10 to-primary/5 rounded-lg border-2 border-primary/30 p-6 mt-6">
+                    <div className="flex items-center justify-between mb-4">
+                      <h4 className="text-xl font-bold text-white flex items-center gap-3">
+                        <FileText className="w-6 h-6 text-primary" />
+                        Detalhamento do Cálculo
+                      </h4>
+                      <Button
+                        onClick={() => copyCalculoTrabalhista(result)}
+                        disabled={exportLoading}
+                        variant="outline"
+                        size="sm"
+                        className="bg-primary/10 border-primary/30 text-primary hover:bg-primary/20"
+                      >
+                        Copiar Relatório
+                      </Button>
+                    </div>
+                    <div className="max-h-96 overflow-y-auto bg-slate-900/50 rounded-lg border border-slate-600 p-4">
+                      <pre className="text-sm whitespace-pre-wrap break-words text-slate-200 leading-relaxed font-mono">
+                        {result.detalhamento}
+                      </pre>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card className="bg-slate-800/50 border-slate-700">
+                <CardContent className="p-8 text-center">
+                  <Briefcase className="w-16 h-16 text-slate-500 mx-auto mb-4" />
+                  <h3 className="text-lg font-semibold text-white mb-2">
+                    Aguardando Dados
+                  </h3>
+                  <p className="text-sm text-slate-400 max-w-md mx-auto">
+                    Informe o período do contrato, a modalidade de rescisão e os salários
+                    para gerar o demonstrativo das verbas rescisórias.
+                  </p>
+
+                  <div className="mt-6 space-y-2">
+                    <div className="flex items-center justify-center gap-2 text-xs text-slate-500">
+                      <span>✓ Saldo de salário, aviso proporcional, 13º e férias + 1/3</span>
+                    </div>
+                    <div className="flex items-center justify-center gap-2 text-xs text-slate-500">
+                      <span>✓ FGTS + 40%, multas dos arts. 467 e 477 e horas extras com DSR</span>
+                    </div>
+                    <div className="flex items-center justify-center gap-2 text-xs text-slate-500">
+                      <span>✓ IPCA-E até o ajuizamento e SELIC depois (ADC 58)</span>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          {/* Informações importantes */}
+          <Card className="bg-amber-900/20 border-amber-500/30">
+            <CardContent className="p-4">
+              <div className="flex items-start gap-3">
+                <div className="p-2 bg-amber-500/20 rounded-lg flex-shrink-0">
+                  <FileText className="w-5 h-5 text-amber-400" />
+                </div>
+                <div>
+                  <h4 className="font-semibold text-amber-200 mb-2">Informações Importantes</h4>
+                  <div className="space-y-1 text-sm text-amber-300/80">
+                    <p>• Valores brutos, sem descontos de INSS e IRRF</p>
+                    <p>• A atualização segue a ADC 58 do STF; as alterações da Lei 14.905/2024 não são aplicadas</p>
+                    <p>• Sem extrato, o saldo do FGTS é estimado pelos salários informados, sem JAM</p>
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Modal de Histórico */}
+      <HistoricoTrabalhistaModal
+        isOpen={historicoModalOpen}
+        onClose={() => setHistoricoModalOpen(false)}
+        onSelectCalculation={(calculo) => reabrirCalculo(
+          {
+            dataAdmissao: calculo.data_admissao,
+            dataDemissao: calculo.data_demissao,
+            tipoRescisao: calculo.tipo_rescisao,
+            avisoPrevio: calculo.aviso_previo || 'indenizado',
+            historicoSalarial: calculo.historico_salarial,
+            feriasVencidas: calculo.ferias_vencidas.toString(),
+            saldoFgts: calculo.saldo_fgts?.toString() || '',
+            fgtsPendente: calculo.fgts_pendente,
+            horasExtras: calculo.horas_extras,
+            divisorHoras: calculo.divisor_horas.toString(),
+            multa477: calculo.multa_477,
+            multa467: calculo.multa_467,
+            dataAjuizamento: calculo.data_ajuizamento || '',
+            dataCalculo: calculo.data_calculo,
+            observacoes: calculo.observacoes || ''
+          },
+          resultadoGravado(calculo)
+        )}
+      />
+    </div>
+  );
+};
+
+export default CalculoVerbasRescisorias;
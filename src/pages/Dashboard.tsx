@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { CreditCard, History, Plus, MessageSquare, FileText, Calculator, Heart, DollarSign, Calendar, TrendingUp, Zap, Clock, Users, Award, Bell, BellOff, Wrench, Eye, Scale } from "lucide-react";
+import { CreditCard, History, Plus, MessageSquare, FileText, Calculator, Heart, DollarSign, Calendar, TrendingUp, Zap, Clock, Users, Award, Bell, BellOff, Wrench, Eye, Scale, Gavel, Briefcase, Hourglass, Landmark } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -669,6 +669,90 @@ const openTemplateEditor = async (documentId: string) => {
                         </Button>
                       </div>
                     </div>
+
+                    <div className="group p-4 bg-gradient-to-br from-green-600/10 to-green-600/5 rounded-xl border border-green-500/20 hover:border-green-500/40 transition-all cursor-pointer"
+                         onClick={() => {
+                           logFeatureUsage('calculator_accessed', { type: 'debito_judicial' });
+                           navigate("/atualizacao-debito-judicial");
+                         }}>
+                      <div className="flex items-center gap-3 mb-3">
+                        <div className="p-2 bg-green-600/20 rounded-lg group-hover:bg-green-600/30 transition-colors">
+                          <Gavel className="w-6 h-6 text-green-400" />
+                        </div>
+                        <div>
+                          <h3 className="font-semibold text-green-200">Débito Judicial</h3>
+                          <p className="text-xs text-green-300/80">Cumprimento de sentença</p>
+                        </div>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <Button size="sm" className="bg-green-600 hover:bg-green-500 text-xs">
+                          Calcular
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div className="group p-4 bg-gradient-to-br from-teal-600/10 to-teal-600/5 rounded-xl border border-teal-500/20 hover:border-teal-500/40 transition-all cursor-pointer"
+                         onClick={() => {
+                           logFeatureUsage('calculator_accessed', { type: 'verbas_rescisorias' });
+                           navigate("/calculo-verbas-rescisorias");
+                         }}>
+                      <div className="flex items-center gap-3 mb-3">
+                        <div className="p-2 bg-teal-600/20 rounded-lg group-hover:bg-teal-600/30 transition-colors">
+                          <Briefcase className="w-6 h-6 text-teal-400" />
+                        </div>
+                        <div>
+                          <h3 className="font-semibold text-teal-200">Verbas Rescisórias</h3>
+                          <p className="text-xs text-teal-300/80">Rescisão e horas extras</p>
+                        </div>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <Button size="sm" className="bg-teal-600 hover:bg-teal-500 text-xs">
+                          Calcular
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div className="group p-4 bg-gradient-to-br from-indigo-600/10 to-indigo-600/5 rounded-xl border border-indigo-500/20 hover:border-indigo-500/40 transition-all cursor-pointer"
+                         onClick={() => {
+                           logFeatureUsage('calculator_accessed', { type: 'prescricao' });
+                           navigate("/calculo-prescricao");
+                         }}>
+                      <div className="flex items-center gap-3 mb-3">
+                        <div className="p-2 bg-indigo-600/20 rounded-lg group-hover:bg-indigo-600/30 transition-colors">
+                          <Hourglass className="w-6 h-6 text-indigo-400" />
+                        </div>
+                        <div>
+                          <h3 className="font-semibold text-indigo-200">Prescrição</h3>
+                          <p className="text-xs text-indigo-300/80">Prazos e decadência</p>
+                        </div>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <Button size="sm" className="bg-indigo-600 hover:bg-indigo-500 text-xs">
+                          Calcular
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div className="group p-4 bg-gradient-to-br from-cyan-600/10 to-cyan-600/5 rounded-xl border border-cyan-500/20 hover:border-cyan-500/40 transition-all cursor-pointer"
+                         onClick={() => {
+                           logFeatureUsage('calculator_accessed', { type: 'custas' });
+                           navigate("/calculo-custas");
+                         }}>
+                      <div className="flex items-center gap-3 mb-3">
+                        <div className="p-2 bg-cyan-600/20 rounded-lg group-hover:bg-cyan-600/30 transition-colors">
+                          <Landmark className="w-6 h-6 text-cyan-400" />
+                        </div>
+                        <div>
+                          <h3 className="font-semibold text-cyan-200">Custas</h3>
+                          <p className="text-xs text-cyan-300/80">Preparo recursal</p>
+                        </div>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <Button size="sm" className="bg-cyan-600 hover:bg-cyan-500 text-xs">
+                          Calcular
+                        </Button>
+                      </div>
+                    </div>
                   </div>
                 </CardContent>
               </Card>
@@ -0,0 +1,667 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Calculator, FileText, Plus, Scale, SlidersHorizontal, Trash2, Zap } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import UserMenu from "@/components/UserMenu";
+import type {
+  CategoriaNecessidade,
+  ItemValorPensao,
+  NecessidadeAlimentando,
+  SimulacaoRevisional,
+  SimulacaoRevisionalEntrada
+} from "@/types/pensao";
+
+const formatarMoeda = (valor: number) => `R$ ${valor.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const CATEGORIAS: Record<CategoriaNecessidade, string> = {
+  educacao: 'Educação',
+  saude: 'Saúde',
+  alimentacao: 'Alimentação',
+  vestuario: 'Vestuário',
+  lazer: 'Lazer e cultura',
+  outros: 'Outras despesas'
+};
+
+const TENDENCIAS: Record<NonNullable<SimulacaoRevisional['tendencia']>, string> = {
+  majoracao: 'Majoração',
+  reducao: 'Redução',
+  manutencao: 'Manutenção'
+};
+
+// Cenário gravado em calculo_pensao_historico (tipo_calculo 'simulacao_revisional')
+type CenarioSalvo = {
+  id: string;
+  created_at: string;
+  entrada: SimulacaoRevisionalEntrada;
+  resultado: SimulacaoRevisional;
+};
+
+const MAX_COMPARACAO = 3;
+
+const ENTRADA_INICIAL: SimulacaoRevisionalEntrada = {
+  nomeCenario: '',
+  rendaAlimentante: '',
+  despesasAlimentante: [],
+  obrigacoesExistentes: [],
+  outrosDependentes: '0',
+  numeroFilhos: '1',
+  necessidades: [{ categoria: 'educacao', descricao: '', valor: '' }],
+  despesaMoradia: '',
+  moradoresResidencia: '',
+  rendaOutroGenitor: '',
+  valorAtual: '',
+  observacoes: ''
+};
+
+const SimuladorRevisionalPensao = () => {
+  const navigate = useNavigate();
+  const { user, profile } = useAuth();
+  const [loading, setLoading] = useState(false);
+  const [resultado, setResultado] = useState<SimulacaoRevisional | null>(null);
+  const [formData, setFormData] = useState<SimulacaoRevisionalEntrada>(ENTRADA_INICIAL);
+  const [cenarios, setCenarios] = useState<CenarioSalvo[]>([]);
+  const [selecionados, setSelecionados] = useState<string[]>([]);
+
+  const fetchCenarios = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('calculo_pensao_historico')
+        .select('id, created_at, simulacao')
+        .eq('user_id', user?.id)
+        .eq('tipo_calculo', 'simulacao_revisional')
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+      setCenarios((data || [])
+        .filter(item => item.simulacao)
+        .map(item => {
+          const simulacao = item.simulacao as unknown as { entrada: SimulacaoRevisionalEntrada; resultado: SimulacaoRevisional };
+          return { id: item.id, created_at: item.created_at, entrada: simulacao.entrada, resultado: simulacao.resultado };
+        }));
+    } catch (error) {
+      console.error('Erro ao buscar cenários:', error);
+      toast.error('Erro ao carregar cenários salvos');
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      fetchCenarios();
+    }
+  }, [user, fetchCenarios]);
+
+  const deleteCenario = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('calculo_pensao_historico')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setCenarios(prev => prev.filter(cenario => cenario.id !== id));
+      setSelecionados(prev => prev.filter(item => item !== id));
+      toast.success('Cenário removido');
+    } catch (error) {
+      console.error('Erro ao deletar cenário:', error);
+      toast.error('Erro ao remover cenário');
+    }
+  };
+
+  const handleInputChange = (field: keyof SimulacaoRevisionalEntrada, value: string | ItemValorPensao[] | NecessidadeAlimentando[]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const alterarItem = <T extends ItemValorPensao>(field: 'necessidades' | 'despesasAlimentante' | 'obrigacoesExistentes', index: number, alteracao: Partial<T>) => {
+    const itens = [...formData[field]] as T[];
+    itens[index] = { ...itens[index], ...alteracao };
+    handleInputChange(field, itens);
+  };
+
+  const removerItem = (field: 'necessidades' | 'despesasAlimentante' | 'obrigacoesExistentes', index: number) => {
+    handleInputChange(field, (formData[field] as ItemValorPensao[]).filter((_, i) => i !== index) as NecessidadeAlimentando[]);
+  };
+
+  const toggleSelecionado = (id: string, marcado: boolean) => {
+    if (marcado && selecionados.length >= MAX_COMPARACAO) {
+      toast.error(`Compare no máximo ${MAX_COMPARACAO} cenários`);
+      return;
+    }
+    setSelecionados(prev => marcado ? [...prev, id] : prev.filter(item => item !== id));
+  };
+
+  const handleSimular = async () => {
+    if (!formData.rendaAlimentante || !(formData.necessidades.some(item => item.valor) || formData.despesaMoradia)) {
+      toast.error("Informe a renda do alimentante e ao menos uma necessidade");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('simulacao-revisional-pensao', {
+        body: formData
+      });
+
+      if (error) throw error;
+
+      setResultado(data.simulacao);
+      if (data.erroHistorico) {
+        toast.error(`Cenário simulado, mas não foi salvo: ${data.erroHistorico}`);
+        return;
+      }
+      toast.success("Cenário simulado e salvo!");
+      fetchCenarios();
+    } catch (error) {
+      console.error('Erro ao simular:', error);
+      toast.error("Erro ao realizar a simulação");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopiar = async (texto: string) => {
+    try {
+      await navigator.clipboard.writeText(texto);
+      toast.success('Relatório copiado para a área de transferência! Cole em qualquer editor.');
+    } catch (error) {
+      console.error('Erro ao copiar texto:', error);
+      toast.error('Erro ao copiar relatório. Tente novamente.');
+    }
+  };
+
+  const totalTokens = (profile?.token_balance || 0) + (profile?.plan_tokens || 0);
+  const comparados = cenarios.filter(cenario => selecionados.includes(cenario.id));
+
+  const linhasComparacao: { rotulo: string; valor: (simulacao: SimulacaoRevisional) => string }[] = [
+    { rotulo: 'Renda líquida', valor: s => formatarMoeda(s.rendaAlimentante) },
+    { rotulo: 'Renda disponível', valor: s => formatarMoeda(s.rendaDisponivel) },
+    { rotulo: 'Outros dependentes', valor: s => String(s.outrosDependentes) },
+    { rotulo: 'Necessidade total', valor: s => formatarMoeda(s.necessidadeTotal) },
+    { rotulo: 'Participação do alimentante', valor: s => `${s.participacaoAlimentante.toLocaleString('pt-BR', { maximumFractionDigits: 2 })}%` },
+    { rotulo: 'Capacidade contributiva', valor: s => formatarMoeda(s.capacidadeContributiva) },
+    { rotulo: 'Faixa', valor: s => `${formatarMoeda(s.valorMinimo)} a ${formatarMoeda(s.valorMaximo)}` },
+    { rotulo: 'Valor sugerido', valor: s => formatarMoeda(s.valorSugerido) },
+    { rotulo: 'Valor atual', valor: s => s.valorAtual !== null ? formatarMoeda(s.valorAtual) : '-' },
+    { rotulo: 'Tendência', valor: s => s.tendencia ? TENDENCIAS[s.tendencia] : '-' }
+  ];
+
+  const renderListaValores = (field: 'despesasAlimentante' | 'obrigacoesExistentes', titulo: string, placeholder: string) => (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm text-slate-300">{titulo}</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => handleInputChange(field, [...formData[field], { descricao: '', valor: '' }])}
+          className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600 text-xs"
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Adicionar
+        </Button>
+      </div>
+      {formData[field].map((item, index) => (
+        <div key={index} className="flex gap-2">
+          <Input
+            placeholder={placeholder}
+            value={item.descricao}
+            onChange={(e) => alterarItem(field, index, { descricao: e.target.value })}
+            className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+          />
+          <Input
+            type="number"
+            step="0.01"
+            placeholder="Valor"
+            value={item.valor}
+            onChange={(e) => alterarItem(field, index, { valor: e.target.value })}
+            className="w-32 bg-slate-700 border-slate-600 focus:border-primary text-white"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => removerItem(field, index)}
+            className="text-red-400 hover:bg-red-500/10"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex flex-col overflow-hidden">
+      {/* Header fixo */}
+      <div className="flex-shrink-0 bg-slate-800/50 border-b border-slate-700 backdrop-blur-sm">
+        <div className="container max-w-6xl mx-auto px-4 py-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => navigate('/calculo-pensao-alimenticia')}
+                className="text-white hover:bg-slate-700"
+              >
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <img
+                src="/lovable-uploads/640a3b5c-aae7-485a-a595-a0d750c13d9b.png"
+                alt="Oráculo Jurídico"
+                className="h-8 w-auto"
+              />
+              <div>
+                <h1 className="text-xl font-bold text-white flex items-center gap-2">
+                  <SlidersHorizontal className="h-5 w-5 text-primary" />
+                  Simulador de Revisão de Alimentos
+                </h1>
+                <p className="text-xs text-slate-300 hidden md:block">
+                  Binômio necessidade-possibilidade para ações revisionais
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3">
+              {/* Contador de tokens */}
+              <div className="hidden md:flex items-center gap-2 bg-slate-700/50 rounded-lg px-3 py-2">
+                <Zap className="w-4 h-4 text-primary" />
+                <span className="text-sm font-medium text-white">
+                  {Math.floor(totalTokens).toLocaleString()}
+                </span>
+                <span className="text-xs text-slate-300">tokens</span>
+              </div>
+
+              <UserMenu />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Conteúdo principal com scroll interno */}
+      <div className="flex-1 overflow-y-auto">
+        <div className="container max-w-6xl mx-auto px-4 py-6 space-y-6">
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 items-start">
+
+            {/* Formulário */}
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-white">
+                  <FileText className="w-5 h-5 text-primary" />
+                  Dados do Cenário
+                </CardTitle>
+                <CardDescription>
+                  Necessidades dos alimentandos e possibilidades do alimentante
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="nomeCenario" className="text-sm text-slate-300">Nome do Cenário</Label>
+                    <Input
+                      id="nomeCenario"
+                      placeholder="Ex: Após a mudança de emprego"
+                      value={formData.nomeCenario}
+                      onChange={(e) => handleInputChange('nomeCenario', e.target.value)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="valorAtual" className="text-sm text-slate-300">Pensão Atual (R$)</Label>
+                    <Input
+                      id="valorAtual"
+                      type="number"
+                      step="0.01"
+                      value={formData.valorAtual}
+                      onChange={(e) => handleInputChange('valorAtual', e.target.value)}
+                      className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                    />
+                  </div>
+                </div>
+
+                {/* Necessidade */}
+                <div className="space-y-3 border-t border-slate-600 pt-4">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm text-slate-300 font-semibold">Necessidades dos Alimentandos (mensal)</Label>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleInputChange('necessidades', [...formData.necessidades, { categoria: 'outros', descricao: '', valor: '' }])}
+                      className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600 text-xs"
+                    >
+                      <Plus className="w-3 h-3 mr-1" />
+                      Adicionar
+                    </Button>
+                  </div>
+                  {formData.necessidades.map((item, index) => (
+                    <div key={index} className="flex gap-2">
+                      <Select
+                        value={item.categoria}
+                        onValueChange={(value: CategoriaNecessidade) => alterarItem<NecessidadeAlimentando>('necessidades', index, { categoria: value })}
+                      >
+                        <SelectTrigger className="w-40 bg-slate-700 border-slate-600 focus:border-primary text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(CATEGORIAS).map(([categoria, rotulo]) => (
+                            <SelectItem key={categoria} value={categoria}>{rotulo}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        placeholder="Ex: mensalidade escolar"
+                        value={item.descricao}
+                        onChange={(e) => alterarItem('necessidades', index, { descricao: e.target.value })}
+                        className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                      />
+                      <Input
+                        type="number"
+                        step="0.01"
+                        placeholder="Valor"
+                        value={item.valor}
+                        onChange={(e) => alterarItem('necessidades', index, { valor: e.target.value })}
+                        className="w-32 bg-slate-700 border-slate-600 focus:border-primary text-white"
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removerItem('necessidades', index)}
+                        className="text-red-400 hover:bg-red-500/10"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="numeroFilhos" className="text-sm text-slate-300">Alimentandos</Label>
+                      <Input
+                        id="numeroFilhos"
+                        type="number"
+                        min="1"
+                        value={formData.numeroFilhos}
+                        onChange={(e) => handleInputChange('numeroFilhos', e.target.value)}
+                        className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="despesaMoradia" className="text-sm text-slate-300">Despesa da Moradia</Label>
+                      <Input
+                        id="despesaMoradia"
+                        type="number"
+                        step="0.01"
+                        placeholder="Aluguel, condomínio, contas"
+                        value={formData.despesaMoradia}
+                        onChange={(e) => handleInputChange('despesaMoradia', e.target.value)}
+                        className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="moradoresResidencia" className="text-sm text-slate-300">Moradores</Label>
+                      <Input
+                        id="moradoresResidencia"
+                        type="number"
+                        min="1"
+                        value={formData.moradoresResidencia}
+                        onChange={(e) => handleInputChange('moradoresResidencia', e.target.value)}
+                        className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-slate-400">A moradia entra pela cota-parte dos alimentandos (despesa ÷ moradores)</p>
+                </div>
+
+                {/* Possibilidade */}
+                <div className="space-y-3 border-t border-slate-600 pt-4">
+                  <Label className="text-sm text-slate-300 font-semibold">Possibilidades</Label>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="rendaAlimentante" className="text-sm text-slate-300">Renda Líquida do Alimentante *</Label>
+                      <Input
+                        id="rendaAlimentante"
+                        type="number"
+                        step="0.01"
+                        value={formData.rendaAlimentante}
+                        onChange={(e) => handleInputChange('rendaAlimentante', e.target.value)}
+                        className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="rendaOutroGenitor" className="text-sm text-slate-300">Renda do Outro Genitor</Label>
+                      <Input
+                        id="rendaOutroGenitor"
+                        type="number"
+                        step="0.01"
+                        value={formData.rendaOutroGenitor}
+                        onChange={(e) => handleInputChange('rendaOutroGenitor', e.target.value)}
+                        className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="outrosDependentes" className="text-sm text-slate-300">Outros Dependentes</Label>
+                      <Input
+                        id="outrosDependentes"
+                        type="number"
+                        min="0"
+                        value={formData.outrosDependentes}
+                        onChange={(e) => handleInputChange('outrosDependentes', e.target.value)}
+                        className="bg-slate-700 border-slate-600 focus:border-primary text-white"
+                      />
+                    </div>
+                  </div>
+                  {renderListaValores('despesasAlimentante', 'Despesas Essenciais do Alimentante', 'Ex: aluguel, plano de saúde')}
+                  {renderListaValores('obrigacoesExistentes', 'Obrigações Existentes', 'Ex: pensão de outro filho')}
+                </div>
+
+                <Button
+                  onClick={handleSimular}
+                  disabled={loading}
+                  className="w-full bg-primary hover:bg-primary/90 py-3 text-lg font-semibold"
+                  size="lg"
+                >
+                  <Calculator className="h-5 w-5 mr-2" />
+                  {loading ? 'Simulando...' : 'Simular e Salvar Cenário'}
+                </Button>
+              </CardContent>
+            </Card>
+
+            {/* Resultado */}
+            {resultado ? (
+              <Card className="bg-slate-800/50 border-slate-700">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-white">
+                    <Scale className="w-5 h-5 text-green-400" />
+                    Faixa Justificável
+                  </CardTitle>
+                  <CardDescription>{resultado.nomeCenario}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-3 gap-3 text-center">
+                    <div className="p-3 bg-slate-700/30 rounded-lg border border-slate-600">
+                      <p className="text-xs text-slate-400">Mínimo</p>
+                      <p className="text-white font-semibold mt-1">{formatarMoeda(resultado.valorMinimo)}</p>
+                    </div>
+                    <div className="p-3 bg-gradient-to-br from-green-600/20 to-green-600/10 border border-green-500/30 rounded-lg">
+                      <p className="text-xs text-green-300">Sugerido</p>
+                      <p className="text-green-400 font-bold mt-1">{formatarMoeda(resultado.valorSugerido)}</p>
+                    </div>
+                    <div className="p-3 bg-slate-700/30 rounded-lg border border-slate-600">
+                      <p className="text-xs text-slate-400">Máximo</p>
+                      <p className="text-white font-semibold mt-1">{formatarMoeda(resultado.valorMaximo)}</p>
+                    </div>
+                  </div>
+
+                  {resultado.tendencia && (
+                    <p className="text-sm text-slate-300">
+                      Tendência da revisional: <span className="font-semibold text-white">{TENDENCIAS[resultado.tendencia]}</span>
+                    </p>
+                  )}
+
+                  <div className="space-y-2 p-4 bg-slate-700/30 rounded-lg border border-slate-600">
+                    <h4 className="text-sm font-semibold text-white">Fundamentação</h4>
+                    <ol className="space-y-1 text-sm text-slate-300 list-decimal list-inside">
+                      {resultado.fundamentos.map((fundamento, index) => (
+                        <li key={index}>{fundamento}</li>
+                      ))}
+                    </ol>
+                  </div>
+
+                  {resultado.alertas.length > 0 && (
+                    <div className="space-y-1 p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-xs text-amber-300">
+                      {resultado.alertas.map((alerta, index) => (
+                        <p key={index}>⚠ {alerta}</p>
+                      ))}
+                    </div>
+                  )}
+
+                  <Button
+                    onClick={() => handleCopiar(resultado.fundamentos.map((fundamento, index) => `${index + 1}. ${fundamento}`).join('\n'))}
+                    variant="outline"
+                    className="w-full bg-primary/10 border-primary/30 text-primary hover:bg-primary/20"
+                  >
+                    Copiar Fundamentação
+                  </Button>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card className="bg-slate-800/50 border-slate-700">
+                <CardContent className="p-8 text-center">
+                  <SlidersHorizontal className="w-16 h-16 text-slate-500 mx-auto mb-4" />
+                  <h3 className="text-lg font-semibold text-white mb-2">
+                    Aguardando Dados
+                  </h3>
+                  <p className="text-sm text-slate-400 max-w-md mx-auto">
+                    Informe as despesas dos alimentandos e a situação financeira do alimentante
+                    para obter a faixa de valores justificáveis.
+                  </p>
+
+                  <div className="mt-6 space-y-2">
+                    <div className="flex items-center justify-center gap-2 text-xs text-slate-500">
+                      <span>✓ Necessidade, possibilidade e proporcionalidade</span>
+                    </div>
+                    <div className="flex items-center justify-center gap-2 text-xs text-slate-500">
+                      <span>✓ Fundamentação pronta para a petição</span>
+                    </div>
+                    <div className="flex items-center justify-center gap-2 text-xs text-slate-500">
+                      <span>✓ Cenários salvos e comparados lado a lado</span>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          {/* Cenários salvos */}
+          {cenarios.length > 0 && (
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardHeader>
+                <CardTitle className="text-white">Cenários Salvos</CardTitle>
+                <CardDescription>Selecione até {MAX_COMPARACAO} cenários para comparar</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  {cenarios.map(cenario => (
+                    <div key={cenario.id} className="flex items-center justify-between gap-3 p-3 bg-slate-700/30 rounded-lg border border-slate-600">
+                      <div className="flex items-center gap-3">
+                        <Checkbox
+                          checked={selecionados.includes(cenario.id)}
+                          onCheckedChange={(checked) => toggleSelecionado(cenario.id, checked === true)}
+                        />
+                        <div>
+                          <p className="text-sm font-medium text-white">{cenario.resultado.nomeCenario}</p>
+                          <p className="text-xs text-slate-400">
+                            {formatarMoeda(cenario.resultado.valorMinimo)} a {formatarMoeda(cenario.resultado.valorMaximo)} · {new Date(cenario.created_at).toLocaleDateString('pt-BR')}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setFormData({ ...ENTRADA_INICIAL, ...cenario.entrada });
+                            setResultado(cenario.resultado);
+                          }}
+                          className="text-slate-300 hover:bg-slate-600 text-xs"
+                        >
+                          Carregar
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deleteCenario(cenario.id)}
+                          className="text-red-400 hover:bg-red-500/10"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                {comparados.length > 1 && (
+                  <div className="overflow-x-auto rounded border border-slate-600">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="text-slate-300" />
+                          {comparados.map(cenario => (
+                            <TableHead key={cenario.id} className="text-slate-300 text-right">{cenario.resultado.nomeCenario}</TableHead>
+                          ))}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {linhasComparacao.map(linha => (
+                          <TableRow key={linha.rotulo} className="text-slate-200">
+                            <TableCell className="text-slate-400">{linha.rotulo}</TableCell>
+                            {comparados.map(cenario => (
+                              <TableCell key={cenario.id} className="text-right whitespace-nowrap">{linha.valor(cenario.resultado)}</TableCell>
+                            ))}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Informações importantes */}
+          <Card className="bg-amber-900/20 border-amber-500/30">
+            <CardContent className="p-4">
+              <div className="flex items-start gap-3">
+                <div className="p-2 bg-amber-500/20 rounded-lg flex-shrink-0">
+                  <FileText className="w-5 h-5 text-amber-400" />
+                </div>
+                <div>
+                  <h4 className="font-semibold text-amber-200 mb-2">Informações Importantes</h4>
+                  <div className="space-y-1 text-sm text-amber-300/80">
+                    <p>• A revisão exige mudança na situação financeira de quem paga ou de quem recebe (art. 1.699 do CC)</p>
+                    <p>• A faixa é uma referência; o juiz fixa o valor conforme as provas de necessidade e possibilidade</p>
+                    <p>• Despesas não comprovadas tendem a ser desconsideradas na instrução</p>
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SimuladorRevisionalPensao;
@@ -0,0 +1,28 @@
+// Resultado estruturado da calculadora de contrato bancário (edge function calculo-contrato-bancario),
+// gravado em calculo_contrato_historico.resultado_estruturado
+export type ItemCalculo = {
+  rotulo: string;
+  valor: number;
+  formula: string;
+};
+
+export type PeriodoCalculo = {
+  secao: string;         // chave de ResultadoEstruturado.secoes
+  rotulo: string;
+  inicio: string | null; // ISO date (YYYY-MM-DD)
+  fim: string;           // ISO date
+  dias: number | null;
+  base: number | null;
+  taxa: number | null;   // percentual aplicado no período
+  valor: number;
+  saldo: number | null;
+  formula: string;
+};
+
+export type ResultadoEstruturado = {
+  versao: number;
+  modo: 'contrato' | 'rotativo';
+  secoes: Record<string, string>; // chave → título da seção
+  itens: ItemCalculo[];
+  periodos: PeriodoCalculo[];
+};
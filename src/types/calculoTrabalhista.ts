@@ -0,0 +1,65 @@
+// Resultado do cálculo de verbas rescisórias (edge function calculo-verbas-rescisorias),
+// gravado em calculo_trabalhista_historico.calculo
+export type FaixaSalarial = {
+  inicio: string;  // YYYY-MM a partir do qual o salário vigora
+  salario: string;
+};
+
+export type HoraExtraInformada = {
+  competencia: string;  // YYYY-MM
+  horas: string;
+  percentual: string;
+};
+
+export type VerbaTrabalhista = {
+  codigo: string;
+  descricao: string;
+  quantidade: string;
+  valor: number;
+  vencimento: string;
+  fatorIpcae: number;
+  valorCorrigido: number;
+  percentualSelic: number;
+  valorSelic: number;
+  total: number;
+  formula: string;
+};
+
+export type HoraExtraMes = {
+  competencia: string;
+  salario: number;
+  valorHora: number;
+  horas: number;
+  percentual: number;
+  valorHoras: number;
+  diasUteis: number;
+  repousos: number;
+  dsr: number;
+};
+
+export type CalculoTrabalhista = {
+  tipoRescisao: string;
+  descricaoRescisao: string;
+  avisoPrevio: string;
+  dataAdmissao: string;
+  dataDemissao: string;
+  dataProjetada: string;
+  anosServico: number;
+  diasAviso: number;
+  salario: number;
+  mediaVariaveis: number;
+  remuneracao: number;
+  horasExtras: HoraExtraMes[];
+  verbas: VerbaTrabalhista[];
+  saldoFgts: number;
+  saldoFgtsEstimado: boolean;
+  percentualMultaFgts: number;
+  dataAjuizamento: string | null;
+  dataCalculo: string;
+  totalNominal: number;
+  totalCorrecao: number;
+  totalSelic: number;
+  total: number;
+  competenciasSemIndice: string[];
+  competenciasSemSelic: string[];
+};
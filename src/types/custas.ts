@@ -0,0 +1,53 @@
+// Tipos da calculadora de custas e preparo recursal (src/lib/custas.ts)
+export type TipoRecurso =
+  | 'apelacao'
+  | 'agravo_instrumento'
+  | 'recurso_ordinario'
+  | 'recurso_revista';
+
+export type RegraPreparo = {
+  recurso: TipoRecurso;
+  rotulo: string;
+  percentual?: number;     // sobre a base informada
+  valorFixo?: number;      // em unidades da tabela
+  minimo?: number;         // em unidades da tabela
+  maximo?: number;         // em unidades da tabela
+  depositoRecursal?: number; // em reais (art. 899 da CLT)
+  base: string;            // descrição da base de cálculo
+  fundamento: string;
+};
+
+// Uma versão por tribunal e ano; vale a mais recente com vigência até a data do recolhimento
+export type TabelaCustas = {
+  id: string;
+  tribunal: string;
+  nomeTribunal: string;
+  ano: number;
+  vigencia: string; // ISO date (YYYY-MM-DD)
+  unidade: { sigla: string; valor: number }; // unidade em que mínimo, máximo e valor fixo são expressos
+  reajusteAnual: boolean; // valores atualizados todo ano (UFESP, teto do RGPS, depósito recursal)
+  portePorVolume?: number; // porte de remessa e retorno em autos físicos, em reais
+  fonte: string;
+  regras: RegraPreparo[];
+  observacoes?: string[];
+};
+
+export type DadosPreparo = {
+  tribunal: string;
+  recurso: TipoRecurso;
+  valorBase: number;
+  dataReferencia: string;
+  volumes: number; // autos físicos; zero para autos eletrônicos
+  depositoEfetuado?: number; // depósito recursal já feito em recurso anterior do mesmo processo
+};
+
+export type ResultadoPreparo = {
+  tabela: TabelaCustas;
+  regra: RegraPreparo;
+  custas: number;
+  depositoRecursal: number;
+  porteRemessa: number;
+  total: number;
+  memoria: string[];
+  alertas: string[];
+};
@@ -0,0 +1,61 @@
+// Resultado da atualização de débito judicial (edge function atualizacao-debito-judicial),
+// gravado em calculo_debito_judicial_historico.calculo
+export type ParcelaDebito = {
+  descricao: string;
+  data: string;  // ISO date (YYYY-MM-DD)
+  valor: string;
+  tipo: 'principal' | 'despesa';
+};
+
+export type ParcelaAtualizada = {
+  descricao: string;
+  tipo: 'principal' | 'despesa';
+  dataBase: string;
+  valorOriginal: number;
+  fimCorrecao: string;
+  fatorCorrecao: number;
+  valorCorrigido: number;
+  inicioJuros: string | null;
+  diasJuros: number;
+  percentualJuros: number;
+  valorJuros: number;
+  inicioSelic: string | null;
+  percentualSelic: number;
+  valorSelic: number;
+  total: number;
+};
+
+export type IndiceCompetencia = {
+  competencia: string;
+  variacao: number | null; // índice do tribunal, até o marco da SELIC
+  selic: number | null;    // a partir do marco
+};
+
+export type CalculoDebitoJudicial = {
+  processo: string | null;
+  exequente: string | null;
+  executado: string | null;
+  tribunal: string;
+  tabela: string;
+  indice: string;
+  dataCitacao: string;
+  dataCalculo: string;
+  marcoSelic: string | null;
+  jurosMensais: number;
+  parcelas: ParcelaAtualizada[];
+  indices: IndiceCompetencia[];
+  totalOriginal: number;
+  totalCorrecao: number;
+  totalJuros: number;
+  totalSelic: number;
+  totalPrincipal: number;
+  totalDespesas: number;
+  percentualHonorarios: number;
+  honorariosSucumbencia: number;
+  subtotal: number;
+  multa523: number;
+  honorarios523: number;
+  total: number;
+  competenciasSemIndice: string[];
+  competenciasSemSelic: string[];
+};
@@ -5,6 +5,7 @@ export type EpisodioCustodia = {
   fim?: string;     // ISO date; ausente se ainda preso
   computavel: boolean; // conta para detração? (default true)
   observacao?: string;
+  processoId?: string;  // processo em que a custódia foi decretada
 };
 
 export type Remissao = {
@@ -13,13 +14,49 @@ export type Remissao = {
   dias: number;        // dias remidos creditados nesta data
   motivo: 'Trabalho' | 'Estudo' | 'Leitura' | 'Outro';
   observacao?: string;
+  saldo?: number;      // dias de trabalho ou horas de estudo que passam para o mês seguinte
+};
+
+// Registros que originam remição (art. 126 LEP); referencia no formato YYYY-MM
+export type RegistroTrabalho = {
+  id: string;
+  referencia: string;
+  diasTrabalhados: number;
+};
+
+export type RegistroEstudo = {
+  id: string;
+  referencia: string;
+  horas: number;
+  conclusao?: 'Fundamental' | 'Medio' | 'Superior'; // conclusão de curso no mês
+};
+
+export type RegistroLeitura = {
+  id: string;
+  titulo: string;
+  dataAprovacao: string; // ISO date do relatório aprovado
+};
+
+export type RemissaoCalculada = {
+  remissao: Remissao;
+  alertas: string[];     // limites excedidos ou créditos recusados
 };
 
 export type EventoProcessual = {
   id: string;
   data: string; // ISO date
-  tipo: 'Condenacao' | 'Unificacao' | 'Progressao' | 'Regressao' | 'Livramento' | 'Indulto' | 'Outro';
+  tipo: 'Condenacao' | 'Unificacao' | 'Progressao' | 'Regressao' | 'FaltaGrave' | 'Livramento' | 'Indulto' | 'Outro';
   observacao?: string;
+  regimeResultante?: RegimePrisional; // regressão: regime imposto (padrão: fechado)
+  penaAcrescida?: PenaPeriodo;        // unificação: nova pena somada
+  fracaoProgressao?: number;          // unificação: fração da nova pena (padrão: a da sentença)
+  fracaoLivramento?: number;
+};
+
+export type PenaPeriodo = {
+  anos: number;
+  meses: number;
+  dias: number;
 };
 
 export type Crime = {
@@ -29,15 +66,65 @@ export type Crime = {
   penaAnos: number;
   penaMeses: number;
   penaDias: number;
-  tipoPercentual: 'primario' | 'reincidente' | 'hediondo_primario' | 'hediondo_reincidente';
+  natureza: NaturezaCrime;
+  reincidencia: Reincidencia;
   observacoes?: string;
+  processoId?: string;
+};
+
+// Natureza do crime para enquadramento no art. 112 da LEP (redação da Lei 13.964/2019)
+export type NaturezaCrime =
+  | 'comum'                // sem violência ou grave ameaça
+  | 'violento'             // com violência à pessoa ou grave ameaça
+  | 'hediondo'             // hediondo ou equiparado
+  | 'hediondo_morte'       // hediondo ou equiparado com resultado morte
+  | 'feminicidio'          // art. 121-A CP (Lei 14.994/2024)
+  | 'comando_organizacao'  // comando de organização criminosa voltada a crimes hediondos
+  | 'milicia';             // constituição de milícia privada (art. 288-A CP)
+
+export type Reincidencia = 'primario' | 'reincidente' | 'reincidente_especifico';
+
+export type IncisoArt112 = 'I' | 'II' | 'III' | 'IV' | 'V' | 'VI-a' | 'VI-b' | 'VI-c' | 'VI-A' | 'VII' | 'VIII';
+
+export type ClassificacaoCrime = {
+  inciso: IncisoArt112;
+  fracaoProgressao: number;
+  fracaoLivramento?: number; // ausente quando o livramento é vedado
+  fundamentoProgressao: string;
+  fundamentoLivramento: string;
+};
+
+// Parcela de cada crime no requisito objetivo, na ordem de cumprimento
+export type RequisitoCrime = {
+  crimeId: string;
+  descricao: string;
+  classificacao: ClassificacaoCrime;
+  diasPena: number;
+  diasProgressao: number;
+  diasLivramento: number;      // pena integral quando o livramento é vedado
+  acumuladoProgressao: number;
+  acumuladoLivramento: number;
+  dataProgressao?: string;     // data em que a fração deste crime fica satisfeita
+};
+
+export type RegimePrisional = 'Fechado' | 'Semiaberto' | 'Aberto';
+
+// Condenação de um processo de execução; várias são unificadas em uma pena total (art. 111 LEP)
+export type ProcessoExecucao = {
+  id: string;
+  numeroProcesso: string;
+  vara?: string;
+  dataTransito?: string;
+  crimes: Crime[];
+  pena?: PenaPeriodo;       // usada quando os crimes do processo não são detalhados
 };
 
 export type DadosSentenca = {
   crimes: Crime[];
   totalDias: number;        // total da pena em dias (converter anos/meses/dias p/ dias)
-  regimeInicial: 'Fechado' | 'Semiaberto' | 'Aberto';
-  fracaoProgressao: number; // ex.: 1/6 = 0.1667, 2/5 = 0.4, 3/5 = 0.6 (editável)
+  pena?: PenaPeriodo;       // pena em anos/meses/dias; habilita a contagem pelo calendário (art. 10 CP)
+  regimeInicial: RegimePrisional;
+  fracaoProgressao: number; // ex.: 1/6 = 0.1667, 2/5 = 0.4, 3/5 = 0.6 (editável; com crimes informados vale a fração de cada um)
   fracaoLivramento?: number; // opcional, ex.: 1/3, 1/2, 2/3
   dataInicioTeorica?: string; // opcional (inicio do cumprimento, se existir)
   numeroProcesso?: string;
@@ -45,6 +132,9 @@ export type DadosSentenca = {
   juiz?: string;
   dataTransito?: string; // data do trânsito em julgado
   observacoes?: string;
+  reincidente?: boolean; // usado quando os crimes não são detalhados
+  natureza?: NaturezaCrime; // idem; define as vedações do indulto
+  processos?: ProcessoExecucao[]; // presentes quando a pena resulta da unificação
 };
 
 export type ResultadoCalculoV2 = {
@@ -55,6 +145,64 @@ export type ResultadoCalculoV2 = {
   diasFaltantesParaProgressao?: number;
   diasFaltantesParaTermino: number;
   remicoesAcumuladasHoje: number;
+  metodoContagem: 'calendario' | 'aproximado';
+  comparacaoContagem?: ComparacaoContagem[];
+  requisitosPorCrime?: RequisitoCrime[];
+  livramentoVedado?: boolean;
+  planoEtapas: EtapaExecucao[];
+  dataBaseProgressao?: string; // última data-base fixada por falta grave, regressão ou progressão
+  impactoEventos?: ImpactoEvento[];
+  limiteCumprimento?: LimiteCumprimento;
+  detracaoPorProcesso?: DetracaoProcesso[];
+};
+
+// Limite de cumprimento do art. 75 CP; os benefícios seguem calculados sobre a pena total (Súmula 715 STF)
+export type LimiteCumprimento = {
+  diasPenaTotal: number;
+  diasLimite: number;       // pena cumprida máxima até a soltura
+  fundamento: string;
+};
+
+export type DetracaoProcesso = {
+  processoId?: string;      // ausente para custódia não vinculada a processo
+  numeroProcesso?: string;
+  diasCustodia: number;
+  diasAntesTransito?: number; // custódia provisória, detraída da pena do processo (art. 42 CP)
+};
+
+export type DatasMarco = {
+  progressao?: string;
+  livramento?: string;
+  termino?: string;
+};
+
+// Como um evento processual deslocou os marcos da execução
+export type ImpactoEvento = {
+  eventoId: string;
+  tipo: EventoProcessual['tipo'];
+  data: string;
+  efeito: string;
+  antes: DatasMarco;
+  depois: DatasMarco;
+};
+
+// Mudança de regime prevista; a partir da segunda progressão a fração incide sobre o saldo
+export type EtapaExecucao = {
+  regimeOrigem: RegimePrisional;
+  regimeDestino: RegimePrisional | 'Termino';
+  data?: string;
+  baseDias: number;       // pena sobre a qual incide a fração
+  fracao: number;         // fração efetiva sobre a base
+  diasRequisito: number;
+  acumuladoDias: number;  // pena cumprida exigida até a mudança
+  saldoDias: number;      // pena remanescente após a mudança
+};
+
+export type ComparacaoContagem = {
+  marco: 'progressao' | 'livramento' | 'termino';
+  aproximada?: string;  // fatores fixos de 365/30 dias
+  calendario?: string;  // anos e meses pelo calendário comum
+  diferencaDias?: number; // calendario - aproximada
 };
 
 export type PontoTempo = {
@@ -63,4 +211,68 @@ export type PontoTempo = {
   episodioId?: string;
   remissaoId?: string;
   valor: number; // +1 para início, -1 para fim, ou quantidade de dias remidos
-};
\ No newline at end of file
+};
+
+// Requisitos de um decreto de indulto natalino (art. 84, XII, CF)
+export type RegraDecretoIndulto = {
+  id: string;
+  decreto: string;
+  ano: number;
+  dataCorte: string;                  // data até a qual os requisitos devem estar preenchidos
+  naturezasImpeditivas: NaturezaCrime[];
+  semFaltaGraveMeses?: number;        // sem falta grave nos meses anteriores à data de corte
+  indulto?: {
+    penaMaximaAnos?: number;          // pena dos crimes não impeditivos, contada pelo calendário
+    fracaoPrimario: number;
+    fracaoReincidente: number;
+  };
+  comutacao?: {
+    fracaoPrimario: number;           // fração cumprida exigida
+    fracaoReincidente: number;
+    reducaoPrimario: number;          // fração do saldo comutada
+    reducaoReincidente: number;
+  };
+};
+
+export type AvaliacaoIndulto = {
+  decretoId: string;
+  decreto: string;
+  dataCorte: string;
+  beneficio: 'indulto' | 'comutacao' | 'nenhum' | 'nao_avaliado';
+  diasCumpridosNoCorte: number;
+  diasPenaImpeditiva: number;         // cumprida por inteiro antes dos demais crimes
+  diasExigidosIndulto?: number;
+  diasExigidosComutacao?: number;
+  saldoNoCorte: number;
+  diasComutados?: number;
+  saldoComutado?: number;
+  fundamentos: string[];
+};
+
+// Estado completo de um caso de execução, gravado a cada versão salva
+export type SnapshotExecucao = {
+  dadosSentenca: DadosSentenca;
+  episodios: EpisodioCustodia[];
+  remissoes: Remissao[];
+  eventos: EventoProcessual[];
+  incluirDiaSoltura: boolean;
+};
+
+export type CasoExecucao = {
+  id: string;
+  clienteNome: string;
+  numeroProcesso?: string;
+  observacoes?: string;
+  versaoAtual: number;
+  updatedAt: string;
+};
+
+export type VersaoCasoExecucao = {
+  id: string;
+  casoId: string;
+  versao: number;
+  snapshot: SnapshotExecucao;
+  resultado?: ResultadoCalculoV2;
+  dataReferencia: string;
+  createdAt: string;
+};
@@ -0,0 +1,154 @@
+// Resultado da calculadora de pensão alimentícia (edge function calculo-pensao-alimenticia),
+// com as parcelas gravadas em calculo_pensao_historico.parcelas
+export type PagamentoPensao = {
+  data: string;  // ISO date (YYYY-MM-DD)
+  valor: string;
+  observacao: string;
+};
+
+// Renda líquida do alimentante a partir de um mês (pensão em percentual da renda)
+export type RendaMensal = {
+  competencia: string; // YYYY-MM
+  valor: string;
+};
+
+export type TipoCalculoPensao = 'fixo' | 'salario_minimo' | 'percentual_renda';
+
+export type ParcelaPensao = {
+  vencimento: string;
+  valorDevido: number;
+  baseCalculo: number | null; // salário mínimo ou renda do mês, quando a pensão é percentual
+  valorPago: number;
+  pagamentos: string[];
+  valorEmAberto: number;
+  fatorCorrecao: number;
+  valorCorrigido: number;
+  diasJuros: number;
+  percentualJuros: number;
+  valorJuros: number;
+  valorMulta: number;
+  total: number;
+  rito?: RitoExecucao;
+};
+
+// Art. 528, § 7º, do CPC: três últimas parcelas anteriores ao ajuizamento e as vincendas (prisão); demais (penhora)
+export type RitoExecucao = 'prisao' | 'penhora';
+
+export type DemonstrativoRito = {
+  parcelas: number;
+  principal: number;
+  correcao: number;
+  juros: number;
+  multa: number;
+  total: number;
+};
+
+export type CalculoPensao = {
+  valorPensao: number;
+  percentualRenda: number;
+  tipoCalculo?: TipoCalculoPensao;
+  baseCalculo?: number | null;
+  valorTotalAtrasado: number;
+  correcao?: number;
+  multa: number;
+  juros: number;
+  valorCorrigido: number;
+  detalhamento: string;
+  totalParcelas?: number;
+  saldoDevedor?: number;
+  proximoVencimento?: string;
+  proximoValorTotal?: number;
+  totalPagamentosRealizados?: number;
+  parcelasEmAtraso?: number;
+  valorTotalOriginal?: number;
+  valorProximaPensao?: number;
+  tribunal?: string;
+  tabela?: string;
+  indice?: string;
+  jurosMensais?: number;
+  dataCalculo?: string;
+  parcelas?: ParcelaPensao[];
+  competenciasSemIndice?: string[];
+  avisos?: string[]; // critérios legais que o cálculo não aplica e que o usuário deve conferir
+  dataAjuizamento?: string | null;
+  demonstrativos?: Record<RitoExecucao, DemonstrativoRito> | null;
+};
+
+// Simulador de revisão de alimentos (edge function simulacao-revisional-pensao), gravado em
+// calculo_pensao_historico.simulacao com tipo_calculo 'simulacao_revisional'
+export type ItemValorPensao = {
+  descricao: string;
+  valor: string;
+};
+
+export type CategoriaNecessidade = 'educacao' | 'saude' | 'alimentacao' | 'vestuario' | 'lazer' | 'outros';
+
+export type NecessidadeAlimentando = ItemValorPensao & {
+  categoria: CategoriaNecessidade;
+};
+
+export type SimulacaoRevisionalEntrada = {
+  nomeCenario: string;
+  rendaAlimentante: string;
+  despesasAlimentante: ItemValorPensao[];
+  obrigacoesExistentes: ItemValorPensao[];
+  outrosDependentes: string;
+  numeroFilhos: string;
+  necessidades: NecessidadeAlimentando[];
+  despesaMoradia: string;
+  moradoresResidencia: string;
+  rendaOutroGenitor: string;
+  valorAtual: string;
+  observacoes: string;
+};
+
+export type SimulacaoRevisional = {
+  nomeCenario: string;
+  dataSimulacao: string;
+  numeroFilhos: number;
+  rendaAlimentante: number;
+  despesasAlimentante: number;
+  obrigacoesExistentes: number;
+  outrosDependentes: number;
+  rendaDisponivel: number;
+  necessidadesPorCategoria: { categoria: CategoriaNecessidade; valor: number }[];
+  cotaMoradia: number;
+  necessidadeTotal: number;
+  rendaOutroGenitor: number;
+  participacaoAlimentante: number;
+  necessidadeProporcional: number;
+  capacidadeContributiva: number;
+  valorMinimo: number;
+  valorSugerido: number;
+  valorMaximo: number;
+  valorAtual: number | null;
+  tendencia: 'majoracao' | 'reducao' | 'manutencao' | null;
+  fundamentos: string[];
+  alertas: string[];
+};
+
+// Importação de extrato bancário (OFX, CSV ou texto copiado do extrato) para o histórico de pagamentos
+export type LancamentoExtrato = {
+  data: string; // YYYY-MM-DD
+  valor: number; // sempre positivo; o sentido fica em tipo
+  tipo: 'debito' | 'credito' | 'indefinido';
+  descricao: string;
+  origem?: string; // arquivo de onde o lançamento foi lido
+};
+
+export type IdentificacaoRecebedor = {
+  nome: string;
+  cpf: string;
+  chavePix: string;
+};
+
+export type TransferenciaIdentificada = LancamentoExtrato & {
+  criterio: 'cpf' | 'chave' | 'nome';
+};
+
+// Pagamento proposto por mês, somando as transferências identificadas na competência
+export type PagamentoProposto = {
+  competencia: string; // YYYY-MM
+  pagamento: PagamentoPensao;
+  transferencias: TransferenciaIdentificada[];
+};
@@ -0,0 +1,47 @@
+// Tipos da calculadora de prescrição e decadência (src/lib/prescricao.ts)
+export type AreaPrescricao = 'civil' | 'consumidor' | 'trabalhista' | 'tributario';
+
+export type NaturezaPrazo = 'prescricao' | 'decadencia';
+
+export type PrazoLegal = {
+  id: string;
+  area: AreaPrescricao;
+  rotulo: string;
+  natureza: NaturezaPrazo;
+  anos: number;
+  meses: number;
+  dias: number;
+  fundamento: string;   // dispositivo legal do prazo
+  termoInicial: string; // descrição do evento que deflagra a contagem
+  observacao?: string;
+};
+
+// Causas interruptivas; a suspensão do RJET (Lei 14.010/2020) tem período fixo e é uma opção do cálculo
+export type TipoEventoPrescricao = 'citacao' | 'protesto';
+
+export type EventoPrescricao = {
+  id: string;
+  tipo: TipoEventoPrescricao;
+  data: string; // ISO date (YYYY-MM-DD)
+};
+
+export type DadosPrescricao = {
+  prazoId: string;
+  dataEvento: string;
+  eventos: EventoPrescricao[];
+  aplicarRjet: boolean;
+  dataReferencia: string; // data em que se verifica a consumação (normalmente hoje)
+};
+
+export type ResultadoPrescricao = {
+  prazo: PrazoLegal;
+  dataEvento: string;
+  inicioContagem: string;
+  dataFinal: string;      // último dia para exercer a pretensão ou o direito
+  diasSuspensos: number;
+  interrompidaEm: string | null;
+  consumada: boolean;
+  diasRestantes: number;  // negativo quando já consumada
+  fundamentacao: string[];
+  alertas: string[];
+};
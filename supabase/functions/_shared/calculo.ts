@@ -0,0 +1,300 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Infraestrutura comum às calculadoras (contrato bancário, débito judicial, trabalhista, pensão): usuário e fuso,
+// séries de índices do SGS, correção monetária mês a mês, datas civis e resultado estruturado
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Usuário autenticado e o fuso do perfil, usado para a data de "hoje" e o carimbo do relatório
+export async function identificarUsuario(supabase: ReturnType<typeof createClient>, req: Request): Promise<{ userId: string | null; userTimezone: string }> {
+  const authHeader = req.headers.get('Authorization');
+  let userTimezone = 'America/Sao_Paulo'; // Padrão
+  let userId: string | null = null;
+
+  if (authHeader) {
+    try {
+      const token = authHeader.replace('Bearer ', '');
+      const { data: { user } } = await supabase.auth.getUser(token);
+
+      if (user) {
+        userId = user.id;
+        console.log('Usuário autenticado:', userId);
+        // Buscar timezone do usuário
+        const { data: profile } = await supabase
+          .from('profiles')
+          .select('timezone')
+          .eq('user_id', user.id)
+          .single();
+
+        if (profile?.timezone) {
+          userTimezone = profile.timezone;
+          console.log('Timezone do usuário encontrado:', userTimezone);
+        } else {
+          console.log('Timezone não encontrado no perfil, usando padrão');
+        }
+      }
+    } catch (error) {
+      console.log('Erro ao buscar timezone:', error);
+    }
+  }
+
+  return { userId, userTimezone };
+}
+
+export function calcularDiferencaDias(dataInicio: string, dataFim: string): number {
+  const inicio = new Date(dataInicio);
+  const fim = new Date(dataFim);
+  const diferenca = fim.getTime() - inicio.getTime();
+  return Math.ceil(diferenca / (1000 * 3600 * 24));
+}
+
+export function adicionarDias(data: string, dias: number): string {
+  const [ano, mes, dia] = data.split('-').map(Number);
+  return new Date(Date.UTC(ano, mes - 1, dia + dias)).toISOString().slice(0, 10);
+}
+
+export function adicionarMeses(data: string, meses: number): string {
+  const totalMeses = parseInt(data.slice(0, 4)) * 12 + parseInt(data.slice(5, 7)) - 1 + meses;
+  const ano = Math.floor(totalMeses / 12);
+  const mes = totalMeses % 12;
+  const ultimoDia = new Date(Date.UTC(ano, mes + 1, 0)).getUTCDate();
+  const dia = Math.min(parseInt(data.slice(8, 10)), ultimoDia);
+  return `${ano}-${String(mes + 1).padStart(2, '0')}-${String(dia).padStart(2, '0')}`;
+}
+
+// Séries mensais do SGS do Banco Central, carregadas na tabela indices_economicos
+export const SERIES_SGS: Record<string, { nome: string; serie: number; fonte: string }> = {
+  ipca: { nome: 'IPCA', serie: 433, fonte: 'IBGE' },
+  igpm: { nome: 'IGP-M', serie: 189, fonte: 'FGV' },
+  inpc: { nome: 'INPC', serie: 188, fonte: 'IBGE' },
+  selic: { nome: 'SELIC', serie: 4390, fonte: 'BCB' },
+  tr: { nome: 'TR', serie: 7811, fonte: 'BCB' },
+  ipcae: { nome: 'IPCA-E', serie: 10764, fonte: 'IBGE' },
+  cdi: { nome: 'CDI', serie: 4391, fonte: 'BCB' }
+};
+
+// Taxas médias mensais de juros (% a.m.) das operações de crédito com recursos livres, por
+// modalidade; também carregadas do SGS em indices_economicos, na competência da contratação
+export const TAXAS_MEDIAS_SGS: Record<string, { nome: string; serie: number; fonte: string }> = {
+  taxa_veiculos: { nome: 'Taxa média - aquisição de veículos (PF)', serie: 25471, fonte: 'BCB' },
+  taxa_pessoal: { nome: 'Taxa média - crédito pessoal não consignado (PF)', serie: 25464, fonte: 'BCB' },
+  taxa_consignado: { nome: 'Taxa média - crédito pessoal consignado total (PF)', serie: 25469, fonte: 'BCB' }
+};
+
+// Índice adotado pela tabela de atualização de cada tribunal
+export const TABELAS_TRIBUNAIS: Record<string, { nome: string; tabela: string; indice: string }> = {
+  tjsp: { nome: 'TJSP', tabela: 'Tabela Prática para Cálculo de Atualização Monetária do TJSP', indice: 'inpc' },
+  tjmg: { nome: 'TJMG', tabela: 'Fator de atualização monetária da CGJ/TJMG', indice: 'inpc' },
+  tjdft: { nome: 'TJDFT', tabela: 'Tabela de atualização monetária do TJDFT', indice: 'inpc' },
+  jf: { nome: 'Justiça Federal', tabela: 'Manual de Cálculos da Justiça Federal (ações condenatórias em geral)', indice: 'ipcae' },
+  outro: { nome: 'Outro tribunal', tabela: 'Índice informado pelo usuário', indice: 'inpc' }
+};
+
+// Salário mínimo nacional em reais, série mensal do SGS carregada em indices_economicos como os índices
+export const SALARIO_MINIMO_SGS: Record<string, { nome: string; serie: number; fonte: string }> = {
+  salario_minimo: { nome: 'Salário mínimo (R$)', serie: 1619, fonte: 'BCB' }
+};
+
+export type SalariosMinimos = { competencia: string; valor: number }[];
+
+// Série inteira, da competência mais recente para a mais antiga
+export async function carregarSalariosMinimos(supabase: ReturnType<typeof createClient>): Promise<SalariosMinimos> {
+  const { data, error } = await supabase
+    .from('indices_economicos')
+    .select('competencia, variacao')
+    .eq('indice', 'salario_minimo')
+    .order('competencia', { ascending: false });
+
+  if (error) {
+    console.error('Erro ao carregar série do salário mínimo:', error);
+    return [];
+  }
+  return (data || []).map((linha: { competencia: string; variacao: number }) => ({ competencia: linha.competencia, valor: Number(linha.variacao) }));
+}
+
+// Valor do mês da data. Mês ainda não importado usa a competência anterior mais próxima (ou, antes do
+// início da série, a mais antiga), marcada como foraDaTabela para o cálculo alertar
+export function salarioMinimoVigente(salarios: SalariosMinimos, data: string): { competencia: string; valor: number; foraDaTabela: boolean } {
+  const competencia = `${data.slice(0, 7)}-01`;
+  const vigente = salarios.find(item => item.competencia <= competencia) ?? salarios[salarios.length - 1];
+  if (!vigente) {
+    return { competencia, valor: 0, foraDaTabela: true };
+  }
+  return { ...vigente, foraDaTabela: vigente.competencia !== competencia };
+}
+
+export interface CorrecaoMonetaria {
+  valorOriginal: number;
+  valorCorrigido: number;
+  fator: number;
+  memoria: { competencia: string; variacao: number | null; fatorAcumulado: number }[];
+  competenciasSemIndice: string[];
+}
+
+// Competências (YYYY-MM-01) do mês inicial até o mês anterior ao final
+export function competenciasEntre(dataInicio: string, dataFim: string): string[] {
+  const competencias: string[] = [];
+  let ano = parseInt(dataInicio.slice(0, 4));
+  let mes = parseInt(dataInicio.slice(5, 7));
+  const mesFinal = dataFim.slice(0, 7);
+
+  while (`${ano}-${String(mes).padStart(2, '0')}` < mesFinal) {
+    competencias.push(`${ano}-${String(mes).padStart(2, '0')}-01`);
+    mes++;
+    if (mes > 12) {
+      mes = 1;
+      ano++;
+    }
+  }
+  return competencias;
+}
+
+export async function carregarSerieIndice(supabase: ReturnType<typeof createClient>, indice: string, dataInicio: string, dataFim: string): Promise<Map<string, number>> {
+  const { data, error } = await supabase
+    .from('indices_economicos')
+    .select('competencia, variacao')
+    .eq('indice', indice)
+    .gte('competencia', `${dataInicio.slice(0, 7)}-01`)
+    .lt('competencia', `${dataFim.slice(0, 7)}-01`)
+    .order('competencia');
+
+  if (error) {
+    console.error('Erro ao carregar série do índice:', error);
+    return new Map();
+  }
+  return new Map((data || []).map((linha: { competencia: string; variacao: number }) => [linha.competencia, Number(linha.variacao)]));
+}
+
+// Fator acumulado: produto de (1 + variação do mês) em cada competência do período
+export function aplicarCorrecaoMonetaria(valor: number, serie: Map<string, number>, dataInicio: string, dataFim: string): CorrecaoMonetaria {
+  let fator = 1;
+  const memoria: CorrecaoMonetaria['memoria'] = [];
+  const competenciasSemIndice: string[] = [];
+
+  competenciasEntre(dataInicio, dataFim).forEach(competencia => {
+    const variacao = serie.has(competencia) ? serie.get(competencia)! : null;
+    if (variacao === null) {
+      competenciasSemIndice.push(competencia);
+    } else {
+      fator *= 1 + variacao / 100;
+    }
+    memoria.push({ competencia, variacao, fatorAcumulado: fator });
+  });
+
+  return { valorOriginal: valor, valorCorrigido: valor * fator, fator, memoria, competenciasSemIndice };
+}
+
+// SELIC acumulada de forma simples (soma das taxas mensais), como nos manuais de cálculo da
+// Justiça Federal e da Justiça do Trabalho
+export function acumularSelic(serie: Map<string, number>, dataInicio: string, dataFim: string): { percentual: number; competenciasSemIndice: string[] } {
+  let percentual = 0;
+  const competenciasSemIndice: string[] = [];
+  competenciasEntre(dataInicio, dataFim).forEach(competencia => {
+    if (serie.has(competencia)) {
+      percentual += serie.get(competencia)!;
+    } else {
+      competenciasSemIndice.push(competencia);
+    }
+  });
+  return { percentual, competenciasSemIndice };
+}
+
+export function formatarCompetencia(competencia: string): string {
+  return `${competencia.slice(5, 7)}/${competencia.slice(0, 4)}`;
+}
+
+// Datas civis (YYYY-MM-DD) sem passar por Date, que deslocaria o dia conforme o fuso
+export function formatarData(data: string): string {
+  return `${data.slice(8, 10)}/${data.slice(5, 7)}/${data.slice(0, 4)}`;
+}
+
+export function formatarMemoriaCorrecao(titulo: string, correcao: CorrecaoMonetaria): string {
+  if (correcao.memoria.length === 0) {
+    return `${titulo}: sem competências a corrigir (mesmo mês)`;
+  }
+
+  const linhas = correcao.memoria.map(({ competencia, variacao, fatorAcumulado }) =>
+    `  ${formatarCompetencia(competencia)}   ${variacao === null ? 'sem índice' : `${variacao.toLocaleString('pt-BR', { minimumFractionDigits: 4, maximumFractionDigits: 4 })}%`}   fator acumulado ${fatorAcumulado.toLocaleString('pt-BR', { minimumFractionDigits: 6, maximumFractionDigits: 6 })}`
+  );
+
+  return `${titulo}:
+${linhas.join('\n')}
+  R$ ${correcao.valorOriginal.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} × ${correcao.fator.toLocaleString('pt-BR', { minimumFractionDigits: 6, maximumFractionDigits: 6 })} = R$ ${correcao.valorCorrigido.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export function formatarPercentual(valor: number, casas = 4): string {
+  return `${valor.toLocaleString('pt-BR', { maximumFractionDigits: casas })}%`;
+}
+
+export function formatarMoeda(valor: number): string {
+  return `R$ ${valor.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+// Resultado estruturado: itens do resumo e períodos do cálculo, cada linha com a sua fórmula.
+// Vai para o frontend (tabelas, gráficos e planilhas) e fica gravado no histórico.
+export const VERSAO_RESULTADO_ESTRUTURADO = 1;
+
+export interface ItemCalculo {
+  rotulo: string;
+  valor: number;
+  formula: string;
+}
+
+export interface PeriodoCalculo {
+  secao: string;
+  rotulo: string;
+  inicio: string | null;
+  fim: string;
+  dias: number | null;
+  base: number | null;
+  taxa: number | null; // percentual aplicado no período
+  valor: number;
+  saldo: number | null;
+  formula: string;
+}
+
+export interface ResultadoEstruturado {
+  versao: number;
+  modo: string;
+  secoes: Record<string, string>;
+  itens: ItemCalculo[];
+  periodos: PeriodoCalculo[];
+}
+
+export function formatarFator(fator: number): string {
+  return fator.toLocaleString('pt-BR', { minimumFractionDigits: 6, maximumFractionDigits: 6 });
+}
+
+// Uma linha por competência: o saldo do mês anterior multiplicado por (1 + variação)
+export function periodosCorrecao(secao: string, correcao: CorrecaoMonetaria, nomeIndice: string): PeriodoCalculo[] {
+  let fatorAnterior = 1;
+  return correcao.memoria.map(item => {
+    const saldoAnterior = correcao.valorOriginal * fatorAnterior;
+    const saldo = correcao.valorOriginal * item.fatorAcumulado;
+    fatorAnterior = item.fatorAcumulado;
+    return {
+      secao,
+      rotulo: formatarCompetencia(item.competencia),
+      inicio: item.competencia,
+      fim: adicionarDias(adicionarMeses(item.competencia, 1), -1),
+      dias: null,
+      base: saldoAnterior,
+      taxa: item.variacao,
+      valor: saldo - saldoAnterior,
+      saldo,
+      formula: item.variacao === null
+        ? `${formatarMoeda(saldoAnterior)} × 1 (${nomeIndice} sem índice cadastrado)`
+        : `${formatarMoeda(saldoAnterior)} × (1 + ${formatarPercentual(item.variacao)})`
+    };
+  });
+}
+
+export function descreverCorrecao(correcao: CorrecaoMonetaria, nomeIndice: string): string {
+  if (correcao.memoria.length === 0) return 'Sem competência completa no período';
+  const primeira = formatarCompetencia(correcao.memoria[0].competencia);
+  const ultima = formatarCompetencia(correcao.memoria[correcao.memoria.length - 1].competencia);
+  return `${formatarMoeda(correcao.valorOriginal)} × (${formatarFator(correcao.fator)} − 1), ${nomeIndice} de ${primeira} a ${ultima}`;
+}
@@ -0,0 +1,394 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  corsHeaders,
+  identificarUsuario,
+  calcularDiferencaDias,
+  SERIES_SGS,
+  TABELAS_TRIBUNAIS,
+  competenciasEntre,
+  carregarSerieIndice,
+  aplicarCorrecaoMonetaria,
+  acumularSelic,
+  formatarCompetencia,
+  formatarData,
+  formatarPercentual,
+  formatarMoeda,
+  formatarFator
+} from '../_shared/calculo.ts';
+
+interface ParcelaDebito {
+  descricao: string;
+  data: string;
+  valor: string;
+  // 'principal' recebe juros de mora; 'despesa' (custas adiantadas) só é corrigida
+  tipo: string;
+}
+
+interface DebitoJudicialData {
+  processo?: string;
+  exequente?: string;
+  executado?: string;
+  tribunal: string;
+  indiceCorrecao?: string; // só para o tribunal 'outro'
+  parcelas: ParcelaDebito[];
+  dataCitacao: string;
+  dataCalculo?: string;
+  inicioSelic?: string; // vazio desativa a SELIC
+  jurosMensais?: string;
+  honorariosSucumbencia?: string;
+  multa523?: boolean;
+  honorarios523?: boolean;
+  observacoes?: string;
+}
+
+interface ParcelaAtualizada {
+  descricao: string;
+  tipo: 'principal' | 'despesa';
+  dataBase: string;
+  valorOriginal: number;
+  fimCorrecao: string;
+  fatorCorrecao: number;
+  valorCorrigido: number;
+  inicioJuros: string | null;
+  diasJuros: number;
+  percentualJuros: number;
+  valorJuros: number;
+  inicioSelic: string | null;
+  percentualSelic: number;
+  valorSelic: number;
+  total: number;
+}
+
+interface IndiceCompetencia {
+  competencia: string;
+  variacao: number | null; // índice do tribunal, até o marco da SELIC
+  selic: number | null;    // a partir do marco
+}
+
+interface CalculoDebitoJudicial {
+  processo: string | null;
+  exequente: string | null;
+  executado: string | null;
+  tribunal: string;
+  tabela: string;
+  indice: string;
+  dataCitacao: string;
+  dataCalculo: string;
+  marcoSelic: string | null;
+  jurosMensais: number;
+  parcelas: ParcelaAtualizada[];
+  indices: IndiceCompetencia[];
+  totalOriginal: number;
+  totalCorrecao: number;
+  totalJuros: number;
+  totalSelic: number;
+  totalPrincipal: number;
+  totalDespesas: number;
+  percentualHonorarios: number;
+  honorariosSucumbencia: number;
+  subtotal: number;
+  multa523: number;
+  honorarios523: number;
+  total: number;
+  competenciasSemIndice: string[];
+  competenciasSemSelic: string[];
+}
+
+// EC 113/2021, art. 3º: a partir de dezembro de 2021, SELIC uma única vez (correção e juros)
+const INICIO_SELIC_EC113 = '2021-12-01';
+
+function resolverIndice(data: DebitoJudicialData): { tribunal: string; indice: string } {
+  const tribunal = TABELAS_TRIBUNAIS[data.tribunal] ? data.tribunal : 'tjsp';
+  const indice = tribunal === 'outro' && data.indiceCorrecao && SERIES_SGS[data.indiceCorrecao] ? data.indiceCorrecao : TABELAS_TRIBUNAIS[tribunal].indice;
+  return { tribunal, indice };
+}
+
+function maiorData(a: string, b: string): string {
+  return a > b ? a : b;
+}
+
+function calcularDebitoJudicial(
+  data: DebitoJudicialData,
+  dataCalculo: string,
+  serieIndice: Map<string, number>,
+  serieSelic: Map<string, number>
+): CalculoDebitoJudicial {
+  const { tribunal, indice } = resolverIndice(data);
+  const marcoSelic = data.inicioSelic ? `${data.inicioSelic.slice(0, 7)}-01` : null;
+  const jurosMensais = parseFloat(data.jurosMensais || '');
+  const taxaJuros = isNaN(jurosMensais) ? 1 : jurosMensais;
+  const percentualHonorarios = parseFloat(data.honorariosSucumbencia || '') || 0;
+
+  // Até o marco, índice do tribunal e juros de mora; depois, apenas a SELIC
+  const fimCorrecao = marcoSelic && marcoSelic < dataCalculo ? marcoSelic : dataCalculo;
+  const competenciasSemIndice = new Set<string>();
+  const competenciasSemSelic = new Set<string>();
+
+  const parcelas: ParcelaAtualizada[] = data.parcelas.map(parcela => {
+    const valorOriginal = parseFloat(parcela.valor) || 0;
+    const tipo = parcela.tipo === 'despesa' ? 'despesa' : 'principal';
+
+    const correcao = aplicarCorrecaoMonetaria(valorOriginal, serieIndice, parcela.data, maiorData(parcela.data, fimCorrecao));
+    correcao.competenciasSemIndice.forEach(competencia => competenciasSemIndice.add(competencia));
+
+    // Juros simples de 1% a.m. pro rata die, da citação (ou do vencimento posterior) até o marco
+    let inicioJuros: string | null = null;
+    let diasJuros = 0;
+    if (tipo === 'principal') {
+      inicioJuros = maiorData(data.dataCitacao, parcela.data);
+      diasJuros = Math.max(0, calcularDiferencaDias(inicioJuros, fimCorrecao));
+      if (diasJuros === 0) inicioJuros = null;
+    }
+    const percentualJuros = taxaJuros * diasJuros / 30;
+    const valorJuros = correcao.valorCorrigido * percentualJuros / 100;
+
+    let inicioSelic: string | null = null;
+    let percentualSelic = 0;
+    if (marcoSelic && marcoSelic < dataCalculo) {
+      inicioSelic = maiorData(marcoSelic, parcela.data);
+      const selic = acumularSelic(serieSelic, inicioSelic, dataCalculo);
+      percentualSelic = selic.percentual;
+      selic.competenciasSemIndice.forEach(competencia => competenciasSemSelic.add(competencia));
+    }
+    const valorSelic = (correcao.valorCorrigido + valorJuros) * percentualSelic / 100;
+
+    return {
+      descricao: parcela.descricao || (tipo === 'despesa' ? 'Despesa' : 'Principal'),
+      tipo,
+      dataBase: parcela.data,
+      valorOriginal,
+      fimCorrecao: maiorData(parcela.data, fimCorrecao),
+      fatorCorrecao: correcao.fator,
+      valorCorrigido: correcao.valorCorrigido,
+      inicioJuros,
+      diasJuros,
+      percentualJuros,
+      valorJuros,
+      inicioSelic,
+      percentualSelic,
+      valorSelic,
+      total: correcao.valorCorrigido + valorJuros + valorSelic
+    };
+  });
+
+  const dataMaisAntiga = parcelas.map(parcela => parcela.dataBase).sort()[0] || dataCalculo;
+  const indices: IndiceCompetencia[] = competenciasEntre(dataMaisAntiga, dataCalculo).map(competencia => {
+    const antesDoMarco = competencia < `${fimCorrecao.slice(0, 7)}-01`;
+    return {
+      competencia,
+      variacao: antesDoMarco ? serieIndice.get(competencia) ?? null : null,
+      selic: antesDoMarco ? null : serieSelic.get(competencia) ?? null
+    };
+  });
+
+  const soma = (lista: ParcelaAtualizada[], campo: (parcela: ParcelaAtualizada) => number) =>
+    lista.reduce((total, parcela) => total + campo(parcela), 0);
+  const principais = parcelas.filter(parcela => parcela.tipo === 'principal');
+  const despesas = parcelas.filter(parcela => parcela.tipo === 'despesa');
+
+  const totalPrincipal = soma(principais, parcela => parcela.total);
+  const totalDespesas = soma(despesas, parcela => parcela.total);
+  // Honorários de sucumbência sobre a condenação atualizada (sem as despesas)
+  const honorariosSucumbencia = totalPrincipal * percentualHonorarios / 100;
+  const subtotal = totalPrincipal + totalDespesas + honorariosSucumbencia;
+  // Art. 523, § 1º, do CPC: multa e honorários de 10% sobre o débito, um sem incidir sobre o outro
+  const multa523 = data.multa523 ? subtotal * 0.1 : 0;
+  const honorarios523 = data.honorarios523 ? subtotal * 0.1 : 0;
+
+  return {
+    processo: data.processo || null,
+    exequente: data.exequente || null,
+    executado: data.executado || null,
+    tribunal,
+    tabela: TABELAS_TRIBUNAIS[tribunal].tabela,
+    indice,
+    dataCitacao: data.dataCitacao,
+    dataCalculo,
+    marcoSelic: marcoSelic && marcoSelic < dataCalculo ? marcoSelic : null,
+    jurosMensais: taxaJuros,
+    parcelas,
+    indices,
+    totalOriginal: soma(parcelas, parcela => parcela.valorOriginal),
+    totalCorrecao: soma(parcelas, parcela => parcela.valorCorrigido - parcela.valorOriginal),
+    totalJuros: soma(parcelas, parcela => parcela.valorJuros),
+    totalSelic: soma(parcelas, parcela => parcela.valorSelic),
+    totalPrincipal,
+    totalDespesas,
+    percentualHonorarios,
+    honorariosSucumbencia,
+    subtotal,
+    multa523,
+    honorarios523,
+    total: subtotal + multa523 + honorarios523,
+    competenciasSemIndice: [...competenciasSemIndice].sort(),
+    competenciasSemSelic: [...competenciasSemSelic].sort()
+  };
+}
+
+function formatarParcela(parcela: ParcelaAtualizada, nomeIndice: string, indice: number): string {
+  const linhas = [
+    `${indice + 1}. ${parcela.descricao} (${parcela.tipo === 'despesa' ? 'despesa' : 'principal'}) - data-base ${formatarData(parcela.dataBase)}`,
+    `   Valor original: ${formatarMoeda(parcela.valorOriginal)}`
+  ];
+  if (parcela.fimCorrecao > parcela.dataBase) {
+    linhas.push(`   Correção (${nomeIndice}) até ${formatarData(parcela.fimCorrecao)}: × ${formatarFator(parcela.fatorCorrecao)} = ${formatarMoeda(parcela.valorCorrigido)}`);
+  }
+  if (parcela.inicioJuros) {
+    linhas.push(`   Juros de mora de ${formatarData(parcela.inicioJuros)} a ${formatarData(parcela.fimCorrecao)} (${parcela.diasJuros} dias): ${formatarPercentual(parcela.percentualJuros)} = ${formatarMoeda(parcela.valorJuros)}`);
+  }
+  if (parcela.inicioSelic) {
+    linhas.push(`   SELIC desde ${formatarData(parcela.inicioSelic)}: ${formatarPercentual(parcela.percentualSelic)} sobre ${formatarMoeda(parcela.valorCorrigido + parcela.valorJuros)} = ${formatarMoeda(parcela.valorSelic)}`);
+  }
+  linhas.push(`   Total atualizado: ${formatarMoeda(parcela.total)}`);
+  return linhas.join('\n');
+}
+
+function formatarCalculoDebito(calculo: CalculoDebitoJudicial, data: DebitoJudicialData, agora: Date, userTimezone: string): string {
+  const nomeIndice = SERIES_SGS[calculo.indice].nome;
+
+  return `DEMONSTRATIVO DE ATUALIZAÇÃO DE DÉBITO JUDICIAL
+═══════════════════════════════════════════════════════════════
+${calculo.processo ? `Processo: ${calculo.processo}\n` : ''}${calculo.exequente ? `Exequente: ${calculo.exequente}\n` : ''}${calculo.executado ? `Executado: ${calculo.executado}\n` : ''}Data do cálculo: ${formatarData(calculo.dataCalculo)}
+Citação: ${formatarData(calculo.dataCitacao)}
+
+═══════════════════════════════════════════════════════════════
+CRITÉRIOS
+═══════════════════════════════════════════════════════════════
+• Tribunal: ${TABELAS_TRIBUNAIS[calculo.tribunal].nome}
+• Correção monetária: ${calculo.tabela} - ${nomeIndice} (série ${SERIES_SGS[calculo.indice].serie} do SGS/Banco Central)${calculo.marcoSelic ? `, até ${formatarData(calculo.marcoSelic)}` : ''}
+• Juros de mora: ${formatarPercentual(calculo.jurosMensais)} ao mês, simples e pro rata die, desde a citação (art. 405 do CC e art. 240 do CPC)${calculo.marcoSelic ? `, até ${formatarData(calculo.marcoSelic)}` : ''}
+${calculo.marcoSelic ? `• A partir de ${formatarData(calculo.marcoSelic)}: SELIC acumulada mensalmente, uma única vez, em substituição à correção e aos juros (EC 113/2021, art. 3º)\n` : ''}• Despesas processuais: apenas correção monetária, desde o desembolso
+
+═══════════════════════════════════════════════════════════════
+PARCELAS
+═══════════════════════════════════════════════════════════════
+${calculo.parcelas.map((parcela, indice) => formatarParcela(parcela, nomeIndice, indice)).join('\n\n')}
+${calculo.competenciasSemIndice.length > 0 ? `
+⚠ Competências sem ${nomeIndice} cadastrado (variação zero): ${calculo.competenciasSemIndice.map(formatarCompetencia).join(', ')}` : ''}${calculo.competenciasSemSelic.length > 0 ? `
+⚠ Competências sem SELIC cadastrada (variação zero): ${calculo.competenciasSemSelic.map(formatarCompetencia).join(', ')}` : ''}
+
+═══════════════════════════════════════════════════════════════
+RESUMO DO DÉBITO
+═══════════════════════════════════════════════════════════════
+• Valor original: ${formatarMoeda(calculo.totalOriginal)}
+• Correção monetária: ${formatarMoeda(calculo.totalCorrecao)}
+• Juros de mora: ${formatarMoeda(calculo.totalJuros)}
+• SELIC: ${formatarMoeda(calculo.totalSelic)}
+• Principal atualizado: ${formatarMoeda(calculo.totalPrincipal)}
+• Despesas atualizadas: ${formatarMoeda(calculo.totalDespesas)}
+• Honorários de sucumbência (${formatarPercentual(calculo.percentualHonorarios)}): ${formatarMoeda(calculo.honorariosSucumbencia)}
+• Subtotal: ${formatarMoeda(calculo.subtotal)}
+${calculo.multa523 > 0 ? `• Multa do art. 523, § 1º, do CPC (10%): ${formatarMoeda(calculo.multa523)}\n` : ''}${calculo.honorarios523 > 0 ? `• Honorários do art. 523, § 1º, do CPC (10%): ${formatarMoeda(calculo.honorarios523)}\n` : ''}• TOTAL DO DÉBITO: ${formatarMoeda(calculo.total)}
+${data.observacoes ? `
+═══════════════════════════════════════════════════════════════
+OBSERVAÇÕES ADICIONAIS
+═══════════════════════════════════════════════════════════════
+${data.observacoes}
+` : ''}
+═══════════════════════════════════════════════════════════════
+Cálculo realizado em ${agora.toLocaleDateString('pt-BR', { timeZone: userTimezone, year: 'numeric', month: '2-digit', day: '2-digit' })} às ${agora.toLocaleTimeString('pt-BR', { timeZone: userTimezone, hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+Ferramenta: Oráculo Jurídico - Atualização de Débito Judicial
+═══════════════════════════════════════════════════════════════`;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  console.log('Iniciando atualização de débito judicial');
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { userId, userTimezone } = await identificarUsuario(supabase, req);
+
+    const data: DebitoJudicialData = await req.json();
+
+    const agora = new Date();
+    const hoje = agora.toLocaleDateString('en-CA', { timeZone: userTimezone }); // Formato YYYY-MM-DD no timezone do usuário
+    const dataCalculo = data.dataCalculo || hoje;
+    const parcelas = (data.parcelas || []).filter(parcela => parcela.data && parseFloat(parcela.valor) > 0);
+
+    if (parcelas.length === 0 || !data.dataCitacao) {
+      return new Response(
+        JSON.stringify({ error: 'Informe a data da citação e ao menos uma parcela com data e valor' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (parcelas.some(parcela => parcela.data > dataCalculo)) {
+      return new Response(
+        JSON.stringify({ error: 'Há parcela com data-base posterior à data do cálculo' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const dados = { ...data, parcelas, inicioSelic: data.inicioSelic ?? INICIO_SELIC_EC113 };
+    const { indice } = resolverIndice(dados);
+    const inicioSerie = parcelas.map(parcela => parcela.data).sort()[0];
+
+    const [serieIndice, serieSelic] = await Promise.all([
+      carregarSerieIndice(supabase, indice, inicioSerie, dataCalculo),
+      dados.inicioSelic ? carregarSerieIndice(supabase, 'selic', dados.inicioSelic, dataCalculo) : Promise.resolve(new Map<string, number>())
+    ]);
+
+    const calculo = calcularDebitoJudicial(dados, dataCalculo, serieIndice, serieSelic);
+    const detalhamento = formatarCalculoDebito(calculo, dados, agora, userTimezone);
+
+    const result = {
+      valorTotal: calculo.total,
+      detalhamento,
+      calculo
+    };
+
+    if (userId) {
+      const { error: insertError } = await supabase
+        .from('calculo_debito_judicial_historico')
+        .insert({
+          user_id: userId,
+          processo: calculo.processo,
+          exequente: calculo.exequente,
+          executado: calculo.executado,
+          tribunal: calculo.tribunal,
+          indice_correcao: calculo.indice,
+          data_citacao: calculo.dataCitacao,
+          data_calculo: calculo.dataCalculo,
+          inicio_selic: calculo.marcoSelic,
+          juros_mensais: calculo.jurosMensais,
+          honorarios_sucumbencia: calculo.percentualHonorarios,
+          multa_523: !!dados.multa523,
+          honorarios_523: !!dados.honorarios523,
+          parcelas,
+          observacoes: dados.observacoes || null,
+          valor_original: calculo.totalOriginal,
+          subtotal: calculo.subtotal,
+          valor_total: calculo.total,
+          detalhamento,
+          calculo
+        });
+      if (insertError) {
+        console.error('Erro detalhado ao salvar histórico:', insertError);
+      }
+    } else {
+      console.log('Usuário não autenticado, não salvando no histórico');
+    }
+
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Erro na atualização do débito judicial:', error);
+    return new Response(
+      JSON.stringify({ error: 'Erro interno do servidor' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
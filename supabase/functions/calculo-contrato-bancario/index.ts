@@ -1,13 +1,46 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  corsHeaders,
+  identificarUsuario,
+  calcularDiferencaDias,
+  adicionarDias,
+  adicionarMeses,
+  SERIES_SGS,
+  TAXAS_MEDIAS_SGS,
+  type CorrecaoMonetaria,
+  carregarSerieIndice,
+  aplicarCorrecaoMonetaria,
+  formatarCompetencia,
+  formatarData,
+  formatarMemoriaCorrecao,
+  formatarPercentual,
+  formatarMoeda,
+  VERSAO_RESULTADO_ESTRUTURADO,
+  type ItemCalculo,
+  type PeriodoCalculo,
+  type ResultadoEstruturado,
+  formatarFator,
+  periodosCorrecao,
+  descreverCorrecao
+} from '../_shared/calculo.ts';
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+interface Pagamento {
+  data: string;
+  valor: string;
+  observacao: string;
+}
+
+interface TaxaCiclo {
+  competencia: string; // YYYY-MM do fechamento do ciclo
+  taxaCobrada: string;
+  taxaMedia: string;
+}
 
 interface ContratoBancarioData {
+  // 'contrato' (padrão) ou 'rotativo' (cheque especial e cartão de crédito)
+  modoCalculo?: string;
   valorContrato: string;
   dataContrato: string;
   dataVencimento: string;
@@ -19,13 +52,24 @@ interface ContratoBancarioData {
   multaAtraso: string;
   jurosMora: string;
   observacoes: string;
-}
-
-function calcularDiferencaDias(dataInicio: string, dataFim: string): number {
-  const inicio = new Date(dataInicio);
-  const fim = new Date(dataFim);
-  const diferenca = fim.getTime() - inicio.getTime();
-  return Math.ceil(diferenca / (1000 * 3600 * 24));
+  // Parcelamento (opcional): tabela de amortização revisada pela taxa média do BACEN
+  sistemaAmortizacao?: string;
+  numeroParcelas?: string;
+  parcelasPagas?: string;
+  modalidadeCredito?: string;
+  taxaMediaBacen?: string;
+  repeticaoDobro?: boolean;
+  // Capitalização (opcional): parcela cobrada e taxa anual declarada no contrato
+  valorParcela?: string;
+  taxaAnualDeclarada?: string;
+  // Extrato (opcional): pagamentos imputados na ordem do art. 354 do CC
+  pagamentos?: Pagamento[];
+  // Rotativo: extrato colado ou importado de CSV e taxas por ciclo
+  tipoRotativo?: string;
+  diaFechamento?: string;
+  diaVencimento?: string;
+  extratoTexto?: string;
+  taxasCiclos?: TaxaCiclo[];
 }
 
 function calcularDiferencaMeses(dataInicio: string, dataFim: string): number {
@@ -52,17 +96,1189 @@ function calcularJurosCompostos(principal: number, taxa: number, tempo: number):
   return principal * (Math.pow(1 + (taxa / 100), tempo / 30) - 1);
 }
 
-function aplicarCorrecaoMonetaria(valor: number, indice: string, meses: number): number {
-  // Índices de correção baseados em dados históricos aproximados
-  const indices = {
-    ipca: 0.005,   // 0.5% ao mês (6% ao ano)
-    igpm: 0.007,   // 0.7% ao mês (8.7% ao ano)
-    inpc: 0.004,   // 0.4% ao mês (4.9% ao ano)
-    selic: 0.008   // 0.8% ao mês (10% ao ano)
+const SISTEMAS_AMORTIZACAO: Record<string, string> = {
+  price: 'Tabela Price (parcelas fixas)',
+  sac: 'SAC (amortização constante)',
+  sacre: 'SACRE (parcela recalculada a cada 12 meses)'
+};
+
+// Modalidades com série de taxa média cadastrada; nas demais, vale a taxa informada
+const MODALIDADES_CREDITO: Record<string, { nome: string; taxaMedia?: string }> = {
+  veiculos: { nome: 'Aquisição de veículos - pessoa física', taxaMedia: 'taxa_veiculos' },
+  pessoal: { nome: 'Crédito pessoal não consignado', taxaMedia: 'taxa_pessoal' },
+  consignado: { nome: 'Crédito pessoal consignado', taxaMedia: 'taxa_consignado' },
+  imobiliario: { nome: 'Financiamento imobiliário' },
+  capital_giro: { nome: 'Capital de giro - pessoa jurídica' },
+  outros: { nome: 'Outras modalidades' }
+};
+
+// Taxa considerada abusiva quando supera em 50% a média de mercado (STJ, REsp 1.061.530/RS)
+const LIMITE_ABUSIVIDADE = 1.5;
+
+interface ParcelaAmortizacao {
+  numero: number;
+  vencimento: string;
+  parcela: number;
+  juros: number;
+  amortizacao: number;
+  saldo: number;
+}
+
+interface TaxaMediaMercado {
+  valor: number;
+  fonte: string;
+}
+
+interface RevisaoParcelamento {
+  sistema: string;
+  modalidade: string;
+  taxaContratada: number;
+  taxaMedia: number;
+  fonteTaxaMedia: string;
+  razaoTaxas: number;
+  abusiva: boolean;
+  parcelasPagas: number;
+  parcelas: {
+    numero: number;
+    vencimento: string;
+    parcelaContratada: number;
+    parcelaRevisada: number;
+    diferenca: number;
+    paga: boolean;
+  }[];
+  totalContratado: number;
+  totalRevisado: number;
+  valorPagoAMaior: number;
+  valorPagoAMaiorCorrigido: number;
+  repeticaoDobro: boolean;
+  valorRestituir: number | null; // só apurado quando a taxa contratada é abusiva
+  saldoContratado: number;
+  saldoRevisado: number;
+}
+
+// Parcelas mensais a partir de um mês após a contratação; a última quita o saldo residual
+function gerarTabelaAmortizacao(sistema: string, principal: number, taxaMensal: number, numeroParcelas: number, dataContrato: string): ParcelaAmortizacao[] {
+  const i = taxaMensal / 100;
+  const tabela: ParcelaAmortizacao[] = [];
+  const parcelaPrice = i === 0 ? principal / numeroParcelas : principal * i / (1 - Math.pow(1 + i, -numeroParcelas));
+  let parcelaSacre = 0;
+  let saldo = principal;
+
+  for (let numero = 1; numero <= numeroParcelas; numero++) {
+    const juros = saldo * i;
+    let amortizacao: number;
+
+    if (sistema === 'sac') {
+      amortizacao = principal / numeroParcelas;
+    } else if (sistema === 'sacre') {
+      if ((numero - 1) % 12 === 0) {
+        parcelaSacre = saldo / (numeroParcelas - numero + 1) + juros;
+      }
+      amortizacao = parcelaSacre - juros;
+    } else {
+      amortizacao = parcelaPrice - juros;
+    }
+
+    if (numero === numeroParcelas || amortizacao > saldo) {
+      amortizacao = saldo;
+    }
+    saldo -= amortizacao;
+
+    tabela.push({
+      numero,
+      vencimento: adicionarMeses(dataContrato, numero),
+      parcela: amortizacao + juros,
+      juros,
+      amortizacao,
+      saldo: Math.max(0, saldo)
+    });
+  }
+
+  return tabela;
+}
+
+function modalidadeDoContrato(data: ContratoBancarioData) {
+  return MODALIDADES_CREDITO[data.modalidadeCredito || ''] || MODALIDADES_CREDITO.outros;
+}
+
+// Taxa média da modalidade no mês da contratação, pela série do SGS; sem a série ou sem o
+// valor do mês, usa a taxa informada no formulário
+async function obterTaxaMedia(supabase: ReturnType<typeof createClient>, data: ContratoBancarioData): Promise<TaxaMediaMercado | null> {
+  const modalidade = modalidadeDoContrato(data);
+  const competencia = `${data.dataContrato.slice(0, 7)}-01`;
+
+  if (modalidade.taxaMedia) {
+    const serie = await carregarSerieIndice(supabase, modalidade.taxaMedia, data.dataContrato, adicionarMeses(data.dataContrato, 1));
+    const info = TAXAS_MEDIAS_SGS[modalidade.taxaMedia];
+    if (serie.has(competencia)) {
+      return { valor: serie.get(competencia)!, fonte: `série ${info.serie} do SGS/BCB, ${formatarCompetencia(competencia)}` };
+    }
+  }
+
+  const informada = parseFloat(data.taxaMediaBacen || '');
+  if (isNaN(informada)) return null;
+  return {
+    valor: informada,
+    fonte: modalidade.taxaMedia
+      ? `informada pelo usuário (série ${TAXAS_MEDIAS_SGS[modalidade.taxaMedia].serie} sem valor para ${formatarCompetencia(competencia)})`
+      : 'informada pelo usuário'
+  };
+}
+
+// Recalcula o parcelamento pela taxa média e apura o que foi pago a maior nas parcelas quitadas
+function revisarParcelamento(data: ContratoBancarioData, valorContrato: number, taxaJuros: number, taxaMediaMercado: TaxaMediaMercado | null, serie: Map<string, number>, hoje: string): RevisaoParcelamento | null {
+  const numeroParcelas = parseInt(data.numeroParcelas || '') || 0;
+  if (!data.sistemaAmortizacao || !SISTEMAS_AMORTIZACAO[data.sistemaAmortizacao] || numeroParcelas <= 0 || !taxaMediaMercado) {
+    return null;
+  }
+  const taxaMedia = taxaMediaMercado.valor;
+
+  const parcelasPagas = Math.min(Math.max(0, parseInt(data.parcelasPagas || '') || 0), numeroParcelas);
+  const contratada = gerarTabelaAmortizacao(data.sistemaAmortizacao, valorContrato, taxaJuros, numeroParcelas, data.dataContrato);
+  const revisada = gerarTabelaAmortizacao(data.sistemaAmortizacao, valorContrato, taxaMedia, numeroParcelas, data.dataContrato);
+
+  let valorPagoAMaior = 0;
+  let valorPagoAMaiorCorrigido = 0;
+  const parcelas = contratada.map((parcela, indice) => {
+    const parcelaRevisada = revisada[indice].parcela;
+    const diferenca = parcela.parcela - parcelaRevisada;
+    const paga = parcela.numero <= parcelasPagas;
+
+    // Cada diferença paga é corrigida do vencimento da parcela até hoje
+    if (paga && diferenca > 0) {
+      valorPagoAMaior += diferenca;
+      valorPagoAMaiorCorrigido += aplicarCorrecaoMonetaria(diferenca, serie, parcela.vencimento, hoje).valorCorrigido;
+    }
+
+    return {
+      numero: parcela.numero,
+      vencimento: parcela.vencimento,
+      parcelaContratada: parcela.parcela,
+      parcelaRevisada,
+      diferenca,
+      paga
+    };
+  });
+
+  const somar = (valores: number[]) => valores.reduce((total, valor) => total + valor, 0);
+  const repeticaoDobro = !!data.repeticaoDobro;
+  const razaoTaxas = taxaMedia > 0 ? taxaJuros / taxaMedia : 0;
+  const abusiva = razaoTaxas > LIMITE_ABUSIVIDADE;
+
+  return {
+    sistema: data.sistemaAmortizacao,
+    modalidade: modalidadeDoContrato(data).nome,
+    taxaContratada: taxaJuros,
+    taxaMedia,
+    fonteTaxaMedia: taxaMediaMercado.fonte,
+    razaoTaxas,
+    abusiva,
+    parcelasPagas,
+    parcelas,
+    totalContratado: somar(parcelas.map(p => p.parcelaContratada)),
+    totalRevisado: somar(parcelas.map(p => p.parcelaRevisada)),
+    valorPagoAMaior,
+    valorPagoAMaiorCorrigido,
+    repeticaoDobro,
+    valorRestituir: abusiva ? valorPagoAMaiorCorrigido * (repeticaoDobro ? 2 : 1) : null,
+    saldoContratado: somar(parcelas.filter(p => !p.paga).map(p => p.parcelaContratada)),
+    saldoRevisado: somar(parcelas.filter(p => !p.paga).map(p => p.parcelaRevisada))
+  };
+}
+
+interface AnaliseCapitalizacao {
+  taxaMensalDeclarada: number;
+  taxaAnualDeclarada: number | null;
+  duodecuplo: number;
+  capitalizacaoPactuada: boolean;
+  frequenciaImplicita: number | null;
+  descricaoFrequencia: string;
+  numeroParcelas: number;
+  valorParcela: number;
+  parcelaInformada: boolean;
+  taxaEfetivaMensal: number | null;
+  taxaEfetivaAnual: number | null;
+  taxaEfetivaSuperior: boolean;
+  parcelaGauss: number;
+  totalContratado: number;
+  totalGauss: number;
+  parcelasPagas: number;
+  pagoAMaiorGauss: number;
+}
+
+// Diferença mínima, em pontos percentuais ao mês, para apontar taxa efetiva acima da declarada
+const TOLERANCIA_TAXA_EFETIVA = 0.01;
+
+// Taxa mensal que iguala o valor presente das parcelas ao principal (bisseção)
+function calcularTaxaEfetiva(principal: number, parcela: number, numeroParcelas: number): number | null {
+  if (parcela * numeroParcelas <= principal) return null;
+
+  const valorPresente = (i: number) => parcela * (1 - Math.pow(1 + i, -numeroParcelas)) / i;
+  let minimo = 1e-9;
+  let maximo = 1;
+  if (valorPresente(maximo) > principal) return null;
+
+  for (let iteracao = 0; iteracao < 200; iteracao++) {
+    const meio = (minimo + maximo) / 2;
+    if (valorPresente(meio) > principal) {
+      minimo = meio;
+    } else {
+      maximo = meio;
+    }
+  }
+  return (minimo + maximo) / 2 * 100;
+}
+
+// Número de capitalizações por ano que transforma a taxa nominal (12 × mensal) na anual declarada
+function calcularFrequenciaCapitalizacao(taxaMensal: number, taxaAnual: number): number | null {
+  const nominal = taxaMensal * 12 / 100;
+  const efetiva = taxaAnual / 100;
+  if (nominal <= 0 || efetiva <= nominal) return null;
+  if (efetiva >= Math.exp(nominal) - 1) return Infinity;
+
+  const anualComFrequencia = (m: number) => Math.pow(1 + nominal / m, m) - 1;
+  let minimo = 1;
+  let maximo = 1e6;
+  for (let iteracao = 0; iteracao < 200; iteracao++) {
+    const meio = (minimo + maximo) / 2;
+    if (anualComFrequencia(meio) < efetiva) {
+      minimo = meio;
+    } else {
+      maximo = meio;
+    }
+  }
+  return (minimo + maximo) / 2;
+}
+
+function descreverFrequencia(frequencia: number | null): string {
+  if (frequencia === null) return 'sem capitalização (taxa anual não supera o duodécuplo da mensal)';
+  if (frequencia === Infinity) return 'acima da capitalização contínua: a taxa anual não decorre apenas da capitalização da mensal';
+
+  const conhecidas: [number, string][] = [[2, 'semestral'], [4, 'trimestral'], [12, 'mensal'], [52, 'semanal'], [360, 'diária (ano comercial)'], [365, 'diária']];
+  const proxima = conhecidas.find(([vezes]) => Math.abs(frequencia - vezes) / vezes < 0.05);
+  const vezes = frequencia.toLocaleString('pt-BR', { maximumFractionDigits: frequencia < 10 ? 1 : 0 });
+  return proxima ? `${proxima[1]} (${vezes} vezes ao ano)` : `${vezes} vezes ao ano`;
+}
+
+// Parcela pelo método de Gauss (juros simples): PV × (1 + i·n) / (n × (1 + i·(n − 1)/2))
+function calcularParcelaGauss(principal: number, taxaMensal: number, numeroParcelas: number): number {
+  const i = taxaMensal / 100;
+  return principal * (1 + i * numeroParcelas) / (numeroParcelas * (1 + i * (numeroParcelas - 1) / 2));
+}
+
+function analisarCapitalizacao(data: ContratoBancarioData, valorContrato: number, taxaJuros: number): AnaliseCapitalizacao | null {
+  const numeroParcelas = parseInt(data.numeroParcelas || '') || 0;
+  if (numeroParcelas <= 0 || !(taxaJuros > 0)) return null;
+
+  const parcelaInformadaValor = parseFloat(data.valorParcela || '');
+  const parcelaInformada = parcelaInformadaValor > 0;
+  // Sem a parcela do contrato, usa a parcela Price à taxa mensal declarada
+  const valorParcela = parcelaInformada
+    ? parcelaInformadaValor
+    : gerarTabelaAmortizacao('price', valorContrato, taxaJuros, numeroParcelas, data.dataContrato)[0].parcela;
+
+  const taxaAnualInformada = parseFloat(data.taxaAnualDeclarada || '');
+  const taxaAnualDeclarada = taxaAnualInformada > 0 ? taxaAnualInformada : null;
+  const duodecuplo = taxaJuros * 12;
+  const frequenciaImplicita = taxaAnualDeclarada !== null ? calcularFrequenciaCapitalizacao(taxaJuros, taxaAnualDeclarada) : null;
+
+  const taxaEfetivaMensal = calcularTaxaEfetiva(valorContrato, valorParcela, numeroParcelas);
+  const taxaEfetivaAnual = taxaEfetivaMensal !== null ? (Math.pow(1 + taxaEfetivaMensal / 100, 12) - 1) * 100 : null;
+
+  const parcelaGauss = calcularParcelaGauss(valorContrato, taxaJuros, numeroParcelas);
+  const parcelasPagas = Math.min(Math.max(0, parseInt(data.parcelasPagas || '') || 0), numeroParcelas);
+
+  return {
+    taxaMensalDeclarada: taxaJuros,
+    taxaAnualDeclarada,
+    duodecuplo,
+    capitalizacaoPactuada: taxaAnualDeclarada !== null && taxaAnualDeclarada > duodecuplo,
+    frequenciaImplicita: frequenciaImplicita === Infinity ? null : frequenciaImplicita,
+    descricaoFrequencia: taxaAnualDeclarada !== null ? descreverFrequencia(frequenciaImplicita) : 'taxa anual não informada',
+    numeroParcelas,
+    valorParcela,
+    parcelaInformada,
+    taxaEfetivaMensal,
+    taxaEfetivaAnual,
+    taxaEfetivaSuperior: taxaEfetivaMensal !== null && taxaEfetivaMensal - taxaJuros > TOLERANCIA_TAXA_EFETIVA,
+    parcelaGauss,
+    totalContratado: valorParcela * numeroParcelas,
+    totalGauss: parcelaGauss * numeroParcelas,
+    parcelasPagas,
+    pagoAMaiorGauss: Math.max(0, valorParcela - parcelaGauss) * parcelasPagas
+  };
+}
+
+function formatarAnaliseCapitalizacao(analise: AnaliseCapitalizacao): string {
+  const constatacoes: string[] = [];
+  if (analise.capitalizacaoPactuada) {
+    constatacoes.push(`A taxa anual declarada (${formatarPercentual(analise.taxaAnualDeclarada!)}) supera o duodécuplo da mensal (${formatarPercentual(analise.duodecuplo)}): há capitalização de juros em periodicidade inferior à anual, com frequência implícita ${analise.descricaoFrequencia}.`);
+  } else if (analise.taxaAnualDeclarada !== null) {
+    constatacoes.push(`A taxa anual declarada (${formatarPercentual(analise.taxaAnualDeclarada)}) não supera o duodécuplo da mensal (${formatarPercentual(analise.duodecuplo)}): o contrato não revela capitalização pelo critério da Súmula 541 do STJ.`);
+  } else {
+    constatacoes.push('Taxa anual não informada: o teste do duodécuplo (Súmula 541 do STJ) não foi aplicado.');
+  }
+  if (analise.taxaEfetivaSuperior) {
+    constatacoes.push(`A parcela cobrada embute taxa efetiva de ${formatarPercentual(analise.taxaEfetivaMensal!)} a.m., acima da taxa mensal declarada (${formatarPercentual(analise.taxaMensalDeclarada)}): há encargos ou capitalização não informados.`);
+  }
+  if (analise.valorParcela > analise.parcelaGauss) {
+    constatacoes.push(`Pelo método de Gauss (juros simples), a parcela seria ${formatarMoeda(analise.parcelaGauss)}, ${formatarMoeda(analise.valorParcela - analise.parcelaGauss)} menor que a cobrada.`);
+  }
+
+  return `═══════════════════════════════════════════════════════════════
+ANÁLISE DE CAPITALIZAÇÃO (ANATOCISMO)
+═══════════════════════════════════════════════════════════════
+• Parcela${analise.parcelaInformada ? ' Cobrada' : ' Price à Taxa Declarada (parcela não informada)'}: ${formatarMoeda(analise.valorParcela)} × ${analise.numeroParcelas}
+• Taxa Mensal Declarada: ${formatarPercentual(analise.taxaMensalDeclarada)} a.m.
+• Taxa Anual Declarada: ${analise.taxaAnualDeclarada !== null ? `${formatarPercentual(analise.taxaAnualDeclarada)} a.a.` : 'não informada'}
+• Duodécuplo da Mensal (12 × ${formatarPercentual(analise.taxaMensalDeclarada)}): ${formatarPercentual(analise.duodecuplo)} a.a.
+• Capitalização Implícita: ${analise.descricaoFrequencia}
+• Taxa Efetiva da Parcela: ${analise.taxaEfetivaMensal !== null ? `${formatarPercentual(analise.taxaEfetivaMensal)} a.m. (${formatarPercentual(analise.taxaEfetivaAnual!, 2)} a.a.)` : 'não apurada (parcelas não remuneram o principal)'}
+
+Recálculo a juros simples (método de Gauss):
+  Parcela = PV × (1 + i·n) / (n × (1 + i·(n − 1)/2))
+  Parcela Gauss: ${formatarMoeda(analise.parcelaGauss)}
+  Total Contratado: ${formatarMoeda(analise.totalContratado)}
+  Total a Juros Simples: ${formatarMoeda(analise.totalGauss)}
+  Diferença Total: ${formatarMoeda(analise.totalContratado - analise.totalGauss)}
+${analise.parcelasPagas > 0 ? `  Pago a Maior em ${analise.parcelasPagas} Parcela(s): ${formatarMoeda(analise.pagoAMaiorGauss)}
+` : ''}
+Constatações:
+${constatacoes.map(texto => `- ${texto}`).join('\n')}
+
+Fundamentos: a capitalização em periodicidade inferior à anual é admitida nos contratos celebrados após 31/03/2000 (MP 2.170-36/2001), desde que expressamente pactuada (Súmula 539 do STJ); a previsão de taxa anual superior ao duodécuplo da mensal basta para a cobrança da taxa efetiva anual (Súmula 541 do STJ). Sem pactuação clara, ou nos contratos anteriores, o recálculo a juros simples serve de parâmetro para a revisão.
+`;
+}
+
+function formatarRevisaoParcelamento(revisao: RevisaoParcelamento, nomeIndice: string): string {
+  const linhas = revisao.parcelas.map(p =>
+    `  ${String(p.numero).padStart(3, '0')}  ${formatarData(p.vencimento)}  ${formatarMoeda(p.parcelaContratada).padStart(15)}  ${formatarMoeda(p.parcelaRevisada).padStart(15)}  ${formatarMoeda(p.diferenca).padStart(14)}${p.paga ? '  paga' : ''}`
+  );
+
+  return `═══════════════════════════════════════════════════════════════
+REVISÃO DO PARCELAMENTO PELA TAXA MÉDIA DE MERCADO
+═══════════════════════════════════════════════════════════════
+• Sistema de Amortização: ${SISTEMAS_AMORTIZACAO[revisao.sistema]}
+• Modalidade: ${revisao.modalidade}
+• Parcelas: ${revisao.parcelas.length} (${revisao.parcelasPagas} pagas)
+• Taxa Contratada: ${revisao.taxaContratada.toLocaleString('pt-BR', { maximumFractionDigits: 4 })}% a.m.
+• Taxa Média BACEN: ${revisao.taxaMedia.toLocaleString('pt-BR', { maximumFractionDigits: 4 })}% a.m. (${revisao.fonteTaxaMedia})
+• Taxa Contratada / Média: ${revisao.razaoTaxas.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}x${revisao.abusiva ? ` - ACIMA de ${LIMITE_ABUSIVIDADE.toLocaleString('pt-BR')}x a média (indício de abusividade)` : ''}
+
+  Nº   Vencimento      Contratada        Revisada       Diferença
+${linhas.join('\n')}
+
+• Total Contratado: ${formatarMoeda(revisao.totalContratado)}
+• Total Revisado: ${formatarMoeda(revisao.totalRevisado)}
+• Diferença Total: ${formatarMoeda(revisao.totalContratado - revisao.totalRevisado)}
+• Pago a Maior nas Parcelas Quitadas: ${formatarMoeda(revisao.valorPagoAMaior)}
+• Pago a Maior Corrigido (${nomeIndice}): ${formatarMoeda(revisao.valorPagoAMaiorCorrigido)}
+• Valor a Restituir${revisao.repeticaoDobro ? ' (em dobro)' : ''}: ${revisao.valorRestituir !== null ? formatarMoeda(revisao.valorRestituir) : `não apurado - taxa contratada até ${LIMITE_ABUSIVIDADE.toLocaleString('pt-BR')}x a média, sem abusividade`}
+• Parcelas em Aberto - Contratado: ${formatarMoeda(revisao.saldoContratado)}
+• Parcelas em Aberto - Revisado: ${formatarMoeda(revisao.saldoRevisado)}
+
+Fundamentos: a revisão da taxa remuneratória exige demonstração de que ela discrepa substancialmente da média de mercado divulgada pelo Banco Central para a modalidade e o período (STJ, REsp 1.061.530/RS, repetitivo).${revisao.repeticaoDobro ? ' A restituição em dobro segue o art. 42, parágrafo único, do CDC, dispensada a prova de má-fé para cobranças posteriores a 30/03/2021 (STJ, EAREsp 676.608/RS).' : ' A restituição é simples; marque a repetição em dobro para aplicar o art. 42, parágrafo único, do CDC.'}
+`;
+}
+
+interface LancamentoExtrato {
+  data: string;
+  descricao: string;
+  dias: number;
+  correcao: number;
+  juros: number;
+  jurosMora: number;
+  multa: number;
+  pagamento: number;
+  imputadoMora: number;
+  imputadoJuros: number;
+  imputadoPrincipal: number;
+  principal: number;
+  jurosPendentes: number;
+  moraPendente: number;
+  saldo: number;
+}
+
+interface ExtratoPagamentos {
+  lancamentos: LancamentoExtrato[];
+  totalCorrecao: number;
+  totalJuros: number;
+  totalJurosMora: number;
+  totalMulta: number;
+  totalPago: number;
+  saldoFinal: number;
+  saldoCredor: number;
+  pagamentosIgnorados: Pagamento[];
+  competenciasSemIndice: string[];
+}
+
+interface ParametrosExtrato {
+  valorContrato: number;
+  dataContrato: string;
+  dataVencimento: string;
+  taxaJuros: number;
+  tipoJuros: string;
+  multaAtraso: number;
+  jurosMora: number;
+  serie: Map<string, number>;
+  hoje: string;
+}
+
+/**
+ * Saldo devedor corrido entre os eventos do contrato (pagamentos, vencimento e hoje).
+ * Até o vencimento correm correção e juros remuneratórios; depois dele, correção sobre
+ * capital e juros vencidos, multa uma única vez e juros de mora pro rata die. Cada
+ * pagamento quita primeiro os encargos de mora, depois os juros e por fim o capital
+ * (art. 354 do CC); o excedente fica como saldo credor.
+ */
+function calcularExtratoPagamentos(pagamentos: Pagamento[], params: ParametrosExtrato): ExtratoPagamentos {
+  const { valorContrato, dataContrato, dataVencimento, taxaJuros, tipoJuros, multaAtraso, jurosMora, serie, hoje } = params;
+
+  const validos = pagamentos
+    .map(p => ({ ...p, valorNumerico: parseFloat(p.valor) || 0 }))
+    .filter(p => p.data && p.valorNumerico > 0);
+  const pagamentosIgnorados = validos.filter(p => p.data < dataContrato || p.data > hoje);
+
+  // No mesmo dia, o pagamento vem antes da multa do vencimento: pagar no vencimento não é mora
+  const ORDEM = { pagamento: 0, vencimento: 1, hoje: 2 };
+  const eventos: { data: string; tipo: keyof typeof ORDEM; valor: number; observacao?: string }[] = [
+    ...validos
+      .filter(p => p.data >= dataContrato && p.data <= hoje)
+      .map(p => ({ data: p.data, tipo: 'pagamento' as const, valor: p.valorNumerico, observacao: p.observacao })),
+    ...(dataVencimento < hoje ? [{ data: dataVencimento, tipo: 'vencimento' as const, valor: 0 }] : []),
+    { data: hoje, tipo: 'hoje' as const, valor: 0 }
+  ].sort((a, b) => a.data.localeCompare(b.data) || ORDEM[a.tipo] - ORDEM[b.tipo]);
+
+  let principal = valorContrato;
+  let jurosPendentes = 0;
+  let moraPendente = 0;
+  let saldoCredor = 0;
+  let dataAnterior = dataContrato;
+  const competenciasSemIndice = new Set<string>();
+  const lancamentos: LancamentoExtrato[] = [];
+  const taxa = taxaJuros / 100;
+
+  eventos.forEach(evento => {
+    const dias = Math.max(0, calcularDiferencaDias(dataAnterior, evento.data));
+    const emMora = dataAnterior >= dataVencimento;
+    let correcao = 0;
+    let juros = 0;
+    let jurosMoraPeriodo = 0;
+    let multa = 0;
+
+    if (dias > 0) {
+      const fator = aplicarCorrecaoMonetaria(1, serie, dataAnterior, evento.data);
+      fator.competenciasSemIndice.forEach(c => competenciasSemIndice.add(c));
+
+      if (emMora) {
+        // Após o vencimento, capital e juros vencidos são corrigidos e rendem juros de mora simples
+        correcao = (principal + jurosPendentes) * (fator.fator - 1);
+        const razao = principal + jurosPendentes > 0 ? principal / (principal + jurosPendentes) : 1;
+        principal += correcao * razao;
+        jurosPendentes += correcao * (1 - razao);
+        jurosMoraPeriodo = (principal + jurosPendentes) * (jurosMora / 100) * (dias / 30);
+        moraPendente += jurosMoraPeriodo;
+      } else {
+        correcao = principal * (fator.fator - 1);
+        principal += correcao;
+        juros = tipoJuros === 'simples'
+          ? principal * taxa * (dias / 30)
+          : (principal + jurosPendentes) * (Math.pow(1 + taxa, dias / 30) - 1);
+        jurosPendentes += juros;
+      }
+    }
+
+    let imputadoMora = 0;
+    let imputadoJuros = 0;
+    let imputadoPrincipal = 0;
+    let descricao = 'Atualização até hoje';
+
+    if (evento.tipo === 'pagamento') {
+      let restante = evento.valor;
+      imputadoMora = Math.min(restante, moraPendente);
+      restante -= imputadoMora;
+      imputadoJuros = Math.min(restante, jurosPendentes);
+      restante -= imputadoJuros;
+      imputadoPrincipal = Math.min(restante, principal);
+      restante -= imputadoPrincipal;
+
+      moraPendente -= imputadoMora;
+      jurosPendentes -= imputadoJuros;
+      principal -= imputadoPrincipal;
+      saldoCredor += restante;
+      descricao = `Pagamento${evento.observacao ? ` (${evento.observacao})` : ''}`;
+    } else if (evento.tipo === 'vencimento') {
+      multa = (principal + jurosPendentes) * (multaAtraso / 100);
+      moraPendente += multa;
+      descricao = 'Vencimento';
+    }
+
+    lancamentos.push({
+      data: evento.data,
+      descricao,
+      dias,
+      correcao,
+      juros,
+      jurosMora: jurosMoraPeriodo,
+      multa,
+      pagamento: evento.valor,
+      imputadoMora,
+      imputadoJuros,
+      imputadoPrincipal,
+      principal,
+      jurosPendentes,
+      moraPendente,
+      saldo: principal + jurosPendentes + moraPendente
+    });
+    dataAnterior = evento.data;
+  });
+
+  const somar = (campo: keyof LancamentoExtrato) => lancamentos.reduce((total, l) => total + (l[campo] as number), 0);
+
+  return {
+    lancamentos,
+    totalCorrecao: somar('correcao'),
+    totalJuros: somar('juros'),
+    totalJurosMora: somar('jurosMora'),
+    totalMulta: somar('multa'),
+    totalPago: somar('pagamento'),
+    saldoFinal: principal + jurosPendentes + moraPendente,
+    saldoCredor,
+    pagamentosIgnorados,
+    competenciasSemIndice: Array.from(competenciasSemIndice).sort()
+  };
+}
+
+function formatarExtratoPagamentos(extrato: ExtratoPagamentos): string {
+  const linhas = extrato.lancamentos.map(l => {
+    const encargos = l.juros + l.jurosMora + l.multa;
+    let linha = `  ${formatarData(l.data)}  ${l.descricao}
+      ${l.dias} dia(s) | correção ${formatarMoeda(l.correcao)} | juros ${formatarMoeda(l.juros)} | mora ${formatarMoeda(l.jurosMora)}${l.multa > 0 ? ` | multa ${formatarMoeda(l.multa)}` : ''} | encargos ${formatarMoeda(encargos)}`;
+    if (l.pagamento > 0) {
+      linha += `
+      pago ${formatarMoeda(l.pagamento)} → mora ${formatarMoeda(l.imputadoMora)}, juros ${formatarMoeda(l.imputadoJuros)}, capital ${formatarMoeda(l.imputadoPrincipal)}`;
+    }
+    return `${linha}
+      saldo: capital ${formatarMoeda(l.principal)} + juros ${formatarMoeda(l.jurosPendentes)} + mora ${formatarMoeda(l.moraPendente)} = ${formatarMoeda(l.saldo)}`;
+  });
+
+  return `═══════════════════════════════════════════════════════════════
+EXTRATO DE PAGAMENTOS (IMPUTAÇÃO - ART. 354 DO CC)
+═══════════════════════════════════════════════════════════════
+${linhas.join('\n\n')}
+
+• Total Pago: ${formatarMoeda(extrato.totalPago)}
+• Correção Monetária: ${formatarMoeda(extrato.totalCorrecao)}
+• Juros Remuneratórios: ${formatarMoeda(extrato.totalJuros)}
+• Juros de Mora: ${formatarMoeda(extrato.totalJurosMora)}
+• Multa: ${formatarMoeda(extrato.totalMulta)}
+• Saldo Devedor Hoje: ${formatarMoeda(extrato.saldoFinal)}${extrato.saldoCredor > 0 ? `
+• Saldo Credor do Devedor (pago a maior): ${formatarMoeda(extrato.saldoCredor)}` : ''}${extrato.pagamentosIgnorados.length > 0 ? `
+⚠ Pagamentos fora do período do contrato (ignorados): ${extrato.pagamentosIgnorados.map(p => `${formatarData(p.data)} - ${formatarMoeda(parseFloat(p.valor) || 0)}`).join('; ')}` : ''}
+
+Cada pagamento quita primeiro a multa e os juros de mora, depois os juros remuneratórios e por último o capital (art. 354 do CC: "Havendo capital e juros, o pagamento imputar-se-á primeiro nos juros vencidos, e depois no capital").
+`;
+}
+
+type CategoriaLancamento = 'saldo' | 'movimento' | 'juros' | 'iof' | 'tarifa';
+
+interface LancamentoRotativo {
+  data: string;
+  descricao: string;
+  valor: number; // negativo aumenta a dívida
+  categoria: CategoriaLancamento;
+}
+
+interface CicloRotativo {
+  inicio: string;
+  fim: string;
+  vencimento: string | null; // vencimento da fatura (cartão)
+  emAberto: boolean;
+  taxaCobrada: number;
+  taxaMedia: number;
+  acimaLimiteChequeEspecial: boolean;
+  diasDevedor: number;
+  saldoMedioDevedor: number;
+  jurosLancados: number;
+  jurosTaxaCobrada: number;
+  jurosTaxaMedia: number;
+  iof: number;
+  tarifas: { data: string; descricao: string; valor: number }[];
+  totalTarifas: number;
+  diferencaJuros: number;
+  saldoCobrado: number;
+  saldoRevisado: number;
+}
+
+interface CalculoRotativo {
+  tipo: string;
+  inicio: string;
+  fim: string;
+  lancamentosLidos: number;
+  linhasIgnoradas: string[];
+  ciclos: CicloRotativo[];
+  totalJurosLancados: number;
+  totalJurosTaxaCobrada: number;
+  totalJurosTaxaMedia: number;
+  totalIof: number;
+  totalTarifas: number;
+  totalDiferencaJuros: number;
+  totalDebitos: number;
+  saldoCobrado: number;
+  saldoRevisado: number;
+}
+
+const TIPOS_ROTATIVO: Record<string, string> = {
+  cheque_especial: 'Cheque especial',
+  cartao: 'Cartão de crédito (rotativo)'
+};
+
+// Res. CMN 4.765/2019: juros do cheque especial limitados a 8% a.m. a partir de 06/01/2020
+const LIMITE_CHEQUE_ESPECIAL = 8;
+const INICIO_LIMITE_CHEQUE_ESPECIAL = '2020-01-06';
+// Juros e IOF do cheque especial lançados até este dia do mês remuneram o mês anterior
+const DIAS_LANCAMENTO_ENCARGOS = 5;
+
+function normalizarTexto(texto: string): string {
+  return texto.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase();
+}
+
+// Valores com duas casas: "-1.500,00", "1.500,00 D", "R$ 35,90", "1500.00"
+function lerValorMonetario(texto: string): number | null {
+  const partes = texto.replace(/\s/g, '').match(/^(-)?(?:R\$)?(-)?(\d{1,3}(?:\.\d{3})*,\d{2}|\d+,\d{2}|\d+\.\d{2})([DC-])?$/i);
+  if (!partes) return null;
+  const numero = partes[3].includes(',') ? Number(partes[3].replace(/\./g, '').replace(',', '.')) : Number(partes[3]);
+  const negativo = !!partes[1] || !!partes[2] || partes[4] === '-' || partes[4]?.toUpperCase() === 'D';
+  return negativo ? -numero : numero;
+}
+
+function categorizarLancamento(descricao: string): CategoriaLancamento {
+  const texto = normalizarTexto(descricao);
+  if (/^SALDO/.test(texto)) return 'saldo';
+  if (/\bIOF\b/.test(texto)) return 'iof';
+  if (/JUROS|ENCARGO/.test(texto)) return 'juros';
+  if (/TARIFA|ANUIDADE|SEGURO|PACOTE|CESTA|TAXA/.test(texto)) return 'tarifa';
+  return 'movimento';
+}
+
+/**
+ * Lê linhas de extrato no formato data, descrição, valor e, opcionalmente, saldo — separadas
+ * por ponto e vírgula, tabulação ou espaços (texto colado do internet banking). No cartão,
+ * compras e encargos vêm positivos e são invertidos para que o débito fique negativo.
+ */
+function lerExtratoRotativo(texto: string, tipo: string): { lancamentos: LancamentoRotativo[]; ignoradas: string[] } {
+  const lancamentos: LancamentoRotativo[] = [];
+  const ignoradas: string[] = [];
+
+  texto.split(/\r?\n/).forEach(linhaOriginal => {
+    const linha = linhaOriginal.trim();
+    if (!linha) return;
+
+    const matchData = linha.match(/^"?(?:(\d{2})\/(\d{2})\/(\d{4}|\d{2})|(\d{4})-(\d{2})-(\d{2}))"?/);
+    if (!matchData) {
+      ignoradas.push(linha);
+      return;
+    }
+    const data = matchData[4]
+      ? `${matchData[4]}-${matchData[5]}-${matchData[6]}`
+      : `${matchData[3].length === 2 ? `20${matchData[3]}` : matchData[3]}-${matchData[2]}-${matchData[1]}`;
+
+    const resto = linha.slice(matchData[0].length);
+    let campos = resto.split(/[;\t]|\s{2,}/).map(campo => campo.replace(/"/g, '').trim()).filter(Boolean);
+    if (campos.length <= 1) {
+      campos = resto.replace(/"/g, '').trim().split(/\s+/);
+    }
+
+    // Valores ficam no fim da linha: o primeiro é o lançamento, o último (se houver dois) é o saldo
+    const valores: number[] = [];
+    while (campos.length > 0) {
+      let valor = lerValorMonetario(campos[campos.length - 1]);
+      // Sufixo D/C ou "R$" separados do número por espaço
+      if (valor === null && campos.length > 1) {
+        valor = lerValorMonetario(campos[campos.length - 2] + campos[campos.length - 1]);
+        if (valor !== null) campos.pop();
+      }
+      if (valor === null) break;
+      campos.pop();
+      valores.unshift(valor);
+    }
+
+    const descricao = campos.join(' ');
+    if (valores.length === 0 || !descricao) {
+      ignoradas.push(linha);
+      return;
+    }
+
+    lancamentos.push({
+      data,
+      descricao,
+      valor: tipo === 'cartao' ? -valores[0] : valores[0],
+      categoria: categorizarLancamento(descricao)
+    });
+  });
+
+  return {
+    lancamentos: lancamentos.sort((a, b) => a.data.localeCompare(b.data)),
+    ignoradas
+  };
+}
+
+// Cheque especial fecha no fim do mês; o cartão, no dia de fechamento da fatura
+function fimDoCiclo(data: string, tipo: string, diaFechamento: number): string {
+  const ano = parseInt(data.slice(0, 4));
+  const mes = parseInt(data.slice(5, 7));
+  const ultimoDia = (a: number, m: number) => new Date(Date.UTC(a, m, 0)).getUTCDate();
+
+  if (tipo !== 'cartao' || !(diaFechamento >= 1 && diaFechamento <= 31)) {
+    return `${data.slice(0, 7)}-${String(ultimoDia(ano, mes)).padStart(2, '0')}`;
+  }
+
+  const fechamentoNoMes = Math.min(diaFechamento, ultimoDia(ano, mes));
+  if (parseInt(data.slice(8, 10)) <= fechamentoNoMes) {
+    return `${data.slice(0, 7)}-${String(fechamentoNoMes).padStart(2, '0')}`;
+  }
+  const proximoAno = mes === 12 ? ano + 1 : ano;
+  const proximoMes = mes === 12 ? 1 : mes + 1;
+  const fechamento = Math.min(diaFechamento, ultimoDia(proximoAno, proximoMes));
+  return `${proximoAno}-${String(proximoMes).padStart(2, '0')}-${String(fechamento).padStart(2, '0')}`;
+}
+
+// Vencimento da fatura fechada em `fechamento`: próximo dia de vencimento do cartão
+function vencimentoDaFatura(fechamento: string, diaVencimento: number): string {
+  if (!(diaVencimento >= 1 && diaVencimento <= 31)) return adicionarDias(fechamento, 10);
+  for (let dia = adicionarDias(fechamento, 1); ; dia = adicionarDias(dia, 1)) {
+    const ultimoDia = new Date(Date.UTC(parseInt(dia.slice(0, 4)), parseInt(dia.slice(5, 7)), 0)).getUTCDate();
+    if (parseInt(dia.slice(8, 10)) === Math.min(diaVencimento, ultimoDia)) return dia;
+  }
+}
+
+interface FaturaRotativo {
+  vencimento: string;
+  creditosAteFechamento: number;
+  devedorCobrado: number;
+  devedorRevisado: number;
+}
+
+/**
+ * Refaz o extrato dia a dia. O saldo cobrado segue os lançamentos do banco; o saldo revisado
+ * troca os juros lançados por juros à taxa média, mantendo IOF e tarifas. Os juros do dia são
+ * a taxa mensal / 30 sobre o saldo devedor, lançados no fechamento do ciclo. No cheque especial
+ * incide sobre todo o saldo negativo; no cartão, só sobre a fatura vencida e não paga.
+ */
+function calcularRotativo(data: ContratoBancarioData, taxaCobradaPadrao: number, taxaMediaPadrao: number): CalculoRotativo | null {
+  const tipo = TIPOS_ROTATIVO[data.tipoRotativo || ''] ? data.tipoRotativo! : 'cheque_especial';
+  const cartao = tipo === 'cartao';
+  const diaFechamento = parseInt(data.diaFechamento || '') || 0;
+  const diaVencimento = parseInt(data.diaVencimento || '') || 0;
+  const { lancamentos, ignoradas } = lerExtratoRotativo(data.extratoTexto || '', tipo);
+  if (lancamentos.length === 0) return null;
+
+  const taxasPorCompetencia = new Map((data.taxasCiclos || []).map(t => [t.competencia, t]));
+  const taxasDoCiclo = (fim: string) => {
+    const informada = taxasPorCompetencia.get(fim.slice(0, 7));
+    const cobrada = parseFloat(informada?.taxaCobrada || '');
+    const media = parseFloat(informada?.taxaMedia || '');
+    return {
+      taxaCobrada: isNaN(cobrada) ? taxaCobradaPadrao : cobrada,
+      taxaMedia: isNaN(media) ? taxaMediaPadrao : media
+    };
+  };
+
+  const inicio = lancamentos[0].data;
+  const fim = lancamentos[lancamentos.length - 1].data;
+  const ciclos: CicloRotativo[] = [];
+  let saldoCobrado = 0;
+  let saldoRevisado = 0;
+  let creditos = 0;
+  let totalDebitos = 0;
+  let movimentou = false;
+  let indiceLancamento = 0;
+
+  // Cartão: faturas fechadas aguardando o vencimento e a última fatura já vencida
+  const faturasAbertas: FaturaRotativo[] = [];
+  let faturaVencida: FaturaRotativo | null = null;
+
+  let cicloAtual: CicloRotativo | null = null;
+  let somaSaldoDevedor = 0;
+
+  for (let dia = inicio; dia <= fim; dia = adicionarDias(dia, 1)) {
+    if (!cicloAtual) {
+      const fimCiclo = fimDoCiclo(dia, tipo, diaFechamento);
+      const taxas = taxasDoCiclo(fimCiclo);
+      cicloAtual = {
+        inicio: dia,
+        fim: fimCiclo,
+        vencimento: cartao ? vencimentoDaFatura(fimCiclo, diaVencimento) : null,
+        emAberto: false,
+        ...taxas,
+        acimaLimiteChequeEspecial: !cartao && fimCiclo >= INICIO_LIMITE_CHEQUE_ESPECIAL && taxas.taxaCobrada > LIMITE_CHEQUE_ESPECIAL,
+        diasDevedor: 0,
+        saldoMedioDevedor: 0,
+        jurosLancados: 0,
+        jurosTaxaCobrada: 0,
+        jurosTaxaMedia: 0,
+        iof: 0,
+        tarifas: [],
+        totalTarifas: 0,
+        diferencaJuros: 0,
+        saldoCobrado: 0,
+        saldoRevisado: 0
+      };
+      somaSaldoDevedor = 0;
+    }
+
+    while (indiceLancamento < lancamentos.length && lancamentos[indiceLancamento].data === dia) {
+      const lancamento = lancamentos[indiceLancamento++];
+
+      // O saldo informado antes de qualquer movimento é o saldo inicial; depois disso é só conferência
+      if (lancamento.categoria === 'saldo') {
+        if (!movimentou) {
+          saldoCobrado = lancamento.valor;
+          saldoRevisado = lancamento.valor;
+          if (cartao) {
+            faturasAbertas.push({
+              vencimento: vencimentoDaFatura(adicionarDias(dia, -1), diaVencimento),
+              creditosAteFechamento: creditos,
+              devedorCobrado: Math.max(0, -saldoCobrado),
+              devedorRevisado: Math.max(0, -saldoRevisado)
+            });
+          }
+        }
+        continue;
+      }
+      movimentou = true;
+      saldoCobrado += lancamento.valor;
+      if (lancamento.valor > 0) creditos += lancamento.valor;
+
+      // O cheque especial debita os encargos do mês nos primeiros dias do mês seguinte
+      const cicloEncargos = !cartao && ciclos.length > 0 && parseInt(dia.slice(8, 10)) <= DIAS_LANCAMENTO_ENCARGOS
+        && (lancamento.categoria === 'juros' || lancamento.categoria === 'iof')
+        ? ciclos[ciclos.length - 1]
+        : cicloAtual;
+
+      if (lancamento.categoria === 'juros') {
+        cicloEncargos.jurosLancados -= lancamento.valor;
+        continue;
+      }
+      saldoRevisado += lancamento.valor;
+      if (lancamento.categoria === 'iof') {
+        cicloEncargos.iof -= lancamento.valor;
+      } else if (lancamento.categoria === 'tarifa') {
+        cicloAtual.tarifas.push({ data: lancamento.data, descricao: lancamento.descricao, valor: -lancamento.valor });
+        cicloAtual.totalTarifas -= lancamento.valor;
+      } else if (lancamento.valor < 0) {
+        totalDebitos -= lancamento.valor;
+      }
+    }
+
+    let baseCobrado = Math.max(0, -saldoCobrado);
+    let baseRevisado = Math.max(0, -saldoRevisado);
+    if (cartao) {
+      while (faturasAbertas.length > 0 && faturasAbertas[0].vencimento <= dia) {
+        faturaVencida = faturasAbertas.shift()!;
+      }
+      // Pagamentos feitos após o fechamento abatem primeiro a fatura vencida
+      const pagos = faturaVencida ? creditos - faturaVencida.creditosAteFechamento : 0;
+      baseCobrado = faturaVencida ? Math.min(baseCobrado, Math.max(0, faturaVencida.devedorCobrado - pagos)) : 0;
+      baseRevisado = faturaVencida ? Math.min(baseRevisado, Math.max(0, faturaVencida.devedorRevisado - pagos)) : 0;
+    }
+
+    if (baseCobrado > 0) {
+      cicloAtual.diasDevedor++;
+      somaSaldoDevedor += baseCobrado;
+      cicloAtual.jurosTaxaCobrada += baseCobrado * cicloAtual.taxaCobrada / 100 / 30;
+    }
+    cicloAtual.jurosTaxaMedia += baseRevisado * cicloAtual.taxaMedia / 100 / 30;
+
+    if (dia === cicloAtual.fim || dia === fim) {
+      // Juros à taxa média entram no saldo revisado no fechamento, como o banco faz no cobrado
+      saldoRevisado -= cicloAtual.jurosTaxaMedia;
+      cicloAtual.emAberto = dia !== cicloAtual.fim;
+      cicloAtual.saldoMedioDevedor = cicloAtual.diasDevedor > 0 ? somaSaldoDevedor / cicloAtual.diasDevedor : 0;
+      cicloAtual.saldoCobrado = saldoCobrado;
+      cicloAtual.saldoRevisado = saldoRevisado;
+      if (cartao) {
+        faturasAbertas.push({
+          vencimento: cicloAtual.vencimento!,
+          creditosAteFechamento: creditos,
+          devedorCobrado: Math.max(0, -saldoCobrado),
+          devedorRevisado: Math.max(0, -saldoRevisado)
+        });
+      }
+      ciclos.push(cicloAtual);
+      cicloAtual = null;
+    }
+  }
+
+  ciclos.forEach(ciclo => {
+    ciclo.diferencaJuros = ciclo.jurosLancados - ciclo.jurosTaxaMedia;
+  });
+
+  const somar = (campo: keyof CicloRotativo) => ciclos.reduce((total, ciclo) => total + (ciclo[campo] as number), 0);
+
+  return {
+    tipo,
+    inicio,
+    fim,
+    lancamentosLidos: lancamentos.length,
+    linhasIgnoradas: ignoradas,
+    ciclos,
+    totalJurosLancados: somar('jurosLancados'),
+    totalJurosTaxaCobrada: somar('jurosTaxaCobrada'),
+    totalJurosTaxaMedia: somar('jurosTaxaMedia'),
+    totalIof: somar('iof'),
+    totalTarifas: somar('totalTarifas'),
+    totalDiferencaJuros: somar('diferencaJuros'),
+    totalDebitos,
+    saldoCobrado,
+    saldoRevisado
+  };
+}
+
+function formatarCalculoRotativo(calculo: CalculoRotativo, agora: Date, userTimezone: string, observacoes: string): string {
+  const ciclos = calculo.ciclos.map(ciclo => `
+Ciclo ${formatarData(ciclo.inicio)} a ${formatarData(ciclo.fim)}${ciclo.vencimento ? ` (vencimento ${formatarData(ciclo.vencimento)})` : ''}${ciclo.emAberto ? ' - em aberto até o último lançamento' : ''}
+  Taxa cobrada: ${formatarPercentual(ciclo.taxaCobrada)} a.m. | Taxa média: ${formatarPercentual(ciclo.taxaMedia)} a.m.${ciclo.acimaLimiteChequeEspecial ? ` | ACIMA do teto de ${LIMITE_CHEQUE_ESPECIAL}% a.m.` : ''}
+  Dias devedores: ${ciclo.diasDevedor} | Saldo devedor médio: ${formatarMoeda(ciclo.saldoMedioDevedor)}
+  Juros lançados pelo banco: ${formatarMoeda(ciclo.jurosLancados)}
+  Juros à taxa cobrada (conferência): ${formatarMoeda(ciclo.jurosTaxaCobrada)}
+  Juros à taxa média: ${formatarMoeda(ciclo.jurosTaxaMedia)}
+  IOF: ${formatarMoeda(ciclo.iof)}
+  Tarifas: ${formatarMoeda(ciclo.totalTarifas)}${ciclo.tarifas.map(t => `
+    - ${formatarData(t.data)} ${t.descricao}: ${formatarMoeda(t.valor)}`).join('')}
+  Diferença de juros (lançados - taxa média): ${formatarMoeda(ciclo.diferencaJuros)}
+  Saldo no fechamento: cobrado ${formatarMoeda(ciclo.saldoCobrado)} | revisado ${formatarMoeda(ciclo.saldoRevisado)}`).join('\n');
+
+  return `CÁLCULO DE ${normalizarTexto(TIPOS_ROTATIVO[calculo.tipo])}
+
+═══════════════════════════════════════════════════════════════
+DADOS DO EXTRATO
+═══════════════════════════════════════════════════════════════
+• Modalidade: ${TIPOS_ROTATIVO[calculo.tipo]}
+• Período: ${formatarData(calculo.inicio)} a ${formatarData(calculo.fim)}
+• Lançamentos Lidos: ${calculo.lancamentosLidos}${calculo.linhasIgnoradas.length > 0 ? `
+• Linhas Ignoradas (sem data ou valor): ${calculo.linhasIgnoradas.length}` : ''}
+• Critério: juros diários de (taxa mensal / 30) sobre o saldo devedor de cada dia, lançados no fechamento do ciclo. ${calculo.tipo === 'cartao'
+  ? 'No cartão, só a parte da fatura vencida e não paga rende juros; compras novas aguardam o vencimento da própria fatura.'
+  : `Juros e IOF debitados até o dia ${DIAS_LANCAMENTO_ENCARGOS} do mês são atribuídos ao mês anterior.`}
+
+═══════════════════════════════════════════════════════════════
+CICLOS
+═══════════════════════════════════════════════════════════════${ciclos}
+
+═══════════════════════════════════════════════════════════════
+RESUMO FINAL
+═══════════════════════════════════════════════════════════════
+• Juros Lançados pelo Banco: ${formatarMoeda(calculo.totalJurosLancados)}
+• Juros à Taxa Cobrada (conferência): ${formatarMoeda(calculo.totalJurosTaxaCobrada)}
+• Juros à Taxa Média: ${formatarMoeda(calculo.totalJurosTaxaMedia)}
+• IOF: ${formatarMoeda(calculo.totalIof)}
+• Tarifas: ${formatarMoeda(calculo.totalTarifas)}
+• Juros Cobrados a Maior: ${formatarMoeda(calculo.totalDiferencaJuros)}
+• Saldo Final Cobrado: ${formatarMoeda(calculo.saldoCobrado)}
+• Saldo Final Revisado: ${formatarMoeda(calculo.saldoRevisado)}
+
+═══════════════════════════════════════════════════════════════
+FUNDAMENTAÇÃO LEGAL
+═══════════════════════════════════════════════════════════════
+• STJ, REsp 1.061.530/RS (repetitivo): os juros remuneratórios podem ser revistos quando discrepam substancialmente da taxa média de mercado da modalidade.
+
+• Súmula 530 do STJ: sem prova da taxa contratada, aplica-se a taxa média de mercado divulgada pelo Banco Central, salvo se a cobrada for mais vantajosa ao devedor.
+${calculo.tipo === 'cheque_especial' ? `
+• Resolução CMN 4.765/2019: juros do cheque especial limitados a ${LIMITE_CHEQUE_ESPECIAL}% a.m. desde ${formatarData(INICIO_LIMITE_CHEQUE_ESPECIAL)}.` : `
+• Resolução CMN 4.549/2017: o rotativo do cartão só pode ser mantido até o vencimento da fatura seguinte, quando o saldo deve ser parcelado.
+
+• Lei 14.690/2023: juros e encargos do rotativo e do parcelamento da fatura não podem superar o valor original da dívida.`}
+${observacoes ? `
+═══════════════════════════════════════════════════════════════
+OBSERVAÇÕES ADICIONAIS
+═══════════════════════════════════════════════════════════════
+${observacoes}
+` : ''}
+═══════════════════════════════════════════════════════════════
+Cálculo realizado em ${agora.toLocaleDateString('pt-BR', { timeZone: userTimezone, year: 'numeric', month: '2-digit', day: '2-digit' })} às ${agora.toLocaleTimeString('pt-BR', { timeZone: userTimezone, hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+Ferramenta: Oráculo Jurídico - Calculadora de Contrato Bancário
+═══════════════════════════════════════════════════════════════`;
+}
+
+interface DadosEstruturaContrato {
+  valorContrato: number;
+  taxaJuros: number;
+  tipoJuros: string;
+  multaAtraso: number;
+  jurosMora: number;
+  nomeIndice: string;
+  dataContrato: string;
+  hoje: string;
+  diasPeriodoContrato: number;
+  diasAtraso: number;
+  correcaoContrato: CorrecaoMonetaria;
+  jurosContratuais: number;
+  valorPago: number;
+  valorPagoCorrigido: number;
+  correcaoPagamento: CorrecaoMonetaria | null;
+  saldoDevedor: number;
+  correcaoSaldo: CorrecaoMonetaria | null;
+  multa: number;
+  jurosMoraTotal: number;
+  valorTotal: number;
+  extratoPagamentos: ExtratoPagamentos | null;
+  revisaoParcelamento: RevisaoParcelamento | null;
+  analiseCapitalizacao: AnaliseCapitalizacao | null;
+}
+
+function estruturarContrato(dados: DadosEstruturaContrato): ResultadoEstruturado {
+  const { valorContrato, taxaJuros, nomeIndice, correcaoContrato, extratoPagamentos } = dados;
+  const secoes: Record<string, string> = {};
+  const itens: ItemCalculo[] = [{ rotulo: 'Valor do contrato', valor: valorContrato, formula: 'Valor informado' }];
+  const periodos: PeriodoCalculo[] = [];
+
+  if (extratoPagamentos) {
+    // Com pagamentos, cada período entre eventos do extrato é uma linha
+    secoes.extrato = 'Extrato de pagamentos';
+    let inicio = dados.dataContrato;
+    let saldoAnterior = valorContrato;
+    extratoPagamentos.lancamentos.forEach(lancamento => {
+      const encargos = lancamento.correcao + lancamento.juros + lancamento.jurosMora + lancamento.multa;
+      periodos.push({
+        secao: 'extrato',
+        rotulo: lancamento.descricao,
+        inicio,
+        fim: lancamento.data,
+        dias: lancamento.dias,
+        base: saldoAnterior,
+        taxa: null,
+        valor: encargos,
+        saldo: lancamento.saldo,
+        formula: `${formatarMoeda(saldoAnterior)} + correção ${formatarMoeda(lancamento.correcao)} + juros ${formatarMoeda(lancamento.juros)}` +
+          ` + mora ${formatarMoeda(lancamento.jurosMora)} + multa ${formatarMoeda(lancamento.multa)}` +
+          (lancamento.pagamento > 0 ? ` − pagamento ${formatarMoeda(lancamento.pagamento)}` : '')
+      });
+      inicio = lancamento.data;
+      saldoAnterior = lancamento.saldo;
+    });
+
+    itens.push(
+      { rotulo: 'Correção monetária', valor: extratoPagamentos.totalCorrecao, formula: `Soma da correção pelo ${nomeIndice} em cada período do extrato` },
+      {
+        rotulo: 'Juros remuneratórios',
+        valor: extratoPagamentos.totalJuros,
+        formula: `${formatarPercentual(taxaJuros)} a.m. ${dados.tipoJuros === 'simples' ? 'simples' : 'compostos'} até o vencimento, pro rata die`
+      },
+      { rotulo: 'Multa', valor: extratoPagamentos.totalMulta, formula: `Saldo vencido × ${formatarPercentual(dados.multaAtraso)}, uma única vez` },
+      { rotulo: 'Juros de mora', valor: extratoPagamentos.totalJurosMora, formula: `Saldo vencido × ${formatarPercentual(dados.jurosMora)} a.m. × dias / 30` },
+      { rotulo: 'Pagamentos', valor: -extratoPagamentos.totalPago, formula: 'Imputados na mora, nos juros e no capital (art. 354 CC)' }
+    );
+  } else {
+    secoes.correcao = 'Correção até o vencimento';
+    periodos.push(...periodosCorrecao('correcao', correcaoContrato, nomeIndice));
+
+    itens.push(
+      { rotulo: 'Correção até o vencimento', valor: correcaoContrato.valorCorrigido - valorContrato, formula: descreverCorrecao(correcaoContrato, nomeIndice) },
+      {
+        rotulo: 'Juros contratuais',
+        valor: dados.jurosContratuais,
+        formula: dados.tipoJuros === 'simples'
+          ? `${formatarMoeda(correcaoContrato.valorCorrigido)} × ${formatarPercentual(taxaJuros)} × ${dados.diasPeriodoContrato} / 30`
+          : `${formatarMoeda(correcaoContrato.valorCorrigido)} × ((1 + ${formatarPercentual(taxaJuros)})^(${dados.diasPeriodoContrato} / 30) − 1)`
+      }
+    );
+
+    if (dados.valorPago > 0) {
+      itens.push({
+        rotulo: 'Pagamento parcial',
+        valor: -dados.valorPagoCorrigido,
+        formula: dados.correcaoPagamento
+          ? `${formatarMoeda(dados.valorPago)} × ${formatarFator(dados.correcaoPagamento.fator)} (${nomeIndice} até o vencimento)`
+          : 'Valor pago'
+      });
+    }
+    itens.push({ rotulo: 'Saldo no vencimento', valor: dados.saldoDevedor, formula: 'Valor corrigido + juros contratuais − pagamento' });
+
+    if (dados.correcaoSaldo) {
+      secoes.correcao_atraso = 'Correção após o vencimento';
+      periodos.push(...periodosCorrecao('correcao_atraso', dados.correcaoSaldo, nomeIndice));
+      itens.push(
+        { rotulo: 'Correção após o vencimento', valor: dados.correcaoSaldo.valorCorrigido - dados.saldoDevedor, formula: descreverCorrecao(dados.correcaoSaldo, nomeIndice) },
+        { rotulo: 'Multa', valor: dados.multa, formula: `${formatarMoeda(dados.saldoDevedor)} × ${formatarPercentual(dados.multaAtraso)}` },
+        {
+          rotulo: 'Juros de mora',
+          valor: dados.jurosMoraTotal,
+          formula: `${formatarMoeda(dados.saldoDevedor)} × ${formatarPercentual(dados.jurosMora)} × ${dados.diasAtraso} / 30`
+        }
+      );
+    }
+  }
+
+  itens.push({ rotulo: 'Total devido', valor: dados.valorTotal, formula: `Saldo em ${formatarData(dados.hoje)}` });
+
+  const revisao = dados.revisaoParcelamento;
+  if (revisao) {
+    secoes.parcelas = 'Parcelas revisadas pela taxa média';
+    revisao.parcelas.forEach(parcela => {
+      periodos.push({
+        secao: 'parcelas',
+        rotulo: `Parcela ${parcela.numero}${parcela.paga ? ' (paga)' : ''}`,
+        inicio: null,
+        fim: parcela.vencimento,
+        dias: null,
+        base: parcela.parcelaContratada,
+        taxa: revisao.taxaMedia,
+        valor: parcela.diferenca,
+        saldo: null,
+        formula: `${formatarMoeda(parcela.parcelaContratada)} − ${formatarMoeda(parcela.parcelaRevisada)} (${revisao.sistema.toUpperCase()} a ${formatarPercentual(revisao.taxaMedia)} a.m.)`
+      });
+    });
+    if (revisao.valorRestituir !== null) {
+      itens.push({
+        rotulo: 'Restituição do parcelamento',
+        valor: revisao.valorRestituir,
+        formula: `${formatarMoeda(revisao.valorPagoAMaiorCorrigido)} corrigido${revisao.repeticaoDobro ? ' × 2 (art. 42 CDC)' : ''}`
+      });
+    }
+  }
+
+  const analise = dados.analiseCapitalizacao;
+  if (analise && analise.parcelasPagas > 0) {
+    itens.push({
+      rotulo: 'Pago a maior (Gauss)',
+      valor: analise.pagoAMaiorGauss,
+      formula: `(${formatarMoeda(analise.valorParcela)} − ${formatarMoeda(analise.parcelaGauss)}) × ${analise.parcelasPagas} parcelas pagas`
+    });
+  }
+
+  return { versao: VERSAO_RESULTADO_ESTRUTURADO, modo: 'contrato', secoes, itens, periodos };
+}
+
+function estruturarRotativo(calculo: CalculoRotativo): ResultadoEstruturado {
+  return {
+    versao: VERSAO_RESULTADO_ESTRUTURADO,
+    modo: 'rotativo',
+    secoes: { ciclos: 'Ciclos do rotativo' },
+    itens: [
+      { rotulo: 'Débitos do período', valor: calculo.totalDebitos, formula: 'Soma das compras, saques e transferências do extrato' },
+      { rotulo: 'Juros lançados', valor: calculo.totalJurosLancados, formula: 'Soma dos lançamentos de juros e encargos do extrato' },
+      { rotulo: 'Juros à taxa cobrada', valor: calculo.totalJurosTaxaCobrada, formula: 'Σ saldo devedor cobrado do dia × taxa cobrada / 30' },
+      { rotulo: 'Juros à taxa média', valor: calculo.totalJurosTaxaMedia, formula: 'Σ saldo devedor revisado do dia × taxa média / 30' },
+      { rotulo: 'IOF', valor: calculo.totalIof, formula: 'Soma dos lançamentos de IOF do extrato' },
+      { rotulo: 'Tarifas', valor: calculo.totalTarifas, formula: 'Soma das tarifas, anuidades e seguros do extrato' },
+      { rotulo: 'Juros cobrados a maior', valor: calculo.totalDiferencaJuros, formula: 'Juros lançados − juros à taxa média' },
+      { rotulo: 'Saldo devedor cobrado', valor: -calculo.saldoCobrado, formula: 'Saldo final do extrato' },
+      { rotulo: 'Saldo devedor revisado', valor: -calculo.saldoRevisado, formula: 'Saldo final com juros à taxa média' }
+    ],
+    periodos: calculo.ciclos.map(ciclo => ({
+      secao: 'ciclos',
+      rotulo: `Ciclo ${formatarData(ciclo.fim)}${ciclo.emAberto ? ' (em aberto)' : ''}`,
+      inicio: ciclo.inicio,
+      fim: ciclo.fim,
+      dias: ciclo.diasDevedor,
+      base: ciclo.saldoMedioDevedor,
+      taxa: ciclo.taxaMedia,
+      valor: ciclo.diferencaJuros,
+      saldo: -ciclo.saldoRevisado,
+      formula: `${formatarMoeda(ciclo.jurosLancados)} lançados − ${formatarMoeda(ciclo.jurosTaxaMedia)} à taxa média de ${formatarPercentual(ciclo.taxaMedia)} a.m.`
+    }))
   };
-  
-  const taxaCorrecao = indices[indice as keyof typeof indices] || 0.005;
-  return valor * Math.pow(1 + taxaCorrecao, meses);
 }
 
 function calcularMultaEJurosMora(saldoDevedor: number, multaPerc: number, jurosMoraPerc: number, mesesAtraso: number): { multa: number, jurosMora: number } {
@@ -85,37 +1301,7 @@ serve(async (req) => {
     const supabaseKey = Deno.env.get('SUPABASE_ANON_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    // Obter token de autenticação do header
-    const authHeader = req.headers.get('Authorization');
-    let userTimezone = 'America/Sao_Paulo'; // Padrão
-    let userId = null;
-
-    if (authHeader) {
-      try {
-        const token = authHeader.replace('Bearer ', '');
-        const { data: { user } } = await supabase.auth.getUser(token);
-        
-        if (user) {
-          userId = user.id;
-          console.log('Usuário autenticado:', userId);
-          // Buscar timezone do usuário
-          const { data: profile } = await supabase
-            .from('profiles')
-            .select('timezone')
-            .eq('user_id', user.id)
-            .single();
-          
-          if (profile?.timezone) {
-            userTimezone = profile.timezone;
-            console.log('Timezone do usuário encontrado:', userTimezone);
-          } else {
-            console.log('Timezone não encontrado no perfil, usando padrão');
-          }
-        }
-      } catch (error) {
-        console.log('Erro ao buscar timezone:', error);
-      }
-    }
+    const { userId, userTimezone } = await identificarUsuario(supabase, req);
 
     const data: ContratoBancarioData = await req.json();
     
@@ -124,13 +1310,82 @@ serve(async (req) => {
     const valorPago = parseFloat(data.valorPago) || 0;
     const multaAtraso = parseFloat(data.multaAtraso) || 2;
     const jurosMora = parseFloat(data.jurosMora) || 1;
+    const indiceCorrecao = SERIES_SGS[data.indiceCorrecao] ? data.indiceCorrecao : 'ipca';
+    const indiceInfo = SERIES_SGS[indiceCorrecao];
+    
+    const agora = new Date();
+    const hoje = agora.toLocaleDateString('en-CA', { timeZone: userTimezone }); // Formato YYYY-MM-DD no timezone do usuário
+    
+    // Cheque especial e cartão: o cálculo parte do extrato, não do contrato
+    if (data.modoCalculo === 'rotativo') {
+      const taxaMediaPadrao = parseFloat(data.taxaMediaBacen || '');
+      const rotativo = calcularRotativo(data, isNaN(taxaJuros) ? 0 : taxaJuros, isNaN(taxaMediaPadrao) ? 0 : taxaMediaPadrao);
+      if (!rotativo) {
+        return new Response(
+          JSON.stringify({ error: 'Nenhum lançamento com data e valor foi encontrado no extrato' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const detalhamentoRotativo = formatarCalculoRotativo(rotativo, agora, userTimezone, data.observacoes);
+      const resultRotativo = {
+        valorTotal: -rotativo.saldoRevisado,
+        jurosTotal: rotativo.totalJurosLancados,
+        valorCorrigido: -rotativo.saldoCobrado,
+        diferenca: rotativo.totalDiferencaJuros,
+        detalhamento: detalhamentoRotativo,
+        calculoRotativo: rotativo,
+        resultadoEstruturado: estruturarRotativo(rotativo)
+      };
+
+      if (userId) {
+        const { error: insertError } = await supabase
+          .from('calculo_contrato_historico')
+          .insert({
+            user_id: userId,
+            modo_calculo: 'rotativo',
+            tipo_rotativo: rotativo.tipo,
+            dia_fechamento: rotativo.tipo === 'cartao' ? parseInt(data.diaFechamento || '') || null : null,
+            dia_vencimento: rotativo.tipo === 'cartao' ? parseInt(data.diaVencimento || '') || null : null,
+            extrato_texto: data.extratoTexto,
+            taxas_ciclos: data.taxasCiclos || [],
+            valor_contrato: rotativo.totalDebitos,
+            data_contrato: rotativo.inicio,
+            data_vencimento: rotativo.fim,
+            taxa_juros: isNaN(taxaJuros) ? 0 : taxaJuros,
+            tipo_juros: 'rotativo',
+            indice_correcao: indiceCorrecao,
+            taxa_media_bacen: isNaN(taxaMediaPadrao) ? null : taxaMediaPadrao,
+            observacoes: data.observacoes || null,
+            valor_total: resultRotativo.valorTotal,
+            juros_total: resultRotativo.jurosTotal,
+            valor_corrigido: resultRotativo.valorCorrigido,
+            diferenca: resultRotativo.diferenca,
+            detalhamento: detalhamentoRotativo,
+            resultado_estruturado: resultRotativo.resultadoEstruturado
+          });
+        if (insertError) {
+          console.error('Erro detalhado ao salvar histórico:', insertError);
+        }
+      }
+
+      return new Response(JSON.stringify(resultRotativo), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Série do índice desde a data mais antiga do cálculo até hoje (ou até o vencimento, se futuro)
+    const inicioSerie = [data.dataContrato, data.dataPagamentoParcial].filter(Boolean).sort()[0];
+    const fimSerie = hoje > data.dataVencimento ? hoje : data.dataVencimento;
+    const serieIndice = await carregarSerieIndice(supabase, indiceCorrecao, inicioSerie, fimSerie);
     
     // Calcular período do contrato até o vencimento
     const diasPeriodoContrato = calcularDiferencaDias(data.dataContrato, data.dataVencimento);
     const mesesPeriodoContrato = diasPeriodoContrato / 30;
     
     // 1. Aplicar correção monetária sobre o valor original até o vencimento
-    const valorCorrigidoVencimento = aplicarCorrecaoMonetaria(valorContrato, data.indiceCorrecao, mesesPeriodoContrato);
+    const correcaoContrato = aplicarCorrecaoMonetaria(valorContrato, serieIndice, data.dataContrato, data.dataVencimento);
+    const valorCorrigidoVencimento = correcaoContrato.valorCorrigido;
     
     // 2. Calcular juros contratuais até o vencimento
     let jurosContratuais = 0;
@@ -146,13 +1401,14 @@ serve(async (req) => {
     // 4. Considerar pagamento parcial (se houver)
     let saldoDevedor = valorTotalVencimento;
     let valorPagoCorrigido = valorPago;
+    let correcaoPagamento: CorrecaoMonetaria | null = null;
     
     if (valorPago > 0 && data.dataPagamentoParcial) {
       // Se o pagamento foi antes do vencimento, aplicar correção até o vencimento
       const diasPagamentoAteVencimento = calcularDiferencaDias(data.dataPagamentoParcial, data.dataVencimento);
       if (diasPagamentoAteVencimento > 0) {
-        const mesesPagamentoAteVencimento = diasPagamentoAteVencimento / 30;
-        valorPagoCorrigido = aplicarCorrecaoMonetaria(valorPago, data.indiceCorrecao, mesesPagamentoAteVencimento);
+        correcaoPagamento = aplicarCorrecaoMonetaria(valorPago, serieIndice, data.dataPagamentoParcial, data.dataVencimento);
+        valorPagoCorrigido = correcaoPagamento.valorCorrigido;
       }
       saldoDevedor = valorTotalVencimento - valorPagoCorrigido;
     } else if (valorPago > 0) {
@@ -161,8 +1417,6 @@ serve(async (req) => {
     }
     
     // 5. Calcular atraso desde o vencimento até hoje
-    const agora = new Date();
-    const hoje = agora.toLocaleDateString('en-CA', { timeZone: userTimezone }); // Formato YYYY-MM-DD no timezone do usuário
     const diasAtraso = calcularDiferencaDias(data.dataVencimento, hoje);
     const mesesAtraso = Math.max(0, diasAtraso / 30);
     
@@ -170,6 +1424,7 @@ serve(async (req) => {
     let multa = 0;
     let jurosMoraTotal = 0;
     let valorFinalCorrigido = saldoDevedor;
+    let correcaoSaldo: CorrecaoMonetaria | null = null;
     
     if (mesesAtraso > 0 && saldoDevedor > 0) {
       const penalidades = calcularMultaEJurosMora(saldoDevedor, multaAtraso, jurosMora, mesesAtraso);
@@ -177,16 +1432,84 @@ serve(async (req) => {
       jurosMoraTotal = penalidades.jurosMora;
       
       // Aplicar correção monetária sobre o saldo devedor desde o vencimento
-      const saldoCorrigido = aplicarCorrecaoMonetaria(saldoDevedor, data.indiceCorrecao, mesesAtraso);
-      valorFinalCorrigido = saldoCorrigido + multa + jurosMoraTotal;
+      correcaoSaldo = aplicarCorrecaoMonetaria(saldoDevedor, serieIndice, data.dataVencimento, hoje);
+      valorFinalCorrigido = correcaoSaldo.valorCorrigido + multa + jurosMoraTotal;
+    }
+    
+    // 7. Extrato de pagamentos: com a lista de pagamentos, o saldo corrido substitui o pagamento único
+    const extratoPagamentos = data.pagamentos && data.pagamentos.length > 0
+      ? calcularExtratoPagamentos(data.pagamentos, {
+          valorContrato,
+          dataContrato: data.dataContrato,
+          dataVencimento: data.dataVencimento,
+          taxaJuros,
+          tipoJuros: data.tipoJuros,
+          multaAtraso,
+          jurosMora,
+          serie: serieIndice,
+          hoje
+        })
+      : null;
+    
+    if (extratoPagamentos) {
+      multa = extratoPagamentos.totalMulta;
+      jurosMoraTotal = extratoPagamentos.totalJurosMora;
+      correcaoSaldo = null;
     }
     
     // Calcular valor total devido hoje
-    const valorTotal = Math.max(0, valorFinalCorrigido);
-    const jurosTotal = jurosContratuais + jurosMoraTotal;
-    const valorCorrigido = aplicarCorrecaoMonetaria(valorContrato, data.indiceCorrecao, mesesPeriodoContrato + mesesAtraso);
+    const valorTotal = extratoPagamentos ? extratoPagamentos.saldoFinal : Math.max(0, valorFinalCorrigido);
+    const jurosTotal = extratoPagamentos
+      ? extratoPagamentos.totalJuros + extratoPagamentos.totalJurosMora
+      : jurosContratuais + jurosMoraTotal;
+    const valorCorrigido = aplicarCorrecaoMonetaria(valorContrato, serieIndice, data.dataContrato, hoje).valorCorrigido;
+    
+    // Competências do período sem índice cadastrado entram com variação zero
+    const competenciasSemIndice = Array.from(new Set([
+      ...correcaoContrato.competenciasSemIndice,
+      ...(correcaoPagamento?.competenciasSemIndice || []),
+      ...(correcaoSaldo?.competenciasSemIndice || []),
+      ...(extratoPagamentos?.competenciasSemIndice || [])
+    ])).sort();
     const diferenca = valorTotal;
     
+    // 8. Revisão do parcelamento pela taxa média de mercado (quando informado o sistema de amortização)
+    const taxaMediaMercado = data.sistemaAmortizacao ? await obterTaxaMedia(supabase, data) : null;
+    const revisaoParcelamento = revisarParcelamento(data, valorContrato, taxaJuros, taxaMediaMercado, serieIndice, hoje);
+    const avisoRevisao = data.sistemaAmortizacao && SISTEMAS_AMORTIZACAO[data.sistemaAmortizacao] && !taxaMediaMercado
+      ? `Taxa média do BACEN não cadastrada para ${modalidadeDoContrato(data).nome} em ${formatarCompetencia(`${data.dataContrato.slice(0, 7)}-01`)}: informe a taxa média para revisar o parcelamento`
+      : undefined;
+    
+    // 9. Análise de capitalização: duodécuplo, frequência implícita e recálculo por Gauss
+    const analiseCapitalizacao = analisarCapitalizacao(data, valorContrato, taxaJuros);
+    
+    // 10. Resultado estruturado (itens, períodos e fórmulas) para tabelas, gráficos e planilhas
+    const resultadoEstruturado = estruturarContrato({
+      valorContrato,
+      taxaJuros,
+      tipoJuros: data.tipoJuros,
+      multaAtraso,
+      jurosMora,
+      nomeIndice: indiceInfo.nome,
+      dataContrato: data.dataContrato,
+      hoje,
+      diasPeriodoContrato,
+      diasAtraso: Math.max(0, diasAtraso),
+      correcaoContrato,
+      jurosContratuais,
+      valorPago,
+      valorPagoCorrigido,
+      correcaoPagamento,
+      saldoDevedor,
+      correcaoSaldo,
+      multa,
+      jurosMoraTotal,
+      valorTotal,
+      extratoPagamentos,
+      revisaoParcelamento,
+      analiseCapitalizacao
+    });
+    
     // Gerar detalhamento completo
     const detalhamento = `CÁLCULO DETALHADO DE CONTRATO BANCÁRIO
 
@@ -198,7 +1521,7 @@ DADOS DO CONTRATO
 • Data de Vencimento: ${new Date(data.dataVencimento).toLocaleDateString('pt-BR')}
 • Período do Contrato: ${diasPeriodoContrato} dias (${mesesPeriodoContrato.toFixed(1)} meses)
 • Taxa de Juros: ${taxaJuros}% a.m. (${data.tipoJuros})
-• Índice de Correção: ${data.indiceCorrecao.toUpperCase()}
+• Índice de Correção: ${indiceInfo.nome} (${indiceInfo.fonte}, série SGS ${indiceInfo.serie})
 • Multa por Atraso: ${multaAtraso}%
 • Juros de Mora: ${jurosMora}% a.m.
 
@@ -206,7 +1529,7 @@ DADOS DO CONTRATO
 CÁLCULO ATÉ O VENCIMENTO
 ═══════════════════════════════════════════════════════════════
 1. Valor Original: R$ ${valorContrato.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
-2. Correção Monetária (${data.indiceCorrecao.toUpperCase()}): R$ ${(valorCorrigidoVencimento - valorContrato).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+2. Correção Monetária (${indiceInfo.nome}): R$ ${(valorCorrigidoVencimento - valorContrato).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
 3. Valor Corrigido no Vencimento: R$ ${valorCorrigidoVencimento.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
 4. Juros Contratuais (${data.tipoJuros}): R$ ${jurosContratuais.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
 5. Total Devido no Vencimento: R$ ${valorTotalVencimento.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
@@ -221,17 +1544,33 @@ ${data.dataPagamentoParcial ? `• Data do Pagamento: ${new Date(data.dataPagame
 • Saldo Devedor: R$ ${saldoDevedor.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
 ` : ''}
 
-${mesesAtraso > 0 ? `
+${extratoPagamentos ? formatarExtratoPagamentos(extratoPagamentos) : ''}
+${mesesAtraso > 0 && !extratoPagamentos ? `
 ═══════════════════════════════════════════════════════════════
 CÁLCULO DE ATRASO (${new Date(data.dataVencimento).toLocaleDateString('pt-BR')} até ${new Date().toLocaleDateString('pt-BR', { timeZone: userTimezone })})
 ═══════════════════════════════════════════════════════════════
 • Período em Atraso: ${diasAtraso} dias (${mesesAtraso.toFixed(1)} meses)
 • Saldo Devedor no Vencimento: R$ ${saldoDevedor.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
-• Correção Monetária do Saldo: R$ ${(aplicarCorrecaoMonetaria(saldoDevedor, data.indiceCorrecao, mesesAtraso) - saldoDevedor).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+• Correção Monetária do Saldo (${indiceInfo.nome}): R$ ${((correcaoSaldo?.valorCorrigido ?? saldoDevedor) - saldoDevedor).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
 • Multa por Atraso (${multaAtraso}%): R$ ${multa.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
 • Juros de Mora (${jurosMora}% a.m.): R$ ${jurosMoraTotal.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
 ` : ''}
 
+═══════════════════════════════════════════════════════════════
+MEMÓRIA DA CORREÇÃO MONETÁRIA - ${indiceInfo.nome}
+═══════════════════════════════════════════════════════════════
+Índice: ${indiceInfo.nome} (${indiceInfo.fonte}), série ${indiceInfo.serie} do SGS/Banco Central
+Critério: variações mensais acumuladas da competência inicial até o mês anterior à data final
+
+${formatarMemoriaCorrecao(`Valor original (${formatarData(data.dataContrato)} a ${formatarData(data.dataVencimento)})`, correcaoContrato)}
+${correcaoPagamento ? `
+${formatarMemoriaCorrecao(`Pagamento parcial (${formatarData(data.dataPagamentoParcial)} a ${formatarData(data.dataVencimento)})`, correcaoPagamento)}
+` : ''}${correcaoSaldo ? `
+${formatarMemoriaCorrecao(`Saldo devedor (${formatarData(data.dataVencimento)} a ${formatarData(hoje)})`, correcaoSaldo)}
+` : ''}${competenciasSemIndice.length > 0 ? `
+⚠ Competências sem índice cadastrado (corrigidas com variação zero): ${competenciasSemIndice.map(formatarCompetencia).join(', ')}
+` : ''}
+${revisaoParcelamento ? formatarRevisaoParcelamento(revisaoParcelamento, indiceInfo.nome) : ''}${analiseCapitalizacao ? formatarAnaliseCapitalizacao(analiseCapitalizacao) : ''}
 ═══════════════════════════════════════════════════════════════
 RESUMO FINAL
 ═══════════════════════════════════════════════════════════════
@@ -249,6 +1588,8 @@ FUNDAMENTAÇÃO LEGAL
 
 • Lei 10.406/2002 (Código Civil): A correção monetária visa manter o poder de compra da moeda, sendo aplicável para recompor o valor real da dívida.
 
+• Índice aplicado: ${indiceInfo.nome}, divulgado pelo ${indiceInfo.fonte} e obtido da série ${indiceInfo.serie} do Sistema Gerenciador de Séries Temporais (SGS) do Banco Central do Brasil.
+
 ${data.observacoes ? `
 ═══════════════════════════════════════════════════════════════
 OBSERVAÇÕES ADICIONAIS
@@ -274,7 +1615,13 @@ Ferramenta: Oráculo Jurídico - Calculadora de Contrato Bancário
       multa,
       jurosMoraTotal,
       mesesAtraso: Math.max(0, mesesAtraso),
-      diasAtraso: Math.max(0, diasAtraso)
+      diasAtraso: Math.max(0, diasAtraso),
+      competenciasSemIndice,
+      revisaoParcelamento,
+      avisoRevisao,
+      analiseCapitalizacao,
+      extratoPagamentos,
+      resultadoEstruturado
     };
 
     // Salvar no histórico se usuário autenticado
@@ -290,9 +1637,10 @@ Ferramenta: Oráculo Jurídico - Calculadora de Contrato Bancário
             data_vencimento: data.dataVencimento,
             taxa_juros: parseFloat(data.taxaJuros),
             tipo_juros: data.tipoJuros,
-            indice_correcao: data.indiceCorrecao,
-            valor_pago: data.valorPago ? parseFloat(data.valorPago) : null,
-            data_pagamento_parcial: data.dataPagamentoParcial || null,
+            indice_correcao: indiceCorrecao,
+            valor_pago: extratoPagamentos ? extratoPagamentos.totalPago : data.valorPago ? parseFloat(data.valorPago) : null,
+            data_pagamento_parcial: extratoPagamentos ? null : data.dataPagamentoParcial || null,
+            pagamentos: data.pagamentos || [],
             multa_atraso: parseFloat(data.multaAtraso || '2'),
             juros_mora: parseFloat(data.jurosMora || '1'),
             observacoes: data.observacoes || null,
@@ -300,7 +1648,17 @@ Ferramenta: Oráculo Jurídico - Calculadora de Contrato Bancário
             juros_total: jurosTotal,
             valor_corrigido: valorCorrigido,
             diferenca: diferenca,
-            detalhamento: detalhamento
+            detalhamento: detalhamento,
+            sistema_amortizacao: revisaoParcelamento?.sistema || null,
+            numero_parcelas: parseInt(data.numeroParcelas || '') || null,
+            parcelas_pagas: parseInt(data.parcelasPagas || '') || null,
+            modalidade_credito: revisaoParcelamento ? data.modalidadeCredito || 'outros' : null,
+            taxa_media_bacen: revisaoParcelamento?.taxaMedia ?? null,
+            repeticao_dobro: revisaoParcelamento?.repeticaoDobro ?? false,
+            valor_parcela: analiseCapitalizacao?.parcelaInformada ? analiseCapitalizacao.valorParcela : null,
+            taxa_anual_declarada: analiseCapitalizacao?.taxaAnualDeclarada ?? null,
+            analise_capitalizacao: analiseCapitalizacao,
+            resultado_estruturado: resultadoEstruturado
           });
         
         if (insertError) {
@@ -1,6 +1,22 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.50.5';
+import {
+  SALARIO_MINIMO_SGS,
+  SERIES_SGS,
+  TABELAS_TRIBUNAIS,
+  SalariosMinimos,
+  calcularDiferencaDias,
+  carregarSalariosMinimos,
+  carregarSerieIndice,
+  aplicarCorrecaoMonetaria,
+  formatarCompetencia,
+  formatarData,
+  formatarFator,
+  formatarMoeda,
+  formatarPercentual,
+  salarioMinimoVigente
+} from '../_shared/calculo.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,6 +29,11 @@ interface Pagamento {
   observacao: string;
 }
 
+interface RendaMensal {
+  competencia: string; // YYYY-MM, mês a partir do qual a renda vale
+  valor: string;
+}
+
 interface PensaoAlimenticiaData {
   rendaAlimentante: string;
   numeroFilhos: string;
@@ -22,33 +43,57 @@ interface PensaoAlimenticiaData {
   dataInicio: string;
   dataFim: string;
   valorFixo: string;
-  tipoCalculo: string;
+  tipoCalculo: string; // 'fixo' | 'salario_minimo' | 'percentual_renda'
   valorEstipulado: string;
+  percentualSalarioMinimo?: string;
+  historicoRenda?: RendaMensal[]; // base do percentualPensao
   diaVencimento: string;
   dataInicioObrigacao: string;
   pagamentos: Pagamento[];
   mesesAtraso: string; // Manter para compatibilidade
   observacoes: string;
+  tribunal?: string;        // tabela de correção; ausente = INPC
+  indiceCorrecao?: string;  // só para o tribunal 'outro'
+  jurosMensais?: string;
+  aplicarMulta?: boolean;   // multa de 2% quando prevista no título
+  dataAjuizamento?: string; // separa o rito da prisão do rito da penhora
 }
 
-function calcularPercentualSugerido(numeroFilhos: number, idadeFilho?: number): number {
-  // Percentuais sugeridos baseados na jurisprudência
-  let percentual = 0;
-  
-  switch (numeroFilhos) {
-    case 1: percentual = 30; break;
-    case 2: percentual = 25; break; // 25% cada = 50% total
-    case 3: percentual = 20; break; // 20% cada = 60% total
-    case 4: percentual = 15; break; // 15% cada = 60% total
-    default: percentual = 12; break; // 12% cada para 5+ filhos
-  }
-  
-  // Ajuste por idade (filhos universitários podem ter percentual maior)
-  if (idadeFilho && idadeFilho >= 18 && idadeFilho <= 24) {
-    percentual += 5; // Adicional para universitários
-  }
-  
-  return percentual;
+// Parcela vencida, corrigida e com juros desde o próprio vencimento (Súmula 43 do STJ e art. 397 do CC)
+interface ParcelaPensao {
+  vencimento: string;
+  valorDevido: number;
+  baseCalculo: number | null; // salário mínimo ou renda do mês, quando a pensão é percentual
+  valorPago: number;
+  pagamentos: string[];
+  valorEmAberto: number;
+  fatorCorrecao: number;
+  valorCorrigido: number;
+  diasJuros: number;
+  percentualJuros: number;
+  valorJuros: number;
+  valorMulta: number;
+  total: number;
+  rito?: RitoExecucao;
+}
+
+type RitoExecucao = 'prisao' | 'penhora';
+
+// Totais de cada demonstrativo, para instruir separadamente as execuções dos arts. 528 e 523 do CPC
+interface DemonstrativoRito {
+  parcelas: number;
+  principal: number;
+  correcao: number;
+  juros: number;
+  multa: number;
+  total: number;
+}
+
+interface CriteriosAtualizacao {
+  indice: string;
+  serie: Map<string, number>;
+  jurosMensais: number;
+  aplicarMulta: boolean;
 }
 
 function calcularMesesEntreDatas(dataInicio: string, dataFim: string): number {
@@ -71,6 +116,48 @@ function calcularJurosEMulta(valorPrincipal: number, mesesAtraso: number): { jur
   return { juros, multa };
 }
 
+function resolverCriterios(data: PensaoAlimenticiaData): { tribunal: string; indice: string; jurosMensais: number } {
+  const tribunal = data.tribunal && TABELAS_TRIBUNAIS[data.tribunal] ? data.tribunal : 'outro';
+  const indice = tribunal === 'outro' && data.indiceCorrecao && SERIES_SGS[data.indiceCorrecao] ? data.indiceCorrecao : TABELAS_TRIBUNAIS[tribunal].indice;
+  const jurosMensais = parseFloat(data.jurosMensais || '');
+  return { tribunal, indice, jurosMensais: isNaN(jurosMensais) ? 1 : jurosMensais };
+}
+
+// Valor devido em cada vencimento: fixo, percentual do salário mínimo vigente ou percentual da
+// renda mais recente informada até o mês do vencimento
+function criarValorDoMes(data: PensaoAlimenticiaData, tipoCalculo: string, salariosMinimos: SalariosMinimos): (vencimento: string) => { valor: number; base: number | null } {
+  const arredondar = (valor: number) => Math.round(valor * 100) / 100;
+
+  if (tipoCalculo === 'salario_minimo') {
+    const percentual = parseFloat(data.percentualSalarioMinimo || '') || 0;
+    return vencimento => {
+      const base = salarioMinimoVigente(salariosMinimos, vencimento).valor;
+      return { valor: arredondar(base * percentual / 100), base };
+    };
+  }
+
+  if (tipoCalculo === 'percentual_renda') {
+    const percentual = parseFloat(data.percentualPensao || '') || 0;
+    const rendas = (data.historicoRenda || [])
+      .filter(renda => renda.competencia && parseFloat(renda.valor) > 0)
+      .map(renda => ({ competencia: renda.competencia.slice(0, 7), valor: parseFloat(renda.valor) }))
+      .sort((a, b) => b.competencia.localeCompare(a.competencia));
+    return vencimento => {
+      // Antes da primeira renda informada, vale a mais antiga
+      const renda = rendas.find(item => item.competencia <= vencimento.slice(0, 7)) ?? rendas[rendas.length - 1];
+      const base = renda ? renda.valor : 0;
+      return { valor: arredondar(base * percentual / 100), base };
+    };
+  }
+
+  const valor = parseFloat(data.valorEstipulado) || 0;
+  return () => ({ valor, base: null });
+}
+
+function formatarDataCivil(data: Date): string {
+  return `${data.getFullYear()}-${String(data.getMonth() + 1).padStart(2, '0')}-${String(data.getDate()).padStart(2, '0')}`;
+}
+
 function gerarVencimentos(dataInicioObrigacao: string, diaVencimento: number, dataFinal: string, mesesEspecificados?: number): Date[] {
   const vencimentos: Date[] = [];
   const dataInicio = new Date(dataInicioObrigacao);
@@ -154,136 +241,294 @@ function gerarVencimentos(dataInicioObrigacao: string, diaVencimento: number, da
   return vencimentos;
 }
 
+// Lei 14.905/2024: desde 30/08/2024, no silêncio do título, correção pelo IPCA (art. 389, parágrafo
+// único, do CC) e juros pela SELIC deduzido o IPCA (art. 406, § 1º, do CC)
+const INICIO_LEI_14905 = '2024-08-30';
+
+// Parcela vencida durante a imputação: principal corrigido até dataAtualizacao e encargos pendentes
+interface EstadoParcela {
+  vencimento: string;
+  valorDevido: number;
+  base: number | null;
+  principal: number;
+  fator: number;
+  juros: number;
+  multa: number;
+  multaAplicada: boolean;
+  dataAtualizacao: string;
+  valorPago: number;
+  pagamentos: string[];
+}
+
+const SALDO_QUITADO = 0.005;
+
 function calcularAtrasoDetalhado(
   vencimentos: Date[], 
-  valorMensal: number, 
+  valorDoMes: (vencimento: string) => { valor: number; base: number | null }, 
   pagamentos: Pagamento[], 
-  dataCalculoStr: string
+  dataCalculoStr: string,
+  criterios: CriteriosAtualizacao
 ): {
   totalDevido: number;
   totalPago: number;
   saldoDevedor: number;
+  correcao: number;
   multa: number;
   juros: number;
   detalhePagamentos: string;
   mesesAtrasados: number;
+  parcelas: ParcelaPensao[];
+  competenciasSemIndice: string[];
+  avisos: string[];
 } {
-  const dataCalculo = new Date(dataCalculoStr);
+  const nomeIndice = SERIES_SGS[criterios.indice].nome;
   let totalDevido = 0;
-  let totalPago = 0;
   let saldoDevedor = 0;
+  let correcao = 0;
   let multa = 0;
   let juros = 0;
   let mesesAtrasados = 0;
   let detalhePagamentos = "\nDETALHAMENTO POR VENCIMENTO:\n";
+  const parcelas: ParcelaPensao[] = [];
+  const competenciasSemIndice = new Set<string>();
+  const avisos: string[] = [];
   
-  // Converter pagamentos para Date e ordenar
+  // Pagamentos em ordem cronológica, com o saldo ainda não imputado de cada um
   const pagamentosOrdenados = pagamentos
     .filter(p => p.data && p.valor)
     .map(p => ({
-      data: new Date(p.data),
+      data: p.data.slice(0, 10),
       valor: parseFloat(p.valor) || 0,
-      observacao: p.observacao || '',
-      utilizado: false
+      observacao: p.observacao || ''
     }))
-    .sort((a, b) => a.data.getTime() - b.data.getTime());
+    .filter(p => p.valor > 0)
+    .sort((a, b) => a.data.localeCompare(b.data));
+  
+  const totalPago = pagamentosOrdenados.reduce((soma, p) => soma + p.valor, 0);
   
-  totalPago = pagamentosOrdenados.reduce((soma, p) => soma + p.valor, 0);
+  const vencidos = vencimentos
+    .map(formatarDataCivil)
+    .filter(vencimento => vencimento <= dataCalculoStr);
+  const estados: EstadoParcela[] = [];
+  const creditos: { data: string; valor: number }[] = [];
   
-  // Criar uma cópia dos pagamentos para aplicação sequencial
-  let pagamentosDisponiveis = [...pagamentosOrdenados];
+  // Corrige o principal e acrescenta juros simples pro rata die (e a multa, uma vez) até a data
+  const atualizar = (estado: EstadoParcela, data: string) => {
+    const dias = calcularDiferencaDias(estado.dataAtualizacao, data);
+    if (dias <= 0) return;
+    const correcaoPeriodo = aplicarCorrecaoMonetaria(1, criterios.serie, estado.dataAtualizacao, data);
+    correcaoPeriodo.competenciasSemIndice.forEach(competencia => competenciasSemIndice.add(competencia));
+    estado.fator *= correcaoPeriodo.fator;
+    estado.principal *= correcaoPeriodo.fator;
+    estado.juros += estado.principal * criterios.jurosMensais / 100 * dias / 30;
+    if (criterios.aplicarMulta && !estado.multaAplicada && estado.principal > SALDO_QUITADO) {
+      estado.multa = estado.principal * 0.02;
+      estado.multaAplicada = true;
+    }
+    estado.dataAtualizacao = data;
+  };
   
-  // Processar cada vencimento em ordem cronológica
-  for (const vencimento of vencimentos) {
-    if (vencimento <= dataCalculo) {
-      totalDevido += valorMensal;
+  // Imputa o valor primeiro nos juros e na multa e depois no principal (art. 354 do CC),
+  // começando pela parcela mais antiga (art. 355 do CC); devolve o que sobrar
+  const imputar = (valor: number, data: string, rotulo: string): number => {
+    let restante = valor;
+    for (const estado of estados) {
+      if (restante <= SALDO_QUITADO) break;
+      atualizar(estado, data);
+      const encargos = estado.juros + estado.multa;
+      if (estado.principal + encargos <= SALDO_QUITADO) continue;
       
-      let valorPagoVencimento = 0;
-      let datasPagamentos: string[] = [];
+      const imputadoJuros = Math.min(restante, estado.juros);
+      const imputadoMulta = Math.min(restante - imputadoJuros, estado.multa);
+      const imputadoPrincipal = Math.min(restante - imputadoJuros - imputadoMulta, estado.principal);
+      estado.juros -= imputadoJuros;
+      estado.multa -= imputadoMulta;
+      estado.principal -= imputadoPrincipal;
+      restante -= imputadoJuros + imputadoMulta + imputadoPrincipal;
       
-      // Aplicar pagamentos disponíveis a este vencimento
-      for (let i = 0; i < pagamentosDisponiveis.length && valorPagoVencimento < valorMensal; i++) {
-        const pagamento = pagamentosDisponiveis[i];
-        if (pagamento.valor > 0) {
-          const valorAplicado = Math.min(pagamento.valor, valorMensal - valorPagoVencimento);
-          valorPagoVencimento += valorAplicado;
-          datasPagamentos.push(`${pagamento.data.toLocaleDateString('pt-BR')}: R$ ${valorAplicado.toFixed(2)}`);
-          
-          // Reduzir o valor disponível do pagamento
-          pagamento.valor -= valorAplicado;
+      const imputado = imputadoJuros + imputadoMulta + imputadoPrincipal;
+      estado.valorPago += imputado;
+      estado.pagamentos.push(imputadoJuros + imputadoMulta > 0
+        ? `${rotulo}: ${formatarMoeda(imputado)} (encargos ${formatarMoeda(imputadoJuros + imputadoMulta)}, principal ${formatarMoeda(imputadoPrincipal)})`
+        : `${rotulo}: ${formatarMoeda(imputado)}`);
+    }
+    return restante;
+  };
+  
+  // Abre as parcelas vencidas até a data; o crédito de pagamentos antecipados quita a parcela no vencimento
+  let proximoVencimento = 0;
+  const abrirParcelasAte = (data: string) => {
+    while (proximoVencimento < vencidos.length && vencidos[proximoVencimento] <= data) {
+      const vencimento = vencidos[proximoVencimento++];
+      const { valor, base } = valorDoMes(vencimento);
+      totalDevido += valor;
+      estados.push({
+        vencimento, valorDevido: valor, base, principal: valor, fator: 1, juros: 0, multa: 0,
+        multaAplicada: false, dataAtualizacao: vencimento, valorPago: 0, pagamentos: []
+      });
+      for (const credito of creditos) {
+        if (credito.valor > SALDO_QUITADO) {
+          credito.valor = imputar(credito.valor, vencimento, `${formatarData(credito.data)} (antecipado)`);
         }
       }
+    }
+  };
+  
+  const pagamentosPosteriores = pagamentosOrdenados.filter(p => p.data > dataCalculoStr);
+  for (const pagamento of pagamentosOrdenados.filter(p => p.data <= dataCalculoStr)) {
+    abrirParcelasAte(pagamento.data);
+    const restante = imputar(pagamento.valor, pagamento.data, formatarData(pagamento.data));
+    if (restante > SALDO_QUITADO) {
+      creditos.push({ data: pagamento.data, valor: restante });
+    }
+  }
+  abrirParcelasAte(dataCalculoStr);
+  
+  for (const estado of estados) {
+    atualizar(estado, dataCalculoStr);
+    const emAberto = estado.principal + estado.juros + estado.multa > SALDO_QUITADO;
+    const valorEmAberto = emAberto ? estado.principal / estado.fator : 0;
+    const diasAtraso = emAberto ? Math.max(0, calcularDiferencaDias(estado.vencimento, dataCalculoStr)) : 0;
+    const percentualJuros = criterios.jurosMensais * diasAtraso / 30;
+    const valorCorrigido = emAberto ? estado.principal : 0;
+    const valorJuros = emAberto ? estado.juros : 0;
+    const valorMulta = emAberto ? estado.multa : 0;
+    const total = valorCorrigido + valorJuros + valorMulta;
+    const base = estado.base;
+    
+    parcelas.push({
+      vencimento: estado.vencimento,
+      valorDevido: estado.valorDevido,
+      baseCalculo: base,
+      valorPago: estado.valorPago,
+      pagamentos: estado.pagamentos,
+      valorEmAberto,
+      fatorCorrecao: estado.fator,
+      valorCorrigido,
+      diasJuros: diasAtraso,
+      percentualJuros,
+      valorJuros,
+      valorMulta,
+      total
+    });
+    
+    if (emAberto) {
+      saldoDevedor += valorEmAberto;
+      mesesAtrasados++; // Contar apenas meses com valor em atraso
+    }
+    
+    if (emAberto && diasAtraso > 0) {
+      correcao += valorCorrigido - valorEmAberto;
+      multa += valorMulta;
+      juros += valorJuros;
       
-      const valorRestante = valorMensal - valorPagoVencimento;
-      // Acumular APENAS os valores que realmente estão em falta
-      if (valorRestante > 0) {
-        saldoDevedor += valorRestante;
-        mesesAtrasados++; // Contar apenas meses com valor em atraso
+      detalhePagamentos += `\nVencimento: ${formatarData(estado.vencimento)}\n`;
+      detalhePagamentos += `  Valor devido: R$ ${estado.valorDevido.toFixed(2)}${base !== null ? ` (base de ${formatarMoeda(base)})` : ''}\n`;
+      detalhePagamentos += `  Valor pago: R$ ${estado.valorPago.toFixed(2)}\n`;
+      if (estado.pagamentos.length > 0) {
+        detalhePagamentos += `  Pagamentos: ${estado.pagamentos.join('; ')}\n`;
       }
-      
-      // Calcular dias de atraso apenas se houver valor restante
-      let diasAtraso = 0;
-      if (valorRestante > 0) {
-        diasAtraso = Math.max(0, Math.floor((dataCalculo.getTime() - vencimento.getTime()) / (1000 * 60 * 60 * 24)));
+      detalhePagamentos += `  Principal em aberto: R$ ${valorEmAberto.toFixed(2)}\n`;
+      detalhePagamentos += `  Correção (${nomeIndice}): × ${formatarFator(estado.fator)} = ${formatarMoeda(valorCorrigido)}\n`;
+      detalhePagamentos += `  Juros (${formatarPercentual(criterios.jurosMensais)} a.m., ${diasAtraso} dias, sobre o saldo de cada período): ${formatarMoeda(valorJuros)}\n`;
+      if (valorMulta > 0) {
+        detalhePagamentos += `  Multa (2%): ${formatarMoeda(valorMulta)}\n`;
       }
-      
-      // Calcular juros e multas sobre o valor restante (se houver atraso)
-      if (valorRestante > 0 && diasAtraso > 0) {
-        const mesesAtrasoCalculo = Math.max(1, Math.ceil(diasAtraso / 30));
-        
-        // Multa de 2% sobre o valor em atraso
-        const multaParcela = valorRestante * 0.02;
-        // Juros de 1% ao mês sobre o valor em atraso
-        const jurosParcela = valorRestante * 0.01 * mesesAtrasoCalculo;
-        
-        multa += multaParcela;
-        juros += jurosParcela;
-        
-        detalhePagamentos += `\nVencimento: ${vencimento.toLocaleDateString('pt-BR')}\n`;
-        detalhePagamentos += `  Valor devido: R$ ${valorMensal.toFixed(2)}\n`;
-        detalhePagamentos += `  Valor pago: R$ ${valorPagoVencimento.toFixed(2)}\n`;
-        if (datasPagamentos.length > 0) {
-          detalhePagamentos += `  Pagamentos: ${datasPagamentos.join(', ')}\n`;
-        }
-        detalhePagamentos += `  Valor em atraso: R$ ${valorRestante.toFixed(2)}\n`;
-        detalhePagamentos += `  Dias de atraso: ${diasAtraso} dias (${mesesAtrasoCalculo} meses)\n`;
-        detalhePagamentos += `  Multa (2%): R$ ${multaParcela.toFixed(2)}\n`;
-        detalhePagamentos += `  Juros (1% a.m.): R$ ${jurosParcela.toFixed(2)}\n`;
-        detalhePagamentos += `  Total desta parcela: R$ ${(valorRestante + multaParcela + jurosParcela).toFixed(2)}\n`;
-      } else if (valorPagoVencimento > 0) {
-        detalhePagamentos += `\nVencimento: ${vencimento.toLocaleDateString('pt-BR')}\n`;
-        detalhePagamentos += `  Valor devido: R$ ${valorMensal.toFixed(2)}\n`;
-        detalhePagamentos += `  Valor pago: R$ ${valorPagoVencimento.toFixed(2)}\n`;
-        if (datasPagamentos.length > 0) {
-          detalhePagamentos += `  Pagamentos: ${datasPagamentos.join(', ')}\n`;
-        }
-        if (valorRestante === 0) {
-          detalhePagamentos += `  Status: PAGO EM DIA\n`;
-        } else if (diasAtraso === 0) {
-          detalhePagamentos += `  Status: PARCIALMENTE PAGO (sem atraso ainda)\n`;
-        }
+      detalhePagamentos += `  Total desta parcela: ${formatarMoeda(total)}\n`;
+    } else if (estado.valorPago > 0) {
+      detalhePagamentos += `\nVencimento: ${formatarData(estado.vencimento)}\n`;
+      detalhePagamentos += `  Valor devido: R$ ${estado.valorDevido.toFixed(2)}${base !== null ? ` (base de ${formatarMoeda(base)})` : ''}\n`;
+      detalhePagamentos += `  Valor pago: R$ ${estado.valorPago.toFixed(2)}\n`;
+      if (estado.pagamentos.length > 0) {
+        detalhePagamentos += `  Pagamentos: ${estado.pagamentos.join('; ')}\n`;
+      }
+      if (!emAberto) {
+        detalhePagamentos += `  Status: QUITADO\n`;
+      } else {
+        detalhePagamentos += `  Status: PARCIALMENTE PAGO (sem atraso ainda)\n`;
       }
     }
   }
   
   // Adicionar resumo dos pagamentos não utilizados (antecipados)
-  const pagamentosNaoUtilizados = pagamentosDisponiveis.filter(p => p.valor > 0);
-  if (pagamentosNaoUtilizados.length > 0) {
+  const creditosRestantes = creditos.filter(credito => credito.valor > SALDO_QUITADO);
+  if (creditosRestantes.length > 0) {
     detalhePagamentos += `\nPAGAMENTOS ANTECIPADOS:\n`;
-    for (const pagamento of pagamentosNaoUtilizados) {
-      detalhePagamentos += `  ${pagamento.data.toLocaleDateString('pt-BR')}: R$ ${pagamento.valor.toFixed(2)} (crédito para próximas parcelas)\n`;
+    for (const credito of creditosRestantes) {
+      detalhePagamentos += `  ${formatarData(credito.data)}: R$ ${credito.valor.toFixed(2)} (crédito para próximas parcelas)\n`;
     }
   }
+  if (pagamentosPosteriores.length > 0) {
+    detalhePagamentos += `\nPAGAMENTOS POSTERIORES À DATA DO CÁLCULO (não imputados):\n`;
+    for (const pagamento of pagamentosPosteriores) {
+      detalhePagamentos += `  ${formatarData(pagamento.data)}: R$ ${pagamento.valor.toFixed(2)}\n`;
+    }
+  }
+  
+  if (competenciasSemIndice.size > 0) {
+    detalhePagamentos += `\n⚠ Competências sem ${nomeIndice} cadastrado (variação zero): ${[...competenciasSemIndice].sort().map(formatarCompetencia).join(', ')}\n`;
+  }
+  
+  const posterioresLei14905 = parcelas.filter(parcela => parcela.valorEmAberto > 0 && parcela.vencimento >= INICIO_LEI_14905);
+  if (posterioresLei14905.length > 0) {
+    const aviso = `Lei 14.905/2024: ${posterioresLei14905.length} parcela(s) em aberto vencida(s) a partir de ${formatarData(INICIO_LEI_14905)}. Se o título não fixar índice e juros, aplicam-se o IPCA (art. 389, parágrafo único, do CC) e a SELIC deduzido o IPCA (art. 406, § 1º, do CC), e não ${nomeIndice} com ${formatarPercentual(criterios.jurosMensais)} a.m.`;
+    avisos.push(aviso);
+    detalhePagamentos += `\n⚠ ${aviso}\n`;
+  }
   
   return {
     totalDevido,
     totalPago,
     saldoDevedor,
+    correcao,
     multa,
     juros,
     detalhePagamentos,
-    mesesAtrasados
+    mesesAtrasados,
+    parcelas,
+    competenciasSemIndice: [...competenciasSemIndice].sort(),
+    avisos
+  };
+}
+
+// Art. 528, § 7º, do CPC (Súmula 309 do STJ): as três prestações anteriores ao ajuizamento e as que
+// vencerem no curso do processo seguem o rito da prisão; as demais, o da penhora
+function separarRitos(parcelas: ParcelaPensao[], dataAjuizamento: string): Record<RitoExecucao, DemonstrativoRito> {
+  const anteriores = parcelas
+    .map(parcela => parcela.vencimento)
+    .filter(vencimento => vencimento < dataAjuizamento)
+    .sort();
+  const ultimasAnteriores = new Set(anteriores.slice(-3));
+  
+  const demonstrativos: Record<RitoExecucao, DemonstrativoRito> = {
+    prisao: { parcelas: 0, principal: 0, correcao: 0, juros: 0, multa: 0, total: 0 },
+    penhora: { parcelas: 0, principal: 0, correcao: 0, juros: 0, multa: 0, total: 0 }
   };
+  
+  for (const parcela of parcelas) {
+    parcela.rito = parcela.vencimento >= dataAjuizamento || ultimasAnteriores.has(parcela.vencimento) ? 'prisao' : 'penhora';
+    if (parcela.valorEmAberto <= 0) continue;
+    
+    const demonstrativo = demonstrativos[parcela.rito];
+    demonstrativo.parcelas++;
+    demonstrativo.principal += parcela.valorEmAberto;
+    demonstrativo.correcao += parcela.valorCorrigido - parcela.valorEmAberto;
+    demonstrativo.juros += parcela.valorJuros;
+    demonstrativo.multa += parcela.valorMulta;
+    demonstrativo.total += parcela.total;
+  }
+  
+  return demonstrativos;
+}
+
+function formatarDemonstrativoRito(titulo: string, demonstrativo: DemonstrativoRito, parcelas: ParcelaPensao[]): string {
+  const vencimentos = parcelas.filter(parcela => parcela.valorEmAberto > 0).map(parcela => formatarData(parcela.vencimento));
+  return `${titulo}:
+- Parcelas em aberto: ${demonstrativo.parcelas}${vencimentos.length > 0 ? ` (${vencimentos.join(', ')})` : ''}
+- Principal: ${formatarMoeda(demonstrativo.principal)}
+- Correção monetária: ${formatarMoeda(demonstrativo.correcao)}
+- Juros: ${formatarMoeda(demonstrativo.juros)}
+${demonstrativo.multa > 0 ? `- Multa: ${formatarMoeda(demonstrativo.multa)}\n` : ''}- Total: ${formatarMoeda(demonstrativo.total)}`;
 }
 
 serve(async (req) => {
@@ -337,26 +582,62 @@ serve(async (req) => {
     const idadeFilho = data.idadeFilho ? parseInt(data.idadeFilho) : undefined;
     const diaVencimento = parseInt(data.diaVencimento) || 5;
     
-    let valorPensao = 0;
-    let percentualRenda = 0;
+    const tipoCalculo = ['salario_minimo', 'percentual_renda'].includes(data.tipoCalculo) ? data.tipoCalculo : 'fixo';
+    const percentualSalarioMinimo = parseFloat(data.percentualSalarioMinimo || '') || 0;
+    const percentualRenda = tipoCalculo === 'percentual_renda' ? parseFloat(data.percentualPensao || '') || 0 : 0;
+    const historicoRenda = (data.historicoRenda || []).filter(renda => renda.competencia && parseFloat(renda.valor) > 0);
     
-    // Calcular valor da pensão
-    valorPensao = parseFloat(data.valorEstipulado);
-    percentualRenda = 0; // Não calculamos mais percentual da renda
+    if (tipoCalculo === 'salario_minimo' && percentualSalarioMinimo <= 0) {
+      return new Response(
+        JSON.stringify({ error: 'Informe o percentual do salário mínimo' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (tipoCalculo === 'percentual_renda' && (percentualRenda <= 0 || historicoRenda.length === 0)) {
+      return new Response(
+        JSON.stringify({ error: 'Informe o percentual e ao menos uma renda mensal do alimentante' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    
+    const salarioMinimo = SALARIO_MINIMO_SGS.salario_minimo;
+    const salariosMinimos = tipoCalculo === 'salario_minimo' ? await carregarSalariosMinimos(supabase) : [];
+    if (tipoCalculo === 'salario_minimo' && salariosMinimos.length === 0) {
+      return new Response(
+        JSON.stringify({ error: `Série do salário mínimo (SGS ${salarioMinimo.serie}) não cadastrada; importe-a em Administração > Índices Econômicos` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    
+    const agora = new Date();
+    const dataAtual = agora.toLocaleDateString('en-CA', { timeZone: userTimezone });
+    
+    // Valor da pensão: o do mês do cálculo; as parcelas vencidas usam o valor do próprio mês
+    const valorDoMes = criarValorDoMes(data, tipoCalculo, salariosMinimos);
+    const { valor: valorPensao, base: baseAtual } = valorDoMes(data.dataFim || dataAtual);
+    const descricaoValor = tipoCalculo === 'salario_minimo'
+      ? `${formatarPercentual(percentualSalarioMinimo)} do salário mínimo (${formatarMoeda(baseAtual ?? 0)}, competência ${formatarCompetencia(salarioMinimoVigente(salariosMinimos, data.dataFim || dataAtual).competencia)} da série ${salarioMinimo.serie} do SGS) = ${formatarMoeda(valorPensao)}`
+      : tipoCalculo === 'percentual_renda'
+        ? `${formatarPercentual(percentualRenda)} da renda líquida do alimentante (${formatarMoeda(baseAtual ?? 0)}) = ${formatarMoeda(valorPensao)}`
+        : formatarMoeda(valorPensao);
     
     // Calcular atrasos baseado nos pagamentos detalhados se disponível
     let valorTotalAtrasado = 0;
     let multa = 0;
     let juros = 0;
+    let correcao = 0;
     let detalhePagamentos = '';
     let saldoDevedor = 0;
     let totalParcelas = 0;
     let mesesAtrasados = 0;
+    let parcelas: ParcelaPensao[] = [];
+    let competenciasSemIndice: string[] = [];
+    let avisos: string[] = [];
+    let demonstrativos: Record<RitoExecucao, DemonstrativoRito> | null = null;
+    const { tribunal, indice, jurosMensais } = resolverCriterios(data);
+    const nomeIndice = SERIES_SGS[indice].nome;
     
-    const agora = new Date();
-    const dataAtual = agora.toLocaleDateString('en-CA', { timeZone: userTimezone });
-    
-    if (data.dataInicioObrigacao && data.valorEstipulado) {
+    if (data.dataInicioObrigacao && valorPensao > 0) {
       // Novo cálculo detalhado
       const dataFinalCalculo = data.dataFim || dataAtual;
       
@@ -369,19 +650,32 @@ serve(async (req) => {
       const vencimentos = gerarVencimentos(data.dataInicioObrigacao, diaVencimento, dataFinalCalculo, mesesEspecificados);
       totalParcelas = vencimentos.length;
       
+      const serie = vencimentos.length > 0
+        ? await carregarSerieIndice(supabase, indice, formatarDataCivil(vencimentos[0]), dataFinalCalculo)
+        : new Map<string, number>();
+      
       const calculoDetalhado = calcularAtrasoDetalhado(
         vencimentos, 
-        valorPensao, 
+        valorDoMes, 
         data.pagamentos || [], 
-        dataFinalCalculo
+        dataFinalCalculo,
+        { indice, serie, jurosMensais, aplicarMulta: !!data.aplicarMulta }
       );
       
       saldoDevedor = calculoDetalhado.saldoDevedor;
       valorTotalAtrasado = saldoDevedor; // O saldo devedor já é o valor em atraso correto
+      correcao = calculoDetalhado.correcao;
       multa = calculoDetalhado.multa;
       juros = calculoDetalhado.juros;
       detalhePagamentos = calculoDetalhado.detalhePagamentos;
       mesesAtrasados = calculoDetalhado.mesesAtrasados;
+      parcelas = calculoDetalhado.parcelas;
+      competenciasSemIndice = calculoDetalhado.competenciasSemIndice;
+      avisos = calculoDetalhado.avisos;
+      
+      if (data.dataAjuizamento) {
+        demonstrativos = separarRitos(parcelas, data.dataAjuizamento);
+      }
     } else if (data.mesesAtraso) {
       // Cálculo antigo para compatibilidade
       const mesesAtraso = parseInt(data.mesesAtraso);
@@ -393,8 +687,27 @@ serve(async (req) => {
       }
     }
     
+    // Meses ainda não importados da série usam o valor mais próximo, que deve ser conferido
+    const avisosSalarioMinimo: string[] = [];
+    if (tipoCalculo === 'salario_minimo') {
+      const usados = new Map<string, string[]>();
+      [...parcelas.map(parcela => parcela.vencimento), data.dataFim || dataAtual].forEach(dataBase => {
+        const salario = salarioMinimoVigente(salariosMinimos, dataBase);
+        if (!salario.foraDaTabela) return;
+        const chave = `${formatarMoeda(salario.valor)}, de ${formatarCompetencia(salario.competencia)}`;
+        const competencia = formatarCompetencia(dataBase);
+        const competencias = usados.get(chave) ?? [];
+        if (!competencias.includes(competencia)) competencias.push(competencia);
+        usados.set(chave, competencias);
+      });
+      usados.forEach((competencias, chave) => {
+        avisosSalarioMinimo.push(`Salário mínimo não cadastrado para ${competencias.length > 1 ? `${competencias.length} meses (${competencias[0]} a ${competencias[competencias.length - 1]})` : competencias[0]}: foi usado ${chave}. Importe a série ${salarioMinimo.serie} do SGS atualizada antes de usar o cálculo.`);
+      });
+      avisos = [...avisos, ...avisosSalarioMinimo];
+    }
+    
     // Valor total corrigido
-    const valorCorrigido = valorPensao + Math.max(0, saldoDevedor) + multa + juros;
+    const valorCorrigido = valorPensao + Math.max(0, saldoDevedor) + correcao + multa + juros;
     
     // Calcular período total se as datas foram informadas (usar variáveis já declaradas)
     const mesesPeriodo = data.dataFim ? 
@@ -434,8 +747,8 @@ serve(async (req) => {
     const detalhamento = `CÁLCULO DE PENSÃO ALIMENTÍCIA - ATRASOS E CORREÇÕES
 
 Dados da Pensão:
-- Valor Mensal Estipulado: R$ ${parseFloat(data.valorEstipulado).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
-- Número de Filhos: ${numeroFilhos}
+- Valor Mensal ${tipoCalculo === 'fixo' ? 'Estipulado' : 'Atual'}: ${descricaoValor}
+${tipoCalculo !== 'fixo' ? `- Parcelas vencidas: valor de cada mês pela ${tipoCalculo === 'salario_minimo' ? `série histórica do salário mínimo (SGS ${salarioMinimo.serie})` : 'renda informada para o mês'}\n` : ''}${avisosSalarioMinimo.map(aviso => `⚠ ${aviso}\n`).join('')}- Número de Filhos: ${numeroFilhos}
 ${idadeFilho ? `- Idade do Filho: ${idadeFilho} anos` : ''}
 - Início da Obrigação: ${new Date(data.dataInicioObrigacao).toLocaleDateString('pt-BR')}
 - Dia do Vencimento: ${diaVencimento}
@@ -454,15 +767,26 @@ ${saldoDevedor > 0 || valorTotalAtrasado > 0 ? `
 Valores em Atraso:
 2. Meses em Atraso: ${mesesAtrasados} ${mesesAtrasados === 1 ? 'mês' : 'meses'}
 3. Valor Total em Atraso: R$ ${Math.max(valorTotalAtrasado, saldoDevedor).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
-4. Multa (2%): R$ ${multa.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
-5. Juros (1% a.m.): R$ ${juros.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
-6. Total com Correções: R$ ${valorCorrigido.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+4. Correção Monetária (${nomeIndice}): R$ ${correcao.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+5. Juros (${formatarPercentual(jurosMensais)} a.m.): R$ ${juros.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+${multa > 0 ? `6. Multa (2%): R$ ${multa.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}\n` : ''}${multa > 0 ? '7' : '6'}. Total com Correções: R$ ${valorCorrigido.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+
+Critérios de Atualização:
+- Correção monetária: ${TABELAS_TRIBUNAIS[tribunal].tabela} - ${nomeIndice} (série ${SERIES_SGS[indice].serie} do SGS/Banco Central), de cada vencimento até a data do cálculo
+- Juros de mora: ${formatarPercentual(jurosMensais)} ao mês, simples e pro rata die, desde cada vencimento (art. 397 do CC)
+- Pagamentos: imputados na data em que foram feitos, primeiro nos juros e na multa e depois no principal (art. 354 do CC), a partir da parcela mais antiga (art. 355 do CC)
 
 ${data.pagamentos && data.pagamentos.length > 0 ? `
 Histórico de Pagamentos:
 ${data.pagamentos.map((p, i) => `${i + 1}. ${new Date(p.data).toLocaleDateString('pt-BR')}: R$ ${parseFloat(p.valor || '0').toLocaleString('pt-BR', { minimumFractionDigits: 2 })} ${p.observacao ? `(${p.observacao})` : ''}`).join('\n')}
 ` : ''}
 
+${demonstrativos ? `
+SEPARAÇÃO DOS RITOS (art. 528, § 7º, do CPC - ajuizamento em ${formatarData(data.dataAjuizamento!)}):
+${formatarDemonstrativoRito('Rito da prisão (três últimas parcelas anteriores ao ajuizamento e as vencidas no curso do processo)', demonstrativos.prisao, parcelas.filter(parcela => parcela.rito === 'prisao'))}
+
+${formatarDemonstrativoRito('Rito da penhora (parcelas anteriores)', demonstrativos.penhora, parcelas.filter(parcela => parcela.rito === 'penhora'))}
+` : ''}
 ${detalhePagamentos}
 ` : `
 3. Total Mensal: R$ ${valorCorrigido.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
@@ -473,7 +797,7 @@ ${proximoVencimento ? `Próximo Vencimento: ${proximoVencimento}` : ''}
 Observações Legais:
 - A pensão alimentícia é devida até que o filho complete 18 anos, podendo se estender até os 24 anos se estiver cursando ensino superior
 - O percentual sugerido varia entre 15% a 30% da renda líquida do alimentante por filho
-- Em caso de atraso, aplicam-se multa de 2% e juros de 1% ao mês
+- Cada parcela em atraso é corrigida monetariamente e sofre juros de mora desde o próprio vencimento (Súmula 43 do STJ)
 - O valor pode ser revisado a qualquer tempo mediante comprovação de mudança na situação financeira
 
 ${data.observacoes ? `Observações Adicionais: ${data.observacoes}` : ''}
@@ -484,7 +808,7 @@ Ferramenta: Oráculo Jurídico - Calculadora de Pensão Alimentícia`;
     // Calcular o valor da próxima pensão (próximo vencimento) com correção monetária se necessário
     const dataCalculoObj = new Date(dataAtual);
     const proximaDataVencimento = new Date(data.dataInicioObrigacao);
-    proximaDataVencimento.setDate(parseInt(diaVencimento));
+    proximaDataVencimento.setDate(diaVencimento);
     
     // Ajustar para o próximo mês se já passou do vencimento atual
     if (proximaDataVencimento <= dataCalculoObj) {
@@ -495,21 +819,31 @@ Ferramenta: Oráculo Jurídico - Calculadora de Pensão Alimentícia`;
     
     // Calcular próxima pensão: valor normal + saldo devedor (se houver) + juros e multa sobre o saldo
     if (saldoDevedor > 0) {
-      // Aplicar juros e multa sobre o saldo devedor
-      const multaSaldoDevedor = saldoDevedor * 0.02;
-      const jurosSaldoDevedor = saldoDevedor * 0.01; // 1% ao mês
-      valorProximaPensao = valorPensao + saldoDevedor + multaSaldoDevedor + jurosSaldoDevedor;
+      valorProximaPensao = valorPensao + saldoDevedor + correcao + multa + juros;
     }
 
     const result = {
       valorPensao,
       percentualRenda,
+      tipoCalculo,
+      baseCalculo: baseAtual,
       valorTotalAtrasado: Math.max(valorTotalAtrasado, saldoDevedor),
+      correcao,
       multa,
       juros,
       valorCorrigido,
       detalhamento,
       totalParcelas,
+      tribunal,
+      tabela: TABELAS_TRIBUNAIS[tribunal].tabela,
+      indice,
+      jurosMensais,
+      dataCalculo: data.dataFim || dataAtual,
+      parcelas,
+      competenciasSemIndice,
+      avisos,
+      dataAjuizamento: demonstrativos ? data.dataAjuizamento : null,
+      demonstrativos,
       saldoDevedor,
       proximoVencimento,
       valorProximaPensao: valorProximaPensao
@@ -523,10 +857,10 @@ Ferramenta: Oráculo Jurídico - Calculadora de Pensão Alimentícia`;
           .from('calculo_pensao_historico')
           .insert({
             user_id: userId,
-            tipo_calculo: 'fixo',
-            renda_alimentante: null,
-            percentual_pensao: null,
-            valor_fixo: valorPensao,
+            tipo_calculo: tipoCalculo,
+            renda_alimentante: tipoCalculo === 'percentual_renda' ? baseAtual : null,
+            percentual_pensao: tipoCalculo === 'salario_minimo' ? percentualSalarioMinimo : tipoCalculo === 'percentual_renda' ? percentualRenda : null,
+            valor_fixo: tipoCalculo === 'fixo' ? valorPensao : null,
             numero_filhos: parseInt(data.numeroFilhos),
             idades_filhos: (data.idadesFilhos || []).map((idade: string) => parseInt(idade)).filter((idade: number) => !isNaN(idade)),
             data_inicio: data.dataInicioObrigacao,
@@ -534,12 +868,21 @@ Ferramenta: Oráculo Jurídico - Calculadora de Pensão Alimentícia`;
             meses_atraso: null,
             observacoes: data.observacoes || null,
             valor_pensao: valorPensao,
-            percentual_renda: 0,
+            percentual_renda: percentualRenda,
+            historico_renda: historicoRenda,
             valor_total_atrasado: Math.max(valorTotalAtrasado, saldoDevedor),
             multa: multa,
             juros: juros,
             valor_corrigido: valorCorrigido,
-            detalhamento: detalhamento
+            detalhamento: detalhamento,
+            tribunal,
+            indice_correcao: indice,
+            juros_mensais: jurosMensais,
+            aplicar_multa: !!data.aplicarMulta,
+            correcao_monetaria: correcao,
+            pagamentos: data.pagamentos || [],
+            parcelas,
+            data_ajuizamento: demonstrativos ? data.dataAjuizamento : null
           });
         
         if (insertError) {
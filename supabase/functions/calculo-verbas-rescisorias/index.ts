@@ -0,0 +1,568 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  corsHeaders,
+  identificarUsuario,
+  calcularDiferencaDias,
+  adicionarDias,
+  adicionarMeses,
+  carregarSerieIndice,
+  aplicarCorrecaoMonetaria,
+  acumularSelic,
+  formatarCompetencia,
+  formatarData,
+  formatarPercentual,
+  formatarMoeda,
+  formatarFator
+} from '../_shared/calculo.ts';
+
+interface FaixaSalarial {
+  inicio: string; // YYYY-MM a partir do qual o salário vigora
+  salario: string;
+}
+
+interface HoraExtraInformada {
+  competencia: string; // YYYY-MM
+  horas: string;
+  percentual: string;
+}
+
+interface VerbasRescisoriasData {
+  dataAdmissao: string;
+  dataDemissao: string;
+  tipoRescisao: string;
+  // 'indenizado', 'trabalhado' ou, no pedido de demissão, 'nao_cumprido'
+  avisoPrevio: string;
+  historicoSalarial: FaixaSalarial[];
+  feriasVencidas?: string; // períodos aquisitivos completos não gozados
+  saldoFgts?: string; // vazio: estimado pelo histórico salarial
+  fgtsPendente?: boolean;
+  horasExtras?: HoraExtraInformada[];
+  divisorHoras?: string;
+  multa477?: boolean;
+  multa467?: boolean;
+  dataAjuizamento?: string;
+  dataCalculo?: string;
+  observacoes?: string;
+}
+
+interface VerbaTrabalhista {
+  codigo: string;
+  descricao: string;
+  quantidade: string;
+  valor: number;
+  vencimento: string;
+  fatorIpcae: number;
+  valorCorrigido: number;
+  percentualSelic: number;
+  valorSelic: number;
+  total: number;
+  formula: string;
+}
+
+interface HoraExtraMes {
+  competencia: string;
+  salario: number;
+  valorHora: number;
+  horas: number;
+  percentual: number;
+  valorHoras: number;
+  diasUteis: number;
+  repousos: number;
+  dsr: number;
+}
+
+interface CalculoTrabalhista {
+  tipoRescisao: string;
+  descricaoRescisao: string;
+  avisoPrevio: string;
+  dataAdmissao: string;
+  dataDemissao: string;
+  dataProjetada: string;
+  anosServico: number;
+  diasAviso: number;
+  salario: number;
+  mediaVariaveis: number;
+  remuneracao: number;
+  horasExtras: HoraExtraMes[];
+  verbas: VerbaTrabalhista[];
+  saldoFgts: number;
+  saldoFgtsEstimado: boolean;
+  percentualMultaFgts: number;
+  dataAjuizamento: string | null;
+  dataCalculo: string;
+  totalNominal: number;
+  totalCorrecao: number;
+  totalSelic: number;
+  total: number;
+  competenciasSemIndice: string[];
+  competenciasSemSelic: string[];
+}
+
+// Verbas devidas em cada modalidade de extinção do contrato
+const TIPOS_RESCISAO: Record<string, { nome: string; avisoEmpregador: boolean; multaFgts: number; proporcionais: boolean }> = {
+  sem_justa_causa: { nome: 'Dispensa sem justa causa', avisoEmpregador: true, multaFgts: 40, proporcionais: true },
+  rescisao_indireta: { nome: 'Rescisão indireta (art. 483 da CLT)', avisoEmpregador: true, multaFgts: 40, proporcionais: true },
+  acordo: { nome: 'Extinção por acordo (art. 484-A da CLT)', avisoEmpregador: true, multaFgts: 20, proporcionais: true },
+  pedido_demissao: { nome: 'Pedido de demissão', avisoEmpregador: false, multaFgts: 0, proporcionais: true },
+  // Súmula 171 do TST: sem férias proporcionais; sem 13º proporcional (art. 3º da Lei 4.090/62)
+  justa_causa: { nome: 'Dispensa por justa causa (art. 482 da CLT)', avisoEmpregador: false, multaFgts: 0, proporcionais: false }
+};
+
+const ALIQUOTA_FGTS = 8;
+const DIVISOR_PADRAO = 220;
+
+function maiorData(a: string, b: string): string {
+  return a > b ? a : b;
+}
+
+function menorData(a: string, b: string): string {
+  return a < b ? a : b;
+}
+
+function ultimoDiaDoMes(data: string): string {
+  return adicionarDias(adicionarMeses(`${data.slice(0, 7)}-01`, 1), -1);
+}
+
+// Salário vigente na competência: a faixa mais recente iniciada até ela
+function salarioNaCompetencia(faixas: { inicio: string; salario: number }[], competencia: string): number {
+  const vigente = faixas.filter(faixa => faixa.inicio <= competencia).pop() ?? faixas[0];
+  return vigente?.salario ?? 0;
+}
+
+function anosCompletos(inicio: string, fim: string): number {
+  let anos = 0;
+  while (adicionarMeses(inicio, 12 * (anos + 1)) <= fim) anos++;
+  return anos;
+}
+
+// 13º: um avo por mês do ano com 15 dias ou mais de trabalho (art. 1º, § 2º, da Lei 4.090/62)
+function avosDecimoTerceiro(dataAdmissao: string, fim: string): number {
+  const inicioAno = maiorData(dataAdmissao, `${fim.slice(0, 4)}-01-01`);
+  let avos = 0;
+  for (let mes = `${inicioAno.slice(0, 7)}-01`; mes <= fim; mes = adicionarMeses(mes, 1)) {
+    const dias = calcularDiferencaDias(maiorData(mes, inicioAno), menorData(ultimoDiaDoMes(mes), fim)) + 1;
+    if (dias >= 15) avos++;
+  }
+  return avos;
+}
+
+// Férias: um avo por mês do período aquisitivo, contando a fração superior a 14 dias (art. 146, parágrafo único, da CLT)
+function avosFerias(inicioPeriodo: string, fim: string): number {
+  const diaSeguinte = adicionarDias(fim, 1);
+  let meses = 0;
+  while (meses < 12 && adicionarMeses(inicioPeriodo, meses + 1) <= diaSeguinte) meses++;
+  const resto = calcularDiferencaDias(adicionarMeses(inicioPeriodo, meses), diaSeguinte);
+  return Math.min(12, meses + (resto > 14 ? 1 : 0));
+}
+
+// DSR sobre horas extras: valor das horas ÷ dias úteis × domingos do mês (feriados não considerados)
+function diasDoMes(competencia: string): { uteis: number; repousos: number } {
+  let uteis = 0;
+  let repousos = 0;
+  for (let dia = competencia; dia <= ultimoDiaDoMes(competencia); dia = adicionarDias(dia, 1)) {
+    if (new Date(`${dia}T00:00:00Z`).getUTCDay() === 0) repousos++;
+    else uteis++;
+  }
+  return { uteis, repousos };
+}
+
+function calcularHorasExtras(horas: HoraExtraInformada[], faixas: { inicio: string; salario: number }[], divisor: number): HoraExtraMes[] {
+  return horas
+    .filter(item => item.competencia && parseFloat(item.horas) > 0)
+    .map(item => {
+      const competencia = `${item.competencia.slice(0, 7)}-01`;
+      const salario = salarioNaCompetencia(faixas, competencia);
+      const valorHora = salario / divisor;
+      const quantidade = parseFloat(item.horas);
+      const percentual = parseFloat(item.percentual) || 50;
+      const valorHoras = valorHora * (1 + percentual / 100) * quantidade;
+      const { uteis, repousos } = diasDoMes(competencia);
+      return {
+        competencia,
+        salario,
+        valorHora,
+        horas: quantidade,
+        percentual,
+        valorHoras,
+        diasUteis: uteis,
+        repousos,
+        dsr: uteis > 0 ? valorHoras / uteis * repousos : 0
+      };
+    })
+    .sort((a, b) => a.competencia.localeCompare(b.competencia));
+}
+
+// Estimativa dos depósitos do contrato, sem JAM: 8% do salário de cada mês e do 13º dos anos anteriores.
+// O mês da dispensa e o 13º do último ano entram no FGTS das verbas rescisórias.
+function estimarSaldoFgts(faixas: { inicio: string; salario: number }[], dataAdmissao: string, dataDemissao: string): number {
+  let saldo = 0;
+  const mesDemissao = `${dataDemissao.slice(0, 7)}-01`;
+  for (let mes = `${dataAdmissao.slice(0, 7)}-01`; mes < mesDemissao; mes = adicionarMeses(mes, 1)) {
+    const dias = calcularDiferencaDias(maiorData(mes, dataAdmissao), ultimoDiaDoMes(mes)) + 1;
+    const fracao = Math.min(1, dias / 30);
+    const salario = salarioNaCompetencia(faixas, mes);
+    const decimoTerceiro = mes.slice(0, 4) < dataDemissao.slice(0, 4) ? salario / 12 : 0;
+    saldo += (salario + decimoTerceiro) * fracao * ALIQUOTA_FGTS / 100;
+  }
+  return saldo;
+}
+
+function calcularVerbasRescisorias(
+  data: VerbasRescisoriasData,
+  dataCalculo: string,
+  serieIpcae: Map<string, number>,
+  serieSelic: Map<string, number>
+): CalculoTrabalhista {
+  const tipoRescisao = TIPOS_RESCISAO[data.tipoRescisao] ? data.tipoRescisao : 'sem_justa_causa';
+  const tipo = TIPOS_RESCISAO[tipoRescisao];
+  const faixas = (data.historicoSalarial || [])
+    .filter(faixa => faixa.inicio && parseFloat(faixa.salario) > 0)
+    .map(faixa => ({ inicio: `${faixa.inicio.slice(0, 7)}-01`, salario: parseFloat(faixa.salario) }))
+    .sort((a, b) => a.inicio.localeCompare(b.inicio));
+  const divisor = parseFloat(data.divisorHoras || '') || DIVISOR_PADRAO;
+
+  const salario = salarioNaCompetencia(faixas, `${data.dataDemissao.slice(0, 7)}-01`);
+  const horasExtras = calcularHorasExtras(data.horasExtras || [], faixas, divisor);
+
+  // Súmula 347 do TST: média das horas extras (com DSR) dos últimos 12 meses integra a remuneração
+  const inicioMedia = adicionarMeses(`${data.dataDemissao.slice(0, 7)}-01`, -11);
+  const mediaVariaveis = horasExtras
+    .filter(item => item.competencia >= inicioMedia && item.competencia <= data.dataDemissao)
+    .reduce((total, item) => total + item.valorHoras + item.dsr, 0) / 12;
+  const remuneracao = salario + mediaVariaveis;
+
+  // Aviso prévio proporcional (Lei 12.506/2011): 30 dias + 3 por ano completo, até 90
+  const anosServico = anosCompletos(data.dataAdmissao, data.dataDemissao);
+  const diasAviso = Math.min(90, 30 + 3 * anosServico);
+  let diasIndenizados = 0;
+  if (tipo.avisoEmpregador) {
+    // Aviso trabalhado cobre no máximo 30 dias; o acréscimo da Lei 12.506 é indenizado
+    diasIndenizados = data.avisoPrevio === 'trabalhado' ? diasAviso - 30 : diasAviso;
+  }
+  // Art. 487, § 1º, da CLT: o aviso indenizado integra o tempo de serviço
+  const dataProjetada = adicionarDias(data.dataDemissao, diasIndenizados);
+
+  const mesmoMes = data.dataAdmissao.slice(0, 7) === data.dataDemissao.slice(0, 7);
+  const diasSaldo = Math.min(30, mesmoMes
+    ? calcularDiferencaDias(data.dataAdmissao, data.dataDemissao) + 1
+    : data.dataDemissao === ultimoDiaDoMes(data.dataDemissao) ? 30 : parseInt(data.dataDemissao.slice(8, 10)));
+
+  const vencimentoRescisao = adicionarDias(data.dataDemissao, 10); // art. 477, § 6º, da CLT
+  const verbas: Omit<VerbaTrabalhista, 'fatorIpcae' | 'valorCorrigido' | 'percentualSelic' | 'valorSelic' | 'total'>[] = [];
+  const adicionar = (codigo: string, descricao: string, quantidade: string, valor: number, formula: string, vencimento = vencimentoRescisao) => {
+    if (valor !== 0) verbas.push({ codigo, descricao, quantidade, valor, vencimento, formula });
+  };
+
+  const saldoSalario = salario / 30 * diasSaldo;
+  adicionar('saldo_salario', 'Saldo de salário', `${diasSaldo} dia(s)`, saldoSalario, `${formatarMoeda(salario)} ÷ 30 × ${diasSaldo}`);
+
+  let avisoIndenizado = 0;
+  if (diasIndenizados > 0) {
+    avisoIndenizado = remuneracao / 30 * diasIndenizados * (tipoRescisao === 'acordo' ? 0.5 : 1);
+    adicionar(
+      'aviso_previo',
+      tipoRescisao === 'acordo' ? 'Aviso prévio indenizado (metade - art. 484-A, I, a)' : 'Aviso prévio indenizado',
+      `${diasIndenizados} dia(s)`,
+      avisoIndenizado,
+      `${formatarMoeda(remuneracao)} ÷ 30 × ${diasIndenizados}${tipoRescisao === 'acordo' ? ' × 50%' : ''}`
+    );
+  } else if (tipoRescisao === 'pedido_demissao' && data.avisoPrevio === 'nao_cumprido') {
+    // Art. 487, § 2º, da CLT: o empregado que não cumpre o aviso perde os salários do prazo
+    adicionar('aviso_previo', 'Desconto do aviso prévio não cumprido', '30 dia(s)', -salario, `−${formatarMoeda(salario)} (art. 487, § 2º, da CLT)`);
+  }
+
+  let decimoTerceiro = 0;
+  if (tipo.proporcionais) {
+    const avos = avosDecimoTerceiro(data.dataAdmissao, dataProjetada);
+    decimoTerceiro = remuneracao * avos / 12;
+    adicionar('decimo_terceiro', '13º salário proporcional', `${avos}/12`, decimoTerceiro, `${formatarMoeda(remuneracao)} × ${avos}/12`);
+  }
+
+  // Férias vencidas: os períodos completos mais recentes; em dobro se o período concessivo já terminou (art. 137)
+  const periodosCompletos = anosCompletos(data.dataAdmissao, dataProjetada);
+  const vencidas = Math.min(parseInt(data.feriasVencidas || '') || 0, periodosCompletos);
+  let feriasVencidas = 0;
+  let periodosEmDobro = 0;
+  for (let periodo = periodosCompletos - vencidas + 1; periodo <= periodosCompletos; periodo++) {
+    const emDobro = adicionarMeses(data.dataAdmissao, 12 * (periodo + 1)) <= data.dataDemissao;
+    if (emDobro) periodosEmDobro++;
+    feriasVencidas += remuneracao * (emDobro ? 2 : 1);
+  }
+  adicionar(
+    'ferias_vencidas',
+    'Férias vencidas',
+    `${vencidas} período(s)${periodosEmDobro > 0 ? `, ${periodosEmDobro} em dobro` : ''}`,
+    feriasVencidas,
+    `${formatarMoeda(remuneracao)} × ${vencidas + periodosEmDobro}`
+  );
+
+  let feriasProporcionais = 0;
+  if (tipo.proporcionais) {
+    const avos = avosFerias(adicionarMeses(data.dataAdmissao, 12 * periodosCompletos), dataProjetada);
+    feriasProporcionais = remuneracao * avos / 12;
+    adicionar('ferias_proporcionais', 'Férias proporcionais', `${avos}/12`, feriasProporcionais, `${formatarMoeda(remuneracao)} × ${avos}/12`);
+  }
+
+  const tercoFerias = (feriasVencidas + feriasProporcionais) / 3;
+  adicionar('terco_ferias', '1/3 constitucional de férias', '1/3', tercoFerias, `${formatarMoeda(feriasVencidas + feriasProporcionais)} ÷ 3 (art. 7º, XVII, da CF)`);
+
+  // Horas extras: exigíveis no mês seguinte ao trabalhado (Súmula 381 do TST)
+  horasExtras.forEach(item => {
+    adicionar(
+      'horas_extras',
+      `Horas extras + DSR ${formatarCompetencia(item.competencia)}`,
+      `${item.horas.toLocaleString('pt-BR')} h a ${item.percentual}%`,
+      item.valorHoras + item.dsr,
+      `${formatarMoeda(item.valorHora)} × ${formatarPercentual(100 + item.percentual, 2)} × ${item.horas.toLocaleString('pt-BR')} h + DSR (${formatarMoeda(item.valorHoras)} ÷ ${item.diasUteis} × ${item.repousos})`,
+      adicionarMeses(item.competencia, 1)
+    );
+  });
+
+  // FGTS: 8% sobre saldo, aviso indenizado (Súmula 305) e 13º; não incide sobre férias indenizadas (OJ 195 da SDI-1)
+  const saldoFgtsInformado = parseFloat(data.saldoFgts || '');
+  const saldoFgtsEstimado = isNaN(saldoFgtsInformado);
+  const saldoFgts = saldoFgtsEstimado ? estimarSaldoFgts(faixas, data.dataAdmissao, data.dataDemissao) : saldoFgtsInformado;
+  const baseFgtsRescisao = saldoSalario + avisoIndenizado + decimoTerceiro;
+  const fgtsRescisao = baseFgtsRescisao * ALIQUOTA_FGTS / 100;
+  const totalHorasExtras = horasExtras.reduce((total, item) => total + item.valorHoras + item.dsr, 0);
+  const fgtsHorasExtras = totalHorasExtras * ALIQUOTA_FGTS / 100;
+
+  if (data.fgtsPendente) {
+    adicionar('fgts_pendente', 'FGTS não depositado no contrato', saldoFgtsEstimado ? 'estimado' : 'informado', saldoFgts, saldoFgtsEstimado ? '8% do salário mensal e do 13º, sem JAM' : 'Saldo informado');
+  }
+  adicionar('fgts_rescisao', 'FGTS sobre verbas rescisórias', `${ALIQUOTA_FGTS}%`, fgtsRescisao, `${formatarMoeda(baseFgtsRescisao)} × ${ALIQUOTA_FGTS}%`);
+  adicionar('fgts_horas_extras', 'FGTS sobre horas extras', `${ALIQUOTA_FGTS}%`, fgtsHorasExtras, `${formatarMoeda(totalHorasExtras)} × ${ALIQUOTA_FGTS}%`);
+
+  let multaFgts = 0;
+  if (tipo.multaFgts > 0) {
+    const baseMulta = saldoFgts + fgtsRescisao + fgtsHorasExtras;
+    multaFgts = baseMulta * tipo.multaFgts / 100;
+    adicionar('multa_fgts', `Multa de ${tipo.multaFgts}% do FGTS`, `${tipo.multaFgts}%`, multaFgts, `${formatarMoeda(baseMulta)} × ${tipo.multaFgts}% (art. 18, § 1º, da Lei 8.036/90)`);
+  }
+
+  if (data.multa477) {
+    adicionar('multa_477', 'Multa do art. 477, § 8º, da CLT', '1 salário', salario, 'Um salário pelo atraso no pagamento da rescisão');
+  }
+  if (data.multa467) {
+    // Art. 467: 50% das verbas rescisórias incontroversas não pagas na primeira audiência
+    const baseMulta467 = saldoSalario + Math.max(0, avisoIndenizado) + decimoTerceiro + feriasVencidas + feriasProporcionais + tercoFerias + multaFgts;
+    adicionar('multa_467', 'Multa do art. 467 da CLT', '50%', baseMulta467 * 0.5, `${formatarMoeda(baseMulta467)} × 50%`);
+  }
+
+  // ADC 58 do STF: IPCA-E na fase pré-judicial e SELIC a partir do ajuizamento
+  const dataAjuizamento = data.dataAjuizamento && data.dataAjuizamento < dataCalculo ? data.dataAjuizamento : null;
+  const fimIpcae = dataAjuizamento ?? dataCalculo;
+  const competenciasSemIndice = new Set<string>();
+  const competenciasSemSelic = new Set<string>();
+
+  const verbasAtualizadas: VerbaTrabalhista[] = verbas.map(verba => {
+    const correcao = aplicarCorrecaoMonetaria(verba.valor, serieIpcae, verba.vencimento, maiorData(verba.vencimento, fimIpcae));
+    correcao.competenciasSemIndice.forEach(competencia => competenciasSemIndice.add(competencia));
+
+    let percentualSelic = 0;
+    if (dataAjuizamento) {
+      const selic = acumularSelic(serieSelic, maiorData(dataAjuizamento, verba.vencimento), dataCalculo);
+      percentualSelic = selic.percentual;
+      selic.competenciasSemIndice.forEach(competencia => competenciasSemSelic.add(competencia));
+    }
+    const valorSelic = correcao.valorCorrigido * percentualSelic / 100;
+
+    return {
+      ...verba,
+      fatorIpcae: correcao.fator,
+      valorCorrigido: correcao.valorCorrigido,
+      percentualSelic,
+      valorSelic,
+      total: correcao.valorCorrigido + valorSelic
+    };
+  });
+
+  const soma = (campo: (verba: VerbaTrabalhista) => number) => verbasAtualizadas.reduce((total, verba) => total + campo(verba), 0);
+
+  return {
+    tipoRescisao,
+    descricaoRescisao: tipo.nome,
+    avisoPrevio: data.avisoPrevio,
+    dataAdmissao: data.dataAdmissao,
+    dataDemissao: data.dataDemissao,
+    dataProjetada,
+    anosServico,
+    diasAviso,
+    salario,
+    mediaVariaveis,
+    remuneracao,
+    horasExtras,
+    verbas: verbasAtualizadas,
+    saldoFgts,
+    saldoFgtsEstimado,
+    percentualMultaFgts: tipo.multaFgts,
+    dataAjuizamento,
+    dataCalculo,
+    totalNominal: soma(verba => verba.valor),
+    totalCorrecao: soma(verba => verba.valorCorrigido - verba.valor),
+    totalSelic: soma(verba => verba.valorSelic),
+    total: soma(verba => verba.total),
+    competenciasSemIndice: [...competenciasSemIndice].sort(),
+    competenciasSemSelic: [...competenciasSemSelic].sort()
+  };
+}
+
+function formatarCalculoTrabalhista(calculo: CalculoTrabalhista, observacoes: string | undefined, agora: Date, userTimezone: string): string {
+  const linhasVerbas = calculo.verbas.map(verba =>
+    `• ${verba.descricao} (${verba.quantidade}): ${formatarMoeda(verba.valor)}
+    ${verba.formula}
+    IPCA-E desde ${formatarData(verba.vencimento)}: × ${formatarFator(verba.fatorIpcae)} = ${formatarMoeda(verba.valorCorrigido)}${verba.percentualSelic > 0 ? `
+    SELIC: ${formatarPercentual(verba.percentualSelic)} = ${formatarMoeda(verba.valorSelic)}` : ''}
+    Total: ${formatarMoeda(verba.total)}`
+  );
+
+  return `CÁLCULO DE VERBAS RESCISÓRIAS
+═══════════════════════════════════════════════════════════════
+DADOS DO CONTRATO
+═══════════════════════════════════════════════════════════════
+• Modalidade: ${calculo.descricaoRescisao}
+• Admissão: ${formatarData(calculo.dataAdmissao)}
+• Dispensa: ${formatarData(calculo.dataDemissao)}${calculo.dataProjetada !== calculo.dataDemissao ? `
+• Término com a projeção do aviso: ${formatarData(calculo.dataProjetada)}` : ''}
+• Tempo de serviço: ${calculo.anosServico} ano(s) completo(s)
+• Aviso prévio proporcional (Lei 12.506/2011): ${calculo.diasAviso} dias${calculo.avisoPrevio ? ` - ${calculo.avisoPrevio.replace('_', ' ')}` : ''}
+• Último salário: ${formatarMoeda(calculo.salario)}
+${calculo.mediaVariaveis > 0 ? `• Média de horas extras e DSR (12 meses, Súmula 347 do TST): ${formatarMoeda(calculo.mediaVariaveis)}
+` : ''}• Remuneração para as verbas rescisórias: ${formatarMoeda(calculo.remuneracao)}
+• Saldo do FGTS: ${formatarMoeda(calculo.saldoFgts)}${calculo.saldoFgtsEstimado ? ' (estimado pelo histórico salarial, sem JAM)' : ''}
+
+═══════════════════════════════════════════════════════════════
+VERBAS
+═══════════════════════════════════════════════════════════════
+${linhasVerbas.join('\n\n')}
+${calculo.competenciasSemIndice.length > 0 ? `
+⚠ Competências sem IPCA-E cadastrado (variação zero): ${calculo.competenciasSemIndice.map(formatarCompetencia).join(', ')}` : ''}${calculo.competenciasSemSelic.length > 0 ? `
+⚠ Competências sem SELIC cadastrada (variação zero): ${calculo.competenciasSemSelic.map(formatarCompetencia).join(', ')}` : ''}
+
+═══════════════════════════════════════════════════════════════
+ATUALIZAÇÃO (ADC 58 do STF)
+═══════════════════════════════════════════════════════════════
+• IPCA-E do vencimento de cada verba até ${formatarData(calculo.dataAjuizamento ?? calculo.dataCalculo)}${calculo.dataAjuizamento ? `
+• SELIC a partir do ajuizamento (${formatarData(calculo.dataAjuizamento)}), abrangendo correção e juros` : `
+• Sem data de ajuizamento: apenas IPCA-E (fase pré-judicial)`}
+• Verbas rescisórias exigíveis 10 dias após a dispensa (art. 477, § 6º, da CLT); horas extras, no mês seguinte ao trabalhado (Súmula 381 do TST)
+
+═══════════════════════════════════════════════════════════════
+RESUMO FINAL
+═══════════════════════════════════════════════════════════════
+• Valor nominal: ${formatarMoeda(calculo.totalNominal)}
+• Correção (IPCA-E): ${formatarMoeda(calculo.totalCorrecao)}
+• SELIC: ${formatarMoeda(calculo.totalSelic)}
+• TOTAL ATUALIZADO: ${formatarMoeda(calculo.total)}
+${observacoes ? `
+═══════════════════════════════════════════════════════════════
+OBSERVAÇÕES ADICIONAIS
+═══════════════════════════════════════════════════════════════
+${observacoes}
+` : ''}
+═══════════════════════════════════════════════════════════════
+Cálculo realizado em ${agora.toLocaleDateString('pt-BR', { timeZone: userTimezone, year: 'numeric', month: '2-digit', day: '2-digit' })} às ${agora.toLocaleTimeString('pt-BR', { timeZone: userTimezone, hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+Ferramenta: Oráculo Jurídico - Calculadora de Verbas Rescisórias
+═══════════════════════════════════════════════════════════════`;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  console.log('Iniciando cálculo de verbas rescisórias');
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { userId, userTimezone } = await identificarUsuario(supabase, req);
+
+    const data: VerbasRescisoriasData = await req.json();
+
+    const agora = new Date();
+    const hoje = agora.toLocaleDateString('en-CA', { timeZone: userTimezone }); // Formato YYYY-MM-DD no timezone do usuário
+    const dataCalculo = data.dataCalculo || hoje;
+
+    if (!data.dataAdmissao || !data.dataDemissao || data.dataDemissao < data.dataAdmissao) {
+      return new Response(
+        JSON.stringify({ error: 'Informe as datas de admissão e de dispensa' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (!(data.historicoSalarial || []).some(faixa => faixa.inicio && parseFloat(faixa.salario) > 0)) {
+      return new Response(
+        JSON.stringify({ error: 'Informe ao menos um salário no histórico salarial' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const inicioSerie = [data.dataAdmissao, ...(data.horasExtras || []).map(item => item.competencia ? `${item.competencia.slice(0, 7)}-01` : '')]
+      .filter(Boolean)
+      .sort()[0];
+    const [serieIpcae, serieSelic] = await Promise.all([
+      carregarSerieIndice(supabase, 'ipcae', inicioSerie, dataCalculo),
+      data.dataAjuizamento ? carregarSerieIndice(supabase, 'selic', data.dataAjuizamento, dataCalculo) : Promise.resolve(new Map<string, number>())
+    ]);
+
+    const calculo = calcularVerbasRescisorias(data, dataCalculo, serieIpcae, serieSelic);
+    const detalhamento = formatarCalculoTrabalhista(calculo, data.observacoes, agora, userTimezone);
+
+    const result = {
+      valorTotal: calculo.total,
+      detalhamento,
+      calculo
+    };
+
+    if (userId) {
+      const { error: insertError } = await supabase
+        .from('calculo_trabalhista_historico')
+        .insert({
+          user_id: userId,
+          tipo_rescisao: calculo.tipoRescisao,
+          aviso_previo: data.avisoPrevio || null,
+          data_admissao: data.dataAdmissao,
+          data_demissao: data.dataDemissao,
+          data_ajuizamento: calculo.dataAjuizamento,
+          data_calculo: calculo.dataCalculo,
+          historico_salarial: data.historicoSalarial,
+          horas_extras: data.horasExtras || [],
+          divisor_horas: parseFloat(data.divisorHoras || '') || DIVISOR_PADRAO,
+          ferias_vencidas: parseInt(data.feriasVencidas || '') || 0,
+          saldo_fgts: calculo.saldoFgtsEstimado ? null : calculo.saldoFgts,
+          fgts_pendente: !!data.fgtsPendente,
+          multa_477: !!data.multa477,
+          multa_467: !!data.multa467,
+          observacoes: data.observacoes || null,
+          remuneracao: calculo.remuneracao,
+          valor_nominal: calculo.totalNominal,
+          valor_total: calculo.total,
+          detalhamento,
+          calculo
+        });
+      if (insertError) {
+        console.error('Erro detalhado ao salvar histórico trabalhista:', insertError);
+      }
+    } else {
+      console.log('Usuário não autenticado, não salvando no histórico');
+    }
+
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Erro no cálculo de verbas rescisórias:', error);
+    return new Response(
+      JSON.stringify({ error: 'Erro interno do servidor' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,299 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  corsHeaders,
+  identificarUsuario,
+  formatarPercentual,
+  formatarMoeda
+} from '../_shared/calculo.ts';
+
+interface ItemValor {
+  descricao: string;
+  valor: string;
+}
+
+interface NecessidadeInformada extends ItemValor {
+  categoria: string; // 'educacao' | 'saude' | 'alimentacao' | 'vestuario' | 'lazer' | 'outros'
+}
+
+interface SimulacaoRevisionalData {
+  nomeCenario?: string;
+  rendaAlimentante: string;      // renda líquida mensal
+  despesasAlimentante: ItemValor[]; // despesas essenciais do próprio alimentante
+  obrigacoesExistentes: ItemValor[]; // outras pensões, descontos judiciais
+  outrosDependentes?: string;    // dependentes do alimentante fora deste processo
+  numeroFilhos: string;          // alimentandos desta ação
+  necessidades: NecessidadeInformada[];
+  despesaMoradia?: string;       // despesa total da residência dos alimentandos
+  moradoresResidencia?: string;
+  rendaOutroGenitor?: string;
+  valorAtual?: string;           // pensão hoje fixada
+  observacoes?: string;
+}
+
+interface SimulacaoRevisional {
+  nomeCenario: string;
+  dataSimulacao: string;
+  numeroFilhos: number;
+  rendaAlimentante: number;
+  despesasAlimentante: number;
+  obrigacoesExistentes: number;
+  outrosDependentes: number;
+  rendaDisponivel: number;
+  necessidadesPorCategoria: { categoria: string; valor: number }[];
+  cotaMoradia: number;
+  necessidadeTotal: number;
+  rendaOutroGenitor: number;
+  participacaoAlimentante: number; // % da renda conjunta dos genitores
+  necessidadeProporcional: number;
+  capacidadeContributiva: number;
+  valorMinimo: number;
+  valorSugerido: number;
+  valorMaximo: number;
+  valorAtual: number | null;
+  tendencia: 'majoracao' | 'reducao' | 'manutencao' | null;
+  fundamentos: string[];
+  alertas: string[];
+}
+
+const CATEGORIAS_NECESSIDADE: Record<string, string> = {
+  educacao: 'Educação',
+  saude: 'Saúde',
+  alimentacao: 'Alimentação',
+  vestuario: 'Vestuário',
+  lazer: 'Lazer e cultura',
+  outros: 'Outras despesas'
+};
+
+function arredondar(valor: number): number {
+  return Math.round(valor * 100) / 100;
+}
+
+function somarItens(itens: ItemValor[] | undefined): number {
+  return (itens || []).reduce((soma, item) => soma + (parseFloat(item.valor) || 0), 0);
+}
+
+// Binômio necessidade-possibilidade (art. 1.694, § 1º, do CC), com a necessidade repartida entre os
+// genitores na proporção de seus recursos (art. 1.703 do CC) e a possibilidade dividida igualmente
+// entre todos os filhos do alimentante (art. 227, § 6º, da CF)
+function simularRevisao(data: SimulacaoRevisionalData, dataSimulacao: string): SimulacaoRevisional {
+  const numeroFilhos = Math.max(1, parseInt(data.numeroFilhos) || 1);
+  const rendaAlimentante = parseFloat(data.rendaAlimentante) || 0;
+  const despesasAlimentante = somarItens(data.despesasAlimentante);
+  const obrigacoesExistentes = somarItens(data.obrigacoesExistentes);
+  const outrosDependentes = Math.max(0, parseInt(data.outrosDependentes || '') || 0);
+  const rendaOutroGenitor = parseFloat(data.rendaOutroGenitor || '') || 0;
+  const valorAtualInformado = parseFloat(data.valorAtual || '');
+  const valorAtual = isNaN(valorAtualInformado) || valorAtualInformado <= 0 ? null : valorAtualInformado;
+  const fundamentos: string[] = [];
+  const alertas: string[] = [];
+
+  // Necessidade: despesas comprovadas dos alimentandos e a cota-parte da moradia
+  const totaisCategoria = new Map<string, number>();
+  for (const item of data.necessidades || []) {
+    const valor = parseFloat(item.valor) || 0;
+    if (valor <= 0) continue;
+    const categoria = CATEGORIAS_NECESSIDADE[item.categoria] ? item.categoria : 'outros';
+    totaisCategoria.set(categoria, (totaisCategoria.get(categoria) ?? 0) + valor);
+  }
+  const necessidadesPorCategoria = Object.keys(CATEGORIAS_NECESSIDADE)
+    .filter(categoria => totaisCategoria.has(categoria))
+    .map(categoria => ({ categoria, valor: arredondar(totaisCategoria.get(categoria)!) }));
+
+  const despesaMoradia = parseFloat(data.despesaMoradia || '') || 0;
+  const moradores = Math.max(1, parseInt(data.moradoresResidencia || '') || 1);
+  const cotaMoradia = despesaMoradia > 0 ? despesaMoradia / moradores * Math.min(numeroFilhos, moradores) : 0;
+  const necessidadeTotal = necessidadesPorCategoria.reduce((soma, item) => soma + item.valor, 0) + cotaMoradia;
+
+  fundamentos.push(`Necessidade: despesas dos alimentandos de ${formatarMoeda(necessidadeTotal)} por mês${cotaMoradia > 0 ? `, incluída a cota-parte da moradia (${formatarMoeda(despesaMoradia)} ÷ ${moradores} moradores × ${Math.min(numeroFilhos, moradores)} = ${formatarMoeda(cotaMoradia)})` : ''}.`);
+
+  // Proporcionalidade: cada genitor contribui na proporção de seus recursos
+  const participacaoAlimentante = rendaOutroGenitor > 0 ? rendaAlimentante / (rendaAlimentante + rendaOutroGenitor) * 100 : 100;
+  const necessidadeProporcional = necessidadeTotal * participacaoAlimentante / 100;
+  fundamentos.push(rendaOutroGenitor > 0
+    ? `Proporcionalidade (art. 1.703 do CC): o alimentante responde por ${formatarPercentual(participacaoAlimentante)} da renda conjunta dos genitores (${formatarMoeda(rendaAlimentante)} de ${formatarMoeda(rendaAlimentante + rendaOutroGenitor)}), ou seja, ${formatarMoeda(necessidadeProporcional)} da necessidade.`
+    : 'Proporcionalidade (art. 1.703 do CC): sem renda informada do outro genitor, a necessidade foi atribuída integralmente ao alimentante.');
+
+  // Possibilidade: renda que sobra após as despesas essenciais e as obrigações já assumidas
+  const rendaDisponivel = Math.max(0, rendaAlimentante - despesasAlimentante - obrigacoesExistentes);
+  const capacidadeContributiva = rendaDisponivel * numeroFilhos / (numeroFilhos + outrosDependentes);
+  fundamentos.push(`Possibilidade (art. 1.694, § 1º, do CC): renda líquida de ${formatarMoeda(rendaAlimentante)}, menos despesas essenciais de ${formatarMoeda(despesasAlimentante)}${obrigacoesExistentes > 0 ? ` e obrigações existentes de ${formatarMoeda(obrigacoesExistentes)}` : ''}, deixa ${formatarMoeda(rendaDisponivel)} disponíveis.`);
+  if (outrosDependentes > 0) {
+    fundamentos.push(`Isonomia entre os filhos (art. 227, § 6º, da CF): a renda disponível é dividida entre ${numeroFilhos + outrosDependentes} dependentes, cabendo ${formatarMoeda(capacidadeContributiva)} aos alimentandos desta ação.`);
+  }
+
+  // Faixa: da necessidade proporcional até a necessidade integral, sempre limitada pela possibilidade
+  const valorMinimo = Math.min(necessidadeProporcional, capacidadeContributiva);
+  const valorMaximo = Math.max(valorMinimo, Math.min(necessidadeTotal, capacidadeContributiva));
+  const valorSugerido = (valorMinimo + valorMaximo) / 2;
+  fundamentos.push(`Faixa justificável: de ${formatarMoeda(valorMinimo)} (necessidade proporcional) a ${formatarMoeda(valorMaximo)} (necessidade integral que a renda do alimentante suporta), entre ${formatarPercentual(valorMinimo / rendaAlimentante * 100)} e ${formatarPercentual(valorMaximo / rendaAlimentante * 100)} da renda líquida; o valor sugerido é o ponto médio, ${formatarMoeda(valorSugerido)}.`);
+
+  if (necessidadeProporcional > capacidadeContributiva) {
+    alertas.push(`A necessidade proporcional (${formatarMoeda(necessidadeProporcional)}) supera a capacidade contributiva (${formatarMoeda(capacidadeContributiva)}); o valor fica limitado pela possibilidade do alimentante.`);
+  }
+  if (rendaAlimentante > 0 && despesasAlimentante > rendaAlimentante * 0.7) {
+    alertas.push('As despesas essenciais informadas superam 70% da renda do alimentante e tendem a ser questionadas; convém comprová-las.');
+  }
+
+  // Revisional (art. 1.699 do CC): o valor atual fora da faixa indica mudança na situação das partes
+  let tendencia: SimulacaoRevisional['tendencia'] = null;
+  if (valorAtual !== null) {
+    tendencia = valorAtual < valorMinimo ? 'majoracao' : valorAtual > valorMaximo ? 'reducao' : 'manutencao';
+    fundamentos.push(`Valor atual de ${formatarMoeda(valorAtual)}: ${tendencia === 'majoracao'
+      ? `abaixo da faixa, o que sustenta pedido de majoração (diferença de ${formatarMoeda(valorMinimo - valorAtual)})`
+      : tendencia === 'reducao'
+        ? `acima da faixa, o que sustenta pedido de redução (diferença de ${formatarMoeda(valorAtual - valorMaximo)})`
+        : 'dentro da faixa, o que indica manutenção do valor'} (art. 1.699 do CC).`);
+  }
+
+  return {
+    nomeCenario: data.nomeCenario?.trim() || `Cenário de ${dataSimulacao.split('-').reverse().join('/')}`,
+    dataSimulacao,
+    numeroFilhos,
+    rendaAlimentante: arredondar(rendaAlimentante),
+    despesasAlimentante: arredondar(despesasAlimentante),
+    obrigacoesExistentes: arredondar(obrigacoesExistentes),
+    outrosDependentes,
+    rendaDisponivel: arredondar(rendaDisponivel),
+    necessidadesPorCategoria,
+    cotaMoradia: arredondar(cotaMoradia),
+    necessidadeTotal: arredondar(necessidadeTotal),
+    rendaOutroGenitor: arredondar(rendaOutroGenitor),
+    participacaoAlimentante: arredondar(participacaoAlimentante),
+    necessidadeProporcional: arredondar(necessidadeProporcional),
+    capacidadeContributiva: arredondar(capacidadeContributiva),
+    valorMinimo: arredondar(valorMinimo),
+    valorSugerido: arredondar(valorSugerido),
+    valorMaximo: arredondar(valorMaximo),
+    valorAtual,
+    tendencia,
+    fundamentos,
+    alertas
+  };
+}
+
+function formatarSimulacao(simulacao: SimulacaoRevisional, observacoes: string | undefined, agora: Date, userTimezone: string): string {
+  return `SIMULAÇÃO DE REVISÃO DE ALIMENTOS - ${simulacao.nomeCenario}
+═══════════════════════════════════════════════════════════════
+NECESSIDADE DOS ALIMENTANDOS (${simulacao.numeroFilhos})
+═══════════════════════════════════════════════════════════════
+${simulacao.necessidadesPorCategoria.map(item => `• ${CATEGORIAS_NECESSIDADE[item.categoria]}: ${formatarMoeda(item.valor)}`).join('\n')}${simulacao.cotaMoradia > 0 ? `
+• Cota-parte da moradia: ${formatarMoeda(simulacao.cotaMoradia)}` : ''}
+• Total: ${formatarMoeda(simulacao.necessidadeTotal)}
+
+═══════════════════════════════════════════════════════════════
+POSSIBILIDADE DO ALIMENTANTE
+═══════════════════════════════════════════════════════════════
+• Renda líquida: ${formatarMoeda(simulacao.rendaAlimentante)}
+• Despesas essenciais: ${formatarMoeda(simulacao.despesasAlimentante)}
+• Obrigações existentes: ${formatarMoeda(simulacao.obrigacoesExistentes)}
+• Outros dependentes: ${simulacao.outrosDependentes}
+• Capacidade contributiva para esta ação: ${formatarMoeda(simulacao.capacidadeContributiva)}
+
+═══════════════════════════════════════════════════════════════
+FAIXA DE VALORES
+═══════════════════════════════════════════════════════════════
+• Mínimo: ${formatarMoeda(simulacao.valorMinimo)}
+• Sugerido: ${formatarMoeda(simulacao.valorSugerido)}
+• Máximo: ${formatarMoeda(simulacao.valorMaximo)}
+
+═══════════════════════════════════════════════════════════════
+FUNDAMENTAÇÃO
+═══════════════════════════════════════════════════════════════
+${simulacao.fundamentos.map((fundamento, indice) => `${indice + 1}. ${fundamento}`).join('\n')}
+${simulacao.alertas.length > 0 ? `
+⚠ ${simulacao.alertas.join('\n⚠ ')}
+` : ''}${observacoes ? `
+Observações: ${observacoes}
+` : ''}
+Simulação realizada em ${agora.toLocaleDateString('pt-BR', { timeZone: userTimezone })} às ${agora.toLocaleTimeString('pt-BR', { timeZone: userTimezone, hour: '2-digit', minute: '2-digit' })}
+Ferramenta: Oráculo Jurídico - Simulador de Revisão de Alimentos`;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  console.log('Iniciando simulação de revisão de alimentos');
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { userId, userTimezone } = await identificarUsuario(supabase, req);
+
+    const data: SimulacaoRevisionalData = await req.json();
+
+    if (!(parseFloat(data.rendaAlimentante) > 0)) {
+      return new Response(
+        JSON.stringify({ error: 'Informe a renda líquida do alimentante' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (!(data.necessidades || []).some(item => parseFloat(item.valor) > 0) && !(parseFloat(data.despesaMoradia || '') > 0)) {
+      return new Response(
+        JSON.stringify({ error: 'Informe ao menos uma necessidade dos alimentandos' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const agora = new Date();
+    const hoje = agora.toLocaleDateString('en-CA', { timeZone: userTimezone });
+
+    const simulacao = simularRevisao(data, hoje);
+    const detalhamento = formatarSimulacao(simulacao, data.observacoes, agora, userTimezone);
+
+    const result: { valorSugerido: number; detalhamento: string; simulacao: typeof simulacao; erroHistorico?: string } = {
+      valorSugerido: simulacao.valorSugerido,
+      detalhamento,
+      simulacao
+    };
+
+    if (userId) {
+      const { error: insertError } = await supabase
+        .from('calculo_pensao_historico')
+        .insert({
+          user_id: userId,
+          tipo_calculo: 'simulacao_revisional',
+          renda_alimentante: simulacao.rendaAlimentante,
+          percentual_pensao: null,
+          valor_fixo: null,
+          numero_filhos: simulacao.numeroFilhos,
+          data_inicio: hoje,
+          observacoes: data.observacoes || null,
+          valor_pensao: simulacao.valorSugerido,
+          percentual_renda: arredondar(simulacao.valorSugerido / simulacao.rendaAlimentante * 100),
+          valor_total_atrasado: 0,
+          multa: 0,
+          juros: 0,
+          valor_corrigido: simulacao.valorSugerido,
+          detalhamento,
+          simulacao: { entrada: data, resultado: simulacao }
+        });
+      if (insertError) {
+        console.error('Erro detalhado ao salvar simulação no histórico:', insertError);
+        // O cenário não foi salvo: o cliente mostra a simulação, mas avisa que ela não entrou na lista
+        result.erroHistorico = insertError.message;
+      }
+    } else {
+      console.log('Usuário não autenticado, não salvando simulação no histórico');
+    }
+
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Erro na simulação de revisão de alimentos:', error);
+    return new Response(
+      JSON.stringify({ error: 'Erro interno do servidor' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
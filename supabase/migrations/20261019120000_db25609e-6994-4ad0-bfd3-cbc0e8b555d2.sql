@@ -0,0 +1,84 @@
+-- Casos de execução penal salvos pela calculadora de pena
+CREATE TABLE public.execucao_penal_casos (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  cliente_nome TEXT NOT NULL,
+  numero_processo TEXT,
+  observacoes TEXT,
+  versao_atual INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Cada salvamento gera uma nova versão imutável do caso
+CREATE TABLE public.execucao_penal_versoes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  caso_id UUID NOT NULL REFERENCES public.execucao_penal_casos(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  versao INTEGER NOT NULL,
+  dados_sentenca JSONB NOT NULL,
+  episodios JSONB NOT NULL DEFAULT '[]'::jsonb,
+  remissoes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  eventos JSONB NOT NULL DEFAULT '[]'::jsonb,
+  incluir_dia_soltura BOOLEAN NOT NULL DEFAULT false,
+  -- Resultado no dia do salvamento; ao reabrir, o cálculo é refeito com a data atual
+  resultado JSONB,
+  data_referencia DATE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(caso_id, versao)
+);
+
+-- Habilitar RLS
+ALTER TABLE public.execucao_penal_casos ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.execucao_penal_versoes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own execution cases" 
+ON public.execucao_penal_casos 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own execution cases" 
+ON public.execucao_penal_casos 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own execution cases" 
+ON public.execucao_penal_casos 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own execution cases" 
+ON public.execucao_penal_casos 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own execution case versions" 
+ON public.execucao_penal_versoes 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own execution case versions" 
+ON public.execucao_penal_versoes 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own execution case versions" 
+ON public.execucao_penal_versoes 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Trigger para atualizar updated_at
+CREATE TRIGGER update_execucao_penal_casos_updated_at
+  BEFORE UPDATE ON public.execucao_penal_casos
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Índices
+CREATE INDEX idx_execucao_penal_casos_user_id_updated_at 
+ON public.execucao_penal_casos(user_id, updated_at DESC);
+
+CREATE INDEX idx_execucao_penal_casos_numero_processo 
+ON public.execucao_penal_casos(user_id, numero_processo);
+
+CREATE INDEX idx_execucao_penal_versoes_caso_id_versao 
+ON public.execucao_penal_versoes(caso_id, versao DESC);
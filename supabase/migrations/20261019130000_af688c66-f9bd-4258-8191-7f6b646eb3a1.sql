@@ -0,0 +1,46 @@
+-- Séries mensais de índices econômicos importadas do SGS do Banco Central
+CREATE TABLE public.indices_economicos (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  indice TEXT NOT NULL CHECK (indice IN ('ipca', 'igpm', 'inpc', 'selic', 'tr', 'ipcae', 'cdi')),
+  -- Primeiro dia do mês de referência
+  competencia DATE NOT NULL,
+  -- Variação percentual do mês (0.42 = 0,42%)
+  variacao NUMERIC(12,6) NOT NULL,
+  serie_sgs INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(indice, competencia)
+);
+
+-- Habilitar RLS
+ALTER TABLE public.indices_economicos ENABLE ROW LEVEL SECURITY;
+
+-- As séries são públicas e lidas pelas calculadoras
+CREATE POLICY "Anyone can view economic indices" 
+ON public.indices_economicos 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Admins can insert economic indices" 
+ON public.indices_economicos 
+FOR INSERT 
+TO authenticated
+WITH CHECK (public.is_current_user_admin());
+
+CREATE POLICY "Admins can update economic indices" 
+ON public.indices_economicos 
+FOR UPDATE 
+TO authenticated
+USING (public.is_current_user_admin());
+
+CREATE POLICY "Admins can delete economic indices" 
+ON public.indices_economicos 
+FOR DELETE 
+TO authenticated
+USING (public.is_current_user_admin());
+
+-- Trigger para atualizar updated_at
+CREATE TRIGGER update_indices_economicos_updated_at
+  BEFORE UPDATE ON public.indices_economicos
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
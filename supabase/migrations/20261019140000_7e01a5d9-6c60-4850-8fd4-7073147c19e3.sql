@@ -0,0 +1,28 @@
+-- Parcelamento revisado pela taxa média do BACEN na calculadora de contrato bancário
+ALTER TABLE public.calculo_contrato_historico
+ADD COLUMN IF NOT EXISTS sistema_amortizacao TEXT NULL,
+ADD COLUMN IF NOT EXISTS numero_parcelas INTEGER NULL,
+ADD COLUMN IF NOT EXISTS parcelas_pagas INTEGER NULL,
+ADD COLUMN IF NOT EXISTS modalidade_credito TEXT NULL,
+ADD COLUMN IF NOT EXISTS taxa_media_bacen NUMERIC NULL,
+ADD COLUMN IF NOT EXISTS repeticao_dobro BOOLEAN NOT NULL DEFAULT false;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'calculo_contrato_historico_sistema_amortizacao_check'
+  ) THEN
+    ALTER TABLE public.calculo_contrato_historico
+    ADD CONSTRAINT calculo_contrato_historico_sistema_amortizacao_check
+    CHECK (sistema_amortizacao IS NULL OR sistema_amortizacao IN ('price','sac','sacre'));
+  END IF;
+END $$;
+
+-- Taxas médias de juros do BACEN por modalidade de crédito, carregadas do SGS junto com os
+-- índices de correção para a revisão pela taxa média de mercado
+ALTER TABLE public.indices_economicos
+DROP CONSTRAINT IF EXISTS indices_economicos_indice_check;
+
+ALTER TABLE public.indices_economicos
+ADD CONSTRAINT indices_economicos_indice_check
+CHECK (indice IN ('ipca', 'igpm', 'inpc', 'selic', 'tr', 'ipcae', 'cdi', 'taxa_veiculos', 'taxa_pessoal', 'taxa_consignado'));
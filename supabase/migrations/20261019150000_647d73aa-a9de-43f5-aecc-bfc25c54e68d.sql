@@ -0,0 +1,5 @@
+-- Análise de capitalização (anatocismo) na calculadora de contrato bancário
+ALTER TABLE public.calculo_contrato_historico
+ADD COLUMN IF NOT EXISTS valor_parcela NUMERIC NULL,
+ADD COLUMN IF NOT EXISTS taxa_anual_declarada NUMERIC NULL,
+ADD COLUMN IF NOT EXISTS analise_capitalizacao JSONB NULL;
@@ -0,0 +1,3 @@
+-- Lista de pagamentos do extrato da calculadora de contrato bancário
+ALTER TABLE public.calculo_contrato_historico
+ADD COLUMN IF NOT EXISTS pagamentos JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,35 @@
+-- Modo rotativo (cheque especial e cartão de crédito) da calculadora de contrato bancário
+ALTER TABLE public.calculo_contrato_historico
+ADD COLUMN IF NOT EXISTS modo_calculo TEXT NOT NULL DEFAULT 'contrato',
+ADD COLUMN IF NOT EXISTS tipo_rotativo TEXT NULL,
+ADD COLUMN IF NOT EXISTS dia_fechamento INTEGER NULL,
+ADD COLUMN IF NOT EXISTS dia_vencimento INTEGER NULL,
+ADD COLUMN IF NOT EXISTS extrato_texto TEXT NULL,
+ADD COLUMN IF NOT EXISTS taxas_ciclos JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'calculo_contrato_historico_modo_calculo_check'
+  ) THEN
+    ALTER TABLE public.calculo_contrato_historico
+    ADD CONSTRAINT calculo_contrato_historico_modo_calculo_check
+    CHECK (modo_calculo IN ('contrato','rotativo'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'calculo_contrato_historico_tipo_rotativo_check'
+  ) THEN
+    ALTER TABLE public.calculo_contrato_historico
+    ADD CONSTRAINT calculo_contrato_historico_tipo_rotativo_check
+    CHECK (tipo_rotativo IS NULL OR tipo_rotativo IN ('cheque_especial','cartao'));
+  END IF;
+END $$;
+
+-- Juros diários sobre o saldo, capitalizados a cada ciclo, gravados como regime próprio
+ALTER TABLE public.calculo_contrato_historico
+DROP CONSTRAINT IF EXISTS calculo_contrato_historico_tipo_juros_check;
+
+ALTER TABLE public.calculo_contrato_historico
+ADD CONSTRAINT calculo_contrato_historico_tipo_juros_check
+CHECK (tipo_juros IN ('simples', 'compostos', 'rotativo'));
@@ -0,0 +1,4 @@
+-- Resultado estruturado (itens, períodos e fórmulas) da calculadora de contrato bancário,
+-- para renderizar e exportar cálculos antigos sem refazê-los
+ALTER TABLE public.calculo_contrato_historico
+ADD COLUMN IF NOT EXISTS resultado_estruturado JSONB NULL;
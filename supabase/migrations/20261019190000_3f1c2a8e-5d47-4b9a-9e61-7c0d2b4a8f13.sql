@@ -0,0 +1,63 @@
+-- Histórico da calculadora de atualização de débito judicial (cumprimento de sentença)
+CREATE TABLE public.calculo_debito_judicial_historico (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Dados do processo e critérios
+  processo TEXT,
+  exequente TEXT,
+  executado TEXT,
+  tribunal TEXT NOT NULL,
+  indice_correcao TEXT NOT NULL,
+  data_citacao DATE NOT NULL,
+  data_calculo DATE NOT NULL,
+  inicio_selic DATE,
+  juros_mensais DECIMAL(8,4) NOT NULL,
+  honorarios_sucumbencia DECIMAL(5,2) NOT NULL DEFAULT 0,
+  multa_523 BOOLEAN NOT NULL DEFAULT false,
+  honorarios_523 BOOLEAN NOT NULL DEFAULT false,
+  parcelas JSONB NOT NULL DEFAULT '[]'::jsonb,
+  observacoes TEXT,
+
+  -- Resultados do cálculo
+  valor_original DECIMAL(15,2) NOT NULL,
+  subtotal DECIMAL(15,2) NOT NULL,
+  valor_total DECIMAL(15,2) NOT NULL,
+  detalhamento TEXT NOT NULL,
+  calculo JSONB NOT NULL,
+
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.calculo_debito_judicial_historico ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own judicial debt calculations"
+ON public.calculo_debito_judicial_historico
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own judicial debt calculations"
+ON public.calculo_debito_judicial_historico
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own judicial debt calculations"
+ON public.calculo_debito_judicial_historico
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own judicial debt calculations"
+ON public.calculo_debito_judicial_historico
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_calculo_debito_judicial_historico_updated_at
+  BEFORE UPDATE ON public.calculo_debito_judicial_historico
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_calculo_debito_judicial_historico_user_id_created_at
+ON public.calculo_debito_judicial_historico(user_id, created_at DESC);
@@ -0,0 +1,64 @@
+-- Histórico da calculadora de verbas rescisórias (reclamação trabalhista)
+CREATE TABLE public.calculo_trabalhista_historico (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Dados do contrato
+  tipo_rescisao TEXT NOT NULL,
+  aviso_previo TEXT,
+  data_admissao DATE NOT NULL,
+  data_demissao DATE NOT NULL,
+  data_ajuizamento DATE,
+  data_calculo DATE NOT NULL,
+  historico_salarial JSONB NOT NULL DEFAULT '[]'::jsonb,
+  horas_extras JSONB NOT NULL DEFAULT '[]'::jsonb,
+  divisor_horas DECIMAL(6,2) NOT NULL DEFAULT 220,
+  ferias_vencidas INTEGER NOT NULL DEFAULT 0,
+  saldo_fgts DECIMAL(15,2),
+  fgts_pendente BOOLEAN NOT NULL DEFAULT false,
+  multa_477 BOOLEAN NOT NULL DEFAULT false,
+  multa_467 BOOLEAN NOT NULL DEFAULT false,
+  observacoes TEXT,
+
+  -- Resultados do cálculo
+  remuneracao DECIMAL(15,2) NOT NULL,
+  valor_nominal DECIMAL(15,2) NOT NULL,
+  valor_total DECIMAL(15,2) NOT NULL,
+  detalhamento TEXT NOT NULL,
+  calculo JSONB NOT NULL,
+
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.calculo_trabalhista_historico ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own labor calculations"
+ON public.calculo_trabalhista_historico
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own labor calculations"
+ON public.calculo_trabalhista_historico
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own labor calculations"
+ON public.calculo_trabalhista_historico
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own labor calculations"
+ON public.calculo_trabalhista_historico
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_calculo_trabalhista_historico_updated_at
+  BEFORE UPDATE ON public.calculo_trabalhista_historico
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_calculo_trabalhista_historico_user_id_created_at
+ON public.calculo_trabalhista_historico(user_id, created_at DESC);
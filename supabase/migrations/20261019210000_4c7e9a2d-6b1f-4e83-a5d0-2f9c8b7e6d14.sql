@@ -0,0 +1,9 @@
+-- Correção monetária e juros por parcela na calculadora de pensão alimentícia
+ALTER TABLE public.calculo_pensao_historico
+ADD COLUMN IF NOT EXISTS tribunal TEXT NULL,
+ADD COLUMN IF NOT EXISTS indice_correcao TEXT NULL,
+ADD COLUMN IF NOT EXISTS juros_mensais NUMERIC NULL,
+ADD COLUMN IF NOT EXISTS aplicar_multa BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS correcao_monetaria NUMERIC NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS pagamentos JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS parcelas JSONB NOT NULL DEFAULT '[]'::jsonb;
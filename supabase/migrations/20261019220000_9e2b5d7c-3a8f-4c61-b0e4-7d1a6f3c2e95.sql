@@ -0,0 +1,11 @@
+-- Pensão em percentual da renda: histórico de rendas mensais do alimentante
+ALTER TABLE public.calculo_pensao_historico
+ADD COLUMN IF NOT EXISTS historico_renda JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Amplia os tipos de cálculo aceitos ('percentual' continua válido para os registros antigos)
+ALTER TABLE public.calculo_pensao_historico
+DROP CONSTRAINT IF EXISTS calculo_pensao_historico_tipo_calculo_check;
+
+ALTER TABLE public.calculo_pensao_historico
+ADD CONSTRAINT calculo_pensao_historico_tipo_calculo_check
+CHECK (tipo_calculo IN ('percentual', 'fixo', 'salario_minimo', 'percentual_renda'));
@@ -0,0 +1,3 @@
+-- Execução de alimentos: data de ajuizamento que separa o rito da prisão do rito da penhora
+ALTER TABLE public.calculo_pensao_historico
+ADD COLUMN IF NOT EXISTS data_ajuizamento DATE;
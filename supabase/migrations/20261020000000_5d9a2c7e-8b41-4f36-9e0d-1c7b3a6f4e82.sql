@@ -0,0 +1,11 @@
+-- Simulações de revisão de alimentos (binômio necessidade-possibilidade): entrada e resultado
+ALTER TABLE public.calculo_pensao_historico
+ADD COLUMN IF NOT EXISTS simulacao JSONB;
+
+-- As simulações são gravadas com tipo_calculo próprio
+ALTER TABLE public.calculo_pensao_historico
+DROP CONSTRAINT IF EXISTS calculo_pensao_historico_tipo_calculo_check;
+
+ALTER TABLE public.calculo_pensao_historico
+ADD CONSTRAINT calculo_pensao_historico_tipo_calculo_check
+CHECK (tipo_calculo IN ('percentual', 'fixo', 'salario_minimo', 'percentual_renda', 'simulacao_revisional'));
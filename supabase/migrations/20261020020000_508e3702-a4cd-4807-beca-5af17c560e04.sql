@@ -0,0 +1,79 @@
+-- Salvamento atômico de uma versão do caso de execução penal: o caso (novo ou existente) e a
+-- versão são gravados na mesma transação. O UPDATE bloqueia a linha do caso, de modo que
+-- salvamentos simultâneos recebem versões seguidas, e uma falha na versão desfaz o incremento
+CREATE OR REPLACE FUNCTION public.salvar_versao_execucao_penal(
+  p_cliente_nome TEXT,
+  p_dados_sentenca JSONB,
+  p_episodios JSONB,
+  p_remissoes JSONB,
+  p_eventos JSONB,
+  p_incluir_dia_soltura BOOLEAN,
+  p_data_referencia DATE,
+  p_resultado JSONB DEFAULT NULL,
+  p_numero_processo TEXT DEFAULT NULL,
+  p_observacoes TEXT DEFAULT NULL,
+  p_caso_id UUID DEFAULT NULL
+) RETURNS public.execucao_penal_casos
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_caso public.execucao_penal_casos;
+BEGIN
+  IF p_caso_id IS NULL THEN
+    INSERT INTO public.execucao_penal_casos (
+      user_id,
+      cliente_nome,
+      numero_processo,
+      observacoes,
+      versao_atual
+    ) VALUES (
+      auth.uid(),
+      p_cliente_nome,
+      p_numero_processo,
+      p_observacoes,
+      1
+    )
+    RETURNING * INTO v_caso;
+  ELSE
+    UPDATE public.execucao_penal_casos
+    SET
+      cliente_nome = p_cliente_nome,
+      numero_processo = p_numero_processo,
+      observacoes = p_observacoes,
+      versao_atual = versao_atual + 1
+    WHERE id = p_caso_id
+    RETURNING * INTO v_caso;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Caso de execução penal não encontrado';
+    END IF;
+  END IF;
+
+  INSERT INTO public.execucao_penal_versoes (
+    caso_id,
+    user_id,
+    versao,
+    dados_sentenca,
+    episodios,
+    remissoes,
+    eventos,
+    incluir_dia_soltura,
+    resultado,
+    data_referencia
+  ) VALUES (
+    v_caso.id,
+    auth.uid(),
+    v_caso.versao_atual,
+    p_dados_sentenca,
+    p_episodios,
+    p_remissoes,
+    p_eventos,
+    p_incluir_dia_soltura,
+    p_resultado,
+    p_data_referencia
+  );
+
+  RETURN v_caso;
+END;
+$$;
@@ -0,0 +1,32 @@
+-- Salário mínimo nacional (série 1619 do SGS) em indices_economicos, importado pela tela de
+-- índices como as demais séries; a coluna variacao guarda o valor mensal em reais
+ALTER TABLE public.indices_economicos
+DROP CONSTRAINT IF EXISTS indices_economicos_indice_check;
+
+ALTER TABLE public.indices_economicos
+ADD CONSTRAINT indices_economicos_indice_check
+CHECK (indice IN ('ipca', 'igpm', 'inpc', 'selic', 'tr', 'ipcae', 'cdi', 'taxa_veiculos', 'taxa_pessoal', 'taxa_consignado', 'salario_minimo'));
+
+-- Valores que a calculadora de pensão trazia fixos no código; meses já importados não são alterados
+INSERT INTO public.indices_economicos (indice, competencia, variacao, serie_sgs)
+SELECT 'salario_minimo', competencia::date, valores.valor, 1619
+FROM (VALUES
+  ('2012-01-01'::date, '2012-12-01'::date, 622.00),
+  ('2013-01-01'::date, '2013-12-01'::date, 678.00),
+  ('2014-01-01'::date, '2014-12-01'::date, 724.00),
+  ('2015-01-01'::date, '2015-12-01'::date, 788.00),
+  ('2016-01-01'::date, '2016-12-01'::date, 880.00),
+  ('2017-01-01'::date, '2017-12-01'::date, 937.00),
+  ('2018-01-01'::date, '2018-12-01'::date, 954.00),
+  ('2019-01-01'::date, '2019-12-01'::date, 998.00),
+  ('2020-01-01'::date, '2020-01-01'::date, 1039.00),
+  ('2020-02-01'::date, '2020-12-01'::date, 1045.00),
+  ('2021-01-01'::date, '2021-12-01'::date, 1100.00),
+  ('2022-01-01'::date, '2022-12-01'::date, 1212.00),
+  ('2023-01-01'::date, '2023-04-01'::date, 1302.00),
+  ('2023-05-01'::date, '2023-12-01'::date, 1320.00),
+  ('2024-01-01'::date, '2024-12-01'::date, 1412.00),
+  ('2025-01-01'::date, '2025-12-01'::date, 1518.00)
+) AS valores(inicio, fim, valor)
+CROSS JOIN LATERAL generate_series(valores.inicio, valores.fim, interval '1 month') AS competencia
+ON CONFLICT (indice, competencia) DO NOTHING;